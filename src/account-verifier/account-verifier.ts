@@ -0,0 +1,222 @@
+import { spawn } from 'child_process'
+import * as readline from 'readline'
+import { EventEmitter } from 'events'
+import { UnifiedConfigManager } from '../shared/config-manager'
+import { CONFIG_CONSTANTS } from '../shared/types'
+import { TerminalService } from '../terminal-service'
+import { logger } from '../logger'
+import { AccountVerificationOptions, AccountVerificationResult, AccountVerificationStatus } from './types'
+
+/** 默认超时时间（毫秒） */
+const DEFAULT_TIMEOUT_MS = 30000
+/** 拦截器通过标准输出发送IPC消息的前缀 */
+const IPC_MESSAGE_PREFIX = '[IPC_MESSAGE] '
+/** 未发出请求时用于判断CLI未登录的输出 */
+const NOT_LOGGED_IN_PATTERN = /\/login|not logged in|invalid api key|please log ?in/i
+/** 保留的输出末尾长度 */
+const OUTPUT_TAIL_LENGTH = 2000
+
+/**
+ * 账号验证服务
+ * 以打印模式启动绑定到指定账号的Claude CLI子进程，并启用拦截器的验证模式：
+ * 拦截器在第一个对话请求发出前改用不消耗令牌的接口检查凭据，
+ * 通过标准输出的IPC消息返回结果，本服务据此给出结构化的验证结果。
+ * 保留扩展运行期间每个账号最近一次的验证结果，验证开始和结束时触发 'verification:changed' 事件
+ */
+export class AccountVerifier extends EventEmitter {
+  /** 每个账号最近一次完成的验证结果（不包括被取消的验证） */
+  private results = new Map<string, AccountVerificationResult>()
+  /** 正在验证的账号 */
+  private running = new Set<string>()
+
+  /**
+   * 构造函数
+   * @param terminalService - 终端服务，提供CLI路径和启动环境
+   * @param configManager - 统一配置管理器
+   */
+  constructor(
+    private terminalService: TerminalService,
+    private configManager: UnifiedConfigManager
+  ) {
+    super()
+  }
+
+  /**
+   * 获取账号最近一次的验证结果
+   * @param compositeId - 账号复合ID（providerId:accountId）
+   */
+  getLastResult(compositeId: string): AccountVerificationResult | undefined {
+    return this.results.get(compositeId)
+  }
+
+  /**
+   * 判断账号是否正在验证
+   */
+  isVerifying(compositeId: string): boolean {
+    return this.running.has(compositeId)
+  }
+
+  /**
+   * 判断账号能否验证
+   * 验证依赖拦截器的验证模式，只能通过网关启动的账号（OpenAI 兼容协议、SOCKS代理）无法验证
+   * @param compositeId - 账号复合ID（providerId:accountId）
+   */
+  canVerify(compositeId: string): boolean {
+    return !this.terminalService.getGatewayRequirement(compositeId)
+  }
+
+  /**
+   * 清除账号的验证结果，账号凭据或地址修改后原结果不再有效
+   */
+  clearResult(compositeId: string): void {
+    if (this.results.delete(compositeId)) {
+      this.emit('verification:changed', compositeId)
+    }
+  }
+
+  /**
+   * 验证账号凭据
+   * @param compositeId - 账号复合ID（providerId:accountId）
+   * @param options - 超时和取消选项
+   * @returns 验证结果，不会抛出异常
+   */
+  async verify(compositeId: string, options: AccountVerificationOptions = {}): Promise<AccountVerificationResult> {
+    this.running.add(compositeId)
+    this.emit('verification:changed', compositeId)
+    try {
+      const result = await this.runVerification(compositeId, options)
+      if (result.status !== 'cancelled') {
+        this.results.set(compositeId, result)
+      }
+      return result
+    } finally {
+      this.running.delete(compositeId)
+      this.emit('verification:changed', compositeId)
+    }
+  }
+
+  /**
+   * 启动CLI子进程完成一次验证
+   */
+  private async runVerification(compositeId: string, options: AccountVerificationOptions): Promise<AccountVerificationResult> {
+    const startedAt = Date.now()
+    const finish = (status: AccountVerificationStatus, message: string, extra: Partial<AccountVerificationResult> = {}): AccountVerificationResult => {
+      const result = { compositeId, status, message, authorizationCaptured: false, durationMs: Date.now() - startedAt, completedAt: Date.now(), ...extra }
+      logger.info(`Account verification for ${compositeId}: ${status} (${message})`, 'AccountVerifier')
+      return result
+    }
+
+    if (!this.configManager.getAccountBinding(compositeId)) {
+      return finish('error', 'Account not found')
+    }
+
+    const gatewayReason = this.terminalService.getGatewayRequirement(compositeId)
+    if (gatewayReason) {
+      return finish('error', `Verification is not available: the account ${gatewayReason} and always launches through the local gateway`)
+    }
+
+    const launch = await this.terminalService.prepareLaunch({ profile: null, account: compositeId, permissionMode: 'default', launchMode: 'interceptor' })
+    if (!launch) {
+      return finish('error', 'Claude CLI not found')
+    }
+
+    const abortController = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      abortController.abort()
+    }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+    const onCancel = () => abortController.abort()
+    options.signal?.addEventListener('abort', onCancel)
+    if (options.signal?.aborted) {
+      abortController.abort()
+    }
+
+    try {
+      return await new Promise<AccountVerificationResult>(resolve => {
+        let verification: { status: AccountVerificationStatus, message: string, httpStatus?: number } | undefined
+        let authorizationCaptured = false
+        let output = ''
+        let spawnError: Error | undefined
+
+        const childProcess = spawn(launch.claudePath, ['-p', '--max-turns', '1'], {
+          cwd: launch.cwd,
+          env: { ...launch.env, ...launch.commandEnv, [CONFIG_CONSTANTS.VERIFY_ENV]: '1' },
+          stdio: 'pipe',
+          signal: abortController.signal
+        })
+
+        const handleLine = (line: string) => {
+          if (!line.startsWith(IPC_MESSAGE_PREFIX)) {
+            output = (output + line + '\n').slice(-OUTPUT_TAIL_LENGTH)
+            return
+          }
+          try {
+            const message = JSON.parse(line.slice(IPC_MESSAGE_PREFIX.length))
+            if (message.type === 'VERIFICATION_RESULT') {
+              verification = { status: message.status, message: message.message, httpStatus: message.httpStatus }
+            } else if (message.type === 'AUTHORIZATION_UPDATE') {
+              authorizationCaptured = true
+            }
+          } catch {
+            // 忽略格式错误的IPC消息
+          }
+        }
+        readline.createInterface({ input: childProcess.stdout, crlfDelay: Infinity }).on('line', handleLine)
+        readline.createInterface({ input: childProcess.stderr, crlfDelay: Infinity }).on('line', handleLine)
+
+        childProcess.on('error', error => {
+          spawnError = error
+        })
+
+        childProcess.on('close', code => {
+          if (verification) {
+            resolve(finish(verification.status, verification.message, { httpStatus: verification.httpStatus, authorizationCaptured }))
+          } else if (timedOut) {
+            resolve(finish('timeout', 'No response from Claude CLI before the timeout', { authorizationCaptured }))
+          } else if (abortController.signal.aborted) {
+            resolve(finish('cancelled', 'Verification cancelled', { authorizationCaptured }))
+          } else if (spawnError) {
+            resolve(finish('error', spawnError.message))
+          } else if (NOT_LOGGED_IN_PATTERN.test(output)) {
+            resolve(finish('not_logged_in', 'Claude CLI is not logged in', { authorizationCaptured }))
+          } else {
+            const lastLine = output.trim().split('\n').pop()
+            resolve(finish('error', lastLine || `Claude CLI exited with code ${code} without making a request`, { authorizationCaptured }))
+          }
+        })
+
+        childProcess.stdin.on('error', () => {
+          // 进程提前退出时写入stdin会失败，结果由close事件处理
+        })
+        childProcess.stdin.end('ping')
+      })
+    } finally {
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', onCancel)
+      launch.release()
+    }
+  }
+}
+
+/**
+ * 将验证结果格式化为面向用户的说明
+ */
+export function describeVerificationResult(result: AccountVerificationResult): string {
+  switch (result.status) {
+    case 'ok':
+      return 'Credentials are valid'
+    case 'expired':
+      return `Credentials are invalid or expired: ${result.message}`
+    case 'not_logged_in':
+      return 'Claude CLI is not logged in'
+    case 'network_error':
+      return `Network or proxy error: ${result.message}`
+    case 'timeout':
+      return 'Verification timed out'
+    case 'cancelled':
+      return 'Verification cancelled'
+    default:
+      return result.message
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * 账号验证模块导出
+ * 通过Claude CLI子进程和拦截器验证模式检查账号凭据
+ */
+
+/** 账号验证服务 - 返回结构化的验证结果，支持超时和取消，保留各账号最近的验证状态 */
+export { AccountVerifier, describeVerificationResult } from './account-verifier'
+
+/** 导出所有类型定义 */
+export * from './types'
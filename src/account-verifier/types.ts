@@ -0,0 +1,48 @@
+/**
+ * 账号验证状态
+ * - ok: 凭据有效
+ * - expired: 凭据无效或已过期（HTTP 401）
+ * - not_logged_in: Claude CLI未登录，没有发出请求
+ * - network_error: 网络或代理错误
+ * - timeout: 超时未得到结果
+ * - cancelled: 被取消
+ * - error: 其他错误（例如账号不存在、CLI启动失败、非预期的HTTP状态）
+ */
+export type AccountVerificationStatus =
+  | 'ok'
+  | 'expired'
+  | 'not_logged_in'
+  | 'network_error'
+  | 'timeout'
+  | 'cancelled'
+  | 'error'
+
+/**
+ * 账号验证结果
+ */
+export interface AccountVerificationResult {
+  /** 被验证账号的复合ID（providerId:accountId） */
+  compositeId: string
+  /** 验证状态 */
+  status: AccountVerificationStatus
+  /** 结果说明 */
+  message: string
+  /** 验证接口返回的HTTP状态码（可选） */
+  httpStatus?: number
+  /** 拦截器是否捕获并上报了新的授权令牌 */
+  authorizationCaptured: boolean
+  /** 耗时（毫秒） */
+  durationMs: number
+  /** 完成时间（时间戳，毫秒） */
+  completedAt: number
+}
+
+/**
+ * 账号验证选项
+ */
+export interface AccountVerificationOptions {
+  /** 超时时间（毫秒），默认30秒 */
+  timeoutMs?: number
+  /** 取消信号（可选） */
+  signal?: AbortSignal
+}
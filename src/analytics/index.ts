@@ -0,0 +1,16 @@
+/**
+ * 用量分析模块导出
+ * 提供令牌用量统计、费用估算和用量仪表盘
+ */
+
+/** 提供商活动记录 - 记录活动账号切换时间，用于用量归属 */
+export { ProviderActivityLog } from './provider-activity-log'
+
+/** 用量分析服务 - 按会话、项目、天、模型和账号汇总用量 */
+export { UsageAnalytics, formatTokenCount, formatCost, formatUsageLines } from './usage-analytics'
+
+/** 用量仪表盘 - 只读Webview报表 */
+export { UsageDashboardPanel } from './usage-dashboard'
+
+/** 导出所有类型定义 */
+export * from './types'
@@ -0,0 +1,91 @@
+import * as vscode from 'vscode'
+import { UnifiedConfigManager } from '../shared/config-manager'
+import { ProviderActivityEntry } from './types'
+
+/** 全局状态中保存活动记录的键 */
+const ACTIVITY_STATE_KEY = 'ccCopilot.providerActivity'
+/** 最多保留的活动记录数 */
+const MAX_ENTRIES = 1000
+
+/**
+ * 提供商活动记录
+ * 会话文件中没有记录使用的账号，因此在活动提供商/账号变化时记录切换时间，
+ * 统计用量时按消息时间查找当时的活动账号
+ */
+export class ProviderActivityLog implements vscode.Disposable {
+  /** 按时间升序排列的活动记录 */
+  private entries: ProviderActivityEntry[]
+  /** 配置变化监听器 */
+  private readonly onActiveAccountChanged = () => this.record()
+  /** 会导致活动账号变化的配置事件 */
+  private static readonly EVENTS = [
+    'config:changed',
+    'serviceProvider:activated',
+    'provider:activatedByComposite',
+    'activeAccount:changed',
+    'claudeAccount:activated'
+  ]
+
+  /**
+   * 构造函数
+   * @param context - VSCode扩展上下文
+   * @param configManager - 统一配置管理器
+   */
+  constructor(
+    private context: vscode.ExtensionContext,
+    private configManager: UnifiedConfigManager
+  ) {
+    this.entries = context.globalState.get<ProviderActivityEntry[]>(ACTIVITY_STATE_KEY, [])
+    for (const event of ProviderActivityLog.EVENTS) {
+      this.configManager.on(event, this.onActiveAccountChanged)
+    }
+    this.record()
+  }
+
+  /**
+   * 查找指定时间的活动账号
+   * @param timestamp - ISO时间字符串
+   * @returns 活动记录，早于首条记录（开始记录之前）时返回null
+   */
+  getActiveAt(timestamp: string): ProviderActivityEntry | null {
+    let result: ProviderActivityEntry | null = null
+    for (const entry of this.entries) {
+      if (entry.at > timestamp) {
+        break
+      }
+      result = entry
+    }
+    return result
+  }
+
+  /**
+   * 活动账号变化时追加记录
+   */
+  private record(): void {
+    const binding = this.configManager.getActiveAccountBinding()
+    const compositeId = binding?.compositeId || ''
+    const last = this.entries[this.entries.length - 1]
+    if (last && last.compositeId === compositeId) {
+      return
+    }
+
+    this.entries.push({
+      at: new Date().toISOString(),
+      compositeId,
+      label: binding?.label || 'No active account'
+    })
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES)
+    }
+    this.context.globalState.update(ACTIVITY_STATE_KEY, this.entries)
+  }
+
+  /**
+   * 移除事件监听
+   */
+  dispose(): void {
+    for (const event of ProviderActivityLog.EVENTS) {
+      this.configManager.off(event, this.onActiveAccountChanged)
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { TokenUsage } from '../shared/types'
+
+/**
+ * 账号活动记录
+ * 记录某一时刻起生效的活动提供商/账号，用于将用量归属到当时的账号
+ */
+export interface ProviderActivityEntry {
+  /** 生效时间（ISO字符串） */
+  at: string
+  /** 复合ID（providerId:accountId），没有活动账号时为空字符串 */
+  compositeId: string
+  /** 显示名称 */
+  label: string
+}
+
+/**
+ * 用量汇总
+ */
+export interface UsageSummary {
+  /** 令牌用量 */
+  usage: TokenUsage
+  /** 估算费用（美元） */
+  cost: number
+  /** 未在价格表中找到价格的模型 */
+  unpricedModels: string[]
+}
+
+/**
+ * 用量报表中的一行
+ */
+export interface UsageRow {
+  /** 分组键 */
+  key: string
+  /** 显示名称 */
+  label: string
+  /** 用量汇总 */
+  summary: UsageSummary
+}
+
+/**
+ * 用量报表
+ */
+export interface UsageReport {
+  /** 全部用量 */
+  total: UsageSummary
+  /** 按项目分组 */
+  byProject: UsageRow[]
+  /** 按天分组（本地日期，倒序） */
+  byDay: UsageRow[]
+  /** 按模型分组 */
+  byModel: UsageRow[]
+  /** 按提供商/账号分组 */
+  byAccount: UsageRow[]
+}
@@ -0,0 +1,206 @@
+import { UnifiedConfigManager } from '../shared/config-manager'
+import { Session, TokenUsage, UsageBucket } from '../shared/types'
+import { SessionManager, addUsage, createEmptyUsage } from '../session-manager'
+import { ProviderActivityLog } from './provider-activity-log'
+import { UsageReport, UsageRow, UsageSummary } from './types'
+
+/** 开始记录活动账号之前的用量归属 */
+const UNATTRIBUTED_KEY = 'unattributed'
+
+/**
+ * 用量分析服务
+ * 基于同步时统计的会话用量，按会话、项目、天、模型和账号汇总令牌数并估算费用
+ */
+export class UsageAnalytics {
+  /**
+   * 构造函数
+   * @param sessionManager - 会话管理器
+   * @param configManager - 统一配置管理器（提供价格表）
+   * @param activityLog - 提供商活动记录
+   */
+  constructor(
+    private sessionManager: SessionManager,
+    private configManager: UnifiedConfigManager,
+    private activityLog: ProviderActivityLog
+  ) {}
+
+  /**
+   * 估算用量费用
+   * @param model - 模型名称
+   * @param usage - 令牌用量
+   * @returns 费用（美元），模型没有价格时返回null
+   */
+  estimateCost(model: string, usage: TokenUsage): number | null {
+    const price = this.configManager.getModelPrice(model)
+    if (!price) {
+      return null
+    }
+    return (
+      usage.inputTokens * price.input +
+      usage.outputTokens * price.output +
+      usage.cacheCreationInputTokens * price.cacheWrite +
+      usage.cacheReadInputTokens * price.cacheRead
+    ) / 1_000_000
+  }
+
+  /**
+   * 汇总单个会话的用量
+   */
+  getSessionSummary(session: Session): UsageSummary {
+    return this.summarize(session.usage?.buckets || [])
+  }
+
+  /**
+   * 汇总项目下所有会话的用量
+   */
+  getProjectSummary(projectId: string): UsageSummary {
+    return this.summarize(this.sessionManager.getSessions(projectId).flatMap(session => session.usage?.buckets || []))
+  }
+
+  /**
+   * 生成完整用量报表
+   */
+  buildReport(): UsageReport {
+    const allBuckets: UsageBucket[] = []
+    const byProject = new Map<string, { label: string, buckets: UsageBucket[] }>()
+    const byDay = new Map<string, UsageBucket[]>()
+    const byModel = new Map<string, UsageBucket[]>()
+    const byAccount = new Map<string, { label: string, buckets: UsageBucket[] }>()
+
+    for (const session of this.sessionManager.getAllSessions()) {
+      const buckets = session.usage?.buckets || []
+      if (buckets.length === 0) {
+        continue
+      }
+
+      const project = this.sessionManager.getProjectById(session.projectId)
+      const projectGroup = byProject.get(session.projectId) || { label: project?.name || session.projectId, buckets: [] }
+      projectGroup.buckets.push(...buckets)
+      byProject.set(session.projectId, projectGroup)
+
+      for (const bucket of buckets) {
+        allBuckets.push(bucket)
+        this.pushToGroup(byDay, this.getLocalDay(bucket.hour), bucket)
+        this.pushToGroup(byModel, bucket.model, bucket)
+
+        // 绑定账号之后的用量归属到终端绑定的账号，否则按消息时间查找当时的活动账号
+        const account = session.account && session.account.boundAt && bucket.lastAt >= session.account.boundAt
+          ? session.account
+          : this.activityLog.getActiveAt(bucket.lastAt)
+        const accountKey = account ? account.compositeId || 'none' : UNATTRIBUTED_KEY
+        const accountGroup = byAccount.get(accountKey) || {
+          label: account ? account.label : 'Before usage tracking',
+          buckets: []
+        }
+        accountGroup.buckets.push(bucket)
+        byAccount.set(accountKey, accountGroup)
+      }
+    }
+
+    const toRows = (groups: Map<string, { label: string, buckets: UsageBucket[] }>): UsageRow[] =>
+      Array.from(groups.entries())
+        .map(([key, group]) => ({ key, label: group.label, summary: this.summarize(group.buckets) }))
+        .sort((a, b) => b.summary.cost - a.summary.cost || this.totalTokens(b.summary.usage) - this.totalTokens(a.summary.usage))
+
+    const withLabels = (groups: Map<string, UsageBucket[]>) =>
+      new Map(Array.from(groups.entries()).map(([key, buckets]) => [key, { label: key, buckets }]))
+
+    return {
+      total: this.summarize(allBuckets),
+      byProject: toRows(byProject),
+      byDay: toRows(withLabels(byDay)).sort((a, b) => b.key.localeCompare(a.key)),
+      byModel: toRows(withLabels(byModel)),
+      byAccount: toRows(byAccount)
+    }
+  }
+
+  /**
+   * 计算总令牌数（含缓存）
+   */
+  totalTokens(usage: TokenUsage): number {
+    return usage.inputTokens + usage.outputTokens + usage.cacheCreationInputTokens + usage.cacheReadInputTokens
+  }
+
+  /**
+   * 汇总分桶用量并估算费用
+   */
+  private summarize(buckets: UsageBucket[]): UsageSummary {
+    const usage = createEmptyUsage()
+    const unpricedModels = new Set<string>()
+    let cost = 0
+
+    for (const bucket of buckets) {
+      addUsage(usage, bucket.usage)
+      const bucketCost = this.estimateCost(bucket.model, bucket.usage)
+      if (bucketCost === null) {
+        unpricedModels.add(bucket.model)
+      } else {
+        cost += bucketCost
+      }
+    }
+
+    return { usage, cost, unpricedModels: Array.from(unpricedModels) }
+  }
+
+  /**
+   * 将分桶加入分组
+   */
+  private pushToGroup(groups: Map<string, UsageBucket[]>, key: string, bucket: UsageBucket): void {
+    const group = groups.get(key)
+    if (group) {
+      group.push(bucket)
+    } else {
+      groups.set(key, [bucket])
+    }
+  }
+
+  /**
+   * 将小时起点转换为本地日期（YYYY-MM-DD）
+   */
+  private getLocalDay(hour: string): string {
+    const date = new Date(hour)
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
+    return `${date.getFullYear()}-${month}-${day}`
+  }
+}
+
+/**
+ * 格式化令牌数，例如 1234 → 1.2k
+ */
+export function formatTokenCount(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`
+  }
+  if (count >= 1_000) {
+    return `${(count / 1_000).toFixed(1)}k`
+  }
+  return String(count)
+}
+
+/**
+ * 格式化费用
+ */
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`
+}
+
+/**
+ * 生成用量汇总的提示文本行，没有用量时返回空数组
+ */
+export function formatUsageLines(summary: UsageSummary): string[] {
+  const { usage } = summary
+  if (usage.requests === 0) {
+    return []
+  }
+
+  const lines = [
+    `Tokens: ${formatTokenCount(usage.inputTokens)} in · ${formatTokenCount(usage.outputTokens)} out · ` +
+      `${formatTokenCount(usage.cacheCreationInputTokens)} cache write · ${formatTokenCount(usage.cacheReadInputTokens)} cache read`,
+    `Estimated Cost: ${formatCost(summary.cost)}`
+  ]
+  if (summary.unpricedModels.length > 0) {
+    lines.push(`No price configured for: ${summary.unpricedModels.join(', ')}`)
+  }
+  return lines
+}
@@ -0,0 +1,171 @@
+import * as vscode from 'vscode'
+import { SessionManager } from '../session-manager'
+import { UnifiedConfigManager } from '../shared/config-manager'
+import { escapeHtml } from '../transcript'
+import { UsageAnalytics, formatCost, formatTokenCount } from './usage-analytics'
+import { UsageRow, UsageSummary } from './types'
+
+/** Webview内容安全策略：禁止脚本和外部资源，只允许内联样式 */
+const WEBVIEW_CSP = "default-src 'none'; style-src 'unsafe-inline';"
+/** 按天表格显示的最近天数 */
+const DAYS_SHOWN = 30
+
+/**
+ * 用量仪表盘
+ * 以只读Webview展示按项目、天、模型和账号汇总的令牌用量与估算费用，
+ * 会话同步或价格表变化时自动刷新
+ */
+export class UsageDashboardPanel implements vscode.Disposable {
+  /** 当前打开的面板 */
+  private panel: vscode.WebviewPanel | null = null
+  /** 数据变化监听器 */
+  private readonly onDataChanged = () => this.render()
+
+  /**
+   * 构造函数
+   * @param sessionManager - 会话管理器
+   * @param configManager - 统一配置管理器
+   * @param analytics - 用量分析服务
+   */
+  constructor(
+    private sessionManager: SessionManager,
+    private configManager: UnifiedConfigManager,
+    private analytics: UsageAnalytics
+  ) {
+    this.sessionManager.on('sessions:synced', this.onDataChanged)
+    this.configManager.on('config:changed', this.onDataChanged)
+  }
+
+  /**
+   * 打开仪表盘，已打开时直接显示
+   */
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal()
+      return
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      'cc-copilot.usageDashboard',
+      'Claude Usage',
+      vscode.ViewColumn.Active,
+      { enableScripts: false, enableFindWidget: true }
+    )
+    this.panel.onDidDispose(() => {
+      this.panel = null
+    })
+    this.render()
+  }
+
+  /**
+   * 重新生成报表并渲染
+   */
+  private render(): void {
+    if (!this.panel) {
+      return
+    }
+
+    const report = this.analytics.buildReport()
+    const sections = [
+      this.renderTable('By Project', 'Project', report.byProject),
+      this.renderTable(`By Day (last ${DAYS_SHOWN} days)`, 'Day', report.byDay.slice(0, DAYS_SHOWN)),
+      this.renderTable('By Model', 'Model', report.byModel),
+      this.renderTable('By Provider / Account', 'Account', report.byAccount)
+    ]
+
+    this.panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${WEBVIEW_CSP}">
+<title>Claude Usage</title>
+<style>${DASHBOARD_STYLES}</style>
+</head>
+<body>
+<h1>Claude Usage</h1>
+<div class="totals">
+${this.renderTotal('Estimated Cost', formatCost(report.total.cost))}
+${this.renderTotal('Requests', String(report.total.usage.requests))}
+${this.renderTotal('Input', formatTokenCount(report.total.usage.inputTokens))}
+${this.renderTotal('Output', formatTokenCount(report.total.usage.outputTokens))}
+${this.renderTotal('Cache Write', formatTokenCount(report.total.usage.cacheCreationInputTokens))}
+${this.renderTotal('Cache Read', formatTokenCount(report.total.usage.cacheReadInputTokens))}
+</div>
+${this.renderUnpricedNote(report.total)}
+${sections.join('\n')}
+<p class="note">Costs are estimates based on the <code>ccCopilot.modelPricing</code> setting. Usage is attributed to the account the session's terminal was pinned to, otherwise to the provider/account that was active when the messages were sent, at hourly granularity.</p>
+</body>
+</html>`
+  }
+
+  /**
+   * 渲染汇总卡片
+   */
+  private renderTotal(label: string, value: string): string {
+    return `<div class="total"><div class="value">${escapeHtml(value)}</div><div class="label">${escapeHtml(label)}</div></div>`
+  }
+
+  /**
+   * 渲染缺少价格的模型提示
+   */
+  private renderUnpricedNote(summary: UsageSummary): string {
+    if (summary.unpricedModels.length === 0) {
+      return ''
+    }
+    return `<p class="warning">No price configured for: ${summary.unpricedModels.map(model => `<code>${escapeHtml(model)}</code>`).join(', ')}. Their tokens are not included in the cost.</p>`
+  }
+
+  /**
+   * 渲染分组表格
+   */
+  private renderTable(title: string, keyHeader: string, rows: UsageRow[]): string {
+    const body = rows.length > 0
+      ? rows.map(row => `<tr>
+<td>${escapeHtml(row.label)}</td>
+<td>${row.summary.usage.requests}</td>
+<td>${formatTokenCount(row.summary.usage.inputTokens)}</td>
+<td>${formatTokenCount(row.summary.usage.outputTokens)}</td>
+<td>${formatTokenCount(row.summary.usage.cacheCreationInputTokens)}</td>
+<td>${formatTokenCount(row.summary.usage.cacheReadInputTokens)}</td>
+<td>${formatCost(row.summary.cost)}${row.summary.unpricedModels.length > 0 ? ' *' : ''}</td>
+</tr>`).join('\n')
+      : '<tr><td colspan="7" class="empty">No usage recorded yet.</td></tr>'
+
+    return `<h2>${escapeHtml(title)}</h2>
+<table>
+<thead><tr><th>${escapeHtml(keyHeader)}</th><th>Requests</th><th>Input</th><th>Output</th><th>Cache Write</th><th>Cache Read</th><th>Est. Cost</th></tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>`
+  }
+
+  /**
+   * 关闭面板并移除事件监听
+   */
+  dispose(): void {
+    this.sessionManager.off('sessions:synced', this.onDataChanged)
+    this.configManager.off('config:changed', this.onDataChanged)
+    this.panel?.dispose()
+    this.panel = null
+  }
+}
+
+/**
+ * 仪表盘样式，使用VSCode主题变量
+ */
+const DASHBOARD_STYLES = `
+body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); background: var(--vscode-editor-background); padding: 0 16px 32px; }
+h1 { font-size: 1.4em; }
+h2 { font-size: 1.1em; margin-top: 24px; }
+.totals { display: flex; flex-wrap: wrap; gap: 12px; }
+.total { border: 1px solid var(--vscode-panel-border); padding: 8px 16px; min-width: 100px; }
+.total .value { font-size: 1.4em; font-weight: bold; }
+.total .label, .note, .empty { color: var(--vscode-descriptionForeground); }
+.warning { color: var(--vscode-editorWarning-foreground); }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: right; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+th:first-child, td:first-child { text-align: left; }
+th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+code { font-family: var(--vscode-editor-font-family); }
+`
@@ -4,6 +4,28 @@ const ClaudeInterceptor = require('./claude-interceptor/claude-interceptor');
 // 全局拦截器实例
 let globalInterceptor = null;
 
+/**
+ * 从NODE_OPTIONS中移除预加载本脚本的参数
+ * 扩展在Claude命令上通过NODE_OPTIONS预加载拦截器，移除后Claude CLI启动的子进程（如MCP服务器）不会再加载拦截器
+ */
+function removeSelfFromNodeOptions() {
+    const nodeOptions = process.env.NODE_OPTIONS;
+    if (!nodeOptions || !nodeOptions.includes(__filename)) {
+        return;
+    }
+
+    const remaining = nodeOptions
+        .split(`--require "${__filename}"`).join('')
+        .split(`--require ${__filename}`).join('')
+        .trim();
+
+    if (remaining) {
+        process.env.NODE_OPTIONS = remaining;
+    } else {
+        delete process.env.NODE_OPTIONS;
+    }
+}
+
 function initializeClaudeInterceptor() {
     if (globalInterceptor) {
         console.warn('[SILENT] [Claude Interceptor] Interceptor already initialized');
@@ -17,6 +39,7 @@ function initializeClaudeInterceptor() {
 }
 
 // 立即初始化
+removeSelfFromNodeOptions();
 initializeClaudeInterceptor();
 
 // 进程退出时清理资源
@@ -3,6 +3,7 @@ const UnifiedConfigManager = require('./unified-config');
 const UnifiedAccountManager = require('./unified-account-manager');
 const ProxyManager = require('./proxy-manager');
 const RequestInterceptor = require('./request-interceptor');
+const IpcClient = require('./ipc-client');
 
 /**
  * Claude CLI请求拦截器主类
@@ -81,6 +82,21 @@ class ClaudeInterceptor {
         this.requestInterceptor.instrumentFetch();
         this.requestInterceptor.instrumentNodeHTTP();
 
+        // 交接文件已用完时向扩展请求密钥，获得后刷新配置（代理密码也可能来自扩展）
+        this.accountManager.config.prefetchSecrets().then(received => {
+            if (received) {
+                this.refreshConfig();
+            }
+        });
+
+        IpcClient.getInstance().send('INTERCEPTOR_STARTED', {
+            boundAccount: process.env[this.configManager.ACCOUNT_BINDING_ENV],
+            accountLabel: this.accountInfo
+                ? this.accountInfo.emailAddress || `${this.accountInfo.providerName} - ${this.accountInfo.name}`
+                : undefined,
+            nodeVersion: process.version
+        });
+
         console.log('[TERMINAL] [Claude Interceptor] Interceptor initialization completed');
         console.log('[SILENT] [Claude Interceptor] Config file monitoring enabled with hot reload support');
     }
@@ -107,6 +123,7 @@ class ClaudeInterceptor {
             console.log('[TERMINAL] [Claude Interceptor] Configuration refreshed');
         } catch (error) {
             console.error('[SILENT] [Claude Interceptor] Failed to refresh config:', error.message);
+            IpcClient.getInstance().send('INTERCEPTOR_ERROR', { context: 'refreshConfig', message: error.message });
         }
     }
 
@@ -12,6 +12,36 @@ const PROVIDER_TYPE_THIRD_PARTY = 'third_party';
 /** 配置检查间隔时间（毫秒） - 每30秒检查一次配置更新 */
 const CONFIG_CHECK_INTERVAL = 30000; // 30秒
 
+/** 启用账号验证模式的环境变量 */
+const VERIFY_ENV = 'CC_COPILOT_VERIFY';
+
+/** IPC协议版本，与扩展端的 IPC_PROTOCOL_VERSION 保持一致 */
+const IPC_PROTOCOL_VERSION = 1;
+
+/** 扩展传递IPC端点（套接字路径或命名管道）的环境变量 */
+const IPC_ENDPOINT_ENV = 'CC_COPILOT_IPC';
+
+/** IPC消息文件队列目录（位于用户主目录下） */
+const IPC_SPOOL_DIR = '.cc-copilot-auth-updates';
+
+/** 等待扩展确认消息的时间（毫秒），超时后写入文件队列 */
+const IPC_ACK_TIMEOUT = 3000;
+
+/** 账号冷却记录文件（位于用户主目录下），由扩展根据故障转移消息写入 */
+const COOLDOWN_FILE = '.cc-copilot-cooldowns.json';
+
+/** 默认触发故障转移的HTTP状态码：限流、认证失败、服务过载 */
+const DEFAULT_FAILOVER_STATUSES = [429, 401, 529];
+
+/** 默认账号冷却时间（秒） */
+const DEFAULT_FAILOVER_COOLDOWN_SECONDS = 300;
+
+/** 等待扩展选择密钥的时间（毫秒），超时后使用本进程内的选择状态 */
+const KEY_SELECT_TIMEOUT = 1000;
+
+/** 重新读取共享冷却记录的间隔（毫秒） */
+const COOLDOWN_REFRESH_INTERVAL = 5000;
+
 /**
  * 导出所有常量
  * 供其他模块使用的常量定义
@@ -19,5 +49,15 @@ const CONFIG_CHECK_INTERVAL = 30000; // 30秒
 module.exports = {
     PROVIDER_TYPE_CLAUDE_OFFICIAL,
     PROVIDER_TYPE_THIRD_PARTY,
-    CONFIG_CHECK_INTERVAL
+    CONFIG_CHECK_INTERVAL,
+    VERIFY_ENV,
+    IPC_PROTOCOL_VERSION,
+    IPC_ENDPOINT_ENV,
+    IPC_SPOOL_DIR,
+    IPC_ACK_TIMEOUT,
+    COOLDOWN_FILE,
+    DEFAULT_FAILOVER_STATUSES,
+    DEFAULT_FAILOVER_COOLDOWN_SECONDS,
+    KEY_SELECT_TIMEOUT,
+    COOLDOWN_REFRESH_INTERVAL
 };
\ No newline at end of file
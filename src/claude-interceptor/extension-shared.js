@@ -0,0 +1,17 @@
+/**
+ * 与扩展共用的实现
+ * 源码位于 src/shared 下的 TypeScript 模块，拦截器加载扩展编译输出目录（out）中的结果；
+ * 拦截器本身从扩展目录下的 src 加载，打包后的扩展同时包含这两个目录
+ */
+const path = require('path');
+
+/** 扩展编译输出中共用模块所在的目录 */
+const SHARED_DIR = path.join(__dirname, '..', '..', 'out', 'shared');
+
+const { ModelMapper } = require(path.join(SHARED_DIR, 'model-mapper'));
+const { pickKey } = require(path.join(SHARED_DIR, 'key-selection'));
+
+module.exports = {
+    ModelMapper,
+    pickKey
+};
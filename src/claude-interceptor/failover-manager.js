@@ -0,0 +1,149 @@
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const IpcClient = require('./ipc-client');
+const { COOLDOWN_FILE, DEFAULT_FAILOVER_STATUSES, DEFAULT_FAILOVER_COOLDOWN_SECONDS, COOLDOWN_REFRESH_INTERVAL } = require('./constants');
+
+/**
+ * 故障转移管理器
+ * 当前账号返回限流、认证失败或过载时，按故障转移组中的顺序改用下一个可用账号，
+ * 出错的账号进入冷却期，冷却结束后恢复使用原账号，并以 ACCOUNT_FAILOVER 消息通知扩展记录冷却和提示用户。
+ * 只有fetch发出的请求会在接替的账号上重新发送；Node http/https请求的请求体已经流式写出，
+ * 无法重放，出错的请求原样返回给CLI，由CLI自行重试时使用接替的账号
+ */
+class FailoverManager {
+    constructor(accountManager) {
+        this.accountManager = accountManager;
+        // 本进程内触发过故障转移的账号：复合ID -> 冷却结束时间
+        this.cooldowns = new Map();
+        // 扩展写入的冷却记录，在后台定期异步读取，请求时只使用缓存
+        this.sharedCooldowns = {};
+        this.sharedCooldownsReadAt = 0;
+        this.readingSharedCooldowns = false;
+    }
+
+    /**
+     * 获取账号所在的故障转移组
+     * @param compositeId - 复合ID（providerId:accountId）
+     */
+    getGroup(compositeId) {
+        if (!compositeId) {
+            return null;
+        }
+        const groups = this.accountManager.config.getVSCodeConfig().failoverGroups || [];
+        return groups.find(group => Array.isArray(group.accounts) && group.accounts.includes(compositeId)) || null;
+    }
+
+    /**
+     * 处理响应状态码
+     * 状态码触发故障转移时切换到下一个账号
+     * @param status - HTTP状态码
+     * @param accountInfo - 发出请求时使用的账号信息
+     * @returns 接替的账号信息，不需要或无法故障转移时返回null
+     */
+    handleStatus(status, accountInfo) {
+        const group = this.getGroup(accountInfo?.compositeId);
+        if (!group) {
+            return null;
+        }
+
+        const statuses = Array.isArray(group.statuses) && group.statuses.length > 0 ? group.statuses : DEFAULT_FAILOVER_STATUSES;
+        if (!statuses.includes(status)) {
+            return null;
+        }
+
+        const cooldownSeconds = group.cooldownSeconds ?? DEFAULT_FAILOVER_COOLDOWN_SECONDS;
+        const cooldownUntil = Date.now() + cooldownSeconds * 1000;
+        this.cooldowns.set(accountInfo.compositeId, cooldownUntil);
+
+        const next = this.findNextAccount(group, accountInfo.compositeId);
+        if (!next) {
+            console.warn(`[TERMINAL] [Claude Interceptor] ⚠️ ${this.describe(accountInfo)} returned HTTP ${status}, no account left in failover group "${group.name}"`);
+            return null;
+        }
+
+        this.accountManager.config.setFailoverAccount(next.compositeId, cooldownUntil);
+        console.log(`[TERMINAL] [Claude Interceptor] 🔀 ${this.describe(accountInfo)} returned HTTP ${status}, switched to ${this.describe(next)}`);
+
+        try {
+            IpcClient.getInstance().send('ACCOUNT_FAILOVER', {
+                group: group.name,
+                from: accountInfo.compositeId,
+                fromLabel: this.describe(accountInfo),
+                to: next.compositeId,
+                toLabel: this.describe(next),
+                status,
+                cooldownUntil
+            });
+        } catch (error) {
+            console.warn('[SILENT] [Claude Interceptor] Failed to notify account failover:', error.message);
+        }
+
+        return next;
+    }
+
+    /**
+     * 按组内顺序查找下一个可用账号
+     * 从出错账号之后开始循环查找，跳过冷却中和没有凭据的账号；
+     * OpenAI 兼容协议的账号需要本地网关转换请求，拦截器无法使用，也跳过
+     */
+    findNextAccount(group, failedId) {
+        const config = this.accountManager.config;
+        const serviceProviders = config.getVSCodeConfig().serviceProviders || [];
+        const start = group.accounts.indexOf(failedId);
+
+        for (let offset = 1; offset < group.accounts.length; offset++) {
+            const compositeId = group.accounts[(start + offset) % group.accounts.length];
+            if (this.isCoolingDown(compositeId)) {
+                continue;
+            }
+
+            const accountInfo = config.findAccountInfo(serviceProviders, compositeId);
+            if (accountInfo && accountInfo.protocol && accountInfo.protocol !== 'anthropic') {
+                continue;
+            }
+            if (accountInfo && (accountInfo.authorization || accountInfo.apiKey)) {
+                return accountInfo;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * 判断账号是否在冷却期内
+     * @param compositeId - 复合ID（providerId:accountId）
+     */
+    isCoolingDown(compositeId) {
+        const now = Date.now();
+        return (this.cooldowns.get(compositeId) || 0) > now || (this.getSharedCooldowns()[compositeId]?.until || 0) > now;
+    }
+
+    /**
+     * 获取扩展写入的冷却记录，包含其他终端中触发的冷却
+     * 返回缓存的记录，缓存过期时在后台重新读取，不阻塞请求
+     */
+    getSharedCooldowns() {
+        if (!this.readingSharedCooldowns && Date.now() - this.sharedCooldownsReadAt > COOLDOWN_REFRESH_INTERVAL) {
+            this.readingSharedCooldowns = true;
+            fs.promises.readFile(path.join(os.homedir(), COOLDOWN_FILE), 'utf-8')
+                .then(data => JSON.parse(data))
+                .catch(() => ({}))
+                .then(cooldowns => {
+                    this.sharedCooldowns = cooldowns && typeof cooldowns === 'object' ? cooldowns : {};
+                    this.sharedCooldownsReadAt = Date.now();
+                    this.readingSharedCooldowns = false;
+                });
+        }
+        return this.sharedCooldowns;
+    }
+
+    /**
+     * 生成账号显示名称
+     */
+    describe(accountInfo) {
+        return accountInfo.emailAddress || `${accountInfo.providerName} - ${accountInfo.name}`;
+    }
+}
+
+module.exports = FailoverManager;
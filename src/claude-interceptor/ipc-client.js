@@ -0,0 +1,348 @@
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const { IPC_PROTOCOL_VERSION, IPC_ENDPOINT_ENV, IPC_SPOOL_DIR, IPC_ACK_TIMEOUT } = require('./constants');
+
+/** 进程内共享的客户端实例 */
+let instance = null;
+
+/**
+ * IPC客户端 - 拦截器端
+ * 通过扩展传入的本地套接字（Windows为命名管道）发送带版本号的消息，每行一条JSON，
+ * 收到扩展的确认后才算送达。未配置端点、连接失败、确认超时或进程退出时
+ * 未确认的消息写入文件队列，由扩展监听或在下次启动时重放
+ */
+class IpcClient {
+    constructor() {
+        this.endpoint = process.env[IPC_ENDPOINT_ENV] || null;
+        this.spoolDir = path.join(os.homedir(), IPC_SPOOL_DIR);
+        this.socket = null;
+        this.unavailable = !this.endpoint;
+        this.pending = new Map();
+        this.requests = new Map();
+        this.drainWaiters = [];
+        this.buffer = '';
+        this.spoolDirReady = false;
+
+        // 验证模式下由父进程读取标准输出中的消息
+        this.echoToStdout = false;
+
+        // 端点只对本进程有效，不传递给CLI启动的子进程
+        delete process.env[IPC_ENDPOINT_ENV];
+
+        // 进程退出前将未确认的消息写入文件队列
+        process.on('exit', () => this.spoolPending());
+    }
+
+    /**
+     * 获取进程内共享的客户端
+     */
+    static getInstance() {
+        if (!instance) {
+            instance = new IpcClient();
+        }
+        return instance;
+    }
+
+    /**
+     * 发送消息
+     * @param type - 消息类型
+     * @param payload - 消息内容
+     * @param options.durable - 是否保证送达（默认是），否时不等待确认，扩展不可用时直接丢弃
+     */
+    send(type, payload, { durable = true } = {}) {
+        const message = {
+            v: IPC_PROTOCOL_VERSION,
+            id: crypto.randomUUID(),
+            type,
+            pid: process.pid,
+            timestamp: Date.now(),
+            payload
+        };
+
+        if (this.echoToStdout) {
+            // 标准输出可能被记录或显示，只输出去掉令牌后的消息，父进程据消息类型判断是否捕获到授权
+            console.log(`[IPC_MESSAGE] ${JSON.stringify(redactMessage(message))}`);
+        }
+
+        if (!durable) {
+            if (!this.unavailable) {
+                this.write(message);
+            }
+            return;
+        }
+
+        if (this.unavailable) {
+            this.spool(message);
+            return;
+        }
+
+        const timer = setTimeout(() => this.handleAckTimeout(message.id), IPC_ACK_TIMEOUT);
+        timer.unref();
+        this.pending.set(message.id, { message, timer });
+        this.write(message);
+    }
+
+    /**
+     * 发送请求并等待扩展回复
+     * 请求不保证送达也不写入文件队列，扩展不可用、拒绝请求或超时时返回失败
+     * @param type - 消息类型
+     * @param payload - 消息内容
+     * @param timeoutMs - 最长等待时间（毫秒）
+     * @returns 扩展在确认消息中回复的data
+     */
+    request(type, payload, timeoutMs = IPC_ACK_TIMEOUT) {
+        if (this.unavailable) {
+            return Promise.reject(new Error('CC Copilot IPC is not available'));
+        }
+
+        const message = {
+            v: IPC_PROTOCOL_VERSION,
+            id: crypto.randomUUID(),
+            type,
+            pid: process.pid,
+            timestamp: Date.now(),
+            payload
+        };
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.requests.delete(message.id);
+                this.releaseSocket();
+                reject(new Error(`CC Copilot did not answer ${type} in time`));
+            }, timeoutMs);
+            timer.unref();
+            this.requests.set(message.id, { resolve, reject, timer });
+            this.write(message);
+
+            // 等待回复期间保持连接，避免CLI进程在请求完成前退出
+            if (this.socket) {
+                this.socket.ref();
+            }
+        });
+    }
+
+    /**
+     * 没有等待回复的请求时恢复连接不阻止进程退出
+     */
+    releaseSocket() {
+        if (this.socket && this.requests.size === 0) {
+            this.socket.unref();
+        }
+    }
+
+    /**
+     * 通过套接字写入一条消息
+     */
+    write(message) {
+        try {
+            this.getSocket().write(`${JSON.stringify(message)}\n`);
+        } catch (error) {
+            this.handleDisconnect(error);
+        }
+    }
+
+    /**
+     * 等待所有消息得到确认
+     * 超时后将未确认的消息写入文件队列
+     * @param timeoutMs - 最长等待时间（毫秒）
+     */
+    drain(timeoutMs = IPC_ACK_TIMEOUT) {
+        if (this.pending.size === 0) {
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                this.spoolPending();
+            }, timeoutMs);
+            this.drainWaiters.push(() => {
+                clearTimeout(timer);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * 获取到扩展的连接，首次调用时建立
+     * 连接不阻止CLI进程退出
+     */
+    getSocket() {
+        if (!this.socket) {
+            const socket = net.createConnection(this.endpoint);
+            socket.unref();
+            socket.setEncoding('utf8');
+            socket.on('data', data => this.handleData(data));
+            socket.on('error', error => this.handleDisconnect(error));
+            socket.on('close', () => this.handleDisconnect());
+            this.socket = socket;
+        }
+        return this.socket;
+    }
+
+    /**
+     * 处理扩展回复的确认
+     * 请求的确认交给等待的调用方，其他消息的确认结束等待并按需写入文件队列
+     */
+    handleData(data) {
+        this.buffer += data;
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop();
+
+        for (const line of lines) {
+            let ack;
+            try {
+                ack = JSON.parse(line);
+            } catch (error) {
+                continue;
+            }
+
+            if (ack && ack.type === 'ACK' && this.requests.has(ack.id)) {
+                this.settleRequest(ack);
+                continue;
+            }
+
+            const entry = ack && ack.type === 'ACK' ? this.pending.get(ack.id) : null;
+            if (!entry) {
+                continue;
+            }
+
+            clearTimeout(entry.timer);
+            this.pending.delete(ack.id);
+
+            if (!ack.ok) {
+                console.warn(`[SILENT] [Claude Interceptor] IPC message ${entry.message.type} rejected: ${ack.error}`);
+                if (ack.retryable) {
+                    this.spool(entry.message);
+                }
+            }
+        }
+
+        this.notifyDrained();
+    }
+
+    /**
+     * 将请求的确认交给等待的调用方
+     */
+    settleRequest(ack) {
+        const { resolve, reject, timer } = this.requests.get(ack.id);
+        clearTimeout(timer);
+        this.requests.delete(ack.id);
+        this.releaseSocket();
+
+        if (ack.ok) {
+            resolve(ack.data);
+        } else {
+            reject(new Error(ack.error || 'Request rejected by CC Copilot'));
+        }
+    }
+
+    /**
+     * 确认超时，将消息写入文件队列
+     * 扩展可能稍后仍会处理套接字中的消息，重复的消息由扩展按ID去重
+     */
+    handleAckTimeout(id) {
+        const entry = this.pending.get(id);
+        if (entry) {
+            this.pending.delete(id);
+            this.spool(entry.message);
+            this.notifyDrained();
+        }
+    }
+
+    /**
+     * 连接失败或断开后不再使用套接字，之后的消息直接写入文件队列，等待中的请求返回失败
+     */
+    handleDisconnect(error) {
+        if (error && !this.unavailable) {
+            console.warn('[SILENT] [Claude Interceptor] IPC connection failed, using the message spool:', error.message);
+        }
+        this.unavailable = true;
+        this.socket = null;
+        this.spoolPending();
+
+        for (const { reject, timer } of this.requests.values()) {
+            clearTimeout(timer);
+            reject(new Error('CC Copilot IPC connection closed'));
+        }
+        this.requests.clear();
+    }
+
+    /**
+     * 将所有未确认的消息写入文件队列
+     */
+    spoolPending() {
+        for (const { message, timer } of this.pending.values()) {
+            clearTimeout(timer);
+            this.spool(message);
+        }
+        this.pending.clear();
+        this.notifyDrained();
+    }
+
+    /**
+     * 将消息写入文件队列
+     * 先写临时文件再重命名，扩展只会看到完整的消息文件；目录和文件仅当前用户可访问，令牌只写入指纹
+     */
+    spool(message) {
+        try {
+            this.ensureSpoolDir();
+            const filePath = path.join(this.spoolDir, `msg_${message.timestamp}_${message.id}.json`);
+            fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(redactMessage(message)), { mode: 0o600 });
+            fs.renameSync(`${filePath}.tmp`, filePath);
+        } catch (error) {
+            console.warn('[SILENT] [Claude Interceptor] Failed to spool IPC message:', error.message);
+        }
+    }
+
+    /**
+     * 创建文件队列目录，并收紧旧版本以默认权限创建的目录
+     */
+    ensureSpoolDir() {
+        if (this.spoolDirReady) {
+            return;
+        }
+        fs.mkdirSync(this.spoolDir, { recursive: true, mode: 0o700 });
+        fs.chmodSync(this.spoolDir, 0o700);
+        this.spoolDirReady = true;
+    }
+
+    /**
+     * 所有消息都已处理时通知等待者
+     */
+    notifyDrained() {
+        if (this.pending.size === 0 && this.drainWaiters.length > 0) {
+            const waiters = this.drainWaiters;
+            this.drainWaiters = [];
+            waiters.forEach(resolve => resolve());
+        }
+    }
+}
+
+/**
+ * 去掉消息中的授权令牌，用于写入文件队列和验证模式下输出到标准输出的消息
+ * 令牌更新只保留指纹，扩展重放时据此判断是否已保存该令牌；尚未保存的令牌由之后启动的拦截器再次发送
+ */
+function redactMessage(message) {
+    const { payload } = message;
+    if (message.type === 'AUTHORIZATION_UPDATE' && payload.authorization) {
+        const { authorization, ...rest } = payload;
+        return { ...message, payload: { ...rest, authorizationHash: hashAuthorization(authorization) } };
+    }
+    if (message.type === 'ACCOUNT_DISCOVERED' && payload.account && payload.account.authorization) {
+        const { authorization, ...account } = payload.account;
+        return { ...message, payload: { ...payload, account } };
+    }
+    return message;
+}
+
+/**
+ * 计算授权令牌的SHA-256指纹，与扩展的 hashAuthorization 一致
+ */
+function hashAuthorization(authorization) {
+    return crypto.createHash('sha256').update(authorization).digest('hex');
+}
+
+module.exports = IpcClient;
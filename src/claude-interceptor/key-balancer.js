@@ -0,0 +1,105 @@
+const IpcClient = require('./ipc-client');
+const { PROVIDER_TYPE_THIRD_PARTY, KEY_SELECT_TIMEOUT } = require('./constants');
+const { pickKey } = require('./extension-shared');
+
+/**
+ * 密钥负载均衡
+ * 第三方提供商配置了密钥选择策略时，每个请求在该提供商的所有账号（密钥）之间选择一个：
+ * 轮询（round-robin）、按权重随机（weighted）或最久未使用（least-recently-used）。
+ * 选择策略与扩展共用同一实现（pickKey）。
+ * 轮询位置和最近使用时间由扩展统一保存，fetch请求通过IPC请求扩展选择，与网关方式共用同一份状态；
+ * 扩展不可用时以及Node http/https请求（无法等待扩展回复）使用本进程内的状态
+ */
+class KeyBalancer {
+    /**
+     * @param config - 拦截器统一配置
+     * @param failoverManager - 故障转移管理器，用于跳过冷却中的密钥
+     */
+    constructor(config, failoverManager) {
+        this.config = config;
+        this.failoverManager = failoverManager;
+        // 本进程内的选择状态，扩展不可用时使用
+        this.state = { lastKeys: {}, keyUsage: {} };
+    }
+
+    /**
+     * 为一个请求选择账号
+     * 优先请求扩展选择，扩展不可用或选中的密钥在本进程内不可用时使用本进程内的状态
+     * @param accountInfo - 当前活动（或绑定、故障转移接替）的账号信息
+     * @returns 实际使用的账号信息，提供商未启用密钥选择时原样返回
+     */
+    async selectShared(accountInfo) {
+        const candidates = this.getCandidates(accountInfo);
+        if (!candidates || candidates.length <= 1) {
+            return this.select(accountInfo);
+        }
+
+        const available = new Set(candidates.map(candidate => candidate.compositeId));
+        const exclude = this.getProvider(accountInfo.providerId).accounts
+            .map(account => `${accountInfo.providerId}:${account.id}`)
+            .filter(compositeId => !available.has(compositeId));
+
+        try {
+            const response = await IpcClient.getInstance().request(
+                'KEY_SELECT', { providerId: accountInfo.providerId, exclude }, KEY_SELECT_TIMEOUT);
+            const selected = candidates.find(candidate => candidate.compositeId === response?.compositeId);
+            if (selected) {
+                return selected;
+            }
+        } catch (error) {
+            // 扩展不可用，使用本进程内的状态
+        }
+        return this.select(accountInfo);
+    }
+
+    /**
+     * 使用本进程内的状态为一个请求选择账号
+     * @param accountInfo - 当前活动（或绑定、故障转移接替）的账号信息
+     * @returns 实际使用的账号信息，提供商未启用密钥选择时原样返回
+     */
+    select(accountInfo) {
+        const candidates = this.getCandidates(accountInfo);
+        if (!candidates) {
+            return accountInfo;
+        }
+        if (candidates.length <= 1) {
+            return candidates[0] || accountInfo;
+        }
+
+        const provider = this.getProvider(accountInfo.providerId);
+        const compositeId = pickKey(provider.keySelection, provider.id, candidates, this.state);
+        return candidates.find(candidate => candidate.compositeId === compositeId);
+    }
+
+    /**
+     * 获取可选择的密钥：有密钥且不在冷却期的账号，带有各自的权重
+     * @returns 候选账号信息，提供商未启用密钥选择时返回null
+     */
+    getCandidates(accountInfo) {
+        if (accountInfo?.type !== PROVIDER_TYPE_THIRD_PARTY || !accountInfo.providerId) {
+            return null;
+        }
+
+        const provider = this.getProvider(accountInfo.providerId);
+        const strategy = provider?.keySelection || 'active';
+        if (strategy === 'active' || !Array.isArray(provider.accounts)) {
+            return null;
+        }
+
+        return provider.accounts
+            .map(account => {
+                const candidate = this.config.buildAccountInfo(provider, account.id);
+                return candidate && { ...candidate, weight: account.weight };
+            })
+            .filter(candidate => candidate && candidate.apiKey && !this.failoverManager.isCoolingDown(candidate.compositeId));
+    }
+
+    /**
+     * 获取提供商配置
+     */
+    getProvider(providerId) {
+        return (this.config.getVSCodeConfig().serviceProviders || []).find(p => p.id === providerId);
+    }
+}
+
+module.exports = KeyBalancer;
@@ -18,7 +18,8 @@ class ProxyManager {
             return {
                 enabled: proxyConfig.enabled && shouldUseProxy,
                 url: proxyConfig.url,
-                auth: proxyConfig.auth
+                auth: proxyConfig.auth,
+                noProxy: proxyConfig.noProxy || []
             };
         } catch (error) {
             console.warn('[SILENT] Unable to get proxy config:', error.message);
@@ -34,6 +35,12 @@ class ProxyManager {
             return;
         }
 
+        // CLI的HTTP客户端不支持SOCKS代理，SOCKS代理只能通过网关使用
+        if (/^socks5h?:/i.test(proxyConfig.url)) {
+            console.warn('[TERMINAL] [Claude Interceptor] SOCKS proxy is only supported in gateway launch mode, connecting directly');
+            return;
+        }
+
         try {
             // 设置代理环境变量
             let proxyUrl = proxyConfig.url;
@@ -49,6 +56,14 @@ class ProxyManager {
             process.env.http_proxy = proxyUrl;
             process.env.https_proxy = proxyUrl;
 
+            // 代理配置档的绕过列表追加到已有的 NO_PROXY
+            if (proxyConfig.noProxy && proxyConfig.noProxy.length > 0) {
+                const existing = (process.env.NO_PROXY || process.env.no_proxy || '').split(',').filter(Boolean);
+                const noProxy = [...new Set([...existing, ...proxyConfig.noProxy])].join(',');
+                process.env.NO_PROXY = noProxy;
+                process.env.no_proxy = noProxy;
+            }
+
             console.log('[SILENT] [Claude Interceptor] Upstream proxy configured:', proxyUrl.replace(/\/\/.*@/, '//***@'));
         } catch (error) {
             console.error('[SILENT] [Claude Interceptor] Failed to setup upstream proxy:', error.message);
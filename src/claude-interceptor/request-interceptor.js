@@ -1,4 +1,9 @@
 const { PROVIDER_TYPE_CLAUDE_OFFICIAL, PROVIDER_TYPE_THIRD_PARTY } = require('./constants');
+const VerificationMode = require('./verification-mode');
+const RequestTelemetry = require('./request-telemetry');
+const FailoverManager = require('./failover-manager');
+const KeyBalancer = require('./key-balancer');
+const { ModelMapper } = require('./extension-shared');
 
 /**
  * 请求拦截器
@@ -10,14 +15,36 @@ class RequestInterceptor {
         this.lastLoggedAuth = null;
         this.lastLoggedAccount = null;
         this.hasLoggedInterception = false;
+        this.verificationMode = new VerificationMode();
+        this.telemetry = new RequestTelemetry();
+        this.failoverManager = new FailoverManager(accountManager);
+        this.keyBalancer = new KeyBalancer(accountManager.config, this.failoverManager);
+        this.modelMapper = new ModelMapper();
+        this.lastLoggedModel = null;
+    }
+
+    /**
+     * 为一个请求选择账号
+     * 提供商启用了密钥选择策略时在其所有密钥之间分配，否则使用当前活动账号。
+     * Node请求无法等待扩展回复，只使用本进程内的选择状态
+     */
+    selectAccount() {
+        return this.keyBalancer.select(this.accountManager.getActiveAccountInfo());
+    }
+
+    /**
+     * 为一个fetch请求选择账号
+     * 由扩展按共享的选择状态分配密钥，与网关方式和其他终端中的CLI保持一致
+     */
+    selectSharedAccount() {
+        return this.keyBalancer.selectShared(this.accountManager.getActiveAccountInfo());
     }
 
     /**
      * 获取Authorization头
+     * @param accountInfo - 本次请求使用的账号信息（可选），默认使用当前活动账号
      */
-    getAuthorizationHeader() {
-        const accountInfo = this.accountManager.getActiveAccountInfo();
-        
+    getAuthorizationHeader(accountInfo = this.accountManager.getActiveAccountInfo()) {
         if (!accountInfo) {
             return null;
         }
@@ -89,6 +116,9 @@ class RequestInterceptor {
 
             // 检查是否需要拦截请求
             if (interceptor.shouldInterceptRequest(originalUrl)) {
+                // 等待启动时向扩展请求的密钥，交接文件已用完时密钥只能由扩展提供
+                await interceptor.accountManager.config.prefetchSecrets();
+
                 // 检测并保存原始authorization（仅对Claude官方账号）
                 if (init.headers) {
                     const headers = new Headers(init.headers);
@@ -104,7 +134,18 @@ class RequestInterceptor {
 
                 // 对于第三方API，需要重写URL
                 let finalInput = input;
-                const accountInfo = interceptor.accountManager.getActiveAccountInfo();
+                let accountInfo = await interceptor.selectSharedAccount();
+
+                // 账号的密钥仍未解析时再向扩展请求一次，无法获得时明确报错，不发送空凭据
+                const config = interceptor.accountManager.config;
+                if (config.getMissingSecretMessage(accountInfo) &&
+                    await config.requestSecrets([accountInfo.apiKeyRef || accountInfo.authorizationRef])) {
+                    accountInfo = await interceptor.selectSharedAccount();
+                }
+                const missingSecret = config.getMissingSecretMessage(accountInfo);
+                if (missingSecret) {
+                    return interceptor.createMissingSecretResponse(missingSecret);
+                }
                 
                 if (accountInfo?.type === PROVIDER_TYPE_THIRD_PARTY && 
                     accountInfo.baseUrl && originalUrl.includes('api.anthropic.com')) {
@@ -118,7 +159,7 @@ class RequestInterceptor {
                 }
 
                 // 动态修改authorization header
-                const dynamicAuth = interceptor.getAuthorizationHeader();
+                const dynamicAuth = interceptor.getAuthorizationHeader(accountInfo);
                 if (dynamicAuth) {
                     // 检查当前请求的authorization是否与目标authorization一致
                     let currentAuth = null;
@@ -147,8 +188,43 @@ class RequestInterceptor {
                         }
                     }
                 }
-                
-                return originalFetch(finalInput, init);
+
+                // 账号验证模式：改为检查凭据，不发送真正的对话请求
+                const finalUrl = typeof finalInput === "string" ? finalInput : finalInput instanceof URL ? finalInput.toString() : finalInput.url;
+                if (interceptor.verificationMode.shouldVerify(finalUrl, init)) {
+                    return interceptor.verificationMode.verify(originalFetch, finalUrl, init);
+                }
+
+                // 模型映射：改写第三方网关不认识的模型名称；不修改原请求选项，故障转移重发时按接替账号重新映射
+                const mapped = interceptor.modelMapper.rewriteBody(init.body, accountInfo);
+                const requestInit = mapped ? interceptor.createMappedInit(init, mapped.body) : init;
+                if (mapped) {
+                    const model = `${mapped.requestedModel} -> ${JSON.parse(mapped.body).model}`;
+                    if (interceptor.lastLoggedModel !== model) {
+                        console.log('[SILENT] [Claude Interceptor] Model mapped:', model);
+                        interceptor.lastLoggedModel = model;
+                    }
+                }
+
+                const record = interceptor.telemetry.start(finalUrl, requestInit.method, requestInit.body, accountInfo);
+                if (mapped) {
+                    record.requestedModel = mapped.requestedModel;
+                }
+                try {
+                    const response = await originalFetch(finalInput, requestInit);
+                    interceptor.telemetry.trackFetchResponse(record, response);
+
+                    // 故障转移：改用组内下一个账号重新发送请求
+                    if (interceptor.canRetry(input, init) &&
+                        interceptor.failoverManager.handleStatus(response.status, accountInfo)) {
+                        response.body?.cancel().catch(() => {});
+                        return global.fetch(input, interceptor.createRetryInit(init));
+                    }
+                    return response;
+                } catch (error) {
+                    interceptor.telemetry.fail(record, error);
+                    throw error;
+                }
             }
 
             return originalFetch(input, init);
@@ -158,6 +234,51 @@ class RequestInterceptor {
         console.log('[SILENT] [Claude Interceptor] Fetch intercepted');
     }
 
+    /**
+     * 生成缺少凭据时返回给CLI的错误响应
+     * 使用Anthropic API的错误格式，CLI会显示其中的说明
+     */
+    createMissingSecretResponse(message) {
+        console.error(`[TERMINAL] [Claude Interceptor] ${message}`);
+        return new Response(JSON.stringify({ type: 'error', error: { type: 'authentication_error', message } }), {
+            status: 401,
+            headers: { 'content-type': 'application/json' }
+        });
+    }
+
+    /**
+     * 判断请求能否重新发送
+     * 请求体为流时已被读取，无法重放
+     */
+    canRetry(input, init) {
+        if (typeof input !== 'string' && !(input instanceof URL)) {
+            return false;
+        }
+        const body = init.body;
+        return body === undefined || body === null || typeof body === 'string' ||
+            body instanceof ArrayBuffer || ArrayBuffer.isView(body) || body instanceof URLSearchParams;
+    }
+
+    /**
+     * 生成重新发送的请求选项
+     * 移除出错账号的authorization，由拦截器为接替的账号重新设置，避免被当作新令牌保存到接替的账号
+     */
+    createRetryInit(init) {
+        const headers = new Headers(init.headers);
+        headers.delete('authorization');
+        return { ...init, headers };
+    }
+
+    /**
+     * 生成改写了模型的请求选项
+     * 请求体长度已变化，移除CLI设置的content-length，由fetch重新计算
+     */
+    createMappedInit(init, body) {
+        const headers = new Headers(init.headers);
+        headers.delete('content-length');
+        return { ...init, headers, body };
+    }
+
     /**
      * 拦截Node HTTP请求
      */
@@ -199,7 +320,8 @@ class RequestInterceptor {
 
         // 检查是否需要拦截请求
         const shouldIntercept = this.shouldInterceptRequest(originalUrl);
-        
+        let accountInfo = null;
+
         if (shouldIntercept) {
             // 只在首次拦截时记录
             if (!this.hasLoggedInterception) {
@@ -220,9 +342,19 @@ class RequestInterceptor {
             }
 
             // 对于第三方API，需要重写URL
-            const accountInfo = this.accountManager.getActiveAccountInfo();
+            accountInfo = this.selectAccount();
+
+            // 账号的密钥未解析时明确报错，不发送空凭据；Node请求无法等待扩展回复，依赖启动时预先请求的密钥
+            const missingSecret = this.accountManager.config.getMissingSecretMessage(accountInfo);
+            if (missingSecret) {
+                console.error(`[TERMINAL] [Claude Interceptor] ${missingSecret}`);
+                const request = originalRequest.call(this, options, callback);
+                request.destroy(new Error(missingSecret));
+                return request;
+            }
+
             if (accountInfo?.type === PROVIDER_TYPE_THIRD_PARTY && accountInfo.baseUrl) {
-                const rewrittenOptions = this.rewriteRequestForThirdParty(options, originalUrl, isHttps);
+                const rewrittenOptions = this.rewriteRequestForThirdParty(options, originalUrl, isHttps, accountInfo);
                 if (rewrittenOptions) {
                     options = rewrittenOptions;
                     // 只在首次切换时记录
@@ -234,7 +366,7 @@ class RequestInterceptor {
             }
 
             // 动态修改authorization header
-            const dynamicAuth = this.getAuthorizationHeader();
+            const dynamicAuth = this.getAuthorizationHeader(accountInfo);
             if (dynamicAuth) {
                 const currentAuth = options.headers?.authorization;
 
@@ -253,7 +385,95 @@ class RequestInterceptor {
             }
         }
 
-        return originalRequest.call(this, options, callback);
+        const request = originalRequest.call(this, options, callback);
+        if (shouldIntercept) {
+            const record = this.telemetry.start(
+                this.parseNodeRequestURL(options, isHttps),
+                typeof options === 'string' ? 'GET' : options.method,
+                undefined,
+                accountInfo
+            );
+            // 不监听error事件，避免改变CLI对请求错误的处理；没有响应就关闭的请求按失败记录。
+            // 请求体已经流式写出，无法在接替的账号上重放，只切换账号供CLI之后的请求使用
+            request.once('response', response => {
+                this.telemetry.trackNodeResponse(record, response);
+                this.failoverManager.handleStatus(response.statusCode, accountInfo);
+            });
+            request.once('close', () => {
+                if (record.status === undefined) {
+                    this.telemetry.fail(record, new Error('Request closed without a response'));
+                }
+            });
+
+            const method = typeof options === 'string' ? 'GET' : (options.method || 'GET').toUpperCase();
+            if (method === 'POST' && (accountInfo?.modelMap || accountInfo?.smallFastModel)) {
+                this.mapNodeRequestBody(request, accountInfo, record);
+            }
+        }
+        return request;
+    }
+
+    /**
+     * 为Node请求应用模型映射
+     * 缓存CLI写入的请求体，请求结束时改写模型名称、更新content-length后再一次写出；
+     * 请求头在第一次写入时才发送，因此可以在结束前修改
+     */
+    mapNodeRequestBody(request, accountInfo, record) {
+        const interceptor = this;
+        const originalWrite = request.write;
+        const originalEnd = request.end;
+        const chunks = [];
+        const callbacks = [];
+
+        const collect = (chunk, encoding) => {
+            if (chunk !== undefined && chunk !== null) {
+                chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, typeof encoding === 'string' ? encoding : 'utf8'));
+            }
+        };
+
+        request.write = function (chunk, encoding, callback) {
+            collect(chunk, encoding);
+            const done = typeof encoding === 'function' ? encoding : callback;
+            if (typeof done === 'function') {
+                callbacks.push(done);
+            }
+            return true;
+        };
+
+        request.end = function (chunk, encoding, callback) {
+            if (typeof chunk === 'function') {
+                callback = chunk;
+                chunk = undefined;
+            } else if (typeof encoding === 'function') {
+                callback = encoding;
+                encoding = undefined;
+            }
+            collect(chunk, encoding);
+            request.write = originalWrite;
+            request.end = originalEnd;
+
+            let body = Buffer.concat(chunks);
+            const mapped = interceptor.modelMapper.rewriteBody(body.toString('utf8'), accountInfo);
+            if (mapped) {
+                body = Buffer.from(mapped.body, 'utf8');
+                record.requestedModel = mapped.requestedModel;
+                if (request.getHeader('content-length') !== undefined) {
+                    request.setHeader('content-length', body.length);
+                }
+                const model = `${mapped.requestedModel} -> ${JSON.parse(mapped.body).model}`;
+                if (interceptor.lastLoggedModel !== model) {
+                    console.log('[SILENT] [Claude Interceptor] Model mapped:', model);
+                    interceptor.lastLoggedModel = model;
+                }
+            }
+
+            if (body.length > 0) {
+                originalWrite.call(request, body, () => callbacks.forEach(done => done()));
+            } else {
+                callbacks.forEach(done => process.nextTick(done));
+            }
+            return originalEnd.call(request, callback);
+        };
     }
 
     /**
@@ -295,9 +515,8 @@ class RequestInterceptor {
     /**
      * 为第三方API重写请求选项
      */
-    rewriteRequestForThirdParty(options, originalUrl, isHttps) {
+    rewriteRequestForThirdParty(options, originalUrl, isHttps, accountInfo = this.accountManager.getActiveAccountInfo()) {
         try {
-            const accountInfo = this.accountManager.getActiveAccountInfo();
             if (!accountInfo?.baseUrl) {
                 return null;
             }
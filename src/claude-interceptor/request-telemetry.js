@@ -0,0 +1,224 @@
+const crypto = require('crypto');
+const IpcClient = require('./ipc-client');
+
+/** 请求体超过此长度时不解析模型名称（字节） */
+const MAX_BODY_PARSE_LENGTH = 2 * 1024 * 1024;
+
+/**
+ * 请求遥测
+ * 为拦截到的每个API请求记录目标、模型、状态码、耗时、令牌用量和使用的账号，
+ * 请求结束后以 REQUEST_COMPLETED 消息发送给扩展。遥测不保证送达，不影响请求本身
+ */
+class RequestTelemetry {
+    /**
+     * 开始记录一个请求
+     * @param url - 实际发出的请求地址（已按第三方提供商重写）
+     * @param method - 请求方法
+     * @param body - 请求体（可选），用于读取模型名称
+     * @param accountInfo - 当前使用的账号信息
+     */
+    start(url, method, body, accountInfo) {
+        let host = '';
+        let pathname = '';
+        try {
+            ({ host, pathname } = new URL(url));
+        } catch (error) {
+            pathname = url;
+        }
+
+        return {
+            requestId: crypto.randomUUID(),
+            startedAt: Date.now(),
+            method: (method || 'GET').toUpperCase(),
+            host,
+            path: pathname,
+            model: this.readModel(body),
+            account: this.describeAccount(accountInfo)
+        };
+    }
+
+    /**
+     * 记录fetch响应
+     * 收到响应头时记录状态码和首字节耗时，复制响应体在后台读取用量，不影响CLI读取原响应
+     * @param record - start返回的记录
+     * @param response - fetch响应
+     */
+    trackFetchResponse(record, response) {
+        record.status = response.status;
+        record.latencyMs = Date.now() - record.startedAt;
+
+        const contentType = response.headers.get('content-type') || '';
+        record.stream = contentType.includes('text/event-stream');
+
+        if (!response.body || (!record.stream && !contentType.includes('json'))) {
+            this.complete(record);
+            return;
+        }
+
+        let clone;
+        try {
+            clone = response.clone();
+        } catch (error) {
+            this.complete(record);
+            return;
+        }
+
+        clone.text()
+            .then(text => {
+                if (record.stream) {
+                    this.readStreamEvents(record, text);
+                } else {
+                    this.readJsonBody(record, text);
+                }
+            })
+            .catch(error => {
+                record.error = record.error || error.message;
+            })
+            .finally(() => this.complete(record));
+    }
+
+    /**
+     * 记录Node HTTP响应
+     * 只记录状态码和耗时，不读取响应体，避免改变CLI读取响应流的方式
+     * @param record - start返回的记录
+     * @param response - http.IncomingMessage
+     */
+    trackNodeResponse(record, response) {
+        record.status = response.statusCode;
+        record.latencyMs = Date.now() - record.startedAt;
+        record.stream = String(response.headers['content-type'] || '').includes('text/event-stream');
+        response.once('end', () => this.complete(record));
+        response.once('close', () => this.complete(record));
+    }
+
+    /**
+     * 记录请求失败（网络错误、代理错误或被取消）
+     */
+    fail(record, error) {
+        record.error = error.cause?.message || error.message;
+        this.complete(record);
+    }
+
+    /**
+     * 请求结束，发送遥测消息
+     */
+    complete(record) {
+        if (record.completed) {
+            return;
+        }
+        record.completed = true;
+
+        const { completed, ...payload } = record;
+        try {
+            IpcClient.getInstance().send('REQUEST_COMPLETED', {
+                ...payload,
+                durationMs: Date.now() - record.startedAt,
+                cwd: process.cwd()
+            }, { durable: false });
+        } catch (error) {
+            console.warn('[SILENT] [Claude Interceptor] Failed to send request telemetry:', error.message);
+        }
+    }
+
+    /**
+     * 解析流式响应中的模型、用量和错误
+     * message_start 携带输入用量，message_delta 携带累计的输出用量
+     */
+    readStreamEvents(record, text) {
+        for (const line of text.split('\n')) {
+            if (!line.startsWith('data:')) {
+                continue;
+            }
+
+            let event;
+            try {
+                event = JSON.parse(line.slice(5));
+            } catch (error) {
+                continue;
+            }
+
+            if (event.type === 'message_start' && event.message) {
+                record.model = event.message.model || record.model;
+                this.mergeUsage(record, event.message.usage);
+            } else if (event.type === 'message_delta') {
+                this.mergeUsage(record, event.usage);
+            } else if (event.type === 'error' && event.error) {
+                record.errorType = event.error.type;
+                record.error = event.error.message;
+            }
+        }
+    }
+
+    /**
+     * 解析JSON响应中的模型、用量和错误
+     */
+    readJsonBody(record, text) {
+        let body;
+        try {
+            body = JSON.parse(text);
+        } catch (error) {
+            return;
+        }
+
+        if (body.model) {
+            record.model = body.model;
+        }
+        this.mergeUsage(record, body.usage);
+        if (body.type === 'error' && body.error) {
+            record.errorType = body.error.type;
+            record.error = body.error.message;
+        }
+    }
+
+    /**
+     * 合并用量，后出现的非空字段覆盖先前的值
+     */
+    mergeUsage(record, usage) {
+        if (!usage || typeof usage !== 'object') {
+            return;
+        }
+
+        const current = record.usage || {
+            inputTokens: 0,
+            outputTokens: 0,
+            cacheCreationInputTokens: 0,
+            cacheReadInputTokens: 0
+        };
+        record.usage = {
+            inputTokens: usage.input_tokens ?? current.inputTokens,
+            outputTokens: usage.output_tokens ?? current.outputTokens,
+            cacheCreationInputTokens: usage.cache_creation_input_tokens ?? current.cacheCreationInputTokens,
+            cacheReadInputTokens: usage.cache_read_input_tokens ?? current.cacheReadInputTokens
+        };
+    }
+
+    /**
+     * 从请求体读取模型名称
+     */
+    readModel(body) {
+        if (typeof body !== 'string' || body.length > MAX_BODY_PARSE_LENGTH) {
+            return undefined;
+        }
+        try {
+            const model = JSON.parse(body).model;
+            return typeof model === 'string' ? model : undefined;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * 生成账号描述，不包含任何密钥
+     */
+    describeAccount(accountInfo) {
+        if (!accountInfo) {
+            return undefined;
+        }
+        return {
+            compositeId: accountInfo.compositeId,
+            label: accountInfo.emailAddress || `${accountInfo.providerName} - ${accountInfo.name}`
+        };
+    }
+}
+
+module.exports = RequestTelemetry;
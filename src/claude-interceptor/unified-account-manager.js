@@ -1,4 +1,6 @@
+const crypto = require('crypto');
 const UnifiedInterceptorConfig = require('./unified-config');
+const IpcClient = require('./ipc-client');
 
 /**
  * 统一账号管理器 - 拦截器端
@@ -47,6 +49,14 @@ class UnifiedAccountManager {
         }
     }
 
+    /**
+     * 将拦截到的授权令牌更新到配置
+     * 请求拦截器在检测到新令牌时调用
+     */
+    updateAuthorizationInConfig(authorization) {
+        return this.processInterceptedAuthorization(authorization);
+    }
+
     /**
      * 验证并通知授权令牌更新
      */
@@ -89,15 +99,9 @@ class UnifiedAccountManager {
         try {
             console.log(`[DEBUG] [Claude Interceptor] ⚠️ Notifying token expiration for: ${emailAddress}`);
             
-            const expiredData = {
-                type: 'TOKEN_EXPIRED',
-                emailAddress: emailAddress,
-                expiredAuthorization: expiredAuthorization,
-                timestamp: Date.now()
-            };
-            
-            // 输出到stdout，主进程可以监听
-            console.log(`[IPC_MESSAGE] ${JSON.stringify(expiredData)}`);
+            // 只发送令牌指纹，扩展据此确认过期的是否仍是当前保存的令牌
+            const authorizationHash = crypto.createHash('sha256').update(expiredAuthorization).digest('hex');
+            IpcClient.getInstance().send('TOKEN_EXPIRED', { emailAddress, authorizationHash });
             
             console.log(`[DEBUG] [Claude Interceptor] ✅ Token expiration notification sent`);
         } catch (error) {
@@ -158,14 +162,7 @@ class UnifiedAccountManager {
         try {
             console.log(`[DEBUG] [Claude Interceptor] 📝 Notifying account discovery: ${account.emailAddress}`);
             
-            const discoveryData = {
-                type: 'ACCOUNT_DISCOVERED',
-                account: account,
-                timestamp: Date.now()
-            };
-            
-            // 输出到stdout，主进程可以监听
-            console.log(`[IPC_MESSAGE] ${JSON.stringify(discoveryData)}`);
+            IpcClient.getInstance().send('ACCOUNT_DISCOVERED', { account });
             
             console.log(`[DEBUG] [Claude Interceptor] ✅ Account discovery notification sent`);
         } catch (error) {
@@ -1,6 +1,14 @@
 const fs = require("fs");
 const path = require("path");
 const os = require("os");
+const IpcClient = require("./ipc-client");
+
+/** 进程内共享的密钥缓存，由交接文件和向扩展请求的密钥填充，拦截器的各个配置实例共用 */
+let sharedSecrets = null;
+/** 向扩展请求密钥的授权，由扩展在启动终端时传入 */
+let secretGrant = null;
+/** 启动时向扩展请求密钥的结果 */
+let secretsReady = null;
 
 /**
  * 统一配置接口 - 拦截器端
@@ -15,6 +23,153 @@ class UnifiedInterceptorConfig {
             THIRD_PARTY: 'third_party'
         };
         this.CLAUDE_PROVIDER_ID = 'claude_official';
+        this.SECRET_REFERENCE_PREFIX = 'secret:';
+        this.SECRET_HANDOFF_ENV = 'CC_COPILOT_SECRETS_FILE';
+        this.SECRET_GRANT_ENV = 'CC_COPILOT_SECRET_GRANT';
+        this.ACCOUNT_BINDING_ENV = 'CC_COPILOT_ACCOUNT';
+
+        // 故障转移后接替的账号复合ID，在原账号冷却结束前优先于绑定账号和活动账号
+        this.failoverAccountId = null;
+        this.failoverUntil = 0;
+
+        // 设置中的密钥只保存引用，明文由扩展通过一次性交接文件传入，交接文件不存在时凭授权向扩展请求
+        if (!sharedSecrets) {
+            sharedSecrets = this.loadSecretHandoff();
+            secretGrant = process.env[this.SECRET_GRANT_ENV] || null;
+            delete process.env[this.SECRET_GRANT_ENV];
+        }
+        this.secrets = sharedSecrets;
+    }
+
+    // =============================================================================
+    // 密钥引用解析
+    // =============================================================================
+
+    /**
+     * 读取扩展创建的密钥交接文件
+     * 读取后立即删除文件并移除环境变量，避免密钥被子进程继承或残留在磁盘上
+     */
+    loadSecretHandoff() {
+        const handoffFile = process.env[this.SECRET_HANDOFF_ENV];
+        if (!handoffFile) {
+            return {};
+        }
+
+        delete process.env[this.SECRET_HANDOFF_ENV];
+
+        try {
+            const secrets = JSON.parse(fs.readFileSync(handoffFile, 'utf-8'));
+            console.log(`[DEBUG] [Claude Interceptor] 🔐 Loaded ${Object.keys(secrets).length} secret(s) from handoff`);
+            return secrets;
+        } catch (error) {
+            console.warn('[DEBUG] [Claude Interceptor] ❌ Failed to load secret handoff:', error.message);
+            return {};
+        } finally {
+            try {
+                fs.unlinkSync(handoffFile);
+            } catch (error) {
+                // 文件可能已被删除，忽略
+            }
+        }
+    }
+
+    /**
+     * 向扩展请求尚未解析的密钥
+     * 交接文件只能被终端中第一次运行的CLI读取，之后运行的CLI凭终端的授权通过IPC请求，
+     * 扩展只返回授权范围内（绑定账号所属提供商、所在故障转移组及其代理配置档）的密钥
+     * @param references - 需要的密钥引用，默认为配置中所有尚未解析的引用
+     * @returns 是否获得了新的密钥
+     */
+    async requestSecrets(references = this.getUnresolvedSecretReferences()) {
+        const missing = references.filter(reference => this.isSecretReference(reference) && !this.secrets[reference]);
+        if (missing.length === 0 || !secretGrant) {
+            return false;
+        }
+
+        try {
+            const response = await IpcClient.getInstance().request('SECRET_REQUEST', { grant: secretGrant, references: missing });
+            const secrets = (response && response.secrets) || {};
+            Object.assign(this.secrets, secrets);
+            console.log(`[DEBUG] [Claude Interceptor] 🔐 Received ${Object.keys(secrets).length} secret(s) from CC Copilot`);
+            return Object.keys(secrets).length > 0;
+        } catch (error) {
+            console.warn('[DEBUG] [Claude Interceptor] ❌ Failed to request secrets from CC Copilot:', error.message);
+            return false;
+        }
+    }
+
+    /**
+     * 启动时向扩展请求尚未解析的密钥，多次调用返回同一结果
+     */
+    prefetchSecrets() {
+        if (!secretsReady) {
+            secretsReady = this.requestSecrets();
+        }
+        return secretsReady;
+    }
+
+    /**
+     * 获取配置中所有尚未解析的密钥引用（账号密钥和代理配置档密码）
+     */
+    getUnresolvedSecretReferences() {
+        const vscodeConfig = this.getVSCodeConfig();
+        const references = [];
+
+        for (const provider of vscodeConfig.serviceProviders) {
+            for (const account of provider.accounts || []) {
+                references.push(provider.type === this.PROVIDER_TYPES.CLAUDE_OFFICIAL ? account.authorization : account.apiKey);
+            }
+        }
+        for (const profile of vscodeConfig.proxyProfiles) {
+            references.push(profile && profile.password);
+        }
+
+        return [...new Set(references)].filter(reference => this.isSecretReference(reference) && !this.secrets[reference]);
+    }
+
+    /**
+     * 获取账号缺少密钥时的错误说明
+     * 设置中保存了密钥引用，但交接文件已用完且无法从扩展获得时，不能发送空凭据
+     * @param accountInfo - 账号信息
+     * @returns 错误说明，密钥可用或账号未保存密钥时返回null
+     */
+    getMissingSecretMessage(accountInfo) {
+        const reference = accountInfo && (accountInfo.apiKeyRef || accountInfo.authorizationRef);
+        if (!this.isSecretReference(reference) || this.secrets[reference]) {
+            return null;
+        }
+
+        const label = accountInfo.emailAddress || `${accountInfo.providerName} - ${accountInfo.name}`;
+        return `CC Copilot could not provide the credentials for ${label} to this Claude process. ` +
+            'Start a new Claude session from CC Copilot (after a VS Code reload, sessions started earlier must be restarted).';
+    }
+
+    /**
+     * 判断值是否为密钥引用
+     */
+    isSecretReference(value) {
+        return typeof value === 'string' && value.startsWith(this.SECRET_REFERENCE_PREFIX);
+    }
+
+    /**
+     * 解析密钥引用
+     * 引用返回交接得到的明文（未交接时返回undefined），旧版明文配置原样返回
+     */
+    resolveSecret(value) {
+        if (!this.isSecretReference(value)) {
+            return value;
+        }
+        return this.secrets[value];
+    }
+
+    /**
+     * 更新本地缓存的密钥
+     * 拦截到新令牌后调用，保证后续请求使用最新令牌
+     */
+    rememberSecret(reference, value) {
+        if (this.isSecretReference(reference)) {
+            this.secrets[reference] = value;
+        }
     }
 
     // =============================================================================
@@ -81,7 +236,9 @@ class UnifiedInterceptorConfig {
                 return {
                     proxyConfig: config.proxyConfig || { enabled: false, url: 'http://127.0.0.1:1087' },
                     serviceProviders: config.serviceProviders || [],
-                    activeServiceProviderId: config.activeServiceProviderId || ''
+                    activeServiceProviderId: config.activeServiceProviderId || '',
+                    failoverGroups: config.failoverGroups || [],
+                    proxyProfiles: config.proxyProfiles || []
                 };
             }
 
@@ -97,7 +254,9 @@ class UnifiedInterceptorConfig {
                     return {
                         proxyConfig: ccCopilotConfig.proxyConfig || { enabled: false, url: 'http://127.0.0.1:1087' },
                         serviceProviders: ccCopilotConfig.serviceProviders || [],
-                        activeServiceProviderId: ccCopilotConfig.activeServiceProviderId || ''
+                        activeServiceProviderId: ccCopilotConfig.activeServiceProviderId || '',
+                        failoverGroups: ccCopilotConfig.failoverGroups || [],
+                        proxyProfiles: ccCopilotConfig.proxyProfiles || []
                     };
                 }
             }
@@ -106,14 +265,18 @@ class UnifiedInterceptorConfig {
             return {
                 proxyConfig: { enabled: false, url: 'http://127.0.0.1:1087' },
                 serviceProviders: [],
-                activeServiceProviderId: ''
+                activeServiceProviderId: '',
+                failoverGroups: [],
+                proxyProfiles: []
             };
         } catch (error) {
             console.warn('[DEBUG] [Claude Interceptor] ❌ Failed to get VSCode config:', error.message);
             return {
                 proxyConfig: { enabled: false, url: 'http://127.0.0.1:1087' },
                 serviceProviders: [],
-                activeServiceProviderId: ''
+                activeServiceProviderId: '',
+                failoverGroups: [],
+                proxyProfiles: []
             };
         }
     }
@@ -156,25 +319,33 @@ class UnifiedInterceptorConfig {
             // 先尝试从VSCode配置获取
             const vscodeConfig = this.getVSCodeConfig();
             if (vscodeConfig && vscodeConfig.serviceProviders) {
+                // 原账号冷却结束后恢复使用原账号
+                if (this.failoverAccountId && Date.now() >= this.failoverUntil) {
+                    console.log(`[TERMINAL] [Claude Interceptor] 🔙 Cooldown ended, switching back from ${this.failoverAccountId}`);
+                    this.setFailoverAccount(null);
+                }
+
+                // 故障转移接替的账号优先
+                const failoverAccount = this.failoverAccountId
+                    ? this.findAccountInfo(vscodeConfig.serviceProviders, this.failoverAccountId)
+                    : null;
+                if (failoverAccount) {
+                    return failoverAccount;
+                }
+
+                // 终端绑定的账号优先于全局活动账号
+                const boundAccount = this.getBoundAccountInfo(vscodeConfig.serviceProviders);
+                if (boundAccount) {
+                    return boundAccount;
+                }
+
                 const activeProviderId = vscodeConfig.activeServiceProviderId;
                 const activeProvider = vscodeConfig.serviceProviders.find(p => p.id === activeProviderId);
                 
-                if (activeProvider && activeProvider.type === this.PROVIDER_TYPES.CLAUDE_OFFICIAL) {
-                    const activeAccount = activeProvider.accounts.find(acc => 
-                        acc.emailAddress === activeProvider.activeAccountId
-                    );
-                    
-                    if (activeAccount) {
-                        console.log(`[DEBUG] [Claude Interceptor] ✅ Found active account from VSCode: ${activeAccount.emailAddress}`);
-                        console.log(`[DEBUG] [Claude Interceptor] 🔑 Has authorization: ${!!activeAccount.authorization}`);
-                        
-                        return {
-                            type: this.PROVIDER_TYPES.CLAUDE_OFFICIAL,
-                            emailAddress: activeAccount.emailAddress,
-                            authorization: activeAccount.authorization,
-                            organizationName: activeAccount.organizationName,
-                            useProxy: activeProvider.useProxy !== false
-                        };
+                if (activeProvider) {
+                    const accountInfo = this.buildAccountInfo(activeProvider, activeProvider.activeAccountId);
+                    if (accountInfo) {
+                        return accountInfo;
                     }
                 }
             }
@@ -201,34 +372,131 @@ class UnifiedInterceptorConfig {
         }
     }
 
+    /**
+     * 获取终端绑定的账号信息
+     * 绑定格式为 "providerId:accountId"，由扩展在启动终端时通过环境变量传入
+     * 绑定的账号已被删除时返回null，回退到全局活动账号
+     */
+    getBoundAccountInfo(serviceProviders) {
+        const binding = process.env[this.ACCOUNT_BINDING_ENV];
+        if (!binding) {
+            return null;
+        }
+
+        const accountInfo = this.findAccountInfo(serviceProviders, binding);
+        if (!accountInfo) {
+            console.warn(`[DEBUG] [Claude Interceptor] ⚠️ Bound account ${binding} not found, falling back to active account`);
+            return null;
+        }
+
+        console.log(`[DEBUG] [Claude Interceptor] 📌 Using terminal-bound account: ${binding}`);
+        return accountInfo;
+    }
+
+    /**
+     * 根据复合ID查找账号信息
+     * @param serviceProviders - 服务提供商配置
+     * @param compositeId - 复合ID（providerId:accountId）
+     */
+    findAccountInfo(serviceProviders, compositeId) {
+        const separatorIndex = compositeId.indexOf(':');
+        const providerId = separatorIndex === -1 ? compositeId : compositeId.slice(0, separatorIndex);
+        const accountId = separatorIndex === -1 ? '' : compositeId.slice(separatorIndex + 1);
+
+        const provider = serviceProviders.find(p => p.id === providerId);
+        return provider ? this.buildAccountInfo(provider, accountId) : null;
+    }
+
+    /**
+     * 设置故障转移接替的账号
+     * 连续故障转移时保留最初出错账号的冷却结束时间，到时恢复使用绑定账号或活动账号
+     * @param compositeId - 复合ID（providerId:accountId），传入null时恢复使用绑定账号或活动账号
+     * @param until - 出错账号的冷却结束时间（毫秒时间戳）
+     */
+    setFailoverAccount(compositeId, until = 0) {
+        if (!compositeId) {
+            this.failoverAccountId = null;
+            this.failoverUntil = 0;
+            return;
+        }
+
+        if (!this.failoverAccountId) {
+            this.failoverUntil = until;
+        }
+        this.failoverAccountId = compositeId;
+    }
+
+    /**
+     * 根据提供商配置构建账号信息
+     * @param provider - 服务提供商配置
+     * @param accountId - Claude官方账号为邮箱地址，第三方账号为账号ID
+     */
+    buildAccountInfo(provider, accountId) {
+        if (!accountId || !Array.isArray(provider.accounts)) {
+            return null;
+        }
+
+        if (provider.type === this.PROVIDER_TYPES.CLAUDE_OFFICIAL) {
+            const account = provider.accounts.find(acc => acc.emailAddress === accountId);
+            if (!account) {
+                return null;
+            }
+
+            console.log(`[DEBUG] [Claude Interceptor] ✅ Found active account from VSCode: ${account.emailAddress}`);
+            console.log(`[DEBUG] [Claude Interceptor] 🔑 Has authorization: ${!!account.authorization}`);
+
+            return {
+                type: this.PROVIDER_TYPES.CLAUDE_OFFICIAL,
+                providerId: provider.id,
+                compositeId: `${provider.id}:${account.emailAddress}`,
+                emailAddress: account.emailAddress,
+                authorization: this.resolveSecret(account.authorization),
+                authorizationRef: account.authorization,
+                organizationName: account.organizationName,
+                useProxy: provider.useProxy !== false,
+                proxyProfile: provider.proxyProfile
+            };
+        }
+
+        if (provider.type === this.PROVIDER_TYPES.THIRD_PARTY) {
+            const account = provider.accounts.find(acc => acc.id === accountId);
+            if (!account) {
+                return null;
+            }
+
+            console.log(`[DEBUG] [Claude Interceptor] ✅ Found third-party account from VSCode: ${provider.name} - ${account.name}`);
+
+            return {
+                type: this.PROVIDER_TYPES.THIRD_PARTY,
+                providerId: provider.id,
+                compositeId: `${provider.id}:${account.id}`,
+                id: account.id,
+                name: account.name,
+                apiKey: this.resolveSecret(account.apiKey),
+                apiKeyRef: account.apiKey,
+                baseUrl: account.baseUrl,
+                providerName: provider.name,
+                protocol: provider.protocol || 'anthropic',
+                modelMap: provider.modelMap,
+                smallFastModel: provider.smallFastModel,
+                useProxy: provider.useProxy !== false,
+                proxyProfile: provider.proxyProfile
+            };
+        }
+
+        return null;
+    }
+
     /**
      * 通知主进程更新授权令牌
-     * 通过环境变量或其他IPC机制通知主进程
+     * 通过IPC发送给扩展，扩展不可用时写入文件队列等待重放
      */
     notifyAuthorizationUpdate(emailAddress, authorization) {
         try {
             console.log(`[DEBUG] [Claude Interceptor] 🔔 Notifying authorization update for: ${emailAddress}`);
-            
-            // 方案1: 通过标准输出通知主进程（需要主进程监听）
-            const updateData = {
-                type: 'AUTHORIZATION_UPDATE',
-                emailAddress: emailAddress,
-                authorization: authorization,
-                timestamp: Date.now()
-            };
-            
-            // 输出到stdout，主进程可以监听
-            console.log(`[IPC_MESSAGE] ${JSON.stringify(updateData)}`);
-            
-            // 方案2: 写入临时文件（简化版，只在必要时使用）
-            const tempDir = path.join(os.homedir(), '.cc-copilot-auth-updates');
-            if (!fs.existsSync(tempDir)) {
-                fs.mkdirSync(tempDir, { recursive: true });
-            }
-            
-            const updateFile = path.join(tempDir, `auth_update_${Date.now()}.json`);
-            fs.writeFileSync(updateFile, JSON.stringify(updateData));
-            
+
+            IpcClient.getInstance().send('AUTHORIZATION_UPDATE', { emailAddress, authorization });
+
             console.log(`[DEBUG] [Claude Interceptor] ✅ Authorization update notification sent`);
             return true;
         } catch (error) {
@@ -247,6 +515,16 @@ class UnifiedInterceptorConfig {
             
             const accountInfo = this.getActiveAccountInfo();
             
+            // 账号的令牌尚未从扩展获得时，CLI发送的令牌不一定属于该账号，不能保存
+            if (this.getMissingSecretMessage(accountInfo)) {
+                console.log(`[DEBUG] [Claude Interceptor] ⏭️ Credentials of ${accountInfo.emailAddress} are not available, not saving the CLI authorization`);
+                return {
+                    updated: false,
+                    emailAddress: accountInfo.emailAddress,
+                    authorization: authorization
+                };
+            }
+
             if (accountInfo && accountInfo.emailAddress) {
                 // 检查是否需要更新
                 if (!accountInfo.authorization || accountInfo.authorization !== authorization) {
@@ -254,6 +532,9 @@ class UnifiedInterceptorConfig {
                     
                     // 通知主进程更新
                     this.notifyAuthorizationUpdate(accountInfo.emailAddress, authorization);
+
+                    // 设置中的引用不会变化，需要同步更新本地缓存
+                    this.rememberSecret(accountInfo.authorizationRef, authorization);
                     
                     return {
                         updated: true,
@@ -342,6 +623,19 @@ class UnifiedInterceptorConfig {
     getProxyConfig() {
         try {
             const vscodeConfig = this.getVSCodeConfig();
+
+            // 当前账号所属提供商引用了代理配置档时使用配置档，密码从密钥引用解析
+            const profile = this.getProxyProfile(this.getActiveAccountInfo(), vscodeConfig);
+            if (profile) {
+                return {
+                    enabled: true,
+                    url: profile.url,
+                    auth: profile.username ? { username: profile.username, password: this.resolveSecret(profile.password) || '' } : undefined,
+                    noProxy: profile.noProxy || [],
+                    profile: profile.name
+                };
+            }
+
             if (vscodeConfig && vscodeConfig.proxyConfig) {
                 return vscodeConfig.proxyConfig;
             }
@@ -360,12 +654,31 @@ class UnifiedInterceptorConfig {
         }
     }
 
+    /**
+     * 获取账号所属提供商引用的代理配置档，未引用或配置档不存在时返回null
+     */
+    getProxyProfile(accountInfo, vscodeConfig = this.getVSCodeConfig()) {
+        if (!accountInfo || !accountInfo.proxyProfile) {
+            return null;
+        }
+
+        const profile = (vscodeConfig.proxyProfiles || []).find(p => p && p.name === accountInfo.proxyProfile && p.url);
+        if (!profile) {
+            console.warn(`[DEBUG] [Claude Interceptor] ⚠️ Proxy profile "${accountInfo.proxyProfile}" not found`);
+            return null;
+        }
+        return profile;
+    }
+
     /**
      * 判断当前是否应该使用代理
      */
     shouldUseProxy() {
         try {
             const accountInfo = this.getActiveAccountInfo();
+            if (this.getProxyProfile(accountInfo)) {
+                return true;
+            }
             if (accountInfo && accountInfo.useProxy !== undefined) {
                 return accountInfo.useProxy;
             }
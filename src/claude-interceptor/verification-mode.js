@@ -0,0 +1,116 @@
+const { VERIFY_ENV } = require('./constants');
+const IpcClient = require('./ipc-client');
+
+/**
+ * 账号验证模式
+ * 扩展验证账号时通过环境变量启用。拦截到第一个 /v1/messages 请求后，
+ * 改用同样的请求头调用不消耗令牌的 count_tokens 接口检查凭据，
+ * 通过标准输出的IPC消息报告结果后立即退出，不发送真正的对话请求
+ */
+class VerificationMode {
+    constructor() {
+        this.enabled = process.env[VERIFY_ENV] === '1';
+        this.started = false;
+
+        // 验证模式只作用于被验证的CLI进程，不传递给子进程
+        delete process.env[VERIFY_ENV];
+
+        // 父进程通过标准输出读取验证期间发送的消息（例如捕获到的授权令牌）
+        if (this.enabled) {
+            IpcClient.getInstance().echoToStdout = true;
+        }
+    }
+
+    /**
+     * 判断请求是否需要改为验证
+     */
+    shouldVerify(url, init) {
+        if (!this.enabled || this.started) {
+            return false;
+        }
+
+        try {
+            const { pathname } = new URL(url);
+            return pathname.endsWith('/v1/messages') && (init.method || 'GET').toUpperCase() === 'POST';
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * 使用原请求的地址和请求头验证凭据，报告结果后退出进程
+     * @param originalFetch - 未被拦截的fetch
+     * @param url - 原请求地址（已按第三方提供商重写）
+     * @param init - 原请求选项（已设置授权头）
+     */
+    async verify(originalFetch, url, init) {
+        this.started = true;
+
+        const headers = new Headers(init.headers);
+        headers.delete('content-length');
+        headers.set('content-type', 'application/json');
+
+        let model = 'claude-3-5-haiku-latest';
+        try {
+            model = JSON.parse(init.body).model || model;
+        } catch (error) {
+            // 请求体不是JSON时使用默认模型
+        }
+
+        const countTokensUrl = new URL(url);
+        countTokensUrl.pathname = countTokensUrl.pathname.replace(/\/v1\/messages$/, '/v1/messages/count_tokens');
+
+        let result;
+        try {
+            const response = await originalFetch(countTokensUrl.toString(), {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ model, messages: [{ role: 'user', content: 'ping' }] })
+            });
+            result = {
+                status: this.getStatusFromResponse(response.status),
+                httpStatus: response.status,
+                message: response.ok ? 'Credentials accepted' : await this.readErrorMessage(response)
+            };
+        } catch (error) {
+            result = {
+                status: 'network_error',
+                message: error.cause?.message || error.message
+            };
+        }
+
+        // 退出前等待扩展确认已发送的消息，未确认的消息会写入文件队列
+        await IpcClient.getInstance().drain();
+
+        console.log(`[IPC_MESSAGE] ${JSON.stringify({ type: 'VERIFICATION_RESULT', ...result, timestamp: Date.now() })}`);
+        process.exit(0);
+    }
+
+    /**
+     * 将HTTP状态码映射为验证结果
+     * 429/529表示凭据有效但被限流或服务过载
+     */
+    getStatusFromResponse(httpStatus) {
+        if ((httpStatus >= 200 && httpStatus < 300) || httpStatus === 429 || httpStatus === 529) {
+            return 'ok';
+        }
+        if (httpStatus === 401) {
+            return 'expired';
+        }
+        return 'error';
+    }
+
+    /**
+     * 读取错误响应中的说明
+     */
+    async readErrorMessage(response) {
+        try {
+            const body = await response.json();
+            return body.error?.message || `HTTP ${response.status}`;
+        } catch (error) {
+            return `HTTP ${response.status}`;
+        }
+    }
+}
+
+module.exports = VerificationMode;
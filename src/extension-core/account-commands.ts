@@ -4,12 +4,15 @@ import * as path from 'path'
 import * as fs from 'fs'
 import { UnifiedConfigManager } from '../shared/config-manager'
 import { TerminalService } from '../terminal-service'
+import { AccountVerifier, describeVerificationResult } from '../account-verifier'
+import { getIpcEndpoint, getIpcSpoolDir } from '../ipc'
 
 export class AccountCommands {
   constructor(
     private context: vscode.ExtensionContext,
     private configManager: UnifiedConfigManager,
-    private terminalService: TerminalService
+    private terminalService: TerminalService,
+    private accountVerifier: AccountVerifier
   ) {}
 
   registerCommands(): void {
@@ -18,6 +21,7 @@ export class AccountCommands {
     this.registerReloginAccountCommand()
     this.registerRefreshAccountsCommand()
     this.registerSelectAccountCommand()
+    this.registerVerifyAccountCommand()
     this.registerDebugAccountStatusCommand()
   }
 
@@ -240,8 +244,8 @@ export class AccountCommands {
         await vscode.window.withProgress({
           location: vscode.ProgressLocation.Notification,
           title: `Switching to ${accountDisplayName}...`,
-          cancellable: false
-        }, async (progress) => {
+          cancellable: true
+        }, async (progress, cancellationToken) => {
           
           progress.report({ increment: 20, message: 'Setting active account...' })
           console.log('🔄 Step 1: Setting active account...');
@@ -260,12 +264,14 @@ export class AccountCommands {
             console.log('🔍 Step 2: Claude official account without token, starting verification...');
             console.log('🔍 Target account authorization status:', !!targetAccount.authorization);
             
-            // 创建隐藏会话来获取token
-            console.log('🚀 Creating hidden test session...');
-            const tokenObtained = await this.terminalService.createHiddenTestSession('hi')
-            console.log('🔍 Token obtained result:', tokenObtained);
+            // 通过CLI子进程验证账号，拦截器会捕获并上报授权令牌
+            const abortController = new AbortController()
+            const cancellation = cancellationToken.onCancellationRequested(() => abortController.abort())
+            const verification = await this.accountVerifier.verify(`${providerId}:${accountId}`, { signal: abortController.signal })
+            cancellation.dispose()
+            console.log('🔍 Verification result:', verification.status, verification.message);
             
-            if (tokenObtained) {
+            if (verification.status === 'ok') {
               progress.report({ increment: 100, message: 'Account switch successful!' })
               console.log('✅ Token verification successful!');
               
@@ -302,7 +308,7 @@ Token obtained and ready to use.`
                 vscode.window.showErrorMessage(
                   `❌ Failed to switch to ${accountDisplayName}!
 
-The account may not be logged in or token is invalid. Please try logging in again.`,
+${describeVerificationResult(verification)}.`,
                   'Login to Claude'
                 ).then(action => {
                   if (action === 'Login to Claude') {
@@ -332,6 +338,53 @@ The account may not be logged in or token is invalid. Please try logging in agai
     this.context.subscriptions.push(selectAccountCommand)
   }
 
+  private registerVerifyAccountCommand(): void {
+    const verifyAccountCommand = vscode.commands.registerCommand('cc-copilot.verifyAccount', async (item?: vscode.TreeItem | { providerId: string, accountId: string }) => {
+      const target = item && 'providerId' in item ? item : item?.command?.arguments?.[0]
+      let compositeId = target ? `${target.providerId}:${target.accountId}` : undefined
+      if (!compositeId) {
+        const selected = await vscode.window.showQuickPick(this.configManager.getAllProviderOptions(), {
+          placeHolder: 'Select the account to verify'
+        })
+        compositeId = selected?.id
+      }
+      if (!compositeId) return
+
+      const label = this.configManager.getAccountBinding(compositeId)?.label || compositeId
+      if (!this.accountVerifier.canVerify(compositeId)) {
+        const action = await vscode.window.showInformationMessage(
+          `${label} always launches through the local gateway, so its credentials cannot be verified with the Claude CLI. Test the connection instead?`,
+          'Test Connection'
+        )
+        if (action === 'Test Connection') {
+          await vscode.commands.executeCommand('cc-copilot.testProviderConnection', compositeId.split(':')[0])
+        }
+        return
+      }
+
+      const verification = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Verifying ${label}...`,
+        cancellable: true
+      }, async (_progress, cancellationToken) => {
+        const abortController = new AbortController()
+        const subscription = cancellationToken.onCancellationRequested(() => abortController.abort())
+        try {
+          return await this.accountVerifier.verify(compositeId!, { signal: abortController.signal })
+        } finally {
+          subscription.dispose()
+        }
+      })
+
+      if (verification.status === 'ok') {
+        vscode.window.showInformationMessage(`${label}: ${describeVerificationResult(verification)}.`)
+      } else if (verification.status !== 'cancelled') {
+        vscode.window.showWarningMessage(`${label}: ${describeVerificationResult(verification)}.`)
+      }
+    })
+    this.context.subscriptions.push(verifyAccountCommand)
+  }
+
   private registerDebugAccountStatusCommand(): void {
     const debugCommand = vscode.commands.registerCommand('cc-copilot.debugAccountStatus', async () => {
       try {
@@ -400,7 +453,7 @@ The account may not be logged in or token is invalid. Please try logging in agai
         console.log(`
 📁 VSCode Configuration (ccCopilot section):`);
         const config = vscode.workspace.getConfiguration('ccCopilot');
-        const configKeys = ['serviceProviders', 'activeServiceProviderId', 'proxyConfig'];
+        const configKeys = ['serviceProviders', 'activeServiceProviderId', 'proxyConfig', 'proxyProfiles'];
         
         configKeys.forEach(key => {
           const value = config.get(key);
@@ -410,15 +463,21 @@ The account may not be logged in or token is invalid. Please try logging in agai
           }
         });
 
-        // 5. 检查拦截器通信目录
-        const ipcDir = path.join(os.tmpdir(), 'cc-copilot-ipc');
+        // 5. 检查拦截器通信端点和消息队列
+        const ipcEndpoint = getIpcEndpoint();
         console.log(`
-📡 IPC Communication Directory: ${ipcDir}`);
-        console.log(`📡 IPC Dir Exists: ${fs.existsSync(ipcDir)}`);
+📡 IPC Endpoint: ${ipcEndpoint}`);
+        if (process.platform !== 'win32') {
+          console.log(`📡 IPC Endpoint Exists: ${fs.existsSync(ipcEndpoint)}`);
+        }
+
+        const spoolDir = getIpcSpoolDir();
+        console.log(`📡 IPC Spool Directory: ${spoolDir}`);
+        console.log(`📡 IPC Spool Dir Exists: ${fs.existsSync(spoolDir)}`);
         
-        if (fs.existsSync(ipcDir)) {
-          const files = fs.readdirSync(ipcDir);
-          console.log(`📡 IPC Files: ${files.length} files`);
+        if (fs.existsSync(spoolDir)) {
+          const files = fs.readdirSync(spoolDir);
+          console.log(`📡 Pending/Failed Messages: ${files.length} files`);
           files.forEach((file: string) => console.log(`    - ${file}`));
         }
 
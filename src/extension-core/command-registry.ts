@@ -2,10 +2,19 @@ import * as vscode from 'vscode'
 import { UnifiedConfigManager } from '../shared/config-manager'
 import { SessionManager } from '../session-manager'
 import { TerminalService } from '../terminal-service'
+import { TerminalRegistry } from '../terminal-registry'
 import { ClaudeSessionProvider } from '../treeProvider'
+import { TranscriptPanelManager } from '../transcript'
+import { SessionSearchIndex } from '../search'
+import { UsageDashboardPanel } from '../analytics'
+import { HeadlessPromptService } from '../headless'
 import { SessionCommands } from './session-commands'
 import { ProviderCommands } from './provider-commands'
 import { AccountCommands } from './account-commands'
+import { EditorCommands } from './editor-commands'
+import { ProxyCommands } from './proxy-commands'
+import { AccountVerifier } from '../account-verifier'
+import { RequestHistory } from '../requests'
 
 /**
  * 命令注册器类
@@ -19,6 +28,10 @@ export class CommandRegistry {
   private providerCommands: ProviderCommands
   /** 账号相关命令处理器 */
   private accountCommands: AccountCommands
+  /** 编辑器上下文命令处理器 */
+  private editorCommands: EditorCommands
+  /** 代理配置和连接测试命令处理器 */
+  private proxyCommands: ProxyCommands
 
   /**
    * 构造函数
@@ -27,13 +40,24 @@ export class CommandRegistry {
    * @param sessionManager - 会话管理器
    * @param terminalService - 终端服务
    * @param sessionProvider - 会话树形视图提供器
+   * @param transcriptPanelManager - 会话转录面板管理器
+   * @param searchIndex - 会话搜索索引
+   * @param usageDashboard - 用量仪表盘
+   * @param requestHistory - 拦截器上报的请求历史
    */
   constructor(
     private context: vscode.ExtensionContext,
     private configManager: UnifiedConfigManager,
     private sessionManager: SessionManager,
     private terminalService: TerminalService,
-    private sessionProvider: ClaudeSessionProvider
+    private sessionProvider: ClaudeSessionProvider,
+    private transcriptPanelManager: TranscriptPanelManager,
+    private searchIndex: SessionSearchIndex,
+    private usageDashboard: UsageDashboardPanel,
+    private headlessService: HeadlessPromptService,
+    private terminalRegistry: TerminalRegistry,
+    private accountVerifier: AccountVerifier,
+    private requestHistory: RequestHistory
   ) {
     // 初始化会话命令处理器
     this.sessionCommands = new SessionCommands(
@@ -41,7 +65,11 @@ export class CommandRegistry {
       configManager,
       sessionManager,
       terminalService,
-      sessionProvider
+      sessionProvider,
+      transcriptPanelManager,
+      searchIndex,
+      usageDashboard,
+      headlessService
     )
 
     // 初始化服务提供商命令处理器
@@ -54,7 +82,21 @@ export class CommandRegistry {
     this.accountCommands = new AccountCommands(
       context,
       configManager,
-      terminalService
+      terminalService,
+      accountVerifier
+    )
+
+    // 初始化编辑器上下文命令处理器
+    this.editorCommands = new EditorCommands(
+      context,
+      terminalService,
+      terminalRegistry
+    )
+
+    // 初始化代理命令处理器
+    this.proxyCommands = new ProxyCommands(
+      context,
+      configManager
     )
   }
 
@@ -67,6 +109,8 @@ export class CommandRegistry {
     this.sessionCommands.registerCommands()
     this.providerCommands.registerCommands()
     this.accountCommands.registerCommands()
+    this.editorCommands.registerCommands()
+    this.proxyCommands.registerCommands()
 
     // 注册设置命令
     const openSettingsCommand = vscode.commands.registerCommand('cc-copilot.openSettings', () => {
@@ -74,14 +118,52 @@ export class CommandRegistry {
     })
     this.context.subscriptions.push(openSettingsCommand)
 
+    // 注册清空请求历史命令
+    const clearRequestHistoryCommand = vscode.commands.registerCommand('cc-copilot.clearRequestHistory', async () => {
+      const confirm = await vscode.window.showWarningMessage(
+        'Clear the request history of all accounts?',
+        { modal: true },
+        'Clear'
+      )
+      if (confirm === 'Clear') {
+        this.requestHistory.clear()
+      }
+    })
+    this.context.subscriptions.push(clearRequestHistoryCommand)
+
     // 注册更多操作下拉菜单命令
     const showMoreActionsCommand = vscode.commands.registerCommand('cc-copilot.showMoreActions', async () => {
       const items: vscode.QuickPickItem[] = [
+        {
+          label: '$(rocket) New Session from Profile',
+          description: 'Start a session with a configured launch profile',
+          detail: 'cc-copilot.newSessionFromProfile'
+        },
+        {
+          label: '$(shield) New Session with Permission Mode',
+          description: 'Start a session with a one-off permission mode',
+          detail: 'cc-copilot.newSessionWithPermissionMode'
+        },
+        {
+          label: '$(comment-discussion) Ask Claude (Headless)',
+          description: 'Run a one-shot prompt without opening a terminal',
+          detail: 'cc-copilot.askClaudeHeadless'
+        },
         {
           label: '$(refresh) Refresh Sessions',
           description: 'Refresh the session list',
           detail: 'cc-copilot.refreshSessions'
         },
+        {
+          label: '$(search) Search Sessions',
+          description: 'Search messages across all session transcripts',
+          detail: 'cc-copilot.searchSessions'
+        },
+        {
+          label: '$(graph) Show Usage Dashboard',
+          description: 'Token usage and estimated cost per project, day, model and account',
+          detail: 'cc-copilot.showUsageDashboard'
+        },
         {
           label: '$(settings-gear) Open Settings',
           description: 'Open extension settings',
@@ -92,6 +174,11 @@ export class CommandRegistry {
           description: 'Add a new third-party AI provider',
           detail: 'cc-copilot.addThirdPartyProvider'
         },
+        {
+          label: '$(list-ordered) Manage Third Party Providers',
+          description: 'Edit, verify, reorder or remove providers and their keys',
+          detail: 'cc-copilot.manageProviders'
+        },
         {
           label: '$(search) Discover Claude Accounts',
           description: 'Discover available Claude accounts',
@@ -125,6 +212,11 @@ export class CommandRegistry {
           description: 'Add a new third-party AI provider',
           detail: 'cc-copilot.addThirdPartyProvider'
         },
+        {
+          label: '$(list-ordered) Manage Third Party Providers',
+          description: 'Edit, verify, reorder or remove providers and their keys',
+          detail: 'cc-copilot.manageProviders'
+        },
         {
           label: '$(search) Discover Claude Accounts',
           description: 'Discover available Claude accounts',
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode'
+import { TerminalService } from '../terminal-service'
+import { TerminalRegistry } from '../terminal-registry'
+import { formatFileReference, formatLineReference, formatProblems, formatSnippet, getRelativePath, getSelectedLines, ProblemInfo } from './editor-context'
+
+/** 新建会话后等待Claude CLI启动的时间（毫秒） */
+const CLAUDE_STARTUP_DELAY = 3000
+
+export class EditorCommands {
+  constructor(
+    private context: vscode.ExtensionContext,
+    private terminalService: TerminalService,
+    private terminalRegistry: TerminalRegistry
+  ) {}
+
+  registerCommands(): void {
+    this.registerSendSelectionCommand()
+    this.registerAskAboutFileCommand()
+    this.registerSendProblemsCommand()
+  }
+
+  private registerSendSelectionCommand(): void {
+    const sendSelectionCommand = vscode.commands.registerCommand('cc-copilot.sendSelectionToClaude', async () => {
+      const editor = vscode.window.activeTextEditor
+      if (!editor) {
+        vscode.window.showErrorMessage('No active editor.')
+        return
+      }
+
+      await this.sendToClaude(editor.document, cwd => this.formatSelection(editor, cwd))
+    })
+    this.context.subscriptions.push(sendSelectionCommand)
+  }
+
+  private registerAskAboutFileCommand(): void {
+    const askAboutFileCommand = vscode.commands.registerCommand('cc-copilot.askAboutFile', async (uri?: vscode.Uri) => {
+      // 从资源管理器调用时传入文件URI，否则使用当前编辑器
+      const document = uri
+        ? await vscode.workspace.openTextDocument(uri)
+        : vscode.window.activeTextEditor?.document
+      if (!document) {
+        vscode.window.showErrorMessage('No active editor.')
+        return
+      }
+
+      await this.sendToClaude(document, cwd => `${formatFileReference(document.uri.fsPath, cwd)} `)
+    })
+    this.context.subscriptions.push(askAboutFileCommand)
+  }
+
+  private registerSendProblemsCommand(): void {
+    const sendProblemsCommand = vscode.commands.registerCommand('cc-copilot.sendProblemsToClaude', async () => {
+      const editor = vscode.window.activeTextEditor
+      if (!editor) {
+        vscode.window.showErrorMessage('No active editor.')
+        return
+      }
+
+      // 有选区时只发送选区内的问题
+      const diagnostics = vscode.languages.getDiagnostics(editor.document.uri)
+        .filter(diagnostic => diagnostic.severity <= vscode.DiagnosticSeverity.Warning)
+        .filter(diagnostic => editor.selection.isEmpty || editor.selection.intersection(diagnostic.range))
+      if (diagnostics.length === 0) {
+        vscode.window.showInformationMessage('No errors or warnings in this file.')
+        return
+      }
+
+      const problems = diagnostics.map(diagnostic => this.toProblemInfo(diagnostic))
+      await this.sendToClaude(editor.document, cwd => formatProblems(editor.document.uri.fsPath, cwd, problems))
+    })
+    this.context.subscriptions.push(sendProblemsCommand)
+  }
+
+  /**
+   * 将编辑器上下文发送到Claude终端
+   * 不自动回车，用户可以在终端中补充问题后再提交
+   * @param document - 来源文档，用于在没有运行中的会话时确定新会话的工作目录
+   * @param format - 根据终端工作目录生成要发送的文本
+   */
+  private async sendToClaude(document: vscode.TextDocument, format: (cwd: string) => string): Promise<void> {
+    const target = await this.pickTargetTerminal(document)
+    if (!target) {
+      return
+    }
+
+    target.terminal.show()
+    target.terminal.sendText(format(target.cwd), false)
+  }
+
+  /**
+   * 选择接收上下文的Claude终端
+   * 优先使用当前活动的Claude终端，只有一个时直接使用，多个时让用户选择，
+   * 没有运行中的终端时在文档所在的工作区新建会话
+   */
+  private async pickTargetTerminal(document: vscode.TextDocument): Promise<{ terminal: vscode.Terminal, cwd: string } | undefined> {
+    const entries = this.terminalRegistry.getEntries()
+
+    const activeEntry = vscode.window.activeTerminal && this.terminalRegistry.getEntry(vscode.window.activeTerminal)
+    if (activeEntry) {
+      return activeEntry
+    }
+    if (entries.length === 1) {
+      return entries[0]
+    }
+    if (entries.length > 1) {
+      const selected = await vscode.window.showQuickPick(entries.map(entry => ({
+        label: `$(terminal) ${entry.terminal.name}`,
+        description: entry.cwd,
+        entry
+      })), {
+        placeHolder: 'Select the Claude session to send to'
+      })
+      return selected?.entry
+    }
+
+    const cwd = vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath
+    const terminal = await this.terminalService.createNewClaudeSession({ cwd })
+    if (!terminal) {
+      return undefined
+    }
+
+    // 等待Claude CLI启动后再输入，避免内容被shell读取
+    await new Promise(resolve => setTimeout(resolve, CLAUDE_STARTUP_DELAY))
+    const entry = this.terminalRegistry.getEntry(terminal)
+    return entry ? { terminal, cwd: entry.cwd } : undefined
+  }
+
+  /**
+   * 格式化选区
+   * 已保存的文件使用 @path#Lstart-end 引用，未保存的内容以内联代码片段发送
+   */
+  private formatSelection(editor: vscode.TextEditor, cwd: string): string {
+    const { document, selection } = editor
+    if (selection.isEmpty) {
+      const line = selection.active.line + 1
+      return formatLineReference(document.uri.fsPath, cwd, line, line)
+    }
+
+    const { startLine, endLine } = getSelectedLines(selection.start, selection.end)
+    if (document.isUntitled || document.isDirty || document.uri.scheme !== 'file') {
+      const code = document.getText(new vscode.Range(startLine - 1, 0, endLine, 0)).replace(/\n$/, '')
+      const label = document.isUntitled ? document.fileName : getRelativePath(document.uri.fsPath, cwd)
+      return formatSnippet(label, startLine, endLine, document.languageId, code)
+    }
+    return formatLineReference(document.uri.fsPath, cwd, startLine, endLine)
+  }
+
+  /**
+   * 转换诊断问题
+   */
+  private toProblemInfo(diagnostic: vscode.Diagnostic): ProblemInfo {
+    return {
+      start: diagnostic.range.start,
+      severity: diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'warning',
+      source: diagnostic.source,
+      code: typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code,
+      message: diagnostic.message
+    }
+  }
+}
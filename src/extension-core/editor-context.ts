@@ -0,0 +1,84 @@
+import * as path from 'path'
+
+/**
+ * 编辑器中的位置，行和列从0开始
+ */
+export interface EditorPosition {
+  line: number
+  character: number
+}
+
+/**
+ * 要发送给Claude的诊断问题
+ */
+export interface ProblemInfo {
+  /** 问题的起始位置 */
+  start: EditorPosition
+  /** 严重程度 */
+  severity: 'error' | 'warning'
+  /** 来源（可选），例如 ts、eslint */
+  source?: string
+  /** 问题代码（可选） */
+  code?: string | number
+  /** 问题描述 */
+  message: string
+}
+
+/**
+ * 获取选区覆盖的行号（从1开始）
+ * 选区结束于下一行行首时不计入该行
+ */
+export function getSelectedLines(start: EditorPosition, end: EditorPosition): { startLine: number, endLine: number } {
+  const startLine = start.line + 1
+  const endLine = end.character === 0 && end.line > start.line ? end.line : end.line + 1
+  return { startLine, endLine }
+}
+
+/**
+ * 生成带行号范围的 @path#Lstart-end 引用，末尾带空格便于继续输入问题
+ */
+export function formatLineReference(filePath: string, cwd: string, startLine: number, endLine: number): string {
+  const range = startLine === endLine ? `#L${startLine}` : `#L${startLine}-${endLine}`
+  return `${formatFileReference(filePath, cwd)}${range} `
+}
+
+/**
+ * 生成内联代码片段，用于未保存的内容
+ * @param label - 文件标签（相对路径或未命名文档的名称）
+ */
+export function formatSnippet(label: string, startLine: number, endLine: number, languageId: string, code: string): string {
+  return `${label} (lines ${startLine}-${endLine}):\n\`\`\`${languageId}\n${code}\n\`\`\`\n`
+}
+
+/**
+ * 格式化诊断问题，按行号排序，每个问题一行
+ */
+export function formatProblems(filePath: string, cwd: string, problems: ProblemInfo[]): string {
+  const lines = [...problems]
+    .sort((a, b) => a.start.line - b.start.line)
+    .map(problem => {
+      const source = [problem.source, problem.code].filter(value => value !== undefined && value !== '').join(' ')
+      const message = problem.message.split('\n')[0]
+      return `- L${problem.start.line + 1}:${problem.start.character + 1} ${problem.severity}${source ? ` (${source})` : ''}: ${message}`
+    })
+  return `Fix these problems in ${formatFileReference(filePath, cwd)}:\n${lines.join('\n')}\n`
+}
+
+/**
+ * 生成 @path 文件引用，路径中含空格时加引号
+ */
+export function formatFileReference(filePath: string, cwd: string): string {
+  const relativePath = getRelativePath(filePath, cwd)
+  return /\s/.test(relativePath) ? `@"${relativePath}"` : `@${relativePath}`
+}
+
+/**
+ * 获取相对于终端工作目录的路径（使用 / 分隔），不在工作目录内时使用绝对路径
+ */
+export function getRelativePath(filePath: string, cwd: string): string {
+  const relativePath = path.relative(cwd, filePath)
+  if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return filePath
+  }
+  return relativePath.split(path.sep).join('/')
+}
@@ -1,8 +1,19 @@
 import * as vscode from 'vscode'
 import { ClaudeSessionProvider } from '../treeProvider'
 import { UnifiedConfigManager } from '../shared/config-manager'
-import { SessionManager } from '../session-manager'
+import { ServiceProviderConfig, ThirdPartyAccountConfig } from '../shared/types'
+import { SecretStorageManager } from '../shared/secret-storage'
+import { SessionManager, ClaudeProjectsWatcher } from '../session-manager'
 import { TerminalService } from '../terminal-service'
+import { TerminalRegistry } from '../terminal-registry'
+import { TranscriptPanelManager } from '../transcript'
+import { SessionSearchIndex } from '../search'
+import { ProviderActivityLog, UsageAnalytics, UsageDashboardPanel } from '../analytics'
+import { HeadlessPromptService } from '../headless'
+import { AccountVerifier } from '../account-verifier'
+import { IpcServer, AccountFailoverPayload } from '../ipc'
+import { RequestHistory, RequestsTreeProvider } from '../requests'
+import { LocalGateway } from '../gateway'
 import { logger } from '../logger'
 import { CommandRegistry } from './command-registry'
 
@@ -14,12 +25,34 @@ import { CommandRegistry } from './command-registry'
 export class ExtensionCore {
   /** 统一配置管理器实例 */
   private configManager!: UnifiedConfigManager
+  /** 拦截器IPC服务实例 */
+  private ipcServer!: IpcServer
+  /** 请求历史实例 */
+  private requestHistory!: RequestHistory
+  /** 请求视图提供器实例 */
+  private requestsProvider!: RequestsTreeProvider
+  /** 本地网关实例 */
+  private gateway!: LocalGateway
   /** 会话管理器实例 */
   private sessionManager!: SessionManager
+  /** 终端注册表实例 */
+  private terminalRegistry!: TerminalRegistry
   /** 终端服务实例 */
   private terminalService!: TerminalService
+  /** 用量分析服务实例 */
+  private usageAnalytics!: UsageAnalytics
+  /** 用量仪表盘实例 */
+  private usageDashboard!: UsageDashboardPanel
   /** 会话树形视图提供器实例 */
   private sessionProvider!: ClaudeSessionProvider
+  /** 会话转录面板管理器实例 */
+  private transcriptPanelManager!: TranscriptPanelManager
+  /** 会话搜索索引实例 */
+  private searchIndex!: SessionSearchIndex
+  /** 无界面提问服务实例 */
+  private headlessService!: HeadlessPromptService
+  /** 账号验证服务实例 */
+  private accountVerifier!: AccountVerifier
   /** 命令注册器实例 */
   private commandRegistry!: CommandRegistry
 
@@ -45,23 +78,83 @@ export class ExtensionCore {
 
     // 初始化统一配置管理器
     console.log('Initializing UnifiedConfigManager...')
-    this.configManager = new UnifiedConfigManager()
+    this.configManager = new UnifiedConfigManager(new SecretStorageManager(this.context))
     console.log('UnifiedConfigManager initialized successfully')
 
+    // 将旧版本保存在设置中的明文密钥迁移到SecretStorage
+    this.configManager.migrateSecretsToStorage().catch(error => {
+      logger.error('Failed to migrate secrets to SecretStorage', 'extension', error as Error)
+    })
+
+    // 初始化拦截器IPC服务，注册处理函数后启动，启动时重放扩展未运行期间写入队列的消息
+    this.ipcServer = new IpcServer()
+    this.context.subscriptions.push(this.ipcServer, ...this.configManager.registerInterceptorHandlers(this.ipcServer))
+    this.registerInterceptorLogHandlers()
+    this.requestHistory = new RequestHistory(this.context, this.ipcServer)
+    this.requestsProvider = new RequestsTreeProvider(this.requestHistory)
+    this.context.subscriptions.push(this.requestHistory, this.requestsProvider)
+    this.ipcServer.start()
+
+    // 初始化本地网关，首次以网关方式启动CLI时才开始监听
+    this.gateway = new LocalGateway(this.configManager)
+    this.gateway.on('request:completed', record => this.requestHistory.add(record))
+    this.context.subscriptions.push(this.gateway)
+
     // 初始化会话管理器
     console.log('Initializing SessionManager...')
     this.sessionManager = new SessionManager(this.context, this.configManager)
     console.log('SessionManager initialized successfully')
 
+    // 初始化终端注册表，记录终端与会话的对应关系
+    this.terminalRegistry = new TerminalRegistry(this.sessionManager)
+    this.context.subscriptions.push(this.terminalRegistry)
+
     // 初始化终端服务
     console.log('Initializing TerminalService...')
-    this.terminalService = new TerminalService(this.context, this.configManager, this.sessionManager)
+    this.terminalService = new TerminalService(this.context, this.configManager, this.sessionManager, this.terminalRegistry, this.ipcServer, this.gateway)
     console.log('TerminalService initialized successfully')
 
+    // 初始化用量分析，记录活动账号切换以便将用量归属到当时的账号
+    const activityLog = new ProviderActivityLog(this.context, this.configManager)
+    this.context.subscriptions.push(activityLog)
+    this.usageAnalytics = new UsageAnalytics(this.sessionManager, this.configManager, activityLog)
+    this.usageDashboard = new UsageDashboardPanel(this.sessionManager, this.configManager, this.usageAnalytics)
+    this.context.subscriptions.push(this.usageDashboard)
+
+    // 初始化账号验证服务
+    this.accountVerifier = new AccountVerifier(this.terminalService, this.configManager)
+
     // 初始化会话树形视图提供器
     console.log('Initializing ClaudeSessionProvider...')
-    this.sessionProvider = new ClaudeSessionProvider(this.sessionManager, this.configManager)
+    this.sessionProvider = new ClaudeSessionProvider(this.sessionManager, this.configManager, this.usageAnalytics, this.terminalRegistry, this.requestHistory, this.accountVerifier)
     console.log('ClaudeSessionProvider initialized successfully')
+
+    // 初始化会话转录面板管理器
+    this.transcriptPanelManager = new TranscriptPanelManager(this.sessionManager)
+    this.context.subscriptions.push(this.transcriptPanelManager)
+
+    // 初始化会话搜索索引
+    this.searchIndex = new SessionSearchIndex(this.context, this.sessionManager)
+    this.context.subscriptions.push(this.searchIndex)
+
+    // 初始化无界面提问服务
+    this.headlessService = new HeadlessPromptService(this.terminalService, this.sessionManager, this.configManager)
+    this.context.subscriptions.push(this.headlessService)
+  }
+
+  /**
+   * 将拦截器的启动和错误消息记录到扩展日志
+   */
+  private registerInterceptorLogHandlers(): void {
+    this.context.subscriptions.push(
+      this.ipcServer.registerHandler('INTERCEPTOR_STARTED', message => {
+        const account = message.payload.accountLabel || message.payload.boundAccount || 'no account'
+        logger.info(`Interceptor started in pid ${message.pid} (${account}, Node ${message.payload.nodeVersion})`, 'interceptor')
+      }),
+      this.ipcServer.registerHandler('INTERCEPTOR_ERROR', message => {
+        logger.warn(`Interceptor error in pid ${message.pid} (${message.payload.context}): ${message.payload.message}`, 'interceptor')
+      })
+    )
   }
 
   /**
@@ -70,6 +163,7 @@ export class ExtensionCore {
    */
   private setupTreeView(): void {
     vscode.window.registerTreeDataProvider('claude-sessions-view', this.sessionProvider)
+    vscode.window.registerTreeDataProvider('claude-requests-view', this.requestsProvider)
   }
 
   /**
@@ -96,30 +190,15 @@ export class ExtensionCore {
 
   /**
    * 设置文件监听器
-   * 监听JSONL文件变化，自动刷新会话视图
+   * 启动时先增量同步一次，之后监听 ~/.claude/projects 下的会话文件，按文件更新会话存储
+   * 首次同步完成后校正搜索索引，之后索引随同步事件增量更新
    */
   private setupFileWatcher(): void {
-    const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.jsonl')
-
-    // 监听文件创建
-    fileWatcher.onDidCreate(() => {
-      logger.debug('JSONL file created, refreshing sessions...', 'extension')
-      setTimeout(() => this.sessionProvider.refresh(), 500)
-    })
+    this.sessionProvider.syncWithClaudeDirectory().then(() => this.searchIndex.reconcile())
 
-    // 监听文件修改
-    fileWatcher.onDidChange(() => {
-      logger.debug('JSONL file changed, refreshing sessions...', 'extension')
-      setTimeout(() => this.sessionProvider.refresh(), 500)
-    })
-
-    // 监听文件删除
-    fileWatcher.onDidDelete(() => {
-      logger.debug('JSONL file deleted, refreshing sessions...', 'extension')
-      setTimeout(() => this.sessionProvider.refresh(), 500)
-    })
-
-    this.context.subscriptions.push(fileWatcher)
+    const projectsWatcher = new ClaudeProjectsWatcher(this.sessionManager)
+    projectsWatcher.start()
+    this.context.subscriptions.push(projectsWatcher)
   }
 
   /**
@@ -151,11 +230,49 @@ export class ExtensionCore {
       this.sessionProvider.refresh()
     })
 
+    // 监听第三方账号修改和删除事件，原验证结果不再有效
+    const clearVerification = ({ provider, account }: { provider: ServiceProviderConfig, account: ThirdPartyAccountConfig }) => {
+      this.accountVerifier.clearResult(`${provider.id}:${account.id}`)
+    }
+    this.configManager.on('thirdPartyAccount:updated', clearVerification)
+    this.configManager.on('thirdPartyAccount:removed', clearVerification)
+
+    // 监听第三方账号和服务提供商删除事件，解除会话上对已删除账号的绑定，恢复会话时改用当前活动账号
+    this.configManager.on('thirdPartyAccount:removed', ({ provider, account }: { provider: ServiceProviderConfig, account: ThirdPartyAccountConfig }) => {
+      this.clearSessionBindings(compositeId => compositeId === `${provider.id}:${account.id}`)
+    })
+    this.configManager.on('serviceProvider:removed', (providerId: string) => {
+      logger.info(`Service provider ${providerId} removed, refreshing tree view...`, 'extension')
+      this.clearSessionBindings(compositeId => compositeId.split(':')[0] === providerId)
+      this.sessionProvider.refresh()
+    })
+
     // 监听活动服务提供商变化事件
     this.configManager.on('serviceProvider:activated', () => {
       logger.info('Active service provider changed, refreshing tree view...', 'extension')
       this.sessionProvider.refresh()
     })
+
+    // 监听拦截器故障转移事件，提示接替的账号并刷新冷却状态
+    this.configManager.on('account:failover', (payload: AccountFailoverPayload) => {
+      logger.info(`Account failover in group "${payload.group}": ${payload.from} -> ${payload.to} (HTTP ${payload.status})`, 'extension')
+      this.sessionProvider.refresh()
+      vscode.window.showInformationMessage(
+        `${payload.fromLabel} returned HTTP ${payload.status}. ${payload.toLabel} took over (failover group "${payload.group}").`
+      )
+    })
+  }
+
+  /**
+   * 解除会话上对已删除账号的绑定
+   * @param isRemoved - 判断复合ID（providerId:accountId）是否属于已删除的账号
+   */
+  private clearSessionBindings(isRemoved: (compositeId: string) => boolean): void {
+    for (const session of this.sessionManager.getAllSessions()) {
+      if (session.account && isRemoved(session.account.compositeId)) {
+        this.sessionManager.updateSession(session.id, { account: undefined })
+      }
+    }
   }
 
   /**
@@ -168,7 +285,14 @@ export class ExtensionCore {
       this.configManager,
       this.sessionManager,
       this.terminalService,
-      this.sessionProvider
+      this.sessionProvider,
+      this.transcriptPanelManager,
+      this.searchIndex,
+      this.usageDashboard,
+      this.headlessService,
+      this.terminalRegistry,
+      this.accountVerifier,
+      this.requestHistory
     )
     this.commandRegistry.registerAllCommands()
   }
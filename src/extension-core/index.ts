@@ -16,4 +16,7 @@ export { SessionCommands } from './session-commands'
 export { ProviderCommands } from './provider-commands'
 
 /** 账号相关命令 - 处理账号管理相关的命令 */
-export { AccountCommands } from './account-commands'
\ No newline at end of file
+export { AccountCommands } from './account-commands'
+
+/** 代理相关命令 - 处理代理配置档和连接测试相关的命令 */
+export { ProxyCommands } from './proxy-commands'
@@ -1,5 +1,31 @@
 import * as vscode from 'vscode'
 import { UnifiedConfigManager } from '../shared/config-manager'
+import { CONFIG_CONSTANTS, KeySelectionStrategy, LaunchMode, ProviderProtocol, ServiceProviderConfig, ThirdPartyAccountConfig } from '../shared/types'
+
+/** 密钥选择策略的显示名称和说明 */
+const KEY_SELECTION_LABELS: Record<KeySelectionStrategy, { label: string, detail: string }> = {
+  'active': { label: 'Active key only', detail: 'Always use the selected account' },
+  'round-robin': { label: 'Round-robin', detail: 'Use each key in turn' },
+  'weighted': { label: 'Weighted', detail: 'Pick keys at random in proportion to their weight' },
+  'least-recently-used': { label: 'Least recently used', detail: 'Use the key that has been idle the longest' }
+}
+
+/** 提供商协议的显示名称和说明 */
+const PROVIDER_PROTOCOL_LABELS: Record<ProviderProtocol, { label: string, detail: string }> = {
+  'anthropic': { label: 'Anthropic Messages', detail: 'The provider speaks the Anthropic API (/v1/messages)' },
+  'openai-chat': { label: 'OpenAI Chat Completions', detail: 'Translate to /chat/completions. Sessions run through the local gateway' },
+  'openai-responses': { label: 'OpenAI Responses', detail: 'Translate to /responses. Sessions run through the local gateway' }
+}
+
+/** 提供商启动方式的显示名称和说明 */
+const PROVIDER_LAUNCH_MODE_LABELS: Record<LaunchMode, { label: string, detail: string }> = {
+  'interceptor': { label: 'Interceptor', detail: 'Preload the request interceptor into the Claude CLI' },
+  'gateway': { label: 'Local Gateway', detail: 'Point the CLI at the local gateway, which forwards to this provider' },
+  'env': { label: 'Environment Variables', detail: 'Set ANTHROPIC_BASE_URL, ANTHROPIC_AUTH_TOKEN and model variables only. No key selection or failover' }
+}
+
+/** 树节点或直接传入的账号引用 */
+type AccountTarget = vscode.TreeItem | { providerId: string, accountId?: string } | string
 
 export class ProviderCommands {
   constructor(
@@ -10,35 +36,55 @@ export class ProviderCommands {
   registerCommands(): void {
     this.registerAddThirdPartyProviderCommand()
     this.registerSelectActiveProviderCommand()
+    this.registerAddProviderKeyCommand()
+    this.registerSetKeySelectionCommand()
+    this.registerSetProviderProtocolCommand()
+    this.registerSetProviderLaunchModeCommand()
+    this.registerRenameProviderCommand()
+    this.registerRemoveProviderCommand()
+    this.registerMoveProviderCommands()
+    this.registerEditBaseUrlCommand()
+    this.registerRotateApiKeyCommand()
+    this.registerRenameAccountCommand()
+    this.registerRemoveAccountCommand()
+    this.registerManageProvidersCommand()
   }
 
   private registerAddThirdPartyProviderCommand(): void {
     const addThirdPartyProviderCommand = vscode.commands.registerCommand('cc-copilot.addThirdPartyProvider', async () => {
       const providerName = await vscode.window.showInputBox({
         prompt: 'Enter the provider name (e.g., "OpenAI", "Anthropic Compatible")',
-        placeHolder: 'Provider Name'
+        placeHolder: 'Provider Name',
+        validateInput: input => this.validateProviderName(input)
       })
       
       if (!providerName) return
 
       const accountName = await vscode.window.showInputBox({
         prompt: 'Enter the account name',
-        placeHolder: 'Account Name'
+        placeHolder: 'Account Name',
+        validateInput: input => input.trim() ? undefined : 'Enter a name'
       })
       
       if (!accountName) return
 
       const baseUrl = await vscode.window.showInputBox({
         prompt: 'Enter the base URL for the API',
-        placeHolder: 'https://api.example.com/v1'
+        placeHolder: 'https://api.example.com/v1',
+        validateInput: input => this.validateBaseUrl(input)
       })
       
       if (!baseUrl) return
 
+      const protocol = await this.pickProviderProtocol('anthropic', 'Which API does this provider speak?')
+
+      if (!protocol) return
+
       const apiKey = await vscode.window.showInputBox({
         prompt: 'Enter the API key',
         placeHolder: 'your-api-key-here',
-        password: true
+        password: true,
+        validateInput: input => this.validateApiKey(input)
       })
       
       if (!apiKey) return
@@ -51,13 +97,13 @@ export class ProviderCommands {
       try {
         const account = {
           id: `account_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-          name: accountName,
-          apiKey: apiKey,
-          baseUrl: baseUrl,
+          name: accountName.trim(),
+          apiKey: apiKey.trim(),
+          baseUrl: baseUrl.trim(),
           description: description || ''
         }
 
-        await this.configManager.createThirdPartyProvider(providerName, account)
+        await this.configManager.createThirdPartyProvider(providerName.trim(), account, protocol)
         vscode.window.showInformationMessage(`Third party provider "${providerName}" added successfully!`)
       } catch (error) {
         vscode.window.showErrorMessage(`Failed to add provider: ${(error as Error).message}`)
@@ -109,4 +155,534 @@ export class ProviderCommands {
     })
     this.context.subscriptions.push(selectActiveProviderCommand)
   }
-}
\ No newline at end of file
+
+  private registerAddProviderKeyCommand(): void {
+    const addProviderKeyCommand = vscode.commands.registerCommand('cc-copilot.addProviderKey', async (item?: vscode.TreeItem) => {
+      const provider = await this.pickThirdPartyProvider(item, 'Select the provider to add a key to')
+      if (!provider) return
+
+      const existingAccounts = provider.accounts as ThirdPartyAccountConfig[]
+      const keyName = await vscode.window.showInputBox({
+        prompt: `Enter a name for the new ${provider.name} key`,
+        placeHolder: 'Key Name',
+        value: `Key ${existingAccounts.length + 1}`,
+        validateInput: input => this.validateAccountName(input, provider)
+      })
+
+      if (!keyName) return
+
+      const apiKey = await vscode.window.showInputBox({
+        prompt: 'Enter the API key',
+        placeHolder: 'your-api-key-here',
+        password: true,
+        validateInput: input => this.validateApiKey(input)
+      })
+
+      if (!apiKey) return
+
+      try {
+        await this.configManager.addThirdPartyKey(provider.id, {
+          id: `account_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+          name: keyName.trim(),
+          apiKey: apiKey.trim(),
+          baseUrl: existingAccounts[0]?.baseUrl || '',
+          description: ''
+        })
+
+        const strategy = provider.keySelection || 'active'
+        if (strategy === 'active') {
+          const action = await vscode.window.showInformationMessage(
+            `Key "${keyName}" added to ${provider.name}. Requests only use the active key until a key selection strategy is set.`,
+            'Set Key Selection'
+          )
+          if (action === 'Set Key Selection') {
+            await vscode.commands.executeCommand('cc-copilot.setKeySelection', provider.id)
+          }
+        } else {
+          vscode.window.showInformationMessage(`Key "${keyName}" added to ${provider.name} (${KEY_SELECTION_LABELS[strategy].label}).`)
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to add key: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(addProviderKeyCommand)
+  }
+
+  private registerSetKeySelectionCommand(): void {
+    const setKeySelectionCommand = vscode.commands.registerCommand('cc-copilot.setKeySelection', async (item?: vscode.TreeItem | string) => {
+      const provider = await this.pickThirdPartyProvider(item, 'Select the provider to balance keys for')
+      if (!provider) return
+
+      const current = provider.keySelection || 'active'
+      const selected = await vscode.window.showQuickPick(
+        CONFIG_CONSTANTS.KEY_SELECTION_STRATEGIES.map(strategy => ({
+          label: KEY_SELECTION_LABELS[strategy].label,
+          description: strategy === current ? 'Current' : undefined,
+          detail: KEY_SELECTION_LABELS[strategy].detail,
+          strategy
+        })),
+        { placeHolder: `How should requests to ${provider.name} be spread across its ${provider.accounts.length} key(s)?` }
+      )
+
+      if (!selected) return
+
+      let weights: Record<string, number> | undefined
+      if (selected.strategy === 'weighted') {
+        weights = {}
+        for (const account of provider.accounts as ThirdPartyAccountConfig[]) {
+          const value = await vscode.window.showInputBox({
+            prompt: `Weight for "${account.name}"`,
+            value: String(account.weight ?? 1),
+            validateInput: input => /^\d+(\.\d+)?$/.test(input.trim()) ? undefined : 'Enter a non-negative number'
+          })
+          if (value === undefined) return
+          weights[account.id] = Number(value)
+        }
+      }
+
+      try {
+        await this.configManager.setKeySelection(provider.id, selected.strategy, weights)
+        vscode.window.showInformationMessage(`${provider.name} now uses: ${selected.label}`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to set key selection: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(setKeySelectionCommand)
+  }
+
+  private registerSetProviderProtocolCommand(): void {
+    const setProviderProtocolCommand = vscode.commands.registerCommand('cc-copilot.setProviderProtocol', async (item?: vscode.TreeItem | string) => {
+      const provider = await this.pickThirdPartyProvider(item, 'Select the provider to change the API protocol for')
+      if (!provider) return
+
+      const protocol = await this.pickProviderProtocol(provider.protocol || 'anthropic', `Which API does ${provider.name} speak?`)
+      if (!protocol) return
+
+      try {
+        await this.configManager.setProviderProtocol(provider.id, protocol)
+        vscode.window.showInformationMessage(`${provider.name} now uses: ${PROVIDER_PROTOCOL_LABELS[protocol].label}`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to set provider protocol: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(setProviderProtocolCommand)
+  }
+
+  private registerSetProviderLaunchModeCommand(): void {
+    const setProviderLaunchModeCommand = vscode.commands.registerCommand('cc-copilot.setProviderLaunchMode', async (item?: vscode.TreeItem | string) => {
+      const provider = await this.pickThirdPartyProvider(item, 'Select the provider to change the launch mode for')
+      if (!provider) return
+
+      const globalMode = this.configManager.getLaunchMode()
+      const selected = await vscode.window.showQuickPick(
+        [
+          {
+            label: 'Use Global Setting',
+            description: provider.launchMode ? undefined : 'Current',
+            detail: `Follow ccCopilot.launchMode (${PROVIDER_LAUNCH_MODE_LABELS[globalMode].label})`,
+            launchMode: undefined as LaunchMode | undefined
+          },
+          ...CONFIG_CONSTANTS.PROVIDER_LAUNCH_MODES.map(launchMode => ({
+            label: PROVIDER_LAUNCH_MODE_LABELS[launchMode].label,
+            description: launchMode === provider.launchMode ? 'Current' : undefined,
+            detail: PROVIDER_LAUNCH_MODE_LABELS[launchMode].detail,
+            launchMode: launchMode as LaunchMode | undefined
+          }))
+        ],
+        { placeHolder: `How should new sessions on ${provider.name} be launched?` }
+      )
+
+      if (!selected) return
+
+      try {
+        await this.configManager.setProviderLaunchMode(provider.id, selected.launchMode)
+        vscode.window.showInformationMessage(`New ${provider.name} sessions will use: ${selected.label}`)
+        if (selected.launchMode && selected.launchMode !== 'gateway' && (provider.protocol || 'anthropic') !== 'anthropic') {
+          vscode.window.showWarningMessage(`${provider.name} uses an OpenAI-compatible protocol, so its sessions still run through the local gateway.`)
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to set launch mode: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(setProviderLaunchModeCommand)
+  }
+
+  private registerRenameProviderCommand(): void {
+    const renameProviderCommand = vscode.commands.registerCommand('cc-copilot.renameProvider', async (item?: AccountTarget) => {
+      const provider = await this.pickThirdPartyProvider(this.getProviderTarget(item), 'Select the provider to rename')
+      if (!provider) return
+
+      const name = await vscode.window.showInputBox({
+        prompt: `Enter a new name for ${provider.name}`,
+        value: provider.name,
+        validateInput: input => this.validateProviderName(input, provider.id)
+      })
+
+      if (!name || name.trim() === provider.name) return
+
+      try {
+        await this.configManager.renameServiceProvider(provider.id, name.trim())
+        vscode.window.showInformationMessage(`Provider renamed to "${name.trim()}".`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to rename provider: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(renameProviderCommand)
+  }
+
+  private registerRemoveProviderCommand(): void {
+    const removeProviderCommand = vscode.commands.registerCommand('cc-copilot.removeProvider', async (item?: AccountTarget) => {
+      const provider = await this.pickThirdPartyProvider(this.getProviderTarget(item), 'Select the provider to remove')
+      if (!provider) return
+
+      const confirmed = await vscode.window.showWarningMessage(
+        `Remove ${provider.name} and its ${provider.accounts.length} key(s)? The API keys are deleted from secret storage.`,
+        { modal: true },
+        'Remove'
+      )
+
+      if (confirmed !== 'Remove') return
+
+      try {
+        await this.configManager.removeServiceProvider(provider.id)
+        vscode.window.showInformationMessage(`Provider "${provider.name}" removed.`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to remove provider: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(removeProviderCommand)
+  }
+
+  private registerMoveProviderCommands(): void {
+    const move = async (item: AccountTarget | undefined, direction: -1 | 1) => {
+      const provider = await this.pickThirdPartyProvider(this.getProviderTarget(item), `Select the provider to move ${direction < 0 ? 'up' : 'down'}`)
+      if (!provider) return
+
+      try {
+        await this.configManager.moveServiceProvider(provider.id, direction)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to move provider: ${(error as Error).message}`)
+      }
+    }
+
+    this.context.subscriptions.push(
+      vscode.commands.registerCommand('cc-copilot.moveProviderUp', (item?: AccountTarget) => move(item, -1)),
+      vscode.commands.registerCommand('cc-copilot.moveProviderDown', (item?: AccountTarget) => move(item, 1))
+    )
+  }
+
+  private registerEditBaseUrlCommand(): void {
+    const editBaseUrlCommand = vscode.commands.registerCommand('cc-copilot.editBaseUrl', async (item?: AccountTarget) => {
+      const target = await this.pickThirdPartyAccount(item, 'Select the provider to change the base URL for')
+      if (!target) return
+      const { provider, account } = target
+
+      const baseUrl = await vscode.window.showInputBox({
+        prompt: `Enter the base URL for ${provider.name} - ${account.name}`,
+        value: account.baseUrl,
+        validateInput: input => this.validateBaseUrl(input)
+      })
+
+      if (!baseUrl || baseUrl.trim() === account.baseUrl) return
+
+      // 同一提供商的密钥通常指向同一网关，默认一起修改
+      const sharedAccounts = (provider.accounts as ThirdPartyAccountConfig[]).filter(acc => acc.baseUrl === account.baseUrl)
+      let scope: 'account' | 'provider' = 'account'
+      if (sharedAccounts.length > 1) {
+        const selected = await vscode.window.showQuickPick(
+          [
+            { label: `All ${sharedAccounts.length} keys`, detail: `Every ${provider.name} key that uses ${account.baseUrl}`, scope: 'provider' as const },
+            { label: `${account.name} only`, scope: 'account' as const }
+          ],
+          { placeHolder: 'Which keys should use the new base URL?' }
+        )
+        if (!selected) return
+        scope = selected.scope
+      }
+
+      try {
+        if (scope === 'provider' && sharedAccounts.length === provider.accounts.length) {
+          await this.configManager.setProviderBaseUrl(provider.id, baseUrl.trim())
+        } else {
+          for (const acc of scope === 'provider' ? sharedAccounts : [account]) {
+            await this.configManager.updateThirdPartyAccount(provider.id, acc.id, { baseUrl: baseUrl.trim() })
+          }
+        }
+        await this.verifyAfterChange(provider, account, `Base URL of ${provider.name} updated.`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to update base URL: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(editBaseUrlCommand)
+  }
+
+  private registerRotateApiKeyCommand(): void {
+    const rotateApiKeyCommand = vscode.commands.registerCommand('cc-copilot.rotateApiKey', async (item?: AccountTarget) => {
+      const target = await this.pickThirdPartyAccount(item, 'Select the provider whose key to replace')
+      if (!target) return
+      const { provider, account } = target
+
+      const apiKey = await vscode.window.showInputBox({
+        prompt: `Enter the new API key for ${provider.name} - ${account.name}. The old key is replaced in secret storage`,
+        placeHolder: 'your-api-key-here',
+        password: true,
+        validateInput: input => this.validateApiKey(input)
+      })
+
+      if (!apiKey) return
+
+      try {
+        await this.configManager.updateThirdPartyAccount(provider.id, account.id, { apiKey: apiKey.trim() })
+        await this.verifyAfterChange(provider, account, `API key of ${provider.name} - ${account.name} replaced. Running sessions keep the old key until restarted.`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to replace API key: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(rotateApiKeyCommand)
+  }
+
+  private registerRenameAccountCommand(): void {
+    const renameAccountCommand = vscode.commands.registerCommand('cc-copilot.renameAccount', async (item?: AccountTarget) => {
+      const target = await this.pickThirdPartyAccount(item, 'Select the provider whose key to rename')
+      if (!target) return
+      const { provider, account } = target
+
+      const name = await vscode.window.showInputBox({
+        prompt: `Enter a new name for ${account.name}`,
+        value: account.name,
+        validateInput: input => this.validateAccountName(input, provider, account.id)
+      })
+
+      if (!name || name.trim() === account.name) return
+
+      try {
+        await this.configManager.updateThirdPartyAccount(provider.id, account.id, { name: name.trim() })
+        vscode.window.showInformationMessage(`Key renamed to "${name.trim()}".`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to rename key: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(renameAccountCommand)
+  }
+
+  private registerRemoveAccountCommand(): void {
+    const removeAccountCommand = vscode.commands.registerCommand('cc-copilot.removeAccount', async (item?: AccountTarget) => {
+      const target = await this.pickThirdPartyAccount(item, 'Select the provider to remove a key from')
+      if (!target) return
+      const { provider, account } = target
+
+      if (provider.accounts.length === 1) {
+        const action = await vscode.window.showWarningMessage(
+          `${account.name} is the only key of ${provider.name}. Remove the whole provider instead?`,
+          { modal: true },
+          'Remove Provider'
+        )
+        if (action === 'Remove Provider') {
+          await vscode.commands.executeCommand('cc-copilot.removeProvider', provider.id)
+        }
+        return
+      }
+
+      const confirmed = await vscode.window.showWarningMessage(
+        `Remove ${account.name} from ${provider.name}? The API key is deleted from secret storage.`,
+        { modal: true },
+        'Remove'
+      )
+
+      if (confirmed !== 'Remove') return
+
+      try {
+        await this.configManager.removeThirdPartyAccount(provider.id, account.id)
+        vscode.window.showInformationMessage(`Key "${account.name}" removed from ${provider.name}.`)
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to remove key: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(removeAccountCommand)
+  }
+
+  private registerManageProvidersCommand(): void {
+    const manageProvidersCommand = vscode.commands.registerCommand('cc-copilot.manageProviders', async () => {
+      const providers = this.configManager.getServiceProviders()
+        .filter(provider => provider.type === CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY)
+      const accountItems = providers.flatMap(provider => (provider.accounts as ThirdPartyAccountConfig[]).map(account => ({
+        label: `${provider.name} - ${account.name}`,
+        description: account.baseUrl,
+        target: { providerId: provider.id, accountId: account.id } as { providerId: string, accountId: string } | undefined
+      })))
+
+      const selected = await vscode.window.showQuickPick(
+        [...accountItems, { label: '$(add) Add Third Party Provider', description: undefined, target: undefined }],
+        { placeHolder: 'Select a provider key to manage' }
+      )
+
+      if (!selected) return
+      if (!selected.target) {
+        await vscode.commands.executeCommand('cc-copilot.addThirdPartyProvider')
+        return
+      }
+
+      const action = await vscode.window.showQuickPick(
+        [
+          { label: '$(verified) Verify Credentials', command: 'cc-copilot.verifyAccount' },
+          { label: '$(pulse) Test Connection', command: 'cc-copilot.testProviderConnection' },
+          { label: '$(link) Edit Base URL', command: 'cc-copilot.editBaseUrl' },
+          { label: '$(key) Replace API Key', command: 'cc-copilot.rotateApiKey' },
+          { label: '$(edit) Rename Key', command: 'cc-copilot.renameAccount' },
+          { label: '$(add) Add Key to Provider', command: 'cc-copilot.addProviderKey' },
+          { label: '$(trash) Remove Key', command: 'cc-copilot.removeAccount' },
+          { label: '$(edit) Rename Provider', command: 'cc-copilot.renameProvider' },
+          { label: '$(arrow-up) Move Provider Up', command: 'cc-copilot.moveProviderUp' },
+          { label: '$(arrow-down) Move Provider Down', command: 'cc-copilot.moveProviderDown' },
+          { label: '$(trash) Remove Provider', command: 'cc-copilot.removeProvider' }
+        ],
+        { placeHolder: selected.label }
+      )
+
+      if (!action) return
+
+      // 只接受提供商ID的命令传入提供商ID，其余命令传入账号引用
+      const providerOnly = ['cc-copilot.testProviderConnection', 'cc-copilot.addProviderKey']
+      await vscode.commands.executeCommand(action.command, providerOnly.includes(action.command) ? selected.target.providerId : selected.target)
+    })
+    this.context.subscriptions.push(manageProvidersCommand)
+  }
+
+  /**
+   * 修改凭据或地址后重新验证账号，账号只能通过网关启动时只提示修改成功
+   */
+  private async verifyAfterChange(provider: ServiceProviderConfig, account: ThirdPartyAccountConfig, message: string): Promise<void> {
+    const action = await vscode.window.showInformationMessage(message, 'Verify Now')
+    if (action === 'Verify Now') {
+      await vscode.commands.executeCommand('cc-copilot.verifyAccount', { providerId: provider.id, accountId: account.id })
+    }
+  }
+
+  /**
+   * 校验提供商名称：不能为空，不能与其他提供商重名
+   * @param excludeId - 重命名时排除的提供商ID（可选）
+   */
+  private validateProviderName(input: string, excludeId?: string): string | undefined {
+    const name = input.trim()
+    if (!name) {
+      return 'Enter a name'
+    }
+    const duplicate = this.configManager.getServiceProviders().some(p => p.id !== excludeId && p.name.toLowerCase() === name.toLowerCase())
+    return duplicate ? `A provider named "${name}" already exists` : undefined
+  }
+
+  /**
+   * 校验账号名称：不能为空，不能与同一提供商的其他账号重名
+   * @param excludeId - 重命名时排除的账号ID（可选）
+   */
+  private validateAccountName(input: string, provider: ServiceProviderConfig, excludeId?: string): string | undefined {
+    const name = input.trim()
+    if (!name) {
+      return 'Enter a name'
+    }
+    const duplicate = (provider.accounts as ThirdPartyAccountConfig[]).some(acc => acc.id !== excludeId && acc.name.toLowerCase() === name.toLowerCase())
+    return duplicate ? `${provider.name} already has a key named "${name}"` : undefined
+  }
+
+  /**
+   * 校验基础URL：必须是 http 或 https 地址
+   */
+  private validateBaseUrl(input: string): string | undefined {
+    try {
+      const url = new URL(input.trim())
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'Use an http:// or https:// URL'
+      }
+      return url.hostname ? undefined : 'Enter the host name'
+    } catch {
+      return 'Enter a valid URL, e.g., https://api.example.com'
+    }
+  }
+
+  /**
+   * 校验API密钥：不能为空，不能包含空白字符
+   */
+  private validateApiKey(input: string): string | undefined {
+    const apiKey = input.trim()
+    if (!apiKey) {
+      return 'Enter the API key'
+    }
+    return /\s/.test(apiKey) ? 'The API key must not contain spaces or line breaks' : undefined
+  }
+
+  /**
+   * 从树节点或账号引用中取出提供商ID，交给 pickThirdPartyProvider
+   */
+  private getProviderTarget(item: AccountTarget | undefined): vscode.TreeItem | string | undefined {
+    return item && typeof item === 'object' && 'providerId' in item ? item.providerId : item
+  }
+
+  /**
+   * 确定要操作的第三方账号
+   * 从账号树节点调用或传入账号引用时直接使用，否则先选择提供商，提供商有多个账号时再选择账号
+   */
+  private async pickThirdPartyAccount(
+    item: AccountTarget | undefined,
+    placeHolder: string
+  ): Promise<{ provider: ServiceProviderConfig, account: ThirdPartyAccountConfig } | undefined> {
+    const provider = await this.pickThirdPartyProvider(this.getProviderTarget(item), placeHolder)
+    if (!provider) return undefined
+
+    const accounts = provider.accounts as ThirdPartyAccountConfig[]
+    const accountId = typeof item === 'object' && item
+      ? ('providerId' in item ? item.accountId : item.command?.arguments?.[0]?.accountId)
+      : undefined
+    const account = accountId ? accounts.find(acc => acc.id === accountId) : accounts.length === 1 ? accounts[0] : undefined
+    if (account || accountId) {
+      return account && { provider, account }
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      accounts.map(acc => ({ label: acc.name, description: acc.baseUrl, account: acc })),
+      { placeHolder: `Select a ${provider.name} key` }
+    )
+    return selected && { provider, account: selected.account }
+  }
+
+  /**
+   * 让用户选择提供商协议
+   * @param current - 当前协议，在列表中标记
+   */
+  private async pickProviderProtocol(current: ProviderProtocol, placeHolder: string): Promise<ProviderProtocol | undefined> {
+    const selected = await vscode.window.showQuickPick(
+      CONFIG_CONSTANTS.PROVIDER_PROTOCOLS.map(protocol => ({
+        label: PROVIDER_PROTOCOL_LABELS[protocol].label,
+        description: protocol === current ? 'Current' : undefined,
+        detail: PROVIDER_PROTOCOL_LABELS[protocol].detail,
+        protocol
+      })),
+      { placeHolder }
+    )
+    return selected?.protocol
+  }
+
+  /**
+   * 确定要操作的第三方提供商
+   * 从账号树节点调用时使用节点所属的提供商，传入提供商ID时直接使用，否则让用户选择
+   */
+  private async pickThirdPartyProvider(item: vscode.TreeItem | string | undefined, placeHolder: string): Promise<ServiceProviderConfig | undefined> {
+    const providers = this.configManager.getServiceProviders()
+      .filter(provider => provider.type === CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY)
+
+    const providerId = typeof item === 'string' ? item : item?.command?.arguments?.[0]?.providerId
+    if (providerId) {
+      return providers.find(provider => provider.id === providerId)
+    }
+
+    if (providers.length === 0) {
+      vscode.window.showInformationMessage('No third-party providers configured.')
+      return undefined
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      providers.map(provider => ({ label: provider.name, description: `${provider.accounts.length} key(s)`, provider })),
+      { placeHolder }
+    )
+    return selected?.provider
+  }
+}
@@ -0,0 +1,265 @@
+import * as vscode from 'vscode'
+import { UnifiedConfigManager } from '../shared/config-manager'
+import { CONFIG_CONSTANTS, ServiceProviderConfig, ThirdPartyAccountConfig } from '../shared/types'
+import { ConnectionTester, ConnectionTestResult, isSocksProxy, maskProxyUrl } from '../proxy'
+
+/** Claude官方账号的API地址，测试连接时使用 */
+const ANTHROPIC_API_BASE_URL = 'https://api.anthropic.com'
+/** 代理配置档支持的代理协议 */
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks5:', 'socks5h:']
+
+export class ProxyCommands {
+  /** 连接测试服务 */
+  private connectionTester = new ConnectionTester()
+  /** 连接测试结果输出 */
+  private outputChannel: vscode.OutputChannel | undefined
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private configManager: UnifiedConfigManager
+  ) {}
+
+  registerCommands(): void {
+    this.registerAddProxyProfileCommand()
+    this.registerSetProviderProxyCommand()
+    this.registerTestProviderConnectionCommand()
+  }
+
+  private registerAddProxyProfileCommand(): void {
+    const addProxyProfileCommand = vscode.commands.registerCommand('cc-copilot.addProxyProfile', async () => {
+      const profiles = this.configManager.getProxyProfiles()
+      const name = await vscode.window.showInputBox({
+        prompt: 'Enter a name for the proxy profile. Using an existing name updates that profile',
+        placeHolder: 'e.g., Office SOCKS'
+      })
+
+      if (!name?.trim()) return
+
+      const existing = profiles.find(profile => profile.name === name.trim())
+      const url = await vscode.window.showInputBox({
+        prompt: 'Enter the proxy URL (http, https, socks5 or socks5h)',
+        placeHolder: 'socks5h://127.0.0.1:1080',
+        value: existing?.url,
+        validateInput: input => this.validateProxyUrl(input)
+      })
+
+      if (!url) return
+
+      const noProxy = await vscode.window.showInputBox({
+        prompt: 'Hosts that bypass the proxy (NO_PROXY), separated by commas. Leave empty to proxy everything',
+        placeHolder: 'localhost, 127.0.0.1, .internal.example.com',
+        value: existing?.noProxy?.join(', ')
+      })
+
+      if (noProxy === undefined) return
+
+      const username = await vscode.window.showInputBox({
+        prompt: 'Enter the proxy username. Leave empty if the proxy needs no authentication',
+        value: existing?.username
+      })
+
+      if (username === undefined) return
+
+      let password = existing?.password
+      if (username) {
+        const input = await vscode.window.showInputBox({
+          prompt: existing?.password ? 'Enter the proxy password. Leave empty to keep the saved password' : 'Enter the proxy password',
+          password: true
+        })
+        if (input === undefined) return
+        password = input || password
+      }
+
+      try {
+        await this.configManager.addOrUpdateProxyProfile({
+          name: name.trim(),
+          url: url.trim(),
+          noProxy: noProxy.split(',').map(host => host.trim()).filter(Boolean),
+          username: username || undefined,
+          password: username ? password : undefined
+        })
+
+        const action = await vscode.window.showInformationMessage(
+          `Proxy profile "${name.trim()}" ${existing ? 'updated' : 'added'}.`,
+          'Assign to Provider'
+        )
+        if (action === 'Assign to Provider') {
+          await vscode.commands.executeCommand('cc-copilot.setProviderProxy')
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save proxy profile: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(addProxyProfileCommand)
+  }
+
+  private registerSetProviderProxyCommand(): void {
+    const setProviderProxyCommand = vscode.commands.registerCommand('cc-copilot.setProviderProxy', async (item?: vscode.TreeItem | string) => {
+      const provider = await this.pickProvider(item, 'Select the provider to change the proxy for')
+      if (!provider) return
+
+      const proxyConfig = this.configManager.getProxyConfig()
+      const profiles = this.configManager.getProxyProfiles()
+      const usesGlobal = !provider.proxyProfile && provider.useProxy !== false
+      const selected = await vscode.window.showQuickPick(
+        [
+          {
+            label: 'Global Proxy',
+            description: usesGlobal ? 'Current' : undefined,
+            detail: proxyConfig.enabled ? `Use ccCopilot.proxyConfig (${maskProxyUrl(proxyConfig.url)})` : 'Use ccCopilot.proxyConfig (currently disabled)',
+            useProxy: true,
+            profile: undefined as string | undefined
+          },
+          {
+            label: 'No Proxy',
+            description: !provider.proxyProfile && provider.useProxy === false ? 'Current' : undefined,
+            detail: 'Always connect directly',
+            useProxy: false,
+            profile: undefined as string | undefined
+          },
+          ...profiles.map(profile => ({
+            label: profile.name,
+            description: profile.name === provider.proxyProfile ? 'Current' : undefined,
+            detail: maskProxyUrl(profile.url) + (profile.noProxy?.length ? ` · bypass: ${profile.noProxy.join(', ')}` : ''),
+            useProxy: true,
+            profile: profile.name as string | undefined
+          }))
+        ],
+        { placeHolder: profiles.length > 0 ? `Which proxy should ${provider.name} use?` : `Which proxy should ${provider.name} use? Run "Add Proxy Profile" to add SOCKS or per-provider proxies` }
+      )
+
+      if (!selected) return
+
+      try {
+        await this.configManager.setProviderProxy(provider.id, selected.useProxy, selected.profile)
+        vscode.window.showInformationMessage(`${provider.name} now uses: ${selected.label}`)
+        const profile = selected.profile && this.configManager.getProxyProfile(selected.profile)
+        if (profile && isSocksProxy(profile.url)) {
+          vscode.window.showWarningMessage(`"${profile.name}" is a SOCKS proxy, so ${provider.name} sessions run through the local gateway.`)
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to set provider proxy: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(setProviderProxyCommand)
+  }
+
+  private registerTestProviderConnectionCommand(): void {
+    const testProviderConnectionCommand = vscode.commands.registerCommand('cc-copilot.testProviderConnection', async (item?: vscode.TreeItem | string) => {
+      const provider = await this.pickProvider(item, 'Select the provider to test the connection to')
+      if (!provider) return
+
+      const accountId = typeof item === 'string' ? undefined : item?.command?.arguments?.[0]?.accountId
+      const baseUrl = this.getProviderBaseUrl(provider, accountId)
+      if (!baseUrl) {
+        vscode.window.showErrorMessage(`${provider.name} has no base URL to test.`)
+        return
+      }
+
+      const proxy = await this.configManager.resolveProviderProxy(provider.id)
+      const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Testing connection to ${provider.name}...`,
+        cancellable: true
+      }, async (_progress, token) => {
+        const abortController = new AbortController()
+        const subscription = token.onCancellationRequested(() => abortController.abort())
+        try {
+          return await this.connectionTester.test(baseUrl, proxy, { signal: abortController.signal })
+        } finally {
+          subscription.dispose()
+        }
+      })
+
+      this.showTestResult(provider, result, proxy?.profile)
+      const failed = result.steps.find(step => !step.ok)
+      if (result.ok) {
+        vscode.window.showInformationMessage(`${provider.name} is reachable (HTTP ${result.httpStatus}).`)
+      } else {
+        const action = await vscode.window.showErrorMessage(
+          `${provider.name} is not reachable: ${failed ? `${failed.name} failed: ${failed.detail}` : 'unknown error'}`,
+          'Show Details'
+        )
+        if (action === 'Show Details') {
+          this.outputChannel?.show(true)
+        }
+      }
+    })
+    this.context.subscriptions.push(testProviderConnectionCommand)
+  }
+
+  /**
+   * 将连接测试结果写入输出面板
+   */
+  private showTestResult(provider: ServiceProviderConfig, result: ConnectionTestResult, profile?: string): void {
+    if (!this.outputChannel) {
+      this.outputChannel = vscode.window.createOutputChannel('CC Copilot Connection Test')
+      this.context.subscriptions.push(this.outputChannel)
+    }
+
+    const via = result.proxy ? `via ${result.proxy}${profile ? ` (profile "${profile}")` : ''}` : 'directly'
+    this.outputChannel.appendLine(`[${new Date().toLocaleTimeString()}] ${provider.name}: ${result.url} ${via}`)
+    for (const step of result.steps) {
+      this.outputChannel.appendLine(`  ${step.ok ? '✓' : '✗'} ${step.name.padEnd(4)} ${`${step.durationMs}ms`.padStart(7)}  ${step.detail}`)
+    }
+    this.outputChannel.appendLine(`  ${result.ok ? `Reachable (HTTP ${result.httpStatus})` : 'Not reachable'}`)
+    this.outputChannel.appendLine('')
+  }
+
+  /**
+   * 获取要测试的地址：Claude官方使用官方API地址，第三方提供商使用指定账号或当前账号的基础URL
+   */
+  private getProviderBaseUrl(provider: ServiceProviderConfig, accountId?: string): string | undefined {
+    if (provider.type === CONFIG_CONSTANTS.PROVIDER_TYPES.CLAUDE_OFFICIAL) {
+      return ANTHROPIC_API_BASE_URL
+    }
+    const accounts = provider.accounts as ThirdPartyAccountConfig[]
+    const account = accounts.find(acc => acc.id === accountId)
+      || accounts.find(acc => acc.id === provider.activeAccountId)
+      || accounts[0]
+    return account?.baseUrl
+  }
+
+  /**
+   * 校验代理URL
+   */
+  private validateProxyUrl(input: string): string | undefined {
+    try {
+      const url = new URL(input.trim())
+      if (!PROXY_PROTOCOLS.includes(url.protocol)) {
+        return 'Use an http://, https://, socks5:// or socks5h:// URL'
+      }
+      return url.hostname ? undefined : 'Enter the proxy host'
+    } catch {
+      return 'Enter a valid URL, e.g., http://127.0.0.1:8080'
+    }
+  }
+
+  /**
+   * 确定要操作的提供商
+   * 从账号树节点调用时使用节点所属的提供商，传入提供商ID时直接使用，否则让用户选择
+   */
+  private async pickProvider(item: vscode.TreeItem | string | undefined, placeHolder: string): Promise<ServiceProviderConfig | undefined> {
+    const providers = this.configManager.getServiceProviders()
+
+    const providerId = typeof item === 'string' ? item : item?.command?.arguments?.[0]?.providerId
+    if (providerId) {
+      return providers.find(provider => provider.id === providerId)
+    }
+
+    if (providers.length === 0) {
+      vscode.window.showInformationMessage('No providers configured.')
+      return undefined
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      providers.map(provider => ({
+        label: provider.name,
+        description: provider.proxyProfile ? `Proxy: ${provider.proxyProfile}` : provider.useProxy === false ? 'No proxy' : 'Global proxy',
+        provider
+      })),
+      { placeHolder }
+    )
+    return selected?.provider
+  }
+}
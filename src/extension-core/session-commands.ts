@@ -1,8 +1,23 @@
 import * as vscode from 'vscode'
+import * as fs from 'fs'
+import * as path from 'path'
 import { UnifiedConfigManager } from '../shared/config-manager'
 import { SessionManager } from '../session-manager'
 import { TerminalService } from '../terminal-service'
 import { ClaudeSessionProvider } from '../treeProvider'
+import { Session } from '../session-manager'
+import { LaunchProfile, PermissionMode } from '../shared/types'
+import {
+  TranscriptPanelManager,
+  TranscriptExportFormat,
+  TranscriptExportOptions,
+  EXPORT_FILE_EXTENSIONS,
+  exportTranscript,
+  parseTranscript
+} from '../transcript'
+import { SessionSearchIndex, showSessionSearch } from '../search'
+import { UsageDashboardPanel } from '../analytics'
+import { HeadlessPromptService, HeadlessRequest } from '../headless'
 
 export class SessionCommands {
   constructor(
@@ -10,14 +25,26 @@ export class SessionCommands {
     private configManager: UnifiedConfigManager,
     private sessionManager: SessionManager,
     private terminalService: TerminalService,
-    private sessionProvider: ClaudeSessionProvider
+    private sessionProvider: ClaudeSessionProvider,
+    private transcriptPanelManager: TranscriptPanelManager,
+    private searchIndex: SessionSearchIndex,
+    private usageDashboard: UsageDashboardPanel,
+    private headlessService: HeadlessPromptService
   ) {}
 
   registerCommands(): void {
     this.registerNewSessionCommand()
+    this.registerNewSessionWithPermissionModeCommand()
+    this.registerNewSessionFromProfileCommand()
     this.registerNewSessionForProjectCommand()
     this.registerRefreshSessionsCommand()
     this.registerOpenSessionCommand()
+    this.registerViewTranscriptCommand()
+    this.registerExportSessionCommand()
+    this.registerExportProjectSessionsCommand()
+    this.registerSearchSessionsCommand()
+    this.registerShowUsageDashboardCommand()
+    this.registerAskClaudeHeadlessCommand()
     this.registerDeleteSessionCommand()
     this.registerLoadMoreSessionsCommand()
   }
@@ -42,6 +69,60 @@ export class SessionCommands {
     this.context.subscriptions.push(newSessionCommand)
   }
 
+  private registerNewSessionWithPermissionModeCommand(): void {
+    const newSessionWithPermissionModeCommand = vscode.commands.registerCommand('cc-copilot.newSessionWithPermissionMode', async () => {
+      const isAvailable = await this.terminalService.checkClaudeAvailability()
+      if (!isAvailable) {
+        vscode.window.showErrorMessage('Claude CLI is not available.')
+        return
+      }
+
+      const permissionMode = await this.pickPermissionMode()
+      if (permissionMode) {
+        await this.terminalService.createNewClaudeSession({ permissionMode })
+      }
+    })
+    this.context.subscriptions.push(newSessionWithPermissionModeCommand)
+  }
+
+  private registerNewSessionFromProfileCommand(): void {
+    const newSessionFromProfileCommand = vscode.commands.registerCommand('cc-copilot.newSessionFromProfile', async () => {
+      const isAvailable = await this.terminalService.checkClaudeAvailability()
+      if (!isAvailable) {
+        vscode.window.showErrorMessage('Claude CLI is not available.')
+        return
+      }
+
+      const profiles = this.configManager.getLaunchProfiles()
+      if (profiles.length === 0) {
+        const result = await vscode.window.showInformationMessage(
+          'No launch profiles configured. Add profiles in the ccCopilot.launchProfiles setting.',
+          'Open Settings'
+        )
+        if (result === 'Open Settings') {
+          vscode.commands.executeCommand('workbench.action.openSettings', 'ccCopilot.launchProfiles')
+        }
+        return
+      }
+
+      const defaultProfile = this.configManager.getDefaultLaunchProfile()
+      const selected = await vscode.window.showQuickPick(profiles.map(profile => ({
+        label: `$(rocket) ${profile.name}`,
+        description: this.describeLaunchProfile(profile),
+        detail: profile === defaultProfile ? 'Default profile for this workspace' : undefined,
+        profile
+      })), {
+        placeHolder: 'Select a launch profile',
+        title: 'New Claude Session from Profile'
+      })
+
+      if (selected) {
+        await this.terminalService.createNewClaudeSession({ profile: selected.profile })
+      }
+    })
+    this.context.subscriptions.push(newSessionFromProfileCommand)
+  }
+
   private registerNewSessionForProjectCommand(): void {
     const newSessionForProjectCommand = vscode.commands.registerCommand('cc-copilot.newSessionForProject', async (item) => {
       // 检查Claude CLI可用性
@@ -73,8 +154,10 @@ export class SessionCommands {
         }
       }
 
-      // 直接创建标准会话，不显示选择对话框
-      await this.terminalService.createNewClaudeSession()
+      // 在项目目录中创建会话，目录已不存在时回退到当前工作区
+      await this.terminalService.createNewClaudeSession({
+        cwd: projectPath && fs.existsSync(projectPath) ? projectPath : undefined
+      })
 
       // 刷新会话列表
       setTimeout(() => {
@@ -109,6 +192,280 @@ export class SessionCommands {
     this.context.subscriptions.push(openSessionCommand)
   }
 
+  private registerViewTranscriptCommand(): void {
+    const viewTranscriptCommand = vscode.commands.registerCommand('cc-copilot.viewTranscript', async (item) => {
+      const session = item?.session || (item?.sessionId && this.sessionManager.getSessionById(item.sessionId))
+      if (session && session.filePath) {
+        await this.transcriptPanelManager.show(session)
+      } else {
+        vscode.window.showErrorMessage('Session file path not found.')
+      }
+    })
+    this.context.subscriptions.push(viewTranscriptCommand)
+  }
+
+  private registerExportSessionCommand(): void {
+    const exportSessionCommand = vscode.commands.registerCommand('cc-copilot.exportSession', async (item) => {
+      const session: Session | undefined = item?.session || (item?.sessionId && this.sessionManager.getSessionById(item.sessionId))
+      if (!session || !session.filePath) {
+        vscode.window.showErrorMessage('Session file path not found.')
+        return
+      }
+
+      const format = await this.pickExportFormat()
+      const options = format && await this.pickExportOptions()
+      if (!format || !options) {
+        return
+      }
+
+      const defaultDir = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || path.dirname(session.filePath)
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(defaultDir, this.getExportFileName(session, format))),
+        filters: { [format.toUpperCase()]: [EXPORT_FILE_EXTENSIONS[format]] },
+        title: 'Export Session'
+      })
+      if (!target) {
+        return
+      }
+
+      try {
+        await this.exportSessionToFile(session, target.fsPath, format, options)
+        const action = await vscode.window.showInformationMessage(`Session exported to ${target.fsPath}`, 'Open')
+        if (action === 'Open') {
+          await vscode.commands.executeCommand('vscode.open', target)
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to export session: ${(error as Error).message}`)
+      }
+    })
+    this.context.subscriptions.push(exportSessionCommand)
+  }
+
+  private registerExportProjectSessionsCommand(): void {
+    const exportProjectSessionsCommand = vscode.commands.registerCommand('cc-copilot.exportProjectSessions', async (item) => {
+      const projectId: string | undefined = item?.project?.id || item?.projectId
+      const sessions = projectId
+        ? this.sessionManager.getSessions(projectId).filter(session => !!session.filePath)
+        : []
+      if (sessions.length === 0) {
+        vscode.window.showWarningMessage('No sessions to export in this project.')
+        return
+      }
+
+      const format = await this.pickExportFormat()
+      const options = format && await this.pickExportOptions()
+      if (!format || !options) {
+        return
+      }
+
+      const folders = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        openLabel: 'Export Here',
+        title: `Export ${sessions.length} Sessions`
+      })
+      if (!folders || folders.length === 0) {
+        return
+      }
+
+      const targetDir = folders[0].fsPath
+      const failed: string[] = []
+      let exported = 0
+
+      await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Exporting sessions of ${item?.project?.name || 'project'}`,
+        cancellable: true
+      }, async (progress, token) => {
+        for (const session of sessions) {
+          if (token.isCancellationRequested) {
+            break
+          }
+          progress.report({ message: session.name, increment: 100 / sessions.length })
+          try {
+            await this.exportSessionToFile(session, path.join(targetDir, this.getExportFileName(session, format)), format, options)
+            exported++
+          } catch (error) {
+            failed.push(session.name)
+          }
+        }
+      })
+
+      if (failed.length > 0) {
+        vscode.window.showWarningMessage(`Exported ${exported} sessions to ${targetDir}; failed: ${failed.join(', ')}`)
+      } else {
+        vscode.window.showInformationMessage(`Exported ${exported} sessions to ${targetDir}`)
+      }
+    })
+    this.context.subscriptions.push(exportProjectSessionsCommand)
+  }
+
+  private registerSearchSessionsCommand(): void {
+    const searchSessionsCommand = vscode.commands.registerCommand('cc-copilot.searchSessions', async (item) => {
+      // 从项目节点发起时默认按该项目过滤
+      const initialValue = item?.project ? `project:"${item.project.name}" ` : ''
+      const selected = await showSessionSearch(this.searchIndex, initialValue)
+      if (!selected) {
+        return
+      }
+
+      if (selected.action === 'resumeSession') {
+        const isAvailable = await this.terminalService.checkClaudeAvailability()
+        if (!isAvailable) {
+          vscode.window.showErrorMessage('Claude CLI is not available.')
+          return
+        }
+        await this.terminalService.resumeClaudeSession(selected.hit.session.filePath!)
+      } else {
+        await this.transcriptPanelManager.show(selected.hit.session)
+      }
+    })
+    this.context.subscriptions.push(searchSessionsCommand)
+  }
+
+  private registerShowUsageDashboardCommand(): void {
+    const showUsageDashboardCommand = vscode.commands.registerCommand('cc-copilot.showUsageDashboard', () => {
+      this.usageDashboard.show()
+    })
+    this.context.subscriptions.push(showUsageDashboardCommand)
+  }
+
+  private registerAskClaudeHeadlessCommand(): void {
+    // 参数可选，任务和脚本可以直接传入提示；返回最终回复文本
+    const askClaudeHeadlessCommand = vscode.commands.registerCommand('cc-copilot.askClaudeHeadless', async (request?: HeadlessRequest) => {
+      const prompt = request?.prompt || await vscode.window.showInputBox({
+        prompt: 'Ask Claude (runs without a terminal, output goes to the "Claude (Headless)" panel)',
+        placeHolder: 'e.g. Summarize the changes in the last commit',
+        ignoreFocusOut: true
+      })
+      if (!prompt) {
+        return undefined
+      }
+
+      const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Asking Claude...',
+        cancellable: true
+      }, (_progress, token) => this.headlessService.ask({ ...request, prompt }, token))
+
+      if (result?.isError && !result.cancelled) {
+        const action = await vscode.window.showErrorMessage(`Claude failed: ${result.result.split('\n')[0]}`, 'Show Output')
+        if (action === 'Show Output') {
+          this.headlessService.showOutput()
+        }
+      }
+      return result && !result.isError ? result.result : undefined
+    })
+    this.context.subscriptions.push(askClaudeHeadlessCommand)
+  }
+
+  /**
+   * 生成启动配置的简要说明
+   */
+  private describeLaunchProfile(profile: LaunchProfile): string {
+    const parts = [
+      profile.model,
+      profile.permissionMode,
+      profile.account && this.configManager.getAccountBinding(profile.account)?.label
+    ]
+    return parts.filter(Boolean).join(' · ')
+  }
+
+  /**
+   * 选择本次启动使用的权限模式，默认选中设置中的模式
+   */
+  private async pickPermissionMode(): Promise<PermissionMode | undefined> {
+    const configured = this.configManager.getPermissionMode()
+    const items: Array<vscode.QuickPickItem & { mode: PermissionMode }> = [
+      { label: '$(shield) Default', description: 'Ask before edits and commands', mode: 'default' },
+      { label: '$(edit) Accept Edits', description: 'Apply file edits without asking', mode: 'acceptEdits' },
+      { label: '$(checklist) Plan', description: 'Read-only analysis, no edits or commands', mode: 'plan' },
+      { label: '$(warning) Bypass Permissions', description: 'Skip all permission prompts (--dangerously-skip-permissions)', mode: 'bypass' }
+    ]
+    for (const item of items) {
+      if (item.mode === configured) {
+        item.detail = 'Configured in ccCopilot.permissionMode'
+      }
+    }
+
+    const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { mode: PermissionMode }>()
+    quickPick.items = items
+    quickPick.activeItems = items.filter(item => item.mode === configured)
+    quickPick.placeholder = 'Select the permission mode for this session'
+    quickPick.title = 'New Claude Session'
+
+    return new Promise(resolve => {
+      quickPick.onDidAccept(() => {
+        resolve(quickPick.selectedItems[0]?.mode)
+        quickPick.hide()
+      })
+      quickPick.onDidHide(() => {
+        resolve(undefined)
+        quickPick.dispose()
+      })
+      quickPick.show()
+    })
+  }
+
+  /**
+   * 选择导出格式
+   */
+  private async pickExportFormat(): Promise<TranscriptExportFormat | undefined> {
+    const selected = await vscode.window.showQuickPick([
+      { label: '$(markdown) Markdown', description: 'Readable document for PRs and write-ups', format: 'markdown' as TranscriptExportFormat },
+      { label: '$(file-code) HTML', description: 'Self-contained page', format: 'html' as TranscriptExportFormat },
+      { label: '$(json) JSON', description: 'Normalized messages', format: 'json' as TranscriptExportFormat }
+    ], {
+      placeHolder: 'Select export format',
+      title: 'Export Session'
+    })
+    return selected?.format
+  }
+
+  /**
+   * 选择导出选项，取消时返回undefined
+   */
+  private async pickExportOptions(): Promise<TranscriptExportOptions | undefined> {
+    const selected = await vscode.window.showQuickPick([
+      { label: 'Include tool output', description: 'Keep results of Bash, Read, Edit… calls', key: 'includeToolOutput', picked: true },
+      { label: 'Collapse long results', description: 'Fold tool results longer than 20 lines', key: 'collapseLongResults', picked: true },
+      { label: 'Redact secrets', description: 'Mask API keys, tokens and passwords', key: 'redactSecrets', picked: true }
+    ], {
+      canPickMany: true,
+      placeHolder: 'Select export options',
+      title: 'Export Session'
+    })
+    if (!selected) {
+      return undefined
+    }
+
+    const keys = new Set(selected.map(option => option.key))
+    return {
+      includeToolOutput: keys.has('includeToolOutput'),
+      collapseLongResults: keys.has('collapseLongResults'),
+      redactSecrets: keys.has('redactSecrets')
+    }
+  }
+
+  /**
+   * 生成导出文件名：会话名称 + Claude会话ID前缀
+   */
+  private getExportFileName(session: Session, format: TranscriptExportFormat): string {
+    const name = session.name.replace(/[^\w\u4e00-\u9fa5.-]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 50) || 'session'
+    const suffix = (session.claudeSessionId || session.id).substring(0, 8)
+    return `${name}-${suffix}.${EXPORT_FILE_EXTENSIONS[format]}`
+  }
+
+  /**
+   * 解析会话文件并写入导出文件
+   */
+  private async exportSessionToFile(session: Session, targetPath: string, format: TranscriptExportFormat, options: TranscriptExportOptions): Promise<void> {
+    const transcript = await parseTranscript(session.filePath!)
+    await fs.promises.writeFile(targetPath, exportTranscript(transcript, session.name, format, options), 'utf-8')
+  }
+
   private registerDeleteSessionCommand(): void {
     const deleteSessionCommand = vscode.commands.registerCommand('cc-copilot.deleteSession', async (item) => {
       if (item && item.sessionId) {
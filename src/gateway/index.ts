@@ -0,0 +1,24 @@
+/**
+ * 本地网关模块导出
+ * 在扩展内提供与 Anthropic Messages API 兼容的HTTP服务，CLI通过 ANTHROPIC_BASE_URL 连接，
+ * 由网关选择账号、凭据和代理后转发到上游
+ */
+
+/** 本地网关 - 按客户端绑定的账号转发请求，支持密钥选择和故障转移 */
+export { LocalGateway } from './local-gateway'
+
+/** 上游请求 - 直连或通过代理（CONNECT 或 SOCKS5 隧道）发送请求 */
+export { sendUpstreamRequest } from './upstream'
+
+/** 响应读取 - 从转发的响应中读取模型、令牌用量和错误 */
+export { ResponseReader } from './response-reader'
+
+/** 协议转换 - 在 Anthropic Messages 与上游协议之间转换请求和响应 */
+export { ProtocolTranslator, StreamTranslator, AnthropicStreamWriter } from './protocol-translator'
+
+/** OpenAI 转换器 - Chat Completions 和 Responses 协议 */
+export { OpenAIChatTranslator } from './openai-chat'
+export { OpenAIResponsesTranslator } from './openai-responses'
+
+/** 导出所有类型定义 */
+export * from './types'
@@ -0,0 +1,666 @@
+import * as vscode from 'vscode'
+import * as crypto from 'crypto'
+import * as http from 'http'
+import { EventEmitter } from 'events'
+import { UnifiedConfigManager } from '../shared/config-manager'
+import {
+  AccountBinding,
+  ClaudeAccountConfig,
+  CONFIG_CONSTANTS,
+  ProviderProtocol,
+  ServiceProviderConfig,
+  ThirdPartyAccountConfig
+} from '../shared/types'
+import { RequestRecord } from '../requests/types'
+import { logger } from '../logger'
+import { sendUpstreamRequest } from './upstream'
+import { ResponseReader } from './response-reader'
+import { ProtocolTranslator, translateErrorResponse } from './protocol-translator'
+import { OpenAIChatTranslator } from './openai-chat'
+import { OpenAIResponsesTranslator } from './openai-responses'
+import { GatewayClient, UpstreamTarget } from './types'
+
+/** 网关监听的地址，只接受本机连接 */
+const GATEWAY_HOST = '127.0.0.1'
+/** Claude官方API地址 */
+const ANTHROPIC_API_BASE_URL = 'https://api.anthropic.com'
+/** 使用OAuth令牌访问API时需要的 anthropic-beta 标记 */
+const OAUTH_BETA = 'oauth-2025-04-20'
+/** 请求体的最大长度（字节） */
+const MAX_REQUEST_BODY_SIZE = 64 * 1024 * 1024
+/** 不转发的请求头：逐跳请求头、CLI发送的凭据和压缩协商（网关需要读取明文响应） */
+const STRIPPED_REQUEST_HEADERS = new Set([
+  'host', 'connection', 'keep-alive', 'proxy-authorization', 'proxy-connection', 'transfer-encoding',
+  'content-length', 'authorization', 'x-api-key', 'accept-encoding'
+])
+/** 不转发给CLI的响应头 */
+const STRIPPED_RESPONSE_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding'])
+/** CLI的 Messages API 路径，非 anthropic 协议的提供商只支持该路径 */
+const MESSAGES_PATH = '/v1/messages'
+/** CLI的令牌计数路径，非 anthropic 协议的提供商在网关内估算 */
+const COUNT_TOKENS_PATH = '/v1/messages/count_tokens'
+
+/**
+ * 转换后的请求
+ */
+interface TranslatedRequest {
+  /** 协议转换器 */
+  translator: ProtocolTranslator
+  /** 上游路径 */
+  path: string
+  /** 转换后的请求体 */
+  body: Buffer
+  /** CLI请求的模型 */
+  model: string
+}
+
+/**
+ * 本地网关
+ * 在本机端口上提供与 Anthropic Messages API 兼容的HTTP服务，CLI通过 ANTHROPIC_BASE_URL 连接。
+ * 每个请求按客户端绑定的账号（或当前活动账号）选择上游地址、凭据和代理后转发，
+ * 第三方提供商按密钥选择策略分配密钥，遇到故障转移组配置的状态码时改用组内下一个账号，
+ * 使用 OpenAI 兼容协议的提供商由网关转换请求和响应。
+ * 每个请求结束后触发 'request:completed' 事件
+ */
+export class LocalGateway extends EventEmitter implements vscode.Disposable {
+  /** HTTP服务 */
+  private server: http.Server | undefined
+  /** 正在进行的启动 */
+  private starting: Promise<void> | undefined
+  /** 实际监听的端口 */
+  private port = 0
+  /** 已登记的客户端，按令牌索引；终端关闭时注销，VSCode重新加载后全部失效 */
+  private clients = new Map<string, GatewayClient>()
+
+  /**
+   * 构造函数
+   * @param configManager - 统一配置管理器
+   */
+  constructor(private configManager: UnifiedConfigManager) {
+    super()
+  }
+
+  /**
+   * 启动网关，已启动时直接返回
+   * 端口使用 ccCopilot.gatewayPort 设置，为0时由系统分配
+   */
+  start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.listen().catch(error => {
+        this.starting = undefined
+        throw error
+      })
+    }
+    return this.starting
+  }
+
+  /**
+   * 获取网关地址，用作CLI的 ANTHROPIC_BASE_URL
+   */
+  getBaseUrl(): string {
+    return `http://${GATEWAY_HOST}:${this.port}`
+  }
+
+  /**
+   * 登记一次CLI启动
+   * @param binding - 启动时绑定的账号，为null时跟随当前活动账号
+   * @returns 客户端令牌，通过 ANTHROPIC_AUTH_TOKEN 传给CLI
+   */
+  registerClient(binding: AccountBinding | null): string {
+    const token = `cc-copilot-${crypto.randomBytes(24).toString('hex')}`
+    this.clients.set(token, { token, binding })
+    return token
+  }
+
+  /**
+   * 注销CLI启动登记的客户端，终端关闭或无界面运行结束后调用
+   * @param token - 登记时返回的客户端令牌
+   */
+  unregisterClient(token: string): void {
+    this.clients.delete(token)
+  }
+
+  /**
+   * 监听端口
+   */
+  private listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((request, response) => {
+        this.handleRequest(request, response).catch(error => {
+          logger.error('Gateway request failed', 'LocalGateway', error as Error)
+          this.sendError(response, 500, 'api_error', (error as Error).message)
+        })
+      })
+
+      server.once('error', reject)
+      server.listen(this.configManager.getGatewayPort(), GATEWAY_HOST, () => {
+        server.off('error', reject)
+        server.on('error', error => logger.error('Gateway server error', 'LocalGateway', error))
+        this.server = server
+        this.port = (server.address() as { port: number }).port
+        logger.info(`Local gateway listening on ${this.getBaseUrl()}`, 'LocalGateway')
+        resolve()
+      })
+    })
+  }
+
+  /**
+   * 处理CLI的请求：校验客户端令牌、读取请求体并转发
+   */
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const client = this.authenticate(request)
+    if (!client) {
+      this.sendError(response, 401, 'authentication_error', 'Unknown CC Copilot gateway token. Gateway sessions end when their terminal closes or VS Code reloads; restart the Claude session from CC Copilot.')
+      return
+    }
+
+    const body = await this.readBody(request)
+    if (!body) {
+      this.sendError(response, 413, 'request_too_large', 'Request body is too large')
+      return
+    }
+
+    // CLI断开时取消上游请求
+    const abortController = new AbortController()
+    response.once('close', () => {
+      if (!response.writableFinished) {
+        abortController.abort()
+      }
+    })
+
+    await this.forward(client, request, body, response, abortController.signal)
+  }
+
+  /**
+   * 按客户端令牌查找客户端，令牌来自 Authorization 或 x-api-key 请求头
+   */
+  private authenticate(request: http.IncomingMessage): GatewayClient | undefined {
+    const authorization = request.headers.authorization
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : request.headers['x-api-key']
+    return typeof token === 'string' ? this.clients.get(token) : undefined
+  }
+
+  /**
+   * 读取请求体
+   * @returns 请求体，超过长度限制时返回null
+   */
+  private readBody(request: http.IncomingMessage): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      let length = 0
+      request.on('data', (chunk: Buffer) => {
+        length += chunk.length
+        if (length > MAX_REQUEST_BODY_SIZE) {
+          request.destroy()
+          resolve(null)
+          return
+        }
+        chunks.push(chunk)
+      })
+      request.once('end', () => resolve(Buffer.concat(chunks)))
+      request.once('error', reject)
+    })
+  }
+
+  /**
+   * 转发请求
+   * 上游返回故障转移状态码且组内还有可用账号时，丢弃该响应并用下一个账号重新发送
+   */
+  private async forward(
+    client: GatewayClient,
+    request: http.IncomingMessage,
+    body: Buffer,
+    response: http.ServerResponse,
+    signal: AbortSignal
+  ): Promise<void> {
+    // 原账号冷却结束后不再使用接替的账号
+    if (client.failover && client.failover.until <= Date.now()) {
+      logger.info(`Gateway failover to ${client.failover.compositeId} expired, returning to the original account`, 'LocalGateway')
+      client.failover = undefined
+    }
+    const compositeId = client.failover?.compositeId || client.binding?.compositeId || this.configManager.getCurrentActiveCompositeId()
+    const tried = new Set<string>()
+    let target = await this.resolveTarget(compositeId, tried)
+    if (!target) {
+      this.sendError(response, 401, 'authentication_error', `No stored credentials for ${compositeId || 'the active account'}`)
+      return
+    }
+
+    while (target) {
+      tried.add(target.compositeId)
+
+      // 故障转移可能切换到不同模型映射和协议的提供商，每次发送前按目标重新改写和转换
+      const mapped = this.mapModel(target, body)
+      const requestBody = mapped?.body || body
+
+      let translated: TranslatedRequest | undefined
+      const translator = getProtocolTranslator(target.protocol)
+      if (translator) {
+        const result = this.translateRequest(translator, request, requestBody, response)
+        if (!result) {
+          return
+        }
+        translated = result
+      }
+
+      const upstreamPath = translated?.path || request.url || '/'
+      const upstreamBody = translated?.body || requestBody
+      const record = this.startRecord(request, requestBody, target, upstreamPath)
+      record.requestedModel = mapped?.requestedModel
+
+      let upstream: http.IncomingMessage
+      try {
+        upstream = await sendUpstreamRequest(this.getUpstreamUrl(target, upstreamPath), {
+          method: request.method || 'GET',
+          headers: this.getUpstreamHeaders(request, target, upstreamBody),
+          body: upstreamBody,
+          proxy: target.proxy,
+          signal
+        })
+      } catch (error) {
+        const err = error as NodeJS.ErrnoException
+        record.error = err.message
+        this.completeRecord(record)
+        if (!signal.aborted) {
+          this.sendError(response, 502, 'api_error', `CC Copilot gateway could not reach ${target.baseUrl}: ${err.message}`)
+        }
+        return
+      }
+
+      record.status = upstream.statusCode
+      record.latencyMs = Date.now() - record.startedAt
+
+      const next: UpstreamTarget | null = await this.failover(client, target, upstream.statusCode || 0, tried)
+      if (next) {
+        upstream.resume()
+        this.completeRecord(record)
+        target = next
+        continue
+      }
+
+      if (translated) {
+        this.pipeTranslatedResponse(upstream, response, record, translated)
+      } else {
+        this.pipeResponse(upstream, response, record)
+      }
+      return
+    }
+  }
+
+  /**
+   * 按目标提供商的模型映射改写请求体中的模型名称
+   * @returns 改写后的请求体和CLI原本请求的模型，不需要改写时返回null
+   */
+  private mapModel(target: UpstreamTarget, body: Buffer): { body: Buffer, requestedModel: string } | null {
+    if (target.oauth || body.length === 0) {
+      return null
+    }
+
+    let parsed: any
+    try {
+      parsed = JSON.parse(body.toString('utf-8'))
+    } catch {
+      return null
+    }
+
+    const requestedModel = parsed?.model
+    if (typeof requestedModel !== 'string') {
+      return null
+    }
+    const model = this.configManager.resolveModelAlias(target.compositeId, requestedModel)
+    if (model === requestedModel) {
+      return null
+    }
+
+    parsed.model = model
+    return { body: Buffer.from(JSON.stringify(parsed), 'utf-8'), requestedModel }
+  }
+
+  /**
+   * 将CLI的 Messages 请求转换为上游协议的请求
+   * 令牌计数请求按请求体长度在网关内估算，其他路径不支持，均直接回复CLI
+   * @returns 转换后的请求，已直接回复CLI时返回null
+   */
+  private translateRequest(
+    translator: ProtocolTranslator,
+    request: http.IncomingMessage,
+    body: Buffer,
+    response: http.ServerResponse
+  ): TranslatedRequest | null {
+    const pathname = new URL(request.url || '/', 'http://localhost').pathname
+    if (pathname === COUNT_TOKENS_PATH) {
+      response.writeHead(200, { 'content-type': 'application/json' })
+      response.end(JSON.stringify({ input_tokens: Math.ceil(body.length / 4) }))
+      return null
+    }
+    if (pathname !== MESSAGES_PATH || request.method !== 'POST') {
+      this.sendError(response, 404, 'not_found_error', `${request.method} ${pathname} is not supported by OpenAI-compatible providers`)
+      return null
+    }
+
+    let parsed: any
+    try {
+      parsed = JSON.parse(body.toString('utf-8'))
+    } catch {
+      this.sendError(response, 400, 'invalid_request_error', 'Request body is not valid JSON')
+      return null
+    }
+
+    return {
+      translator,
+      path: translator.path,
+      body: Buffer.from(JSON.stringify(translator.translateRequest(parsed)), 'utf-8'),
+      model: typeof parsed.model === 'string' ? parsed.model : ''
+    }
+  }
+
+  /**
+   * 将上游响应转发给CLI，同时读取用量
+   */
+  private pipeResponse(upstream: http.IncomingMessage, response: http.ServerResponse, record: RequestRecord): void {
+    const headers: http.OutgoingHttpHeaders = {}
+    for (const [name, value] of Object.entries(upstream.headers)) {
+      if (!STRIPPED_RESPONSE_HEADERS.has(name) && value !== undefined) {
+        headers[name] = value
+      }
+    }
+
+    record.stream = String(upstream.headers['content-type'] || '').includes('text/event-stream')
+    const reader = new ResponseReader(record.stream)
+
+    response.writeHead(upstream.statusCode || 502, headers)
+    upstream.on('data', (chunk: Buffer) => reader.push(chunk))
+    upstream.once('end', () => {
+      Object.assign(record, reader.finish())
+      this.completeRecord(record)
+    })
+    upstream.once('error', error => {
+      record.error = error.message
+      this.completeRecord(record)
+      response.destroy(error)
+    })
+    upstream.pipe(response)
+  }
+
+  /**
+   * 将上游响应转换为 Anthropic 格式后回复CLI，同时读取用量
+   * 流式响应逐块转换，非流式响应和错误响应在结束时整体转换
+   */
+  private pipeTranslatedResponse(
+    upstream: http.IncomingMessage,
+    response: http.ServerResponse,
+    record: RequestRecord,
+    translated: TranslatedRequest
+  ): void {
+    const status = upstream.statusCode || 502
+    const isEventStream = String(upstream.headers['content-type'] || '').includes('text/event-stream')
+    const stream = isEventStream && status < 400 ? translated.translator.createStreamTranslator(translated.model) : null
+    const reader = new ResponseReader(!!stream)
+    const chunks: string[] = []
+    record.stream = !!stream
+
+    const send = (text: string) => {
+      if (text) {
+        const chunk = Buffer.from(text, 'utf-8')
+        reader.push(chunk)
+        response.write(chunk)
+      }
+    }
+
+    if (stream) {
+      response.writeHead(status, { 'content-type': 'text/event-stream; charset=utf-8', 'cache-control': 'no-cache' })
+    }
+
+    upstream.setEncoding('utf-8')
+    upstream.on('data', (chunk: string) => {
+      if (stream) {
+        send(stream.push(chunk))
+      } else {
+        chunks.push(chunk)
+      }
+    })
+    upstream.once('end', () => {
+      if (stream) {
+        send(stream.finish())
+        response.end()
+      } else {
+        const text = chunks.join('')
+        let body: any
+        try {
+          body = status >= 400 ? translateErrorResponse(status, text) : translated.translator.translateResponse(JSON.parse(text), translated.model)
+        } catch (error) {
+          body = translateErrorResponse(502, `Invalid response from upstream: ${(error as Error).message}`)
+        }
+        const chunk = Buffer.from(JSON.stringify(body), 'utf-8')
+        reader.push(chunk)
+        response.writeHead(body.type === 'error' && status < 400 ? 502 : status, { 'content-type': 'application/json' })
+        response.end(chunk)
+      }
+      Object.assign(record, reader.finish())
+      this.completeRecord(record)
+    })
+    upstream.once('error', error => {
+      record.error = error.message
+      this.completeRecord(record)
+      response.destroy(error)
+    })
+  }
+
+  /**
+   * 解析上游目标
+   * 第三方提供商启用密钥选择策略时在其密钥之间选择，跳过冷却中和本次请求已尝试过的密钥
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @param tried - 本次请求已尝试过的账号
+   * @returns 上游目标，账号不存在或没有凭据时返回null
+   */
+  private async resolveTarget(compositeId: string, tried: Set<string>): Promise<UpstreamTarget | null> {
+    const separatorIndex = compositeId.indexOf(':')
+    const providerId = separatorIndex === -1 ? compositeId : compositeId.slice(0, separatorIndex)
+    const accountId = separatorIndex === -1 ? '' : compositeId.slice(separatorIndex + 1)
+    const provider = this.configManager.getServiceProviders().find(p => p.id === providerId)
+    if (!provider) {
+      return null
+    }
+
+    const proxy = await this.configManager.resolveProviderProxy(provider.id)
+
+    if (provider.type === CONFIG_CONSTANTS.PROVIDER_TYPES.CLAUDE_OFFICIAL) {
+      const account = (provider.accounts as ClaudeAccountConfig[]).find(acc => acc.emailAddress === accountId)
+      const authorization = account && await this.configManager.getClaudeAccountAuthorization(account)
+      if (!account || !authorization) {
+        return null
+      }
+      return {
+        compositeId: `${provider.id}:${account.emailAddress}`,
+        label: account.emailAddress,
+        baseUrl: ANTHROPIC_API_BASE_URL,
+        authorization: authorization.startsWith('Bearer ') ? authorization : `Bearer ${authorization}`,
+        oauth: true,
+        protocol: 'anthropic',
+        proxy
+      }
+    }
+
+    const account = this.selectKey(provider, accountId, tried)
+    const apiKey = account && await this.configManager.getThirdPartyApiKey(account)
+    if (!account || !apiKey) {
+      return null
+    }
+    return {
+      compositeId: `${provider.id}:${account.id}`,
+      label: `${provider.name} - ${account.name}`,
+      baseUrl: account.baseUrl,
+      authorization: `Bearer ${apiKey}`,
+      oauth: false,
+      protocol: provider.protocol || 'anthropic',
+      proxy
+    }
+  }
+
+  /**
+   * 按提供商的密钥选择策略选择第三方账号
+   * 选择状态由配置管理器保存，与拦截器的密钥选择请求共用
+   * @param provider - 第三方提供商
+   * @param accountId - 绑定或活动的账号ID，策略为 active 时直接使用
+   * @param tried - 本次请求已尝试过的账号
+   */
+  private selectKey(provider: ServiceProviderConfig, accountId: string, tried: Set<string>): ThirdPartyAccountConfig | undefined {
+    const requested = (provider.accounts as ThirdPartyAccountConfig[]).find(acc => acc.id === accountId)
+    return this.configManager.selectProviderKey(provider, tried) || requested
+  }
+
+
+  /**
+   * 处理故障转移
+   * 状态码属于账号所在故障转移组的配置时，为出错账号记录冷却，按组内顺序查找下一个可用账号；
+   * 接替的账号只使用到出错账号冷却结束
+   * @returns 接替的上游目标，不需要或无法故障转移时返回null
+   */
+  private async failover(client: GatewayClient, target: UpstreamTarget, status: number, tried: Set<string>): Promise<UpstreamTarget | null> {
+    const group = this.configManager.getFailoverGroup(target.compositeId)
+    const statuses = group?.statuses?.length ? group.statuses : CONFIG_CONSTANTS.DEFAULT_FAILOVER_STATUSES
+    if (!group || !statuses.includes(status)) {
+      return null
+    }
+
+    const cooldownSeconds = group.cooldownSeconds ?? CONFIG_CONSTANTS.DEFAULT_FAILOVER_COOLDOWN_SECONDS
+    const cooldownUntil = Date.now() + cooldownSeconds * 1000
+    const start = group.accounts.indexOf(target.compositeId)
+
+    for (let offset = 1; offset < group.accounts.length; offset++) {
+      const compositeId = group.accounts[(start + offset) % group.accounts.length]
+      if (tried.has(compositeId) || this.configManager.getAccountCooldown(compositeId)) {
+        continue
+      }
+
+      const next = await this.resolveTarget(compositeId, tried)
+      if (next) {
+        // 连续故障转移时保留最初出错账号的冷却结束时间，到时恢复使用该账号
+        client.failover = { compositeId: next.compositeId, until: client.failover?.until ?? cooldownUntil }
+        logger.info(`Gateway failed over from ${target.compositeId} to ${next.compositeId} (HTTP ${status})`, 'LocalGateway')
+        this.configManager.reportAccountFailover({
+          group: group.name,
+          from: target.compositeId,
+          fromLabel: target.label,
+          to: next.compositeId,
+          toLabel: next.label,
+          status,
+          cooldownUntil
+        })
+        return next
+      }
+    }
+
+    logger.warn(`${target.label} returned HTTP ${status}, no account left in failover group "${group.name}"`, 'LocalGateway')
+    this.configManager.recordAccountCooldown({ compositeId: target.compositeId, until: cooldownUntil, status, group: group.name })
+    return null
+  }
+
+  /**
+   * 生成上游地址：上游基础URL的路径前缀加上CLI请求的路径和查询参数
+   */
+  private getUpstreamUrl(target: UpstreamTarget, requestPath: string): URL {
+    const base = new URL(target.baseUrl)
+    const prefix = base.pathname.replace(/\/$/, '')
+    return new URL(`${base.origin}${prefix}${requestPath}`)
+  }
+
+  /**
+   * 生成上游请求头：去掉逐跳请求头和CLI的凭据，使用目标账号的凭据，
+   * 非 anthropic 协议的上游不发送 anthropic-* 请求头
+   */
+  private getUpstreamHeaders(request: http.IncomingMessage, target: UpstreamTarget, body: Buffer): Record<string, string | string[]> {
+    const headers: Record<string, string | string[]> = {}
+    for (const [name, value] of Object.entries(request.headers)) {
+      if (STRIPPED_REQUEST_HEADERS.has(name) || value === undefined) {
+        continue
+      }
+      if (target.protocol !== 'anthropic' && name.startsWith('anthropic-')) {
+        continue
+      }
+      headers[name] = value
+    }
+
+    headers.authorization = target.authorization
+    headers['content-length'] = String(body.length)
+
+    // CLI使用网关令牌时不会发送OAuth所需的beta标记
+    if (target.oauth) {
+      const betas = String(headers['anthropic-beta'] || '').split(',').map(beta => beta.trim()).filter(Boolean)
+      if (!betas.includes(OAUTH_BETA)) {
+        headers['anthropic-beta'] = [...betas, OAUTH_BETA].join(',')
+      }
+    }
+
+    return headers
+  }
+
+  /**
+   * 开始记录一次转发
+   */
+  private startRecord(request: http.IncomingMessage, body: Buffer, target: UpstreamTarget, upstreamPath: string): RequestRecord {
+    const url = this.getUpstreamUrl(target, upstreamPath)
+    let model: string | undefined
+    try {
+      const parsed = JSON.parse(body.toString('utf-8'))
+      model = typeof parsed.model === 'string' ? parsed.model : undefined
+    } catch {
+      // 请求体不是JSON，不记录模型
+    }
+
+    return {
+      requestId: crypto.randomUUID(),
+      startedAt: Date.now(),
+      method: request.method || 'GET',
+      host: url.host,
+      path: url.pathname,
+      model,
+      durationMs: 0,
+      account: { compositeId: target.compositeId, label: target.label },
+      pid: process.pid
+    }
+  }
+
+  /**
+   * 转发结束，触发 'request:completed' 事件
+   */
+  private completeRecord(record: RequestRecord): void {
+    record.durationMs = Date.now() - record.startedAt
+    this.emit('request:completed', record)
+  }
+
+  /**
+   * 以 Anthropic API 的错误格式回复CLI
+   */
+  private sendError(response: http.ServerResponse, status: number, type: string, message: string): void {
+    if (response.headersSent) {
+      response.destroy()
+      return
+    }
+    response.writeHead(status, { 'content-type': 'application/json' })
+    response.end(JSON.stringify({ type: 'error', error: { type, message } }))
+  }
+
+  /**
+   * 关闭网关
+   */
+  dispose(): void {
+    this.server?.close()
+    this.server = undefined
+    this.starting = undefined
+    this.clients.clear()
+    this.removeAllListeners()
+  }
+}
+
+/**
+ * 获取提供商协议对应的转换器
+ * @returns 转换器，anthropic 协议不需要转换时返回null
+ */
+function getProtocolTranslator(protocol: ProviderProtocol): ProtocolTranslator | null {
+  switch (protocol) {
+    case 'openai-chat': return new OpenAIChatTranslator()
+    case 'openai-responses': return new OpenAIResponsesTranslator()
+    default: return null
+  }
+}
@@ -0,0 +1,256 @@
+import {
+  AnthropicStreamWriter,
+  ProtocolTranslator,
+  SseLineReader,
+  StreamTranslator,
+  getContentBlocks,
+  getFunctionTools,
+  getImageUrl,
+  getSystemText,
+  getToolResultText,
+  parseToolArguments,
+  toMessageId,
+  toToolUseId
+} from './protocol-translator'
+
+/**
+ * OpenAI Chat Completions 协议转换器
+ * 请求发送到 {baseUrl}/chat/completions，tool_use/tool_result 与 tool_calls/tool 消息互相转换
+ */
+export class OpenAIChatTranslator implements ProtocolTranslator {
+  readonly path = '/chat/completions'
+
+  /**
+   * 将 Anthropic Messages 请求转换为 Chat Completions 请求
+   */
+  translateRequest(body: any): any {
+    const messages: any[] = []
+    const system = getSystemText(body.system)
+    if (system) {
+      messages.push({ role: 'system', content: system })
+    }
+    for (const message of body.messages || []) {
+      messages.push(...(message.role === 'assistant' ? this.translateAssistantMessage(message) : this.translateUserMessage(message)))
+    }
+
+    const request: any = {
+      model: body.model,
+      messages,
+      max_tokens: body.max_tokens,
+      stream: !!body.stream
+    }
+    if (body.stream) {
+      request.stream_options = { include_usage: true }
+    }
+    if (body.temperature !== undefined) {
+      request.temperature = body.temperature
+    }
+    if (body.top_p !== undefined) {
+      request.top_p = body.top_p
+    }
+    if (Array.isArray(body.stop_sequences) && body.stop_sequences.length > 0) {
+      request.stop = body.stop_sequences
+    }
+    if (body.metadata?.user_id) {
+      request.user = body.metadata.user_id
+    }
+
+    const tools = getFunctionTools(body.tools)
+    if (tools.length > 0) {
+      request.tools = tools.map(tool => ({ type: 'function', function: tool }))
+      this.applyToolChoice(request, body.tool_choice)
+    }
+    return request
+  }
+
+  /**
+   * 将 Chat Completions 响应转换为 Anthropic Messages 响应
+   */
+  translateResponse(body: any, requestModel: string): any {
+    const choice = body.choices?.[0] || {}
+    const message = choice.message || {}
+    const content: any[] = []
+    if (message.content) {
+      content.push({ type: 'text', text: message.content })
+    }
+    for (const call of message.tool_calls || []) {
+      content.push({
+        type: 'tool_use',
+        id: toToolUseId(call.id),
+        name: call.function?.name,
+        input: parseToolArguments(call.function?.arguments)
+      })
+    }
+
+    return {
+      id: toMessageId(body.id),
+      type: 'message',
+      role: 'assistant',
+      model: body.model || requestModel,
+      content,
+      stop_reason: getStopReason(choice.finish_reason),
+      stop_sequence: null,
+      usage: {
+        input_tokens: body.usage?.prompt_tokens ?? 0,
+        output_tokens: body.usage?.completion_tokens ?? 0,
+        cache_read_input_tokens: body.usage?.prompt_tokens_details?.cached_tokens ?? 0
+      }
+    }
+  }
+
+  /**
+   * 创建流式响应转换器
+   */
+  createStreamTranslator(requestModel: string): StreamTranslator {
+    return new OpenAIChatStreamTranslator(requestModel)
+  }
+
+  /**
+   * 转换用户消息，tool_result 拆分为独立的 tool 消息并放在最前面，紧跟上一条助手消息的 tool_calls
+   */
+  private translateUserMessage(message: any): any[] {
+    const toolMessages: any[] = []
+    const parts: any[] = []
+    for (const block of getContentBlocks(message.content)) {
+      if (block.type === 'tool_result') {
+        toolMessages.push({ role: 'tool', tool_call_id: block.tool_use_id, content: getToolResultText(block) })
+      } else if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text })
+      } else if (block.type === 'image') {
+        const url = getImageUrl(block)
+        if (url) {
+          parts.push({ type: 'image_url', image_url: { url } })
+        }
+      }
+    }
+
+    if (parts.length === 0) {
+      return toolMessages
+    }
+    const content = parts.every(part => part.type === 'text') ? parts.map(part => part.text).join('\n') : parts
+    return [...toolMessages, { role: 'user', content }]
+  }
+
+  /**
+   * 转换助手消息，tool_use 转换为 tool_calls，思考内容不发送给上游
+   */
+  private translateAssistantMessage(message: any): any[] {
+    const texts: string[] = []
+    const toolCalls: any[] = []
+    for (const block of getContentBlocks(message.content)) {
+      if (block.type === 'text') {
+        texts.push(block.text)
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, type: 'function', function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } })
+      }
+    }
+
+    const result: any = { role: 'assistant', content: texts.length > 0 ? texts.join('\n') : null }
+    if (toolCalls.length > 0) {
+      result.tool_calls = toolCalls
+    }
+    return [result]
+  }
+
+  /**
+   * 转换工具选择方式
+   */
+  private applyToolChoice(request: any, toolChoice: any): void {
+    if (!toolChoice) {
+      return
+    }
+    if (toolChoice.type === 'any') {
+      request.tool_choice = 'required'
+    } else if (toolChoice.type === 'tool') {
+      request.tool_choice = { type: 'function', function: { name: toolChoice.name } }
+    } else if (toolChoice.type === 'none' || toolChoice.type === 'auto') {
+      request.tool_choice = toolChoice.type
+    }
+    if (toolChoice.disable_parallel_tool_use) {
+      request.parallel_tool_calls = false
+    }
+  }
+}
+
+/**
+ * Chat Completions 流式响应转换器
+ * 文本增量转换为 text_delta，工具调用按 index 转换为 tool_use 块和 input_json_delta，
+ * 最后一块（include_usage）携带用量
+ */
+class OpenAIChatStreamTranslator implements StreamTranslator {
+  /** 上游数据读取器 */
+  private reader = new SseLineReader()
+  /** 事件生成器 */
+  private writer: AnthropicStreamWriter
+  /** 当前工具调用的 index */
+  private toolCallIndex: number | null = null
+  /** 上游的结束原因 */
+  private finishReason: string | null = null
+
+  constructor(requestModel: string) {
+    this.writer = new AnthropicStreamWriter(requestModel)
+  }
+
+  push(chunk: string): string {
+    this.reader.push(chunk).forEach(event => this.readEvent(event))
+    return this.writer.take()
+  }
+
+  finish(): string {
+    this.reader.finish().forEach(event => this.readEvent(event))
+    this.writer.finish(getStopReason(this.finishReason))
+    return this.writer.take()
+  }
+
+  /**
+   * 处理一个上游数据块
+   */
+  private readEvent(event: any): void {
+    if (event === '[DONE]') {
+      this.writer.finish(getStopReason(this.finishReason))
+      return
+    }
+    if (event.error) {
+      this.writer.error('api_error', event.error.message || 'Upstream stream error')
+      return
+    }
+
+    this.writer.start(event.id, event.model)
+    if (event.usage) {
+      this.writer.setUsage(event.usage.prompt_tokens, event.usage.completion_tokens, event.usage.prompt_tokens_details?.cached_tokens)
+    }
+
+    const choice = event.choices?.[0]
+    if (!choice) {
+      return
+    }
+    const delta = choice.delta || {}
+    if (typeof delta.content === 'string' && delta.content) {
+      this.toolCallIndex = null
+      this.writer.text(delta.content)
+    }
+    for (const call of delta.tool_calls || []) {
+      const index = call.index ?? 0
+      if (call.id || index !== this.toolCallIndex) {
+        this.toolCallIndex = index
+        this.writer.startToolUse(call.id, call.function?.name || '')
+      }
+      this.writer.toolInput(call.function?.arguments)
+    }
+    if (choice.finish_reason) {
+      this.finishReason = choice.finish_reason
+    }
+  }
+}
+
+/**
+ * 将 Chat Completions 的结束原因转换为 Anthropic 停止原因
+ */
+function getStopReason(finishReason: string | null | undefined): string {
+  switch (finishReason) {
+    case 'length': return 'max_tokens'
+    case 'tool_calls':
+    case 'function_call': return 'tool_use'
+    default: return 'end_turn'
+  }
+}
@@ -0,0 +1,237 @@
+import {
+  AnthropicStreamWriter,
+  ProtocolTranslator,
+  SseLineReader,
+  StreamTranslator,
+  getContentBlocks,
+  getErrorType,
+  getFunctionTools,
+  getImageUrl,
+  getSystemText,
+  getToolResultText,
+  parseToolArguments,
+  toMessageId,
+  toToolUseId
+} from './protocol-translator'
+
+/**
+ * OpenAI Responses 协议转换器
+ * 请求发送到 {baseUrl}/responses，tool_use/tool_result 与 function_call/function_call_output 互相转换，
+ * 不在上游保存对话（store: false），每次请求携带完整历史
+ */
+export class OpenAIResponsesTranslator implements ProtocolTranslator {
+  readonly path = '/responses'
+
+  /**
+   * 将 Anthropic Messages 请求转换为 Responses 请求
+   */
+  translateRequest(body: any): any {
+    const input: any[] = []
+    for (const message of body.messages || []) {
+      input.push(...this.translateMessage(message))
+    }
+
+    const request: any = {
+      model: body.model,
+      input,
+      max_output_tokens: body.max_tokens,
+      stream: !!body.stream,
+      store: false
+    }
+    const instructions = getSystemText(body.system)
+    if (instructions) {
+      request.instructions = instructions
+    }
+    if (body.temperature !== undefined) {
+      request.temperature = body.temperature
+    }
+    if (body.top_p !== undefined) {
+      request.top_p = body.top_p
+    }
+    if (body.metadata?.user_id) {
+      request.user = body.metadata.user_id
+    }
+
+    const tools = getFunctionTools(body.tools)
+    if (tools.length > 0) {
+      request.tools = tools.map(tool => ({ type: 'function', ...tool }))
+      this.applyToolChoice(request, body.tool_choice)
+    }
+    return request
+  }
+
+  /**
+   * 将 Responses 响应转换为 Anthropic Messages 响应
+   */
+  translateResponse(body: any, requestModel: string): any {
+    const content: any[] = []
+    for (const item of body.output || []) {
+      if (item.type === 'message') {
+        const text = (item.content || []).filter((part: any) => part.type === 'output_text').map((part: any) => part.text).join('')
+        if (text) {
+          content.push({ type: 'text', text })
+        }
+      } else if (item.type === 'function_call') {
+        content.push({ type: 'tool_use', id: toToolUseId(item.call_id), name: item.name, input: parseToolArguments(item.arguments) })
+      }
+    }
+
+    return {
+      id: toMessageId(body.id),
+      type: 'message',
+      role: 'assistant',
+      model: body.model || requestModel,
+      content,
+      stop_reason: getStopReason(body, content.some(block => block.type === 'tool_use')),
+      stop_sequence: null,
+      usage: {
+        input_tokens: body.usage?.input_tokens ?? 0,
+        output_tokens: body.usage?.output_tokens ?? 0,
+        cache_read_input_tokens: body.usage?.input_tokens_details?.cached_tokens ?? 0
+      }
+    }
+  }
+
+  /**
+   * 创建流式响应转换器
+   */
+  createStreamTranslator(requestModel: string): StreamTranslator {
+    return new OpenAIResponsesStreamTranslator(requestModel)
+  }
+
+  /**
+   * 转换一条消息，文本和图片保留为消息内容，工具调用和工具结果转换为独立的输入项
+   */
+  private translateMessage(message: any): any[] {
+    const assistant = message.role === 'assistant'
+    const items: any[] = []
+    let parts: any[] = []
+    const flush = () => {
+      if (parts.length > 0) {
+        items.push({ role: assistant ? 'assistant' : 'user', content: parts })
+        parts = []
+      }
+    }
+
+    for (const block of getContentBlocks(message.content)) {
+      if (block.type === 'text') {
+        parts.push({ type: assistant ? 'output_text' : 'input_text', text: block.text })
+      } else if (block.type === 'image' && !assistant) {
+        const url = getImageUrl(block)
+        if (url) {
+          parts.push({ type: 'input_image', image_url: url })
+        }
+      } else if (block.type === 'tool_use') {
+        flush()
+        items.push({ type: 'function_call', call_id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) })
+      } else if (block.type === 'tool_result') {
+        flush()
+        items.push({ type: 'function_call_output', call_id: block.tool_use_id, output: getToolResultText(block) })
+      }
+    }
+    flush()
+    return items
+  }
+
+  /**
+   * 转换工具选择方式
+   */
+  private applyToolChoice(request: any, toolChoice: any): void {
+    if (!toolChoice) {
+      return
+    }
+    if (toolChoice.type === 'any') {
+      request.tool_choice = 'required'
+    } else if (toolChoice.type === 'tool') {
+      request.tool_choice = { type: 'function', name: toolChoice.name }
+    } else if (toolChoice.type === 'none' || toolChoice.type === 'auto') {
+      request.tool_choice = toolChoice.type
+    }
+    if (toolChoice.disable_parallel_tool_use) {
+      request.parallel_tool_calls = false
+    }
+  }
+}
+
+/**
+ * Responses 流式响应转换器
+ * 按事件的 type 字段处理：输出项开始时打开工具调用块，文本和参数增量转换为对应的 delta，
+ * response.completed 携带用量和结束状态
+ */
+class OpenAIResponsesStreamTranslator implements StreamTranslator {
+  /** 上游数据读取器 */
+  private reader = new SseLineReader()
+  /** 事件生成器 */
+  private writer: AnthropicStreamWriter
+  /** 是否输出过工具调用 */
+  private hasToolUse = false
+  /** 完成时的响应对象 */
+  private response: any = null
+
+  constructor(requestModel: string) {
+    this.writer = new AnthropicStreamWriter(requestModel)
+  }
+
+  push(chunk: string): string {
+    this.reader.push(chunk).forEach(event => this.readEvent(event))
+    return this.writer.take()
+  }
+
+  finish(): string {
+    this.reader.finish().forEach(event => this.readEvent(event))
+    this.writer.finish(getStopReason(this.response, this.hasToolUse))
+    return this.writer.take()
+  }
+
+  /**
+   * 处理一个上游事件
+   */
+  private readEvent(event: any): void {
+    switch (event.type) {
+      case 'response.created':
+        this.writer.start(event.response?.id, event.response?.model)
+        break
+      case 'response.output_item.added':
+        if (event.item?.type === 'function_call') {
+          this.hasToolUse = true
+          this.writer.startToolUse(event.item.call_id, event.item.name)
+        }
+        break
+      case 'response.output_text.delta':
+        this.writer.text(event.delta)
+        break
+      case 'response.function_call_arguments.delta':
+        this.writer.toolInput(event.delta)
+        break
+      case 'response.output_item.done':
+        this.writer.closeBlock()
+        break
+      case 'response.completed':
+      case 'response.incomplete':
+        this.response = event.response
+        this.writer.setUsage(
+          event.response?.usage?.input_tokens,
+          event.response?.usage?.output_tokens,
+          event.response?.usage?.input_tokens_details?.cached_tokens
+        )
+        this.writer.finish(getStopReason(this.response, this.hasToolUse))
+        break
+      case 'response.failed':
+        this.writer.error('api_error', event.response?.error?.message || 'Upstream response failed')
+        break
+      case 'error':
+        this.writer.error(getErrorType(Number(event.code) || 500), event.message || 'Upstream stream error')
+        break
+    }
+  }
+}
+
+/**
+ * 根据 Responses 的状态转换为 Anthropic 停止原因
+ */
+function getStopReason(response: any, hasToolUse: boolean): string {
+  if (response?.status === 'incomplete' && response.incomplete_details?.reason === 'max_output_tokens') {
+    return 'max_tokens'
+  }
+  return hasToolUse ? 'tool_use' : 'end_turn'
+}
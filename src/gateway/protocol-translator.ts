@@ -0,0 +1,364 @@
+import * as crypto from 'crypto'
+
+/**
+ * 协议转换器
+ * 将CLI发送的 Anthropic Messages 请求转换为上游协议，并把上游响应转换回 Anthropic 格式
+ */
+export interface ProtocolTranslator {
+  /** 上游接口路径，追加在提供商基础URL之后 */
+  readonly path: string
+  /** 转换请求体 */
+  translateRequest(body: any): any
+  /** 转换非流式响应体 */
+  translateResponse(body: any, requestModel: string): any
+  /** 创建流式响应转换器 */
+  createStreamTranslator(requestModel: string): StreamTranslator
+}
+
+/**
+ * 流式响应转换器
+ * 逐块读取上游的 SSE 数据，输出 Anthropic 格式的 SSE 事件
+ */
+export interface StreamTranslator {
+  /** 转换一块上游数据，返回可以立即发送的 Anthropic 事件 */
+  push(chunk: string): string
+  /** 上游结束，返回剩余的事件（关闭内容块、message_delta 和 message_stop） */
+  finish(): string
+}
+
+/**
+ * Anthropic 流式事件生成器
+ * 维护消息和内容块的开闭状态，保证输出的事件顺序符合 Messages API 的流式格式
+ */
+export class AnthropicStreamWriter {
+  /** 是否已发送 message_start */
+  private started = false
+  /** 是否已发送 message_stop */
+  private finished = false
+  /** 当前内容块序号 */
+  private blockIndex = -1
+  /** 当前打开的内容块类型 */
+  private openBlock: 'text' | 'tool_use' | null = null
+  /** 等待发送的事件 */
+  private output = ''
+  /** 令牌用量 */
+  private usage = { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0 }
+
+  /**
+   * 构造函数
+   * @param model - 请求的模型，上游没有返回模型时使用
+   */
+  constructor(private model: string) {}
+
+  /**
+   * 发送 message_start，只发送一次
+   * @param id - 上游响应ID（可选）
+   * @param model - 上游返回的模型（可选）
+   */
+  start(id?: string, model?: string): void {
+    if (this.started) {
+      return
+    }
+    this.started = true
+    this.model = model || this.model
+    this.write('message_start', {
+      type: 'message_start',
+      message: {
+        id: toMessageId(id),
+        type: 'message',
+        role: 'assistant',
+        model: this.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: 0, output_tokens: 0 }
+      }
+    })
+  }
+
+  /**
+   * 追加文本，当前不是文本块时先打开新的文本块
+   */
+  text(text: string): void {
+    if (!text) {
+      return
+    }
+    this.start()
+    if (this.openBlock !== 'text') {
+      this.closeBlock()
+      this.openContentBlock('text', { type: 'text', text: '' })
+    }
+    this.write('content_block_delta', {
+      type: 'content_block_delta',
+      index: this.blockIndex,
+      delta: { type: 'text_delta', text }
+    })
+  }
+
+  /**
+   * 打开工具调用块
+   * @param id - 工具调用ID
+   * @param name - 工具名称
+   */
+  startToolUse(id: string, name: string): void {
+    this.start()
+    this.closeBlock()
+    this.openContentBlock('tool_use', { type: 'tool_use', id: toToolUseId(id), name, input: {} })
+  }
+
+  /**
+   * 追加当前工具调用的参数片段（JSON文本）
+   */
+  toolInput(partialJson: string): void {
+    if (!partialJson || this.openBlock !== 'tool_use') {
+      return
+    }
+    this.write('content_block_delta', {
+      type: 'content_block_delta',
+      index: this.blockIndex,
+      delta: { type: 'input_json_delta', partial_json: partialJson }
+    })
+  }
+
+  /**
+   * 关闭当前内容块
+   */
+  closeBlock(): void {
+    if (this.openBlock) {
+      this.write('content_block_stop', { type: 'content_block_stop', index: this.blockIndex })
+      this.openBlock = null
+    }
+  }
+
+  /**
+   * 更新令牌用量
+   */
+  setUsage(inputTokens?: number, outputTokens?: number, cachedTokens?: number): void {
+    this.usage = {
+      input_tokens: inputTokens ?? this.usage.input_tokens,
+      output_tokens: outputTokens ?? this.usage.output_tokens,
+      cache_read_input_tokens: cachedTokens ?? this.usage.cache_read_input_tokens
+    }
+  }
+
+  /**
+   * 结束消息：关闭内容块，发送 message_delta 和 message_stop，只执行一次
+   * @param stopReason - Anthropic 格式的停止原因
+   */
+  finish(stopReason: string): void {
+    if (this.finished) {
+      return
+    }
+    this.start()
+    this.closeBlock()
+    this.finished = true
+    this.write('message_delta', {
+      type: 'message_delta',
+      delta: { stop_reason: stopReason, stop_sequence: null },
+      usage: this.usage
+    })
+    this.write('message_stop', { type: 'message_stop' })
+  }
+
+  /**
+   * 发送错误事件并结束
+   */
+  error(type: string, message: string): void {
+    if (this.finished) {
+      return
+    }
+    this.finished = true
+    this.write('error', { type: 'error', error: { type, message } })
+  }
+
+  /**
+   * 取出等待发送的事件
+   */
+  take(): string {
+    const output = this.output
+    this.output = ''
+    return output
+  }
+
+  /**
+   * 打开新的内容块
+   */
+  private openContentBlock(type: 'text' | 'tool_use', contentBlock: any): void {
+    this.blockIndex++
+    this.openBlock = type
+    this.write('content_block_start', { type: 'content_block_start', index: this.blockIndex, content_block: contentBlock })
+  }
+
+  /**
+   * 写入一个 SSE 事件
+   */
+  private write(event: string, data: any): void {
+    this.output += `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+  }
+}
+
+/**
+ * SSE 数据行读取器
+ * 按行拆分上游数据，返回每个完整 data 行解析后的JSON，[DONE] 返回字符串 '[DONE]'
+ */
+export class SseLineReader {
+  /** 尚未完整的行 */
+  private pending = ''
+
+  /**
+   * 读取一块数据
+   */
+  push(chunk: string): Array<any> {
+    const lines = (this.pending + chunk).split('\n')
+    this.pending = lines.pop() || ''
+    return this.parse(lines)
+  }
+
+  /**
+   * 读取剩余的数据
+   */
+  finish(): Array<any> {
+    const lines = [this.pending]
+    this.pending = ''
+    return this.parse(lines)
+  }
+
+  /**
+   * 解析 data 行
+   */
+  private parse(lines: string[]): Array<any> {
+    const events: any[] = []
+    for (const line of lines) {
+      if (!line.startsWith('data:')) {
+        continue
+      }
+      const data = line.slice(5).trim()
+      if (data === '[DONE]') {
+        events.push(data)
+        continue
+      }
+      try {
+        events.push(JSON.parse(data))
+      } catch {
+        // 不完整或非JSON的数据行，忽略
+      }
+    }
+    return events
+  }
+}
+
+/**
+ * 将上游的错误响应转换为 Anthropic 错误格式
+ * @param status - HTTP状态码
+ * @param body - 上游响应文本
+ */
+export function translateErrorResponse(status: number, body: string): any {
+  let message = body || `Upstream returned HTTP ${status}`
+  try {
+    const parsed = JSON.parse(body)
+    message = parsed.error?.message || parsed.message || message
+  } catch {
+    // 非JSON的错误响应，直接使用响应文本
+  }
+  return { type: 'error', error: { type: getErrorType(status), message } }
+}
+
+/**
+ * 根据HTTP状态码获取 Anthropic 错误类型
+ */
+export function getErrorType(status: number): string {
+  switch (status) {
+    case 400: return 'invalid_request_error'
+    case 401: return 'authentication_error'
+    case 403: return 'permission_error'
+    case 404: return 'not_found_error'
+    case 413: return 'request_too_large'
+    case 429: return 'rate_limit_error'
+    case 529: return 'overloaded_error'
+    default: return 'api_error'
+  }
+}
+
+/**
+ * 将 Anthropic 的 system 字段（字符串或文本块数组）转换为文本
+ */
+export function getSystemText(system: any): string {
+  if (!system) {
+    return ''
+  }
+  if (typeof system === 'string') {
+    return system
+  }
+  return Array.isArray(system) ? system.filter(block => block.type === 'text').map(block => block.text).join('\n\n') : ''
+}
+
+/**
+ * 将消息内容统一为内容块数组
+ */
+export function getContentBlocks(content: any): any[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }]
+  }
+  return Array.isArray(content) ? content : []
+}
+
+/**
+ * 将 tool_result 的内容转换为文本
+ */
+export function getToolResultText(block: any): string {
+  const text = typeof block.content === 'string'
+    ? block.content
+    : getContentBlocks(block.content).filter(part => part.type === 'text').map(part => part.text).join('\n')
+  return block.is_error ? `Error: ${text}` : text
+}
+
+/**
+ * 将 Anthropic 图片块转换为 data URL 或图片地址
+ */
+export function getImageUrl(block: any): string | undefined {
+  const source = block.source
+  if (source?.type === 'base64') {
+    return `data:${source.media_type};base64,${source.data}`
+  }
+  return source?.type === 'url' ? source.url : undefined
+}
+
+/**
+ * 将 Anthropic 工具定义转换为函数定义，服务端工具（如网页搜索）没有输入结构，无法转换时跳过
+ */
+export function getFunctionTools(tools: any): Array<{ name: string, description?: string, parameters: any }> {
+  if (!Array.isArray(tools)) {
+    return []
+  }
+  return tools
+    .filter(tool => tool.input_schema && (!tool.type || tool.type === 'custom'))
+    .map(tool => ({ name: tool.name, description: tool.description, parameters: tool.input_schema }))
+}
+
+/**
+ * 解析工具调用参数，解析失败时保留原文
+ */
+export function parseToolArguments(value: string | undefined): any {
+  if (!value) {
+    return {}
+  }
+  try {
+    return JSON.parse(value)
+  } catch {
+    return { arguments: value }
+  }
+}
+
+/**
+ * 生成 Anthropic 格式的消息ID
+ */
+export function toMessageId(id: string | undefined): string {
+  return id && id.startsWith('msg_') ? id : `msg_${(id || crypto.randomUUID()).replace(/[^A-Za-z0-9_-]/g, '')}`
+}
+
+/**
+ * 生成 Anthropic 格式的工具调用ID，保留上游ID以便回传工具结果时对应
+ */
+export function toToolUseId(id: string | undefined): string {
+  return id || `toolu_${crypto.randomUUID().replace(/-/g, '')}`
+}
@@ -0,0 +1,124 @@
+import { RequestCompletedPayload } from '../ipc'
+
+/** 非流式响应最多缓存的长度（字节），超过后不再解析用量 */
+const MAX_JSON_BODY_LENGTH = 1024 * 1024
+
+/** 从响应中读取的信息 */
+type ResponseDetails = Pick<RequestCompletedPayload, 'model' | 'usage' | 'errorType' | 'error'>
+
+/**
+ * 响应用量读取器
+ * 在网关转发响应的同时逐块读取，流式响应按行解析 SSE 事件，非流式响应在结束时解析JSON，
+ * 读取模型、令牌用量和API错误，不改变转发给CLI的内容
+ */
+export class ResponseReader {
+  /** 流式响应中尚未完整的行 */
+  private pending = ''
+  /** 非流式响应的内容 */
+  private chunks: Buffer[] = []
+  /** 非流式响应已缓存的长度 */
+  private length = 0
+  /** 读取到的信息 */
+  private details: ResponseDetails = {}
+
+  /**
+   * 构造函数
+   * @param stream - 是否为流式（text/event-stream）响应
+   */
+  constructor(private stream: boolean) {}
+
+  /**
+   * 读取一块响应内容
+   */
+  push(chunk: Buffer): void {
+    if (!this.stream) {
+      this.length += chunk.length
+      if (this.length <= MAX_JSON_BODY_LENGTH) {
+        this.chunks.push(chunk)
+      }
+      return
+    }
+
+    const lines = (this.pending + chunk.toString('utf-8')).split('\n')
+    this.pending = lines.pop() || ''
+    lines.forEach(line => this.readStreamLine(line))
+  }
+
+  /**
+   * 响应结束，返回读取到的信息
+   */
+  finish(): ResponseDetails {
+    if (this.stream) {
+      this.readStreamLine(this.pending)
+      this.pending = ''
+    } else if (this.length <= MAX_JSON_BODY_LENGTH) {
+      this.readJsonBody(Buffer.concat(this.chunks).toString('utf-8'))
+    }
+    return this.details
+  }
+
+  /**
+   * 解析一行 SSE 数据
+   * message_start 携带输入用量，message_delta 携带累计的输出用量
+   */
+  private readStreamLine(line: string): void {
+    if (!line.startsWith('data:')) {
+      return
+    }
+
+    let event: any
+    try {
+      event = JSON.parse(line.slice(5))
+    } catch {
+      return
+    }
+
+    if (event.type === 'message_start' && event.message) {
+      this.details.model = event.message.model || this.details.model
+      this.mergeUsage(event.message.usage)
+    } else if (event.type === 'message_delta') {
+      this.mergeUsage(event.usage)
+    } else if (event.type === 'error' && event.error) {
+      this.details.errorType = event.error.type
+      this.details.error = event.error.message
+    }
+  }
+
+  /**
+   * 解析JSON响应
+   */
+  private readJsonBody(text: string): void {
+    let body: any
+    try {
+      body = JSON.parse(text)
+    } catch {
+      return
+    }
+
+    if (typeof body.model === 'string') {
+      this.details.model = body.model
+    }
+    this.mergeUsage(body.usage)
+    if (body.type === 'error' && body.error) {
+      this.details.errorType = body.error.type
+      this.details.error = body.error.message
+    }
+  }
+
+  /**
+   * 合并用量，后出现的非空字段覆盖先前的值
+   */
+  private mergeUsage(usage: any): void {
+    if (!usage || typeof usage !== 'object') {
+      return
+    }
+
+    const current = this.details.usage || { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0 }
+    this.details.usage = {
+      inputTokens: usage.input_tokens ?? current.inputTokens,
+      outputTokens: usage.output_tokens ?? current.outputTokens,
+      cacheCreationInputTokens: usage.cache_creation_input_tokens ?? current.cacheCreationInputTokens,
+      cacheReadInputTokens: usage.cache_read_input_tokens ?? current.cacheReadInputTokens
+    }
+  }
+}
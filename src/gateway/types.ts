@@ -0,0 +1,56 @@
+import { AccountBinding, ProviderProtocol, ResolvedProxy } from '../shared/types'
+
+/**
+ * 网关客户端
+ * 每次以网关方式启动CLI时登记一个客户端，CLI通过 ANTHROPIC_AUTH_TOKEN 发送客户端令牌
+ */
+export interface GatewayClient {
+  /** 客户端令牌 */
+  token: string
+  /** 启动时绑定的账号，为null时跟随当前活动账号 */
+  binding: AccountBinding | null
+  /** 故障转移后接替的账号（可选），在原账号冷却结束前优先于绑定账号 */
+  failover?: {
+    /** 接替账号的复合ID */
+    compositeId: string
+    /** 原账号的冷却结束时间（毫秒时间戳），之后恢复使用原账号 */
+    until: number
+  }
+}
+
+/**
+ * 上游目标
+ * 一次转发实际使用的账号、地址和凭据
+ */
+export interface UpstreamTarget {
+  /** 复合ID（providerId:accountId） */
+  compositeId: string
+  /** 显示名称 */
+  label: string
+  /** 上游基础URL */
+  baseUrl: string
+  /** Authorization请求头 */
+  authorization: string
+  /** 是否为Claude官方账号的OAuth令牌 */
+  oauth: boolean
+  /** 上游协议，非 anthropic 时由网关转换请求和响应 */
+  protocol: ProviderProtocol
+  /** 代理（可选），提供商不使用代理或未启用代理时为空 */
+  proxy?: ResolvedProxy
+}
+
+/**
+ * 上游请求选项
+ */
+export interface UpstreamRequestOptions {
+  /** 请求方法 */
+  method: string
+  /** 请求头 */
+  headers: Record<string, string | string[]>
+  /** 请求体 */
+  body: Buffer
+  /** 代理（可选），支持 http、https 和 socks5 代理 */
+  proxy?: ResolvedProxy
+  /** 取消信号（可选） */
+  signal?: AbortSignal
+}
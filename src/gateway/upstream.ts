@@ -0,0 +1,52 @@
+import * as http from 'http'
+import * as https from 'https'
+import * as tls from 'tls'
+import { getProxyAuthorizationHeader, getProxyForUrl, isSocksProxy, openProxyTunnel } from '../proxy'
+import { UpstreamRequestOptions } from './types'
+
+/**
+ * 向上游发送请求
+ * 配置了代理且目标不在 NO_PROXY 列表中时，HTTPS目标和 SOCKS 代理通过隧道连接，
+ * HTTP目标经HTTP代理时直接向代理发送完整URL
+ * @param url - 上游地址
+ * @param options - 请求选项
+ * @returns 上游响应（收到响应头时返回）
+ */
+export async function sendUpstreamRequest(url: URL, options: UpstreamRequestOptions): Promise<http.IncomingMessage> {
+  const isHttps = url.protocol === 'https:'
+  const port = Number(url.port) || (isHttps ? 443 : 80)
+  const headers = { ...options.headers, host: url.host }
+
+  let requestOptions: https.RequestOptions = {
+    method: options.method,
+    hostname: url.hostname,
+    port,
+    path: url.pathname + url.search,
+    headers,
+    signal: options.signal
+  }
+
+  const resolvedProxy = getProxyForUrl(url, options.proxy)
+  if (resolvedProxy) {
+    const proxy = new URL(resolvedProxy.url)
+    if (isHttps || isSocksProxy(resolvedProxy.url)) {
+      const socket = await openProxyTunnel(proxy, url.hostname, port, options.signal)
+      const connection = isHttps ? tls.connect({ socket, servername: url.hostname }) : socket
+      requestOptions = { ...requestOptions, createConnection: () => connection }
+    } else {
+      requestOptions = {
+        ...requestOptions,
+        hostname: proxy.hostname,
+        port: Number(proxy.port) || 80,
+        path: url.toString(),
+        headers: { ...headers, ...getProxyAuthorizationHeader(proxy) }
+      }
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (isHttps ? https : http).request(requestOptions, resolve)
+    request.once('error', reject)
+    request.end(options.body)
+  })
+}
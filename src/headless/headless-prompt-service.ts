@@ -0,0 +1,181 @@
+import * as vscode from 'vscode'
+import { SessionManager } from '../session-manager'
+import { UnifiedConfigManager } from '../shared/config-manager'
+import { Session } from '../shared/types'
+import { TerminalService } from '../terminal-service'
+import { parseTranscriptEntry, summarizeToolInput } from '../transcript'
+import { logger } from '../logger'
+import { runHeadless } from './headless-runner'
+import { HeadlessEvent, HeadlessRequest, HeadlessResult } from './types'
+
+/** 输出面板中工具结果最多显示的行数 */
+const TOOL_RESULT_PREVIEW_LINES = 10
+
+/**
+ * 无界面提问服务
+ * 不打开终端，以打印模式运行Claude CLI，将流式事件输出到输出面板，
+ * 完成后同步会话文件并在会话上记录启动信息
+ */
+export class HeadlessPromptService implements vscode.Disposable {
+  /** 输出面板 */
+  private outputChannel: vscode.OutputChannel
+
+  /**
+   * 构造函数
+   * @param terminalService - 终端服务，复用启动参数和环境变量
+   * @param sessionManager - 会话管理器
+   * @param configManager - 统一配置管理器
+   */
+  constructor(
+    private terminalService: TerminalService,
+    private sessionManager: SessionManager,
+    private configManager: UnifiedConfigManager
+  ) {
+    this.outputChannel = vscode.window.createOutputChannel('Claude (Headless)')
+  }
+
+  /**
+   * 运行一次无界面提问
+   * @param request - 提问请求，必须包含提示内容
+   * @param token - 取消令牌（可选）
+   * @returns 运行结果，未找到Claude CLI或启动配置时返回null
+   */
+  async ask(request: HeadlessRequest & { prompt: string }, token?: vscode.CancellationToken): Promise<HeadlessResult | null> {
+    const profile = request.profile ? this.configManager.getLaunchProfile(request.profile) : undefined
+    if (request.profile && !profile) {
+      vscode.window.showErrorMessage(`Launch profile "${request.profile}" not found.`)
+      return null
+    }
+
+    const launch = await this.terminalService.prepareLaunch({
+      cwd: request.cwd,
+      profile,
+      permissionMode: request.permissionMode
+    })
+    if (!launch) {
+      vscode.window.showErrorMessage('Claude CLI not found. Please install Claude CLI first.')
+      return null
+    }
+
+    this.outputChannel.show(true)
+    this.outputChannel.appendLine(`${'='.repeat(60)}`)
+    this.outputChannel.appendLine(`[${new Date().toLocaleString()}] ${launch.cwd}`)
+    if (launch.binding) {
+      this.outputChannel.appendLine(`Account: ${launch.binding.label}`)
+    }
+    this.outputChannel.appendLine(`> ${request.prompt.split('\n').join('\n> ')}`)
+    this.outputChannel.appendLine('')
+
+    const abortController = new AbortController()
+    const cancellation = token?.onCancellationRequested(() => abortController.abort())
+
+    try {
+      const result = await runHeadless(launch, request.prompt, event => this.appendEvent(event), abortController.signal)
+      this.appendResult(result)
+
+      if (result.sessionId) {
+        await this.recordSession(result.sessionId, this.terminalService.getLaunchSessionUpdates(launch))
+      }
+      return result
+    } finally {
+      cancellation?.dispose()
+      launch.release()
+    }
+  }
+
+  /**
+   * 显示输出面板
+   */
+  showOutput(): void {
+    this.outputChannel.show()
+  }
+
+  /**
+   * 将流式事件写入输出面板
+   */
+  private appendEvent(event: HeadlessEvent): void {
+    if (event.type === 'system' && event.subtype === 'init') {
+      this.outputChannel.appendLine(`Session ${event.session_id} · ${event.model || 'default model'}`)
+      return
+    }
+
+    const message = parseTranscriptEntry(event)
+    if (!message) {
+      return
+    }
+
+    for (const block of message.blocks) {
+      switch (block.type) {
+        case 'text':
+          this.outputChannel.appendLine(block.text)
+          break
+        case 'tool_use':
+          this.outputChannel.appendLine(`🔧 ${block.name}${this.formatToolSummary(block.name, block.input)}`)
+          break
+        case 'tool_result': {
+          const lines = block.content.split('\n')
+          const preview = lines.slice(0, TOOL_RESULT_PREVIEW_LINES).map(line => `   ${line}`)
+          if (lines.length > TOOL_RESULT_PREVIEW_LINES) {
+            preview.push(`   … ${lines.length - TOOL_RESULT_PREVIEW_LINES} more lines`)
+          }
+          this.outputChannel.appendLine(`${block.isError ? '   ✗ ' : '   ↳ '}${preview.join('\n').trimStart()}`)
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * 格式化工具调用摘要
+   */
+  private formatToolSummary(name: string, input: any): string {
+    const summary = summarizeToolInput(name, input)
+    return summary ? `: ${summary.split('\n')[0]}` : ''
+  }
+
+  /**
+   * 将运行结果写入输出面板
+   */
+  private appendResult(result: HeadlessResult): void {
+    this.outputChannel.appendLine('')
+    if (result.cancelled) {
+      this.outputChannel.appendLine('✗ Cancelled')
+      return
+    }
+    if (result.isError) {
+      this.outputChannel.appendLine(`✗ Failed: ${result.result}`)
+      return
+    }
+
+    const details = [
+      result.durationMs !== undefined ? `${(result.durationMs / 1000).toFixed(1)}s` : '',
+      result.numTurns !== undefined ? `${result.numTurns} turns` : '',
+      result.costUsd !== undefined ? `$${result.costUsd.toFixed(4)}` : ''
+    ].filter(Boolean)
+    this.outputChannel.appendLine(`✓ Done${details.length > 0 ? ` (${details.join(' · ')})` : ''}`)
+  }
+
+  /**
+   * 同步CLI写入的会话文件，并在会话上记录启动信息
+   */
+  private async recordSession(claudeSessionId: string, updates: Partial<Session>): Promise<void> {
+    try {
+      await this.sessionManager.syncWithClaudeDirectory()
+      const session = this.sessionManager.getAllSessions().find(s => s.claudeSessionId === claudeSessionId)
+      if (session) {
+        this.sessionManager.updateSession(session.id, updates)
+      } else {
+        logger.warn(`Headless session ${claudeSessionId} not found after sync`, 'HeadlessPromptService')
+      }
+    } catch (error) {
+      logger.warn('Failed to sync headless session', 'HeadlessPromptService', error as Error)
+    }
+  }
+
+  /**
+   * 释放输出面板
+   */
+  dispose(): void {
+    this.outputChannel.dispose()
+  }
+}
@@ -0,0 +1,100 @@
+import { spawn } from 'child_process'
+import * as readline from 'readline'
+import { ClaudeLaunch } from '../shared/types'
+import { HeadlessEvent, HeadlessResult } from './types'
+
+/** 出错时保留的stderr末尾长度 */
+const STDERR_TAIL_LENGTH = 4000
+
+/**
+ * 以打印模式运行Claude CLI
+ * 使用 -p --output-format stream-json 启动子进程，提示通过stdin传入，
+ * 逐行解析输出事件并回调
+ * @param launch - 准备好的启动信息
+ * @param prompt - 提示内容
+ * @param onEvent - 事件回调
+ * @param signal - 取消信号（可选），触发后结束子进程
+ * @returns 运行结果
+ */
+export function runHeadless(
+  launch: ClaudeLaunch,
+  prompt: string,
+  onEvent: (event: HeadlessEvent) => void,
+  signal?: AbortSignal
+): Promise<HeadlessResult> {
+  return new Promise(resolve => {
+    const args = [...launch.args, '-p', '--output-format', 'stream-json', '--verbose']
+    const childProcess = spawn(launch.claudePath, args, {
+      cwd: launch.cwd,
+      env: { ...launch.env, ...launch.commandEnv },
+      stdio: 'pipe',
+      signal
+    })
+
+    let sessionId: string | undefined
+    let resultEvent: HeadlessEvent | undefined
+    let stderr = ''
+    let spawnError: Error | undefined
+
+    const lines = readline.createInterface({ input: childProcess.stdout, crlfDelay: Infinity })
+    lines.on('line', line => {
+      if (!line.trim()) {
+        return
+      }
+      let event: HeadlessEvent
+      try {
+        event = JSON.parse(line)
+      } catch {
+        // CLI偶尔输出非JSON的提示信息，按stderr处理
+        stderr = (stderr + line + '\n').slice(-STDERR_TAIL_LENGTH)
+        return
+      }
+
+      sessionId = event.session_id || sessionId
+      if (event.type === 'result') {
+        resultEvent = event
+      }
+      onEvent(event)
+    })
+
+    childProcess.stderr.on('data', data => {
+      stderr = (stderr + data.toString()).slice(-STDERR_TAIL_LENGTH)
+    })
+
+    childProcess.on('error', error => {
+      spawnError = error
+    })
+
+    childProcess.on('close', code => {
+      const cancelled = !!signal?.aborted
+      if (resultEvent) {
+        resolve({
+          sessionId,
+          result: resultEvent.result || '',
+          isError: !!resultEvent.is_error || resultEvent.subtype !== 'success',
+          cancelled,
+          exitCode: code,
+          costUsd: resultEvent.total_cost_usd,
+          durationMs: resultEvent.duration_ms,
+          numTurns: resultEvent.num_turns
+        })
+        return
+      }
+
+      resolve({
+        sessionId,
+        result: cancelled
+          ? 'Cancelled'
+          : stderr.trim() || spawnError?.message || `Claude CLI exited with code ${code}`,
+        isError: true,
+        cancelled,
+        exitCode: code
+      })
+    })
+
+    childProcess.stdin.on('error', () => {
+      // 进程提前退出时写入stdin会失败，结果由close事件处理
+    })
+    childProcess.stdin.end(prompt)
+  })
+}
@@ -0,0 +1,13 @@
+/**
+ * 无界面运行模块导出
+ * 以打印模式运行Claude CLI，不打开交互终端
+ */
+
+/** 无界面运行 - 启动 claude -p 子进程并解析 stream-json 输出 */
+export { runHeadless } from './headless-runner'
+
+/** 无界面提问服务 - 输出到输出面板并记录会话 */
+export { HeadlessPromptService } from './headless-prompt-service'
+
+/** 导出所有类型定义 */
+export * from './types'
@@ -0,0 +1,65 @@
+import { PermissionMode } from '../shared/types'
+
+/**
+ * 无界面提问请求
+ * 也可以作为 cc-copilot.askClaudeHeadless 命令的参数，供任务和脚本调用
+ */
+export interface HeadlessRequest {
+  /** 提示内容，未提供时弹出输入框 */
+  prompt?: string
+  /** 工作目录（可选），默认使用第一个工作区文件夹 */
+  cwd?: string
+  /** 启动配置名称（可选），默认使用工作区的默认启动配置 */
+  profile?: string
+  /** 权限模式（可选），优先于启动配置和设置 */
+  permissionMode?: PermissionMode
+}
+
+/**
+ * stream-json 输出的事件
+ * 只列出使用到的字段，assistant/user 事件的 message 与会话文件中的格式相同
+ */
+export interface HeadlessEvent {
+  /** 事件类型：system、assistant、user、result */
+  type: string
+  /** 事件子类型，例如 init、success、error_max_turns */
+  subtype?: string
+  /** Claude会话ID */
+  session_id?: string
+  /** 使用的模型（init事件） */
+  model?: string
+  /** 消息内容（assistant/user事件） */
+  message?: any
+  /** 最终回复（result事件） */
+  result?: string
+  /** 是否出错（result事件） */
+  is_error?: boolean
+  /** 总费用（美元，result事件） */
+  total_cost_usd?: number
+  /** 耗时（毫秒，result事件） */
+  duration_ms?: number
+  /** 对话轮数（result事件） */
+  num_turns?: number
+}
+
+/**
+ * 无界面运行结果
+ */
+export interface HeadlessResult {
+  /** Claude会话ID（可选） */
+  sessionId?: string
+  /** 最终回复，出错时为错误信息 */
+  result: string
+  /** 是否出错 */
+  isError: boolean
+  /** 是否被取消 */
+  cancelled: boolean
+  /** 进程退出码 */
+  exitCode: number | null
+  /** 总费用（美元，可选） */
+  costUsd?: number
+  /** 耗时（毫秒，可选） */
+  durationMs?: number
+  /** 对话轮数（可选） */
+  numTurns?: number
+}
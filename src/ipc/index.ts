@@ -0,0 +1,13 @@
+/**
+ * 拦截器IPC模块导出
+ * 定义拦截器与扩展之间带版本号的消息协议，并提供接收消息的本地服务
+ */
+
+/** IPC服务 - 本地套接字/命名管道接收消息，文件队列兜底并在启动时重放 */
+export { IpcServer } from './ipc-server'
+
+/** 协议工具 - 消息校验、端点和队列目录、令牌指纹 */
+export { validateIpcMessage, getIpcEndpoint, getIpcSpoolDir, hashAuthorization } from './ipc-protocol'
+
+/** 导出所有类型定义 */
+export * from './types'
@@ -0,0 +1,194 @@
+import * as os from 'os'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { CONFIG_CONSTANTS } from '../shared/types'
+import { IPC_PROTOCOL_VERSION, IpcAck, IpcMessageType, IpcValidationResult } from './types'
+
+/**
+ * 各消息类型的内容校验函数，返回错误说明，校验通过时返回null
+ */
+const PAYLOAD_VALIDATORS: { [T in IpcMessageType]: (payload: Record<string, unknown>) => string | null } = {
+  AUTHORIZATION_UPDATE: payload =>
+    requireString(payload, 'emailAddress')
+      || (payload.authorization === undefined ? requireString(payload, 'authorizationHash') : requireString(payload, 'authorization')),
+  ACCOUNT_DISCOVERED: payload => {
+    if (!isObject(payload.account)) {
+      return 'account must be an object'
+    }
+    const account = payload.account
+    return requireString(account, 'emailAddress', 'account.')
+      || ['accountUuid', 'organizationUuid', 'organizationRole', 'organizationName']
+        .map(field => optionalString(account, field, 'account.'))
+        .find(Boolean)
+      || optionalString(account, 'authorization', 'account.')
+  },
+  TOKEN_EXPIRED: payload =>
+    requireString(payload, 'emailAddress') || requireString(payload, 'authorizationHash'),
+  INTERCEPTOR_STARTED: payload =>
+    requireString(payload, 'nodeVersion')
+      || optionalString(payload, 'boundAccount')
+      || optionalString(payload, 'accountLabel'),
+  INTERCEPTOR_ERROR: payload =>
+    requireString(payload, 'context') || requireString(payload, 'message'),
+  REQUEST_COMPLETED: payload => {
+    const error = ['requestId', 'method', 'path'].map(field => requireString(payload, field)).find(Boolean)
+      || ['host', 'model', 'requestedModel', 'errorType', 'error', 'cwd'].map(field => optionalString(payload, field)).find(Boolean)
+      || ['startedAt', 'durationMs'].map(field => requireNumber(payload, field)).find(Boolean)
+      || ['status', 'latencyMs'].map(field => optionalNumber(payload, field)).find(Boolean)
+    if (error) {
+      return error
+    }
+    if (payload.usage !== undefined) {
+      if (!isObject(payload.usage)) {
+        return 'usage must be an object'
+      }
+      const usage = payload.usage
+      const usageError = ['inputTokens', 'outputTokens', 'cacheCreationInputTokens', 'cacheReadInputTokens']
+        .map(field => requireNumber(usage, field, 'usage.'))
+        .find(Boolean)
+      if (usageError) {
+        return usageError
+      }
+    }
+    if (payload.account !== undefined) {
+      if (!isObject(payload.account)) {
+        return 'account must be an object'
+      }
+      return requireString(payload.account, 'label', 'account.') || optionalString(payload.account, 'compositeId', 'account.')
+    }
+    return null
+  },
+  ACCOUNT_FAILOVER: payload =>
+    ['group', 'from', 'fromLabel', 'to', 'toLabel'].map(field => requireString(payload, field)).find(Boolean)
+      || requireNumber(payload, 'status')
+      || requireNumber(payload, 'cooldownUntil'),
+  SECRET_REQUEST: payload =>
+    requireString(payload, 'grant') || requireStringArray(payload, 'references'),
+  KEY_SELECT: payload =>
+    requireString(payload, 'providerId') || requireStringArray(payload, 'exclude')
+}
+
+/**
+ * 校验收到的消息
+ * 未带版本号的旧版消息（字段直接位于顶层）按版本0升级为当前格式
+ * @param raw - 解析后的JSON
+ */
+export function validateIpcMessage(raw: unknown): IpcValidationResult {
+  if (!isObject(raw)) {
+    return { valid: false, error: 'Message must be a JSON object' }
+  }
+
+  const message = raw.v === undefined ? upgradeLegacyMessage(raw) : raw
+  if (typeof message.v !== 'number' || !Number.isInteger(message.v) || message.v < 0) {
+    return { valid: false, error: 'Invalid protocol version' }
+  }
+  if (message.v > IPC_PROTOCOL_VERSION) {
+    return { valid: false, error: `Unsupported protocol version ${message.v} (supported: ${IPC_PROTOCOL_VERSION})` }
+  }
+  if (typeof message.id !== 'string' || !message.id) {
+    return { valid: false, error: 'Missing message id' }
+  }
+  if (typeof message.type !== 'string' || !(message.type in PAYLOAD_VALIDATORS)) {
+    return { valid: false, error: `Unknown message type ${String(message.type)}` }
+  }
+  if (typeof message.timestamp !== 'number') {
+    return { valid: false, error: 'Missing timestamp' }
+  }
+  if (!isObject(message.payload)) {
+    return { valid: false, error: 'Payload must be an object' }
+  }
+
+  const payloadError = PAYLOAD_VALIDATORS[message.type as IpcMessageType](message.payload)
+  if (payloadError) {
+    return { valid: false, error: `Invalid ${message.type} payload: ${payloadError}` }
+  }
+
+  return {
+    valid: true,
+    message: {
+      v: message.v,
+      id: message.id,
+      type: message.type as IpcMessageType,
+      pid: typeof message.pid === 'number' ? message.pid : 0,
+      timestamp: message.timestamp,
+      payload: message.payload as any
+    }
+  }
+}
+
+/**
+ * 生成确认消息（一行JSON）
+ * @param data - 处理结果（可选），请求类消息的回复内容
+ */
+export function formatIpcAck(id: string, ok: boolean, error?: string, retryable?: boolean, data?: unknown): string {
+  const ack: IpcAck = { v: IPC_PROTOCOL_VERSION, type: 'ACK', id, ok, error, retryable, data }
+  return `${JSON.stringify(ack)}\n`
+}
+
+/**
+ * 获取当前扩展进程的IPC端点
+ * Windows使用命名管道，其他平台使用临时目录下的Unix域套接字，
+ * 端点名包含扩展宿主进程ID，多个VSCode窗口互不干扰
+ */
+export function getIpcEndpoint(pid: number = process.pid): string {
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\cc-copilot-${pid}`
+    : path.join(os.tmpdir(), `cc-copilot-${pid}.sock`)
+}
+
+/**
+ * 获取消息文件队列目录
+ * 拦截器无法连接扩展时将消息写入此目录，扩展启动时重放
+ */
+export function getIpcSpoolDir(): string {
+  return path.join(os.homedir(), CONFIG_CONSTANTS.IPC_SPOOL_DIR)
+}
+
+/**
+ * 计算授权令牌的指纹
+ * 令牌过期通知和文件队列中的令牌更新只携带指纹，扩展据此判断涉及的是否为当前保存的令牌
+ */
+export function hashAuthorization(authorization: string): string {
+  return createHash('sha256').update(authorization).digest('hex')
+}
+
+/**
+ * 将旧版消息升级为版本0格式
+ * 旧版拦截器直接在顶层写入type、timestamp和消息字段
+ */
+function upgradeLegacyMessage(raw: Record<string, unknown>): Record<string, unknown> {
+  const { type, timestamp, ...payload } = raw
+  return {
+    v: 0,
+    id: `legacy-${String(type)}-${String(timestamp)}`,
+    type,
+    pid: 0,
+    timestamp,
+    payload
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function requireString(object: Record<string, unknown>, field: string, prefix: string = ''): string | null {
+  return typeof object[field] === 'string' && object[field] ? null : `${prefix}${field} must be a non-empty string`
+}
+
+function requireNumber(object: Record<string, unknown>, field: string, prefix: string = ''): string | null {
+  return typeof object[field] === 'number' && Number.isFinite(object[field]) ? null : `${prefix}${field} must be a number`
+}
+
+function optionalNumber(object: Record<string, unknown>, field: string, prefix: string = ''): string | null {
+  return object[field] === undefined || object[field] === null ? null : requireNumber(object, field, prefix)
+}
+
+function requireStringArray(object: Record<string, unknown>, field: string, prefix: string = ''): string | null {
+  const value = object[field]
+  return Array.isArray(value) && value.every(item => typeof item === 'string') ? null : `${prefix}${field} must be an array of strings`
+}
+
+function optionalString(object: Record<string, unknown>, field: string, prefix: string = ''): string | null {
+  return object[field] === undefined || object[field] === null || typeof object[field] === 'string' ? null : `${prefix}${field} must be a string`
+}
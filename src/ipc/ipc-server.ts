@@ -0,0 +1,359 @@
+import * as vscode from 'vscode'
+import { EventEmitter } from 'events'
+import * as fs from 'fs'
+import * as net from 'net'
+import * as path from 'path'
+import * as readline from 'readline'
+import { logger } from '../logger'
+import { formatIpcAck, getIpcEndpoint, getIpcSpoolDir, validateIpcMessage } from './ipc-protocol'
+import { IpcMessage, IpcMessageHandler, IpcMessageType } from './types'
+
+/** 记录已处理消息ID的数量上限，用于去重 */
+const PROCESSED_ID_LIMIT = 500
+/** 正在处理的队列文件后缀 */
+const PROCESSING_SUFFIX = '.processing'
+/** 校验失败的队列文件后缀 */
+const INVALID_SUFFIX = '.invalid'
+/** 校验失败的队列文件保留时间（毫秒），超过后在启动时删除 */
+const INVALID_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * 消息处理结果
+ */
+interface DispatchResult {
+  ok: boolean
+  error?: string
+  retryable?: boolean
+  data?: unknown
+}
+
+/**
+ * 拦截器IPC服务
+ * 在本地套接字（Windows为命名管道）上接收拦截器的消息，逐条校验、分发并回复确认。
+ * 拦截器无法连接时消息写入文件队列，服务启动时重放队列中的消息，运行期间监听新文件。
+ * 多个窗口共享文件队列，处理前通过重命名认领文件，避免重复处理。
+ * 每条消息处理成功后触发 'message' 事件
+ */
+export class IpcServer extends EventEmitter implements vscode.Disposable {
+  /** 套接字服务 */
+  private server: net.Server | undefined
+  /** 文件队列监听器 */
+  private spoolWatcher: fs.FSWatcher | undefined
+  /** 已建立的连接 */
+  private sockets = new Set<net.Socket>()
+  /** 消息处理函数 */
+  private handlers = new Map<IpcMessageType, IpcMessageHandler<any>>()
+  /** 最近处理过的消息ID */
+  private processedIds = new Set<string>()
+  /** 处理失败、等待下次启动重放的队列文件 */
+  private failedFiles = new Set<string>()
+  /** 是否正在监听套接字 */
+  private listening = false
+  /** 套接字端点 */
+  private readonly endpoint = getIpcEndpoint()
+  /** 文件队列目录 */
+  private readonly spoolDir = getIpcSpoolDir()
+
+  /**
+   * 注册消息处理函数，每种消息类型只有一个处理函数
+   * @param type - 消息类型
+   * @param handler - 处理函数，抛出异常表示处理失败
+   */
+  registerHandler<T extends IpcMessageType>(type: T, handler: IpcMessageHandler<T>): vscode.Disposable {
+    this.handlers.set(type, handler)
+    return { dispose: () => this.handlers.delete(type) }
+  }
+
+  /**
+   * 启动服务
+   * 应在注册处理函数之后调用，以便重放的消息能够被处理
+   */
+  async start(): Promise<void> {
+    try {
+      await this.listen()
+      this.listening = true
+      logger.info(`IPC server listening on ${this.endpoint}`, 'IpcServer')
+    } catch (error) {
+      logger.warn('Failed to start IPC server, falling back to the message spool', 'IpcServer', error as Error)
+    }
+
+    try {
+      // 队列中的消息可能包含账号信息，目录仅当前用户可访问（同时收紧旧版本以默认权限创建的目录）
+      fs.mkdirSync(this.spoolDir, { recursive: true, mode: 0o700 })
+      fs.chmodSync(this.spoolDir, 0o700)
+      this.removeExpiredInvalidFiles()
+      await this.replaySpool()
+      this.watchSpool()
+    } catch (error) {
+      logger.warn('Failed to set up the IPC message spool', 'IpcServer', error as Error)
+    }
+  }
+
+  /**
+   * 获取拦截器连接的端点，套接字未启动时返回undefined
+   */
+  getEndpoint(): string | undefined {
+    return this.listening ? this.endpoint : undefined
+  }
+
+  /**
+   * 获取文件队列目录
+   */
+  getSpoolDir(): string {
+    return this.spoolDir
+  }
+
+  /**
+   * 获取文件队列中尚未处理的文件（含处理失败和校验失败的文件）
+   */
+  getSpoolFiles(): string[] {
+    try {
+      return fs.readdirSync(this.spoolDir).filter(fileName => !fileName.endsWith('.tmp')).sort()
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * 在端点上监听连接
+   * Unix域套接字文件以本进程ID命名，已存在时必然是之前崩溃残留的
+   */
+  private listen(): Promise<void> {
+    if (process.platform !== 'win32' && fs.existsSync(this.endpoint)) {
+      fs.unlinkSync(this.endpoint)
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = net.createServer(socket => this.handleConnection(socket))
+      server.once('error', reject)
+      server.listen(this.endpoint, () => {
+        server.off('error', reject)
+        server.on('error', error => logger.warn('IPC server error', 'IpcServer', error))
+        this.server = server
+        resolve()
+      })
+    })
+  }
+
+  /**
+   * 处理拦截器连接
+   * 每行一条JSON消息，处理完成后在同一连接上回复确认
+   */
+  private handleConnection(socket: net.Socket): void {
+    this.sockets.add(socket)
+    socket.on('close', () => this.sockets.delete(socket))
+    socket.on('error', error => logger.debug(`IPC connection error: ${error.message}`, 'IpcServer'))
+
+    const lines = readline.createInterface({ input: socket, crlfDelay: Infinity })
+    // 连接异常断开时readline会转发套接字错误，套接字上已记录
+    lines.on('error', () => undefined)
+    lines.on('line', async line => {
+      if (!line.trim()) {
+        return
+      }
+
+      let raw: any
+      try {
+        raw = JSON.parse(line)
+      } catch {
+        logger.warn('Received malformed IPC message', 'IpcServer')
+        return
+      }
+
+      const result = await this.processRaw(raw)
+      if (!socket.destroyed && typeof raw?.id === 'string') {
+        socket.write(formatIpcAck(raw.id, result.ok, result.error, result.retryable, result.data))
+      }
+    })
+  }
+
+  /**
+   * 校验并分发一条消息
+   */
+  private async processRaw(raw: unknown): Promise<DispatchResult> {
+    const validation = validateIpcMessage(raw)
+    if (!validation.valid) {
+      logger.warn(`Rejected IPC message: ${validation.error}`, 'IpcServer')
+      return { ok: false, error: validation.error, retryable: false }
+    }
+    return this.dispatch(validation.message)
+  }
+
+  /**
+   * 将消息交给对应的处理函数
+   * 同一消息可能先通过套接字送达、又因确认超时写入队列，按ID去重
+   */
+  private async dispatch(message: IpcMessage): Promise<DispatchResult> {
+    if (this.processedIds.has(message.id)) {
+      logger.debug(`Skipped duplicate IPC message ${message.id}`, 'IpcServer')
+      return { ok: true }
+    }
+
+    let data: unknown
+    try {
+      data = await this.handlers.get(message.type)?.(message)
+    } catch (error) {
+      logger.error(`Failed to handle IPC message ${message.type}`, 'IpcServer', error as Error)
+      return { ok: false, error: (error as Error).message, retryable: true }
+    }
+
+    this.processedIds.add(message.id)
+    if (this.processedIds.size > PROCESSED_ID_LIMIT) {
+      this.processedIds.delete(this.processedIds.values().next().value as string)
+    }
+
+    logger.debug(`Handled IPC message ${message.type} from pid ${message.pid}`, 'IpcServer')
+    this.emit('message', message)
+    return { ok: true, data }
+  }
+
+  /**
+   * 按文件名顺序（即写入时间）重放队列中的消息
+   * 认领进程已退出的处理中文件也会被重新处理
+   */
+  private async replaySpool(): Promise<void> {
+    const pending = fs.readdirSync(this.spoolDir)
+      .map(fileName => this.getPendingFileName(fileName))
+      .filter((fileName): fileName is string => !!fileName)
+      .sort()
+
+    if (pending.length > 0) {
+      logger.info(`Replaying ${pending.length} spooled IPC message(s)`, 'IpcServer')
+    }
+    for (const fileName of pending) {
+      await this.processSpoolFile(fileName)
+    }
+  }
+
+  /**
+   * 删除超过保留时间的校验失败文件
+   */
+  private removeExpiredInvalidFiles(): void {
+    const expiredBefore = Date.now() - INVALID_RETENTION_MS
+    for (const fileName of fs.readdirSync(this.spoolDir)) {
+      if (!fileName.endsWith(INVALID_SUFFIX)) {
+        continue
+      }
+      const filePath = path.join(this.spoolDir, fileName)
+      try {
+        if (fs.statSync(filePath).mtimeMs < expiredBefore) {
+          fs.unlinkSync(filePath)
+          logger.debug(`Removed expired IPC spool file ${fileName}`, 'IpcServer')
+        }
+      } catch (error) {
+        logger.warn(`Failed to remove expired IPC spool file ${fileName}`, 'IpcServer', error as Error)
+      }
+    }
+  }
+
+  /**
+   * 监听队列目录中新写入的消息文件
+   */
+  private watchSpool(): void {
+    this.spoolWatcher = fs.watch(this.spoolDir, (eventType, fileName) => {
+      if (fileName && eventType === 'rename' && fileName.endsWith('.json') && !this.failedFiles.has(fileName)) {
+        this.processSpoolFile(fileName)
+      }
+    })
+    this.spoolWatcher.on('error', error => logger.warn('IPC spool watcher error', 'IpcServer', error))
+  }
+
+  /**
+   * 获取需要重放的文件对应的消息文件名
+   * @returns 待处理的 .json 文件，或认领进程已退出的处理中文件，其他文件返回null
+   */
+  private getPendingFileName(fileName: string): string | null {
+    if (fileName.endsWith('.json')) {
+      return fileName
+    }
+
+    const match = fileName.match(/^(.+\.json)\.(\d+)\.processing$/)
+    if (match && !this.isProcessAlive(Number(match[2]))) {
+      try {
+        fs.renameSync(path.join(this.spoolDir, fileName), path.join(this.spoolDir, match[1]))
+        return match[1]
+      } catch {
+        return null
+      }
+    }
+    return null
+  }
+
+  /**
+   * 处理一个队列文件
+   * 成功后删除文件，校验失败的文件改名保留以便排查（保留7天），处理失败的文件恢复原名等待下次启动重放
+   */
+  private async processSpoolFile(fileName: string): Promise<void> {
+    const filePath = path.join(this.spoolDir, fileName)
+    const claimedPath = `${filePath}.${process.pid}${PROCESSING_SUFFIX}`
+
+    // 通过重命名认领文件，失败说明文件已被其他窗口认领或删除
+    try {
+      fs.renameSync(filePath, claimedPath)
+    } catch {
+      return
+    }
+
+    let raw: unknown
+    try {
+      raw = JSON.parse(fs.readFileSync(claimedPath, 'utf-8'))
+    } catch (error) {
+      logger.warn(`Malformed IPC spool file ${fileName}`, 'IpcServer', error as Error)
+      this.moveSpoolFile(claimedPath, `${filePath}${INVALID_SUFFIX}`)
+      return
+    }
+
+    const result = await this.processRaw(raw)
+    if (result.ok) {
+      this.moveSpoolFile(claimedPath)
+    } else if (result.retryable) {
+      this.failedFiles.add(fileName)
+      this.moveSpoolFile(claimedPath, filePath)
+    } else {
+      this.moveSpoolFile(claimedPath, `${filePath}${INVALID_SUFFIX}`)
+    }
+  }
+
+  /**
+   * 移动或删除队列文件
+   * @param target - 目标路径，省略时删除文件
+   */
+  private moveSpoolFile(filePath: string, target?: string): void {
+    try {
+      if (target) {
+        fs.renameSync(filePath, target)
+      } else {
+        fs.unlinkSync(filePath)
+      }
+    } catch (error) {
+      logger.warn(`Failed to update IPC spool file ${path.basename(filePath)}`, 'IpcServer', error as Error)
+    }
+  }
+
+  /**
+   * 判断进程是否仍在运行
+   */
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0)
+      return true
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM'
+    }
+  }
+
+  /**
+   * 关闭套接字和文件队列监听
+   */
+  dispose(): void {
+    this.spoolWatcher?.close()
+    this.spoolWatcher = undefined
+    this.sockets.forEach(socket => socket.destroy())
+    this.sockets.clear()
+    this.server?.close()
+    this.server = undefined
+    this.listening = false
+    this.handlers.clear()
+    this.removeAllListeners()
+  }
+}
@@ -0,0 +1,237 @@
+import { ClaudeAccountConfig, TokenUsage } from '../shared/types'
+
+/** 当前IPC协议版本，拦截器和扩展版本不一致时按版本号拒绝无法识别的消息 */
+export const IPC_PROTOCOL_VERSION = 1
+
+/**
+ * 授权令牌更新
+ * 拦截器捕获到Claude官方账号的新授权令牌；写入文件队列的消息只携带令牌指纹
+ */
+export interface AuthorizationUpdatePayload {
+  /** 账号邮箱 */
+  emailAddress: string
+  /** 授权令牌（Authorization请求头），通过套接字送达时携带 */
+  authorization?: string
+  /** 授权令牌的SHA-256指纹，从文件队列重放时代替令牌 */
+  authorizationHash?: string
+}
+
+/**
+ * 发现账号
+ * 拦截器从Claude CLI配置中读取到当前登录的账号；写入文件队列的消息不含授权令牌
+ */
+export interface AccountDiscoveredPayload {
+  /** 账号信息 */
+  account: ClaudeAccountConfig
+}
+
+/**
+ * 令牌过期
+ * 拦截器验证授权令牌失败
+ */
+export interface TokenExpiredPayload {
+  /** 账号邮箱 */
+  emailAddress: string
+  /** 过期令牌的SHA-256指纹，不传递令牌本身 */
+  authorizationHash: string
+}
+
+/**
+ * 拦截器启动
+ */
+export interface InterceptorStartedPayload {
+  /** 终端绑定的账号复合ID（可选） */
+  boundAccount?: string
+  /** 当前使用的账号名称（可选） */
+  accountLabel?: string
+  /** Node.js版本 */
+  nodeVersion: string
+}
+
+/**
+ * 拦截器错误
+ * 拦截器内部出错但CLI仍在运行，用于在扩展日志中排查
+ */
+export interface InterceptorErrorPayload {
+  /** 出错的位置 */
+  context: string
+  /** 错误信息 */
+  message: string
+}
+
+/**
+ * 请求完成
+ * 拦截器为每个拦截到的API请求发送一次，不保证送达
+ */
+export interface RequestCompletedPayload {
+  /** 请求ID */
+  requestId: string
+  /** 开始时间（毫秒时间戳） */
+  startedAt: number
+  /** 请求方法 */
+  method: string
+  /** 目标主机 */
+  host: string
+  /** 请求路径 */
+  path: string
+  /** 模型（可选），优先使用响应中的模型 */
+  model?: string
+  /** CLI请求的模型（可选），按提供商的模型映射改写了模型名称时记录 */
+  requestedModel?: string
+  /** HTTP状态码，未收到响应时为空 */
+  status?: number
+  /** 收到响应头的耗时（毫秒） */
+  latencyMs?: number
+  /** 请求总耗时（毫秒），流式响应包含读取完整响应的时间 */
+  durationMs: number
+  /** 是否为流式响应 */
+  stream?: boolean
+  /** 令牌用量（可选） */
+  usage?: Omit<TokenUsage, 'requests'>
+  /** 使用的账号，未配置账号时为空 */
+  account?: {
+    /** 复合ID（providerId:accountId），使用CLI自身登录的账号时为空 */
+    compositeId?: string
+    /** 显示名称 */
+    label: string
+  }
+  /** API返回的错误类型（可选） */
+  errorType?: string
+  /** 错误信息（可选），包括网络错误和API错误 */
+  error?: string
+  /** CLI进程的工作目录 */
+  cwd?: string
+}
+
+/**
+ * 账号故障转移
+ * 拦截器在账号返回限流、认证失败或过载时改用故障转移组中的下一个账号
+ */
+export interface AccountFailoverPayload {
+  /** 故障转移组名称 */
+  group: string
+  /** 出错的账号复合ID */
+  from: string
+  /** 出错账号的显示名称 */
+  fromLabel: string
+  /** 接替的账号复合ID */
+  to: string
+  /** 接替账号的显示名称 */
+  toLabel: string
+  /** 触发故障转移的HTTP状态码 */
+  status: number
+  /** 出错账号的冷却结束时间（毫秒时间戳） */
+  cooldownUntil: number
+}
+
+/**
+ * 密钥请求
+ * 拦截器凭终端的密钥授权向扩展请求设置中密钥引用对应的明文，确认消息的data为 SecretResponse。
+ * 请求只通过套接字发送，不写入文件队列
+ */
+export interface SecretRequestPayload {
+  /** 启动终端时生成的密钥授权 */
+  grant: string
+  /** 需要的密钥引用 */
+  references: string[]
+}
+
+/**
+ * 密钥请求的回复
+ */
+export interface SecretResponse {
+  /** 密钥引用到明文的对应关系，只包含授权范围内的引用 */
+  secrets: Record<string, string>
+}
+
+/**
+ * 密钥选择请求
+ * 拦截器请求扩展按提供商的密钥选择策略选择密钥，与网关和其他CLI进程共用选择状态，确认消息的data为 KeySelectResponse。
+ * 请求只通过套接字发送，不写入文件队列
+ */
+export interface KeySelectPayload {
+  /** 提供商ID */
+  providerId: string
+  /** 不参与选择的密钥复合ID（拦截器中冷却中或没有密钥的账号） */
+  exclude: string[]
+}
+
+/**
+ * 密钥选择请求的回复
+ */
+export interface KeySelectResponse {
+  /** 选中的密钥复合ID，没有可用密钥时为空 */
+  compositeId?: string
+}
+
+/**
+ * 消息类型与消息内容的对应关系
+ */
+export interface IpcPayloadMap {
+  AUTHORIZATION_UPDATE: AuthorizationUpdatePayload
+  ACCOUNT_DISCOVERED: AccountDiscoveredPayload
+  TOKEN_EXPIRED: TokenExpiredPayload
+  INTERCEPTOR_STARTED: InterceptorStartedPayload
+  INTERCEPTOR_ERROR: InterceptorErrorPayload
+  REQUEST_COMPLETED: RequestCompletedPayload
+  ACCOUNT_FAILOVER: AccountFailoverPayload
+  SECRET_REQUEST: SecretRequestPayload
+  KEY_SELECT: KeySelectPayload
+}
+
+/** 消息类型 */
+export type IpcMessageType = keyof IpcPayloadMap
+
+/**
+ * IPC消息
+ * 拦截器发送的每条消息都带有协议版本、唯一ID和发送进程信息
+ */
+export interface IpcMessage<T extends IpcMessageType = IpcMessageType> {
+  /** 协议版本 */
+  v: number
+  /** 消息ID，用于确认和去重 */
+  id: string
+  /** 消息类型 */
+  type: T
+  /** 发送消息的CLI进程ID */
+  pid: number
+  /** 发送时间（毫秒时间戳） */
+  timestamp: number
+  /** 消息内容 */
+  payload: IpcPayloadMap[T]
+}
+
+/**
+ * 确认消息
+ * 扩展处理完消息后通过同一连接回复，拦截器收到确认前保留消息，
+ * 连接失败、超时或可重试的失败时写入文件队列，由扩展下次启动时重放
+ */
+export interface IpcAck {
+  /** 协议版本 */
+  v: number
+  /** 固定为ACK */
+  type: 'ACK'
+  /** 被确认的消息ID */
+  id: string
+  /** 是否处理成功 */
+  ok: boolean
+  /** 失败原因（可选） */
+  error?: string
+  /** 失败后是否可以重试，校验失败的消息不再重试 */
+  retryable?: boolean
+  /** 处理结果（可选），请求类消息的回复内容 */
+  data?: unknown
+}
+
+/**
+ * 消息处理函数
+ * 抛出异常表示处理失败，拦截器会保留消息等待重放；返回值作为确认消息的data回复给拦截器
+ */
+export type IpcMessageHandler<T extends IpcMessageType> = (message: IpcMessage<T>) => Promise<unknown> | unknown
+
+/**
+ * 消息校验结果
+ */
+export type IpcValidationResult =
+  | { valid: true, message: IpcMessage }
+  | { valid: false, error: string }
@@ -0,0 +1,187 @@
+import * as dns from 'dns'
+import * as http from 'http'
+import * as net from 'net'
+import * as tls from 'tls'
+import { ResolvedProxy } from '../shared/types'
+import { logger } from '../logger'
+import { getProxyForUrl, isSocksProxy, maskProxyUrl } from './no-proxy'
+import { getProxyAuthorizationHeader, openProxyTunnel } from './proxy-tunnel'
+import { ConnectionTestOptions, ConnectionTestResult, ConnectionTestStep, ConnectionTestStepName } from './types'
+
+/** 每个步骤的默认超时时间（毫秒） */
+const DEFAULT_STEP_TIMEOUT_MS = 10000
+
+/**
+ * 连接测试服务
+ * 按 DNS、TCP、TLS、HTTP 的顺序检查提供商基础URL的可达性，四个步骤共用同一条连接，
+ * 使用代理时 DNS 解析代理主机，TCP 步骤包括代理的 CONNECT 或 SOCKS5 握手。
+ * 只检查网络可达性：收到任何HTTP响应（包括 401、404）都视为成功
+ */
+export class ConnectionTester {
+  /**
+   * 测试连接
+   * @param baseUrl - 要测试的地址
+   * @param proxy - 使用的代理（可选），目标在 NO_PROXY 列表中时直连
+   * @param options - 超时和取消选项
+   * @returns 测试结果，不会抛出异常
+   */
+  async test(baseUrl: string, proxy?: ResolvedProxy, options: ConnectionTestOptions = {}): Promise<ConnectionTestResult> {
+    const steps: ConnectionTestStep[] = []
+    let url: URL
+    try {
+      url = new URL(baseUrl)
+    } catch {
+      return { url: baseUrl, ok: false, steps: [{ name: 'DNS', ok: false, durationMs: 0, detail: `Invalid URL: ${baseUrl}` }] }
+    }
+
+    const effectiveProxy = getProxyForUrl(url, proxy)
+    const proxyUrl = effectiveProxy ? new URL(effectiveProxy.url) : undefined
+    const result: ConnectionTestResult = { url: url.toString(), proxy: effectiveProxy && maskProxyUrl(effectiveProxy.url), ok: false, steps }
+    const isHttps = url.protocol === 'https:'
+    const port = Number(url.port) || (isHttps ? 443 : 80)
+    // HTTP目标通过HTTP代理访问时直接向代理发送完整URL，与网关的转发方式一致
+    const forwardToProxy = !!proxyUrl && !isHttps && !isSocksProxy(proxyUrl.href)
+    const timeoutMs = options.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS
+    // 测试结束时中止超时后仍在进行的连接
+    const abortController = new AbortController()
+    const onCancel = () => abortController.abort()
+    options.signal?.addEventListener('abort', onCancel)
+    let socket: net.Socket | undefined
+
+    const run = async <T>(name: ConnectionTestStepName, action: () => Promise<{ value: T, detail: string }>): Promise<T | undefined> => {
+      const startedAt = Date.now()
+      try {
+        const { value, detail } = await this.withTimeout(action(), timeoutMs, options.signal)
+        steps.push({ name, ok: true, durationMs: Date.now() - startedAt, detail })
+        return value
+      } catch (error) {
+        socket?.destroy()
+        steps.push({ name, ok: false, durationMs: Date.now() - startedAt, detail: (error as Error).message })
+        return undefined
+      }
+    }
+
+    try {
+      const lookupHost = proxyUrl ? proxyUrl.hostname : url.hostname
+      const address = await run('DNS', async () => {
+        const { address } = await dns.promises.lookup(lookupHost.replace(/^\[|\]$/g, ''))
+        return { value: address, detail: `${lookupHost} resolved to ${address}${proxyUrl ? ' (proxy host)' : ''}` }
+      })
+      if (!address) {
+        return result
+      }
+
+      socket = await run('TCP', async () => {
+        if (proxyUrl && !forwardToProxy) {
+          const tunnel = await openProxyTunnel(proxyUrl, url.hostname, port, abortController.signal)
+          return { value: tunnel, detail: `Tunnel to ${url.host} opened through ${maskProxyUrl(proxyUrl.href)}` }
+        }
+        const connectPort = proxyUrl ? Number(proxyUrl.port) || (proxyUrl.protocol === 'https:' ? 443 : 80) : port
+        const connected = await this.connect(address, connectPort, abortController.signal)
+        return { value: connected, detail: `Connected to ${address}:${connectPort}${proxyUrl ? ' (proxy)' : ''}` }
+      })
+      if (!socket) {
+        return result
+      }
+
+      if (isHttps || (forwardToProxy && proxyUrl?.protocol === 'https:')) {
+        const servername = isHttps ? url.hostname : proxyUrl!.hostname
+        socket = await run('TLS', async () => {
+          const secureSocket = await this.startTls(socket!, servername)
+          const certificate = secureSocket.getPeerCertificate()
+          const subject = certificate?.subject?.CN || servername
+          return { value: secureSocket, detail: `${secureSocket.getProtocol()} with ${subject}, certificate valid until ${certificate?.valid_to || 'unknown'}` }
+        })
+        if (!socket) {
+          return result
+        }
+      } else {
+        steps.push({ name: 'TLS', ok: true, durationMs: 0, detail: 'Skipped (plain HTTP)' })
+      }
+
+      const connection = socket
+      const status = await run('HTTP', async () => {
+        const response = await this.sendRequest(connection, url, forwardToProxy ? proxyUrl : undefined)
+        return { value: response.statusCode, detail: `HTTP ${response.statusCode} ${response.statusMessage || ''}`.trim() }
+      })
+      result.httpStatus = status
+      result.ok = status !== undefined
+      return result
+    } finally {
+      socket?.destroy()
+      abortController.abort()
+      options.signal?.removeEventListener('abort', onCancel)
+      logger.info(`Connection test for ${result.url}${result.proxy ? ` via ${result.proxy}` : ''}: ${result.ok ? 'ok' : 'failed'}`, 'ConnectionTester')
+    }
+  }
+
+  /**
+   * 建立TCP连接
+   */
+  private connect(address: string, port: number, signal: AbortSignal): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(port, address)
+      signal.addEventListener('abort', () => socket.destroy(), { once: true })
+      socket.once('connect', () => {
+        socket.off('error', reject)
+        resolve(socket)
+      })
+      socket.once('error', reject)
+    })
+  }
+
+  /**
+   * 在已建立的连接上完成TLS握手
+   */
+  private startTls(socket: net.Socket, servername: string): Promise<tls.TLSSocket> {
+    return new Promise((resolve, reject) => {
+      const secureSocket = tls.connect({ socket, servername: net.isIP(servername) ? undefined : servername })
+      secureSocket.once('secureConnect', () => {
+        secureSocket.off('error', reject)
+        resolve(secureSocket)
+      })
+      secureSocket.once('error', reject)
+    })
+  }
+
+  /**
+   * 在已建立的连接上发送GET请求，收到响应头后返回
+   * @param proxy - 直接向HTTP代理发送完整URL时的代理地址（可选）
+   */
+  private sendRequest(socket: net.Socket, url: URL, proxy?: URL): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+      const request = http.request({
+        method: 'GET',
+        path: proxy ? url.toString() : url.pathname + url.search,
+        headers: { host: url.host, ...(proxy ? getProxyAuthorizationHeader(proxy) : {}) },
+        createConnection: () => socket
+      }, response => {
+        response.resume()
+        resolve(response)
+      })
+      request.once('error', reject)
+      request.end()
+    })
+  }
+
+  /**
+   * 为步骤加上超时和取消
+   */
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Cancelled'))
+        return
+      }
+      const onAbort = () => finish(() => reject(new Error('Cancelled')))
+      const timer = setTimeout(() => finish(() => reject(new Error(`Timed out after ${timeoutMs}ms`))), timeoutMs)
+      const finish = (settle: () => void) => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        settle()
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      promise.then(value => finish(() => resolve(value)), error => finish(() => reject(error)))
+    })
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * 代理模块导出
+ * 代理隧道（HTTP CONNECT 和 SOCKS5）、NO_PROXY 匹配和提供商连接测试
+ */
+
+/** 代理隧道 - 通过 http/https/socks5 代理连接目标主机 */
+export { openProxyTunnel, getProxyAuthorizationHeader } from './proxy-tunnel'
+
+/** NO_PROXY 匹配 - 判断目标是否绕过代理，以及代理类型和显示 */
+export { shouldBypassProxy, isSocksProxy, getProxyForUrl, maskProxyUrl } from './no-proxy'
+
+/** 连接测试 - 检查提供商地址的 DNS、TCP、TLS 和 HTTP 可达性 */
+export { ConnectionTester } from './connection-tester'
+
+/** 导出所有类型定义 */
+export * from './types'
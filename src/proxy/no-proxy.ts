@@ -0,0 +1,59 @@
+import { ResolvedProxy } from '../shared/types'
+
+/**
+ * 判断目标主机是否在 NO_PROXY 列表中
+ * 规则与常见的 NO_PROXY 约定一致：* 匹配所有主机；以 . 或 *. 开头的条目匹配该域名及其子域名；
+ * 其他条目匹配相同主机及其子域名；条目带端口时端口也必须相同
+ * @param host - 目标主机名
+ * @param port - 目标端口
+ * @param noProxy - 不使用代理的主机列表
+ */
+export function shouldBypassProxy(host: string, port: number, noProxy: string[]): boolean {
+  const hostname = host.toLowerCase().replace(/^\[|\]$/g, '')
+  return noProxy.some(entry => {
+    const rule = entry.trim().toLowerCase()
+    if (!rule) {
+      return false
+    }
+    if (rule === '*') {
+      return true
+    }
+
+    // 不带方括号的IPv6地址无法区分端口，整体作为主机名比较
+    const match = rule.match(/^(\[[^\]]+\]|[^:]+)(?::(\d+))?$/)
+    const ruleHost = match ? match[1] : rule
+    const rulePort = match?.[2]
+    if (rulePort && Number(rulePort) !== port) {
+      return false
+    }
+    const domain = ruleHost.replace(/^\[|\]$/g, '').replace(/^\*?\./, '')
+    return hostname === domain || hostname.endsWith(`.${domain}`)
+  })
+}
+
+/**
+ * 判断代理是否为 SOCKS 代理
+ */
+export function isSocksProxy(proxyUrl: string): boolean {
+  return /^socks5h?:/i.test(proxyUrl)
+}
+
+/**
+ * 获取访问目标地址时实际使用的代理，目标在 NO_PROXY 列表中时返回undefined
+ * @param url - 目标地址
+ * @param proxy - 解析后的代理（可选）
+ */
+export function getProxyForUrl(url: URL, proxy: ResolvedProxy | undefined): ResolvedProxy | undefined {
+  if (!proxy) {
+    return undefined
+  }
+  const port = Number(url.port) || (url.protocol === 'https:' ? 443 : 80)
+  return shouldBypassProxy(url.hostname, port, proxy.noProxy) ? undefined : proxy
+}
+
+/**
+ * 隐藏代理URL中的认证信息，用于日志和界面显示
+ */
+export function maskProxyUrl(proxyUrl: string): string {
+  return proxyUrl.replace(/\/\/.*@/, '//***@')
+}
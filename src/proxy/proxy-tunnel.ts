@@ -0,0 +1,264 @@
+import * as dns from 'dns'
+import * as http from 'http'
+import * as https from 'https'
+import * as net from 'net'
+import { isSocksProxy } from './no-proxy'
+
+/** SOCKS5 代理的默认端口 */
+const SOCKS_DEFAULT_PORT = 1080
+/** SOCKS5 协议版本 */
+const SOCKS_VERSION = 0x05
+/** SOCKS5 认证方式：无需认证 / 用户名密码 / 无可用方式 */
+const SOCKS_AUTH_NONE = 0x00
+const SOCKS_AUTH_PASSWORD = 0x02
+const SOCKS_AUTH_UNACCEPTABLE = 0xff
+/** SOCKS5 地址类型：IPv4 / 域名 / IPv6 */
+const SOCKS_ADDRESS_IPV4 = 0x01
+const SOCKS_ADDRESS_DOMAIN = 0x03
+const SOCKS_ADDRESS_IPV6 = 0x04
+/** SOCKS5 CONNECT 失败时的错误说明，按应答码索引 */
+const SOCKS_REPLY_MESSAGES = [
+  'succeeded',
+  'general SOCKS server failure',
+  'connection not allowed by ruleset',
+  'network unreachable',
+  'host unreachable',
+  'connection refused',
+  'TTL expired',
+  'command not supported',
+  'address type not supported'
+]
+
+/**
+ * 通过代理建立到目标主机的隧道
+ * http/https 代理使用 CONNECT 请求；socks5 代理在本地解析目标主机，socks5h 代理由代理服务器解析
+ * @param proxy - 代理地址，用户名和密码写在URL中
+ * @param host - 目标主机
+ * @param port - 目标端口
+ * @param signal - 取消信号（可选）
+ * @returns 已连接到目标主机的套接字
+ */
+export function openProxyTunnel(proxy: URL, host: string, port: number, signal?: AbortSignal): Promise<net.Socket> {
+  return isSocksProxy(proxy.href) ? openSocksTunnel(proxy, host, port, signal) : openConnectTunnel(proxy, host, port, signal)
+}
+
+/**
+ * 根据代理URL中的用户名和密码生成 Proxy-Authorization 请求头
+ */
+export function getProxyAuthorizationHeader(proxy: URL): Record<string, string> {
+  if (!proxy.username) {
+    return {}
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`
+  return { 'proxy-authorization': `Basic ${Buffer.from(credentials).toString('base64')}` }
+}
+
+/**
+ * 通过 HTTP CONNECT 建立隧道
+ */
+function openConnectTunnel(proxy: URL, host: string, port: number, signal?: AbortSignal): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const target = `${host.includes(':') ? `[${host}]` : host}:${port}`
+    const request = (proxy.protocol === 'https:' ? https : http).request({
+      method: 'CONNECT',
+      hostname: proxy.hostname,
+      port: Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80),
+      path: target,
+      headers: { host: target, ...getProxyAuthorizationHeader(proxy) },
+      signal
+    })
+
+    request.once('connect', (response, socket) => {
+      if (response.statusCode === 200) {
+        resolve(socket)
+      } else {
+        socket.destroy()
+        reject(new Error(`Proxy CONNECT to ${target} failed with HTTP ${response.statusCode}`))
+      }
+    })
+    request.once('error', reject)
+    request.end()
+  })
+}
+
+/**
+ * 通过 SOCKS5 代理建立隧道（RFC 1928），支持用户名密码认证（RFC 1929）
+ */
+async function openSocksTunnel(proxy: URL, host: string, port: number, signal?: AbortSignal): Promise<net.Socket> {
+  if (signal?.aborted) {
+    throw new Error('Proxy connection aborted')
+  }
+  const remoteDns = proxy.protocol.toLowerCase() === 'socks5h:'
+  const address = remoteDns || net.isIP(host) ? host : (await dns.promises.lookup(host)).address
+
+  const socket = net.connect(Number(proxy.port) || SOCKS_DEFAULT_PORT, proxy.hostname)
+  const reader = new SocketReader(socket)
+  const onAbort = () => socket.destroy(new Error('Proxy connection aborted'))
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const username = Buffer.from(decodeURIComponent(proxy.username))
+    const password = Buffer.from(decodeURIComponent(proxy.password))
+    const methods = username.length > 0 ? [SOCKS_AUTH_NONE, SOCKS_AUTH_PASSWORD] : [SOCKS_AUTH_NONE]
+    socket.write(Buffer.from([SOCKS_VERSION, methods.length, ...methods]))
+
+    const [version, method] = await reader.read(2)
+    if (version !== SOCKS_VERSION) {
+      throw new Error('Proxy is not a SOCKS5 server')
+    }
+    if (method === SOCKS_AUTH_UNACCEPTABLE || !methods.includes(method)) {
+      throw new Error('SOCKS5 proxy requires an unsupported authentication method')
+    }
+
+    if (method === SOCKS_AUTH_PASSWORD) {
+      if (username.length > 255 || password.length > 255) {
+        throw new Error('SOCKS5 username and password must be at most 255 bytes')
+      }
+      socket.write(Buffer.concat([
+        Buffer.from([0x01, username.length]), username,
+        Buffer.from([password.length]), password
+      ]))
+      const [, status] = await reader.read(2)
+      if (status !== 0x00) {
+        throw new Error('SOCKS5 proxy rejected the username or password')
+      }
+    }
+
+    const portBytes = Buffer.alloc(2)
+    portBytes.writeUInt16BE(port)
+    socket.write(Buffer.concat([Buffer.from([SOCKS_VERSION, 0x01, 0x00]), encodeSocksAddress(address), portBytes]))
+
+    const [, reply, , addressType] = await reader.read(4)
+    if (reply !== 0x00) {
+      throw new Error(`SOCKS5 CONNECT to ${host}:${port} failed: ${SOCKS_REPLY_MESSAGES[reply] || `reply ${reply}`}`)
+    }
+    // 跳过代理返回的绑定地址和端口
+    const addressLength = addressType === SOCKS_ADDRESS_IPV4 ? 4
+      : addressType === SOCKS_ADDRESS_IPV6 ? 16
+        : (await reader.read(1))[0]
+    await reader.read(addressLength + 2)
+
+    reader.release()
+    return socket
+  } catch (error) {
+    reader.release()
+    socket.destroy()
+    throw error
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * 编码 SOCKS5 目标地址
+ */
+function encodeSocksAddress(address: string): Buffer {
+  const family = net.isIP(address)
+  if (family === 4) {
+    return Buffer.from([SOCKS_ADDRESS_IPV4, ...address.split('.').map(Number)])
+  }
+  if (family === 6) {
+    return Buffer.concat([Buffer.from([SOCKS_ADDRESS_IPV6]), encodeIPv6(address)])
+  }
+
+  const domain = Buffer.from(address)
+  if (domain.length > 255) {
+    throw new Error(`Host name too long for SOCKS5: ${address}`)
+  }
+  return Buffer.concat([Buffer.from([SOCKS_ADDRESS_DOMAIN, domain.length]), domain])
+}
+
+/**
+ * 将IPv6地址编码为16字节
+ */
+export function encodeIPv6(address: string): Buffer {
+  const [head, tail = ''] = address.split('::')
+  const toGroups = (part: string) => part ? part.split(':') : []
+  let headGroups = toGroups(head)
+  let tailGroups = toGroups(tail)
+
+  // 末尾是IPv4形式时转换为两个16位分组
+  const expandIPv4 = (groups: string[]) => {
+    const last = groups[groups.length - 1]
+    if (last && net.isIPv4(last)) {
+      const bytes = last.split('.').map(Number)
+      groups.splice(-1, 1, ((bytes[0] << 8) | bytes[1]).toString(16), ((bytes[2] << 8) | bytes[3]).toString(16))
+    }
+    return groups
+  }
+  if (address.includes('::')) {
+    tailGroups = expandIPv4(tailGroups)
+  } else {
+    headGroups = expandIPv4(headGroups)
+  }
+
+  const zeros = new Array(8 - headGroups.length - tailGroups.length).fill('0')
+  const buffer = Buffer.alloc(16)
+  const groups = address.includes('::') ? [...headGroups, ...zeros, ...tailGroups] : headGroups
+  groups.forEach((group, index) => buffer.writeUInt16BE(parseInt(group, 16) || 0, index * 2))
+  return buffer
+}
+
+/**
+ * 套接字读取器
+ * 以暂停模式按指定长度读取数据，用于逐步完成代理握手；释放后套接字恢复默认状态，交给后续的TLS或HTTP使用
+ */
+class SocketReader {
+  /** 等待中的读取 */
+  private pending: { length: number, resolve: (data: Buffer) => void, reject: (error: Error) => void } | null = null
+  /** 连接失败或关闭的原因 */
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket) {
+    socket.on('readable', this.flush)
+    socket.on('error', this.onError)
+    socket.on('close', this.onClose)
+  }
+
+  /**
+   * 读取指定长度的数据
+   */
+  read(length: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      this.pending = { length, resolve, reject }
+      this.flush()
+    })
+  }
+
+  /**
+   * 停止读取并移除监听
+   */
+  release(): void {
+    this.socket.off('readable', this.flush)
+    this.socket.off('error', this.onError)
+    this.socket.off('close', this.onClose)
+  }
+
+  private onError = (error: Error): void => {
+    this.failure = error
+    this.flush()
+  }
+
+  private onClose = (): void => {
+    this.failure = this.failure || new Error('Proxy closed the connection during the SOCKS5 handshake')
+    this.flush()
+  }
+
+  /**
+   * 数据足够时完成等待中的读取，连接失败时拒绝
+   */
+  private flush = (): void => {
+    const pending = this.pending
+    if (!pending) {
+      return
+    }
+    const data: Buffer | null = this.socket.read(pending.length)
+    if (data && data.length === pending.length) {
+      this.pending = null
+      pending.resolve(data)
+    } else if (data || this.failure || this.socket.readableEnded) {
+      this.pending = null
+      pending.reject(this.failure || new Error('Proxy closed the connection during the SOCKS5 handshake'))
+    }
+  }
+}
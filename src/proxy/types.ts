@@ -0,0 +1,48 @@
+/**
+ * 连接测试步骤
+ * - DNS: 解析主机名（使用代理时解析代理主机）
+ * - TCP: 建立TCP连接（使用代理时包括 CONNECT 或 SOCKS5 握手）
+ * - TLS: TLS握手，HTTP地址跳过
+ * - HTTP: 发送请求并收到响应头
+ */
+export type ConnectionTestStepName = 'DNS' | 'TCP' | 'TLS' | 'HTTP'
+
+/**
+ * 连接测试步骤结果
+ */
+export interface ConnectionTestStep {
+  /** 步骤名称 */
+  name: ConnectionTestStepName
+  /** 是否成功，跳过的步骤为true */
+  ok: boolean
+  /** 耗时（毫秒） */
+  durationMs: number
+  /** 结果说明 */
+  detail: string
+}
+
+/**
+ * 连接测试结果
+ */
+export interface ConnectionTestResult {
+  /** 测试的地址 */
+  url: string
+  /** 使用的代理（已隐藏认证信息），直连时为空 */
+  proxy?: string
+  /** 是否所有步骤都成功 */
+  ok: boolean
+  /** 各步骤结果，某一步失败后不再执行后续步骤 */
+  steps: ConnectionTestStep[]
+  /** HTTP状态码（可选） */
+  httpStatus?: number
+}
+
+/**
+ * 连接测试选项
+ */
+export interface ConnectionTestOptions {
+  /** 每个步骤的超时时间（毫秒），默认10秒 */
+  timeoutMs?: number
+  /** 取消信号（可选） */
+  signal?: AbortSignal
+}
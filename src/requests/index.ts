@@ -0,0 +1,13 @@
+/**
+ * 请求遥测模块导出
+ * 收集拦截器上报的API请求，按账号保存历史并在请求视图中显示
+ */
+
+/** 请求历史 - 按账号保存滚动的请求记录 */
+export { RequestHistory, isFailedRequest } from './request-history'
+
+/** 请求视图 - 按账号分组显示请求的状态、耗时和用量 */
+export { RequestsTreeProvider, RequestTreeItem } from './requests-view'
+
+/** 导出所有类型定义 */
+export * from './types'
@@ -0,0 +1,175 @@
+import * as vscode from 'vscode'
+import { EventEmitter } from 'events'
+import { IpcServer } from '../ipc'
+import { AccountRequestSummary, RequestRecord } from './types'
+
+/** 全局状态中保存请求历史的键 */
+const HISTORY_STATE_KEY = 'ccCopilot.requestHistory'
+/** 每个账号最多保留的请求数 */
+const MAX_REQUESTS_PER_ACCOUNT = 200
+/** 写入全局状态的延迟（毫秒），合并短时间内的多次请求 */
+const SAVE_DELAY = 2000
+/** 没有账号信息的请求使用的分组键 */
+const NO_ACCOUNT_KEY = ''
+
+/**
+ * 判断请求是否失败
+ */
+export function isFailedRequest(record: RequestRecord): boolean {
+  return record.status === undefined || record.status >= 400 || !!record.errorType
+}
+
+/**
+ * 请求历史
+ * 接收拦截器上报和本地网关转发的请求遥测，按账号保存滚动的历史记录（每个账号保留最近的请求），
+ * 记录变化时触发 'requests:changed' 事件
+ */
+export class RequestHistory extends EventEmitter implements vscode.Disposable {
+  /** 按账号分组的请求，每组按开始时间升序 */
+  private history: Record<string, RequestRecord[]>
+  /** 待执行的保存定时器 */
+  private saveTimer: NodeJS.Timeout | undefined
+  /** 消息处理函数的注册 */
+  private registration: vscode.Disposable
+
+  /**
+   * 构造函数
+   * @param context - VSCode扩展上下文
+   * @param ipcServer - 拦截器IPC服务
+   */
+  constructor(
+    private context: vscode.ExtensionContext,
+    ipcServer: IpcServer
+  ) {
+    super()
+    this.history = context.globalState.get<Record<string, RequestRecord[]>>(HISTORY_STATE_KEY, {})
+    this.registration = ipcServer.registerHandler('REQUEST_COMPLETED', message => {
+      this.add({ ...message.payload, pid: message.pid })
+    })
+  }
+
+  /**
+   * 获取各账号的请求统计，最近有请求的账号在前
+   */
+  getAccountSummaries(): AccountRequestSummary[] {
+    return Object.entries(this.history)
+      .filter(([, records]) => records.length > 0)
+      .map(([key, records]) => this.summarize(key, records))
+      .sort((a, b) => b.lastRequestAt - a.lastRequestAt)
+  }
+
+  /**
+   * 获取单个账号的请求统计
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @returns 请求统计，没有请求记录时返回undefined
+   */
+  getAccountSummary(compositeId: string): AccountRequestSummary | undefined {
+    const records = this.history[compositeId]
+    return records && records.length > 0 ? this.summarize(compositeId, records) : undefined
+  }
+
+  /**
+   * 获取账号的请求，最新的在前
+   * @param key - 历史分组键
+   */
+  getRequests(key: string): RequestRecord[] {
+    return [...(this.history[key] || [])].reverse()
+  }
+
+  /**
+   * 清空请求历史
+   */
+  clear(): void {
+    this.history = {}
+    this.scheduleSave()
+    this.emit('requests:changed')
+  }
+
+  /**
+   * 追加一条请求记录
+   * 拦截器的记录通过IPC消息到达，本地网关的记录由扩展直接追加
+   */
+  add(record: RequestRecord): void {
+    const key = this.getKey(record)
+    const records = this.history[key] || (this.history[key] = [])
+    records.push(record)
+    if (records.length > MAX_REQUESTS_PER_ACCOUNT) {
+      records.splice(0, records.length - MAX_REQUESTS_PER_ACCOUNT)
+    }
+
+    this.scheduleSave()
+    this.emit('requests:changed', record)
+  }
+
+  /**
+   * 获取请求的分组键
+   * 配置中的账号按复合ID分组，使用CLI自身登录的账号按名称分组
+   */
+  private getKey(record: RequestRecord): string {
+    if (!record.account) {
+      return NO_ACCOUNT_KEY
+    }
+    return record.account.compositeId || `cli:${record.account.label}`
+  }
+
+  /**
+   * 汇总一个账号的请求
+   */
+  private summarize(key: string, records: RequestRecord[]): AccountRequestSummary {
+    const last = records[records.length - 1]
+    const latencies = records.map(record => record.latencyMs).filter((value): value is number => value !== undefined)
+
+    const usage = { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, requests: records.length }
+    for (const record of records) {
+      usage.inputTokens += record.usage?.inputTokens || 0
+      usage.outputTokens += record.usage?.outputTokens || 0
+      usage.cacheCreationInputTokens += record.usage?.cacheCreationInputTokens || 0
+      usage.cacheReadInputTokens += record.usage?.cacheReadInputTokens || 0
+    }
+
+    return {
+      key,
+      label: last.account?.label || 'No account',
+      compositeId: last.account?.compositeId,
+      requests: records.length,
+      errors: records.filter(isFailedRequest).length,
+      usage,
+      averageLatencyMs: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length)
+        : undefined,
+      lastRequestAt: last.startedAt
+    }
+  }
+
+  /**
+   * 延迟保存到全局状态
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return
+    }
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY)
+  }
+
+  /**
+   * 保存到全局状态
+   */
+  private save(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = undefined
+    }
+    this.context.globalState.update(HISTORY_STATE_KEY, this.history)
+  }
+
+  /**
+   * 保存未写入的记录并移除消息处理函数
+   */
+  dispose(): void {
+    if (this.saveTimer) {
+      this.save()
+    }
+    this.registration.dispose()
+    this.removeAllListeners()
+  }
+}
@@ -0,0 +1,165 @@
+import * as vscode from 'vscode'
+import { formatTokenCount } from '../analytics'
+import { RequestHistory, isFailedRequest } from './request-history'
+import { AccountRequestSummary, RequestRecord } from './types'
+
+/** 每个账号下显示的请求数 */
+const REQUESTS_PER_ACCOUNT_LIMIT = 100
+
+/**
+ * 请求视图节点
+ */
+export class RequestTreeItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly accountKey?: string,
+    public readonly request?: RequestRecord
+  ) {
+    super(label, collapsibleState)
+  }
+}
+
+/**
+ * 请求视图
+ * 按账号分组显示拦截器上报的API请求，账号节点显示请求数、失败数和令牌用量，
+ * 请求节点显示状态码、耗时和用量，提示中包含完整的请求信息和错误
+ */
+export class RequestsTreeProvider implements vscode.TreeDataProvider<RequestTreeItem>, vscode.Disposable {
+  /** 树形数据变化事件发射器 */
+  private _onDidChangeTreeData = new vscode.EventEmitter<RequestTreeItem | undefined | void>()
+  /** 树形数据变化事件 */
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+  /** 请求历史变化监听器 */
+  private readonly onRequestsChanged = () => this._onDidChangeTreeData.fire()
+
+  /**
+   * 构造函数
+   * @param requestHistory - 请求历史
+   */
+  constructor(private requestHistory: RequestHistory) {
+    this.requestHistory.on('requests:changed', this.onRequestsChanged)
+  }
+
+  getTreeItem(element: RequestTreeItem): vscode.TreeItem {
+    return element
+  }
+
+  getChildren(element?: RequestTreeItem): RequestTreeItem[] {
+    if (!element) {
+      const summaries = this.requestHistory.getAccountSummaries()
+      return summaries.map((summary, index) => this.createAccountItem(summary, index === 0))
+    }
+
+    if (element.accountKey !== undefined && !element.request) {
+      return this.requestHistory.getRequests(element.accountKey)
+        .slice(0, REQUESTS_PER_ACCOUNT_LIMIT)
+        .map(request => this.createRequestItem(request))
+    }
+
+    return []
+  }
+
+  /**
+   * 创建账号节点，最近使用的账号默认展开
+   */
+  private createAccountItem(summary: AccountRequestSummary, expanded: boolean): RequestTreeItem {
+    const item = new RequestTreeItem(
+      summary.label,
+      expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+      summary.key
+    )
+    item.id = `account:${summary.key}`
+    item.contextValue = 'requestAccount'
+    item.iconPath = new vscode.ThemeIcon('account')
+    item.description = `${summary.requests} requests${summary.errors > 0 ? ` · ${summary.errors} failed` : ''}`
+
+    const tooltip = new vscode.MarkdownString()
+    tooltip.appendMarkdown(`**${summary.label}**\n\n`)
+    if (summary.compositeId) {
+      tooltip.appendMarkdown(`Account: \`${summary.compositeId}\`\n\n`)
+    } else if (summary.key) {
+      tooltip.appendMarkdown('Account: Claude CLI login\n\n')
+    }
+    tooltip.appendMarkdown(`Requests: ${summary.requests} (${summary.errors} failed)\n\n`)
+    if (summary.averageLatencyMs !== undefined) {
+      tooltip.appendMarkdown(`Average latency: ${summary.averageLatencyMs} ms\n\n`)
+    }
+    tooltip.appendMarkdown(
+      `Tokens: ${formatTokenCount(summary.usage.inputTokens)} in · ${formatTokenCount(summary.usage.outputTokens)} out · ` +
+      `${formatTokenCount(summary.usage.cacheReadInputTokens)} cache read\n\n`
+    )
+    tooltip.appendMarkdown(`Last request: ${new Date(summary.lastRequestAt).toLocaleString()}`)
+    item.tooltip = tooltip
+
+    return item
+  }
+
+  /**
+   * 创建请求节点
+   */
+  private createRequestItem(request: RequestRecord): RequestTreeItem {
+    const time = new Date(request.startedAt).toLocaleTimeString()
+    const item = new RequestTreeItem(`${time} ${request.model || request.path}`, vscode.TreeItemCollapsibleState.None, undefined, request)
+    item.id = `request:${request.requestId}`
+    item.contextValue = 'request'
+    item.iconPath = this.getStatusIcon(request)
+
+    const details = [
+      request.status !== undefined ? String(request.status) : 'failed',
+      request.latencyMs !== undefined ? `${request.latencyMs} ms` : '',
+      request.usage ? `${formatTokenCount(request.usage.inputTokens)}/${formatTokenCount(request.usage.outputTokens)} tokens` : ''
+    ].filter(Boolean)
+    item.description = details.join(' · ')
+    item.tooltip = this.createRequestTooltip(request)
+
+    return item
+  }
+
+  /**
+   * 根据状态选择图标：成功、限流/过载、失败
+   */
+  private getStatusIcon(request: RequestRecord): vscode.ThemeIcon {
+    if (!isFailedRequest(request)) {
+      return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+    }
+    if (request.status === 429 || request.status === 529) {
+      return new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+    }
+    return new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground'))
+  }
+
+  /**
+   * 生成请求详情提示
+   */
+  private createRequestTooltip(request: RequestRecord): vscode.MarkdownString {
+    const lines = [
+      `**${request.method} ${request.host}${request.path}**`,
+      `Started: ${new Date(request.startedAt).toLocaleString()}`,
+      `Account: ${request.account ? request.account.label : 'None'}`,
+      request.model ? `Model: ${request.model}${request.requestedModel ? ` (requested ${request.requestedModel})` : ''}` : '',
+      `Status: ${request.status !== undefined ? request.status : 'no response'}${request.stream ? ' (stream)' : ''}`,
+      request.latencyMs !== undefined ? `Latency: ${request.latencyMs} ms` : '',
+      `Duration: ${request.durationMs} ms`,
+      request.usage
+        ? `Tokens: ${request.usage.inputTokens} in · ${request.usage.outputTokens} out · ` +
+          `${request.usage.cacheCreationInputTokens} cache write · ${request.usage.cacheReadInputTokens} cache read`
+        : '',
+      request.errorType || request.error ? `Error: ${[request.errorType, request.error].filter(Boolean).join(': ')}` : '',
+      request.cwd ? `Directory: ${request.cwd}` : '',
+      `Process: ${request.pid}`
+    ].filter(Boolean)
+
+    const tooltip = new vscode.MarkdownString()
+    tooltip.appendMarkdown(lines.join('\n\n'))
+    return tooltip
+  }
+
+  /**
+   * 移除事件监听
+   */
+  dispose(): void {
+    this.requestHistory.off('requests:changed', this.onRequestsChanged)
+    this._onDidChangeTreeData.dispose()
+  }
+}
@@ -0,0 +1,33 @@
+import { RequestCompletedPayload } from '../ipc'
+import { TokenUsage } from '../shared/types'
+
+/**
+ * 请求记录
+ * 拦截器上报的一次API请求
+ */
+export interface RequestRecord extends RequestCompletedPayload {
+  /** 发出请求的CLI进程ID */
+  pid: number
+}
+
+/**
+ * 账号的请求统计
+ */
+export interface AccountRequestSummary {
+  /** 历史分组键 */
+  key: string
+  /** 显示名称 */
+  label: string
+  /** 复合ID（可选），使用CLI自身登录的账号时为空 */
+  compositeId?: string
+  /** 保留的请求数 */
+  requests: number
+  /** 失败的请求数（网络错误或HTTP状态码不低于400） */
+  errors: number
+  /** 令牌用量合计 */
+  usage: TokenUsage
+  /** 平均首字节耗时（毫秒），没有响应时为空 */
+  averageLatencyMs?: number
+  /** 最近一次请求的开始时间（毫秒时间戳） */
+  lastRequestAt: number
+}
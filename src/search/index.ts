@@ -0,0 +1,16 @@
+/**
+ * 会话搜索模块导出
+ * 提供跨所有会话转录的全文搜索
+ */
+
+/** 会话搜索索引 - 倒排索引，随会话同步从上次索引的位置增量更新 */
+export { SessionSearchIndex } from './session-search-index'
+
+/** 搜索查询解析 - 解析搜索词和 project/tool/after/before 过滤条件 */
+export { parseSearchQuery } from './search-query'
+
+/** 会话搜索面板 - 实时搜索并打开转录或恢复会话 */
+export { showSessionSearch, SearchHitAction } from './session-search-picker'
+
+/** 导出所有类型定义 */
+export * from './types'
@@ -0,0 +1,52 @@
+import { SearchQuery } from './types'
+
+/** 过滤条件语法：key:value 或 key:"带空格的值" */
+const FILTER_PATTERN = /\b(project|tool|after|before):(?:"([^"]*)"|(\S+))/gi
+
+/**
+ * 解析搜索输入
+ * 支持 `project:<名称>`、`tool:<工具>`、`after:<YYYY-MM-DD>`、`before:<YYYY-MM-DD>` 过滤条件，
+ * 其余部分按空白拆分为搜索词
+ * @param input - 用户输入
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [] }
+
+  const remaining = input.replace(FILTER_PATTERN, (_match, key: string, quoted: string | undefined, plain: string | undefined) => {
+    const value = (quoted ?? plain ?? '').trim()
+    if (!value) {
+      return ' '
+    }
+
+    switch (key.toLowerCase()) {
+      case 'project':
+        query.project = value
+        break
+      case 'tool':
+        query.tool = value
+        break
+      case 'after':
+        query.after = parseDate(value) || query.after
+        break
+      case 'before':
+        query.before = parseDate(value) || query.before
+        break
+    }
+    return ' '
+  })
+
+  query.terms = remaining
+    .split(/\s+/)
+    .map(term => term.trim().toLowerCase())
+    .filter(term => term.length > 0)
+
+  return query
+}
+
+/**
+ * 解析日期，无效日期返回undefined
+ */
+function parseDate(value: string): Date | undefined {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
@@ -0,0 +1,616 @@
+import * as vscode from 'vscode'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { logger } from '../logger'
+import { SessionManager, SessionSyncDiff } from '../session-manager'
+import { parseTranscriptEntry, summarizeToolInput } from '../transcript/transcript-parser'
+import { TranscriptBlock } from '../transcript/types'
+import { IndexedMessage, IndexedSessionFile, SearchHit, SearchIndexShard, SearchQuery } from './types'
+
+/** 索引格式版本 */
+const INDEX_VERSION = 2
+/** 单条工具结果最多索引的字符数，避免大文件输出撑大索引 */
+const MAX_TOOL_RESULT_CHARS = 2000
+/** 单次搜索最多返回的结果数 */
+const MAX_HITS = 200
+/** 结果片段中命中位置前后保留的字符数 */
+const SNIPPET_CONTEXT = 60
+/** 索引变化后延迟写盘的时间（毫秒） */
+const SAVE_DELAY_MS = 2000
+/** 单个词最多索引的字符数，过长的词（如base64内容）会被截断 */
+const MAX_TOKEN_LENGTH = 64
+/** 中日韩文字没有空格分词，逐字索引 */
+const CJK_CHARS = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}'
+/** 分词规则：中日韩文字逐字成词，其他字母、数字和下划线连续成词 */
+const TOKEN_PATTERN = new RegExp(`[${CJK_CHARS}]|(?:(?![${CJK_CHARS}])[\\p{L}\\p{N}_])+`, 'gu')
+
+/**
+ * 会话全文搜索索引
+ * 为 ~/.claude/projects 下的每个会话文件建立倒排索引（词 -> 消息序号），每个会话文件的索引单独保存到扩展存储目录；
+ * 内存中只保留倒排索引和消息在文件中的位置，结果片段在搜索时从会话文件读取。
+ * 启动时只重新索引mtime/size变化的文件，会话文件追加内容后从上次索引的位置继续索引
+ */
+export class SessionSearchIndex implements vscode.Disposable {
+  /** 索引目录 */
+  private indexDir: string
+  /** 旧版本的单文件索引路径，加载时删除 */
+  private legacyIndexPath: string
+  /** 会话文件索引，键为会话文件路径 */
+  private files = new Map<string, IndexedSessionFile>()
+  /** 词表，键为词，值为包含该词的会话文件路径 */
+  private vocabulary = new Map<string, Set<string>>()
+  /** 索引有变化、等待写盘的会话文件路径 */
+  private dirty = new Set<string>()
+  /** 索引任务队列，保证文件按顺序重新索引 */
+  private queue: Promise<void> = Promise.resolve()
+  /** 延迟写盘定时器 */
+  private saveTimer: NodeJS.Timeout | null = null
+  /** 会话同步事件监听器 */
+  private readonly onSessionsSynced = (diff: SessionSyncDiff) => this.handleSessionsSynced(diff)
+
+  /**
+   * 构造函数
+   * @param context - VSCode扩展上下文
+   * @param sessionManager - 会话管理器实例
+   */
+  constructor(context: vscode.ExtensionContext, private sessionManager: SessionManager) {
+    this.indexDir = path.join(context.globalStorageUri.fsPath, 'search-index')
+    this.legacyIndexPath = path.join(context.globalStorageUri.fsPath, 'search-index.json')
+    this.enqueue(() => this.load())
+    this.sessionManager.on('sessions:synced', this.onSessionsSynced)
+  }
+
+  /**
+   * 对照当前会话列表校正索引
+   * 索引缺失或文件已变化的会话重新索引，已不存在的会话移除
+   */
+  reconcile(): Promise<void> {
+    return this.enqueue(async () => {
+      const sessionFiles = new Set<string>()
+      for (const session of this.sessionManager.getAllSessions()) {
+        if (session.filePath) {
+          sessionFiles.add(session.filePath)
+        }
+      }
+
+      for (const filePath of Array.from(this.files.keys())) {
+        if (!sessionFiles.has(filePath)) {
+          this.removeFile(filePath)
+        }
+      }
+
+      let indexed = 0
+      for (const filePath of sessionFiles) {
+        if (await this.indexFile(filePath)) {
+          indexed++
+        }
+      }
+      logger.info(`Search index ready: ${sessionFiles.size} sessions, ${indexed} re-indexed`, 'SessionSearchIndex')
+    })
+  }
+
+  /**
+   * 执行搜索
+   * 搜索词为空时按过滤条件列出会话（每个会话一条结果），结果按时间倒序排列
+   * @param query - 搜索查询
+   */
+  async search(query: SearchQuery): Promise<SearchHit[]> {
+    // 等待进行中的索引任务完成，避免返回过期结果
+    await this.queue
+
+    const tokens = Array.from(new Set(query.terms.flatMap(term => tokenize(term))))
+    const hasFilters = !!(query.project || query.tool || query.after || query.before)
+    if (tokens.length === 0 && !hasFilters) {
+      return []
+    }
+
+    const matches = tokens.length > 0 ? this.findMessages(tokens) : null
+    const projectFilter = query.project?.toLowerCase()
+    const toolFilter = query.tool?.toLowerCase()
+    const hits: SearchHit[] = []
+
+    for (const session of this.sessionManager.getAllSessions()) {
+      const file = session.filePath ? this.files.get(session.filePath) : undefined
+      const indices = matches && session.filePath ? matches.get(session.filePath) : undefined
+      if (!file || (matches && !indices)) {
+        continue
+      }
+
+      const project = this.sessionManager.getProjectById(session.projectId)
+      if (projectFilter && !(project && (project.name.toLowerCase().includes(projectFilter) || project.path.toLowerCase().includes(projectFilter)))) {
+        continue
+      }
+      if (toolFilter && !file.tools.some(tool => tool.toLowerCase() === toolFilter)) {
+        continue
+      }
+
+      if (indices) {
+        for (const index of indices) {
+          const message = file.messages[index]
+          if (message && this.isInDateRange(message.timestamp, query)) {
+            hits.push({ session, project, message, snippet: '' })
+          }
+        }
+        continue
+      }
+
+      // 只有过滤条件时取会话中时间范围内最近的一条消息
+      for (let index = file.messages.length - 1; index >= 0; index--) {
+        const message = file.messages[index]
+        if (this.isInDateRange(message.timestamp, query)) {
+          hits.push({ session, project, message, snippet: '' })
+          break
+        }
+      }
+    }
+
+    hits.sort((a, b) => (b.message.timestamp || '').localeCompare(a.message.timestamp || ''))
+    const results = hits.slice(0, MAX_HITS)
+    await this.createSnippets(results, query.terms)
+    return results
+  }
+
+  /**
+   * 获取索引中出现过的所有工具名称
+   */
+  getKnownTools(): string[] {
+    const tools = new Set<string>()
+    for (const file of this.files.values()) {
+      file.tools.forEach(tool => tools.add(tool))
+    }
+    return Array.from(tools).sort()
+  }
+
+  /**
+   * 查找包含所有词的消息
+   * 搜索词按包含匹配索引中的词，与逐条消息的子串搜索一致
+   * @param tokens - 搜索词分出的词
+   * @returns 命中的消息序号，键为会话文件路径
+   */
+  private findMessages(tokens: string[]): Map<string, Set<number>> {
+    let result: Map<string, Set<number>> | null = null
+
+    for (const token of tokens) {
+      const found = new Map<string, Set<number>>()
+      for (const [word, filePaths] of this.vocabulary) {
+        if (!word.includes(token)) {
+          continue
+        }
+        for (const filePath of filePaths) {
+          const previous: Set<number> | undefined = result ? result.get(filePath) : undefined
+          if (result && !previous) {
+            continue
+          }
+          const indices = found.get(filePath) || new Set<number>()
+          for (const index of this.files.get(filePath)?.postings.get(word) || []) {
+            if (!previous || previous.has(index)) {
+              indices.add(index)
+            }
+          }
+          if (indices.size > 0) {
+            found.set(filePath, indices)
+          }
+        }
+      }
+
+      result = found
+      if (result.size === 0) {
+        break
+      }
+    }
+
+    return result || new Map()
+  }
+
+  /**
+   * 根据同步差异增量更新索引
+   */
+  private handleSessionsSynced(diff: SessionSyncDiff): void {
+    if (diff.added.length === 0 && diff.updated.length === 0 && diff.removed.length === 0) {
+      return
+    }
+
+    this.enqueue(async () => {
+      for (const session of diff.removed) {
+        if (session.filePath) {
+          this.removeFile(session.filePath)
+        }
+      }
+      for (const session of [...diff.added, ...diff.updated]) {
+        if (session.filePath) {
+          await this.indexFile(session.filePath)
+        }
+      }
+    })
+  }
+
+  /**
+   * 索引单个会话文件
+   * 文件未变化时跳过；文件变长时从上次索引的位置继续索引追加的内容，变短（被重写）时重新索引
+   * @param filePath - 会话文件路径
+   * @returns 是否索引了新内容
+   */
+  private async indexFile(filePath: string): Promise<boolean> {
+    let stats: fs.Stats
+    try {
+      stats = await fs.promises.stat(filePath)
+    } catch (error) {
+      this.removeFile(filePath)
+      return false
+    }
+
+    let file = this.files.get(filePath)
+    if (file && file.mtimeMs === stats.mtimeMs && file.size === stats.size) {
+      return false
+    }
+    if (!file || stats.size < file.size) {
+      this.removeFile(filePath)
+      file = { mtimeMs: 0, size: 0, offset: 0, tools: [], messages: [], postings: new Map() }
+      this.files.set(filePath, file)
+    }
+
+    try {
+      await this.indexNewLines(filePath, file)
+      file.mtimeMs = stats.mtimeMs
+      file.size = stats.size
+      return true
+    } catch (error) {
+      // 已索引的部分保留，下次从中断的位置继续
+      logger.error(`Failed to index session file: ${filePath}`, 'SessionSearchIndex', error as Error)
+      return false
+    } finally {
+      this.scheduleSave(filePath)
+    }
+  }
+
+  /**
+   * 从已索引的位置读取会话文件，逐行索引新增的完整行
+   * 末尾没有换行符且无法解析的行是CLI正在写入的半行，留到下次索引
+   */
+  private async indexNewLines(filePath: string, file: IndexedSessionFile): Promise<void> {
+    const stream = fs.createReadStream(filePath, { start: file.offset })
+    let pending = Buffer.alloc(0)
+    let position = file.offset
+
+    try {
+      for await (const chunk of stream) {
+        const buffer = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : chunk as Buffer
+        let lineStart = 0
+        let newline: number
+        while ((newline = buffer.indexOf(0x0a, lineStart)) !== -1) {
+          this.indexLine(filePath, file, buffer.toString('utf-8', lineStart, newline), position + lineStart, position + newline + 1)
+          lineStart = newline + 1
+          file.offset = position + lineStart
+        }
+        position += lineStart
+        pending = buffer.subarray(lineStart)
+      }
+    } finally {
+      stream.destroy()
+    }
+
+    if (pending.length > 0 && this.indexLine(filePath, file, pending.toString('utf-8'), position, position + pending.length)) {
+      file.offset = position + pending.length
+    }
+  }
+
+  /**
+   * 索引会话文件中的一行
+   * CLI会把同一条助手消息的多个内容块写成多行，按message.id合并到上一条消息
+   * @returns 该行是否为完整的JSON记录
+   */
+  private indexLine(filePath: string, file: IndexedSessionFile, line: string, start: number, end: number): boolean {
+    if (line.trim() === '') {
+      return true
+    }
+
+    let entry: any
+    try {
+      entry = JSON.parse(line)
+    } catch (error) {
+      return false
+    }
+
+    const message = parseTranscriptEntry(entry)
+    if (!message) {
+      return true
+    }
+
+    const { text, isToolOutput } = this.getSearchText(message.blocks)
+    const messageId = entry.message?.id
+    const previous = file.messages[file.messages.length - 1]
+    let indexed: IndexedMessage
+    if (messageId && messageId === file.lastMessageId && previous?.role === 'assistant') {
+      previous.end = end
+      indexed = previous
+    } else {
+      file.lastMessageId = messageId
+      indexed = {
+        index: file.messages.length,
+        role: message.role === 'user' && isToolOutput ? 'tool' : message.role,
+        timestamp: message.timestamp,
+        start,
+        end
+      }
+      file.messages.push(indexed)
+    }
+
+    for (const block of message.blocks) {
+      if (block.type === 'tool_use' && !file.tools.includes(block.name)) {
+        file.tools.push(block.name)
+      }
+    }
+    for (const word of tokenize(text)) {
+      this.addPosting(filePath, file, word, indexed.index)
+    }
+    return true
+  }
+
+  /**
+   * 获取内容块中可搜索的文本
+   * @returns 文本，以及消息是否只包含工具结果
+   */
+  private getSearchText(blocks: TranscriptBlock[]): { text: string, isToolOutput: boolean } {
+    const parts: string[] = []
+    let isToolOutput = true
+
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'text':
+        case 'thinking':
+          parts.push(block.text)
+          isToolOutput = false
+          break
+        case 'tool_use': {
+          const summary = summarizeToolInput(block.name, block.input)
+          parts.push(summary ? `${block.name}: ${summary}` : block.name)
+          break
+        }
+        case 'tool_result':
+          parts.push(block.content.substring(0, MAX_TOOL_RESULT_CHARS))
+          break
+      }
+    }
+
+    return { text: parts.join('\n').trim(), isToolOutput }
+  }
+
+  /**
+   * 记录词出现在消息中
+   */
+  private addPosting(filePath: string, file: IndexedSessionFile, word: string, index: number): void {
+    const indices = file.postings.get(word)
+    if (!indices) {
+      file.postings.set(word, [index])
+    } else if (indices[indices.length - 1] !== index) {
+      indices.push(index)
+    }
+
+    const filePaths = this.vocabulary.get(word)
+    if (filePaths) {
+      filePaths.add(filePath)
+    } else {
+      this.vocabulary.set(word, new Set([filePath]))
+    }
+  }
+
+  /**
+   * 从索引中移除会话文件
+   */
+  private removeFile(filePath: string): void {
+    const file = this.files.get(filePath)
+    if (!file) {
+      return
+    }
+
+    for (const word of file.postings.keys()) {
+      const filePaths = this.vocabulary.get(word)
+      filePaths?.delete(filePath)
+      if (filePaths?.size === 0) {
+        this.vocabulary.delete(word)
+      }
+    }
+    this.files.delete(filePath)
+    this.scheduleSave(filePath)
+  }
+
+  /**
+   * 为搜索结果生成文本片段
+   * 按消息位置从会话文件读取消息内容，有搜索词时截取第一个搜索词附近的文本
+   */
+  private async createSnippets(hits: SearchHit[], terms: string[]): Promise<void> {
+    const hitsByFile = new Map<string, SearchHit[]>()
+    for (const hit of hits) {
+      const fileHits = hitsByFile.get(hit.session.filePath!) || []
+      fileHits.push(hit)
+      hitsByFile.set(hit.session.filePath!, fileHits)
+    }
+
+    for (const [filePath, fileHits] of hitsByFile) {
+      let handle: fs.promises.FileHandle | undefined
+      try {
+        handle = await fs.promises.open(filePath, 'r')
+        for (const hit of fileHits) {
+          const text = await this.readMessageText(handle, hit.message)
+          const position = terms.length > 0 ? text.toLowerCase().indexOf(terms[0]) : 0
+          hit.snippet = this.createSnippet(text, Math.max(0, position))
+        }
+      } catch (error) {
+        logger.warn(`Failed to read search results from ${filePath}`, 'SessionSearchIndex', error as Error)
+      } finally {
+        await handle?.close()
+      }
+    }
+  }
+
+  /**
+   * 从会话文件读取消息的可搜索文本
+   */
+  private async readMessageText(handle: fs.promises.FileHandle, message: IndexedMessage): Promise<string> {
+    const buffer = Buffer.alloc(message.end - message.start)
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, message.start)
+    const blocks: TranscriptBlock[] = []
+
+    for (const line of buffer.toString('utf-8', 0, bytesRead).split('\n')) {
+      try {
+        const entry = parseTranscriptEntry(JSON.parse(line))
+        if (entry) {
+          blocks.push(...entry.blocks)
+        }
+      } catch (error) {
+        // 忽略空行和无法解析的行
+      }
+    }
+    return this.getSearchText(blocks).text
+  }
+
+  /**
+   * 判断时间戳是否在查询的时间范围内
+   */
+  private isInDateRange(timestamp: string | undefined, query: SearchQuery): boolean {
+    if (!query.after && !query.before) {
+      return true
+    }
+    if (!timestamp) {
+      return false
+    }
+
+    const time = new Date(timestamp).getTime()
+    if (query.after && time < query.after.getTime()) {
+      return false
+    }
+    if (query.before && time >= query.before.getTime()) {
+      return false
+    }
+    return true
+  }
+
+  /**
+   * 截取命中位置附近的单行文本片段
+   */
+  private createSnippet(text: string, position: number): string {
+    const start = Math.max(0, position - SNIPPET_CONTEXT)
+    const end = Math.min(text.length, position + SNIPPET_CONTEXT * 2)
+    const snippet = text.substring(start, end).replace(/\s+/g, ' ').trim()
+    return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`
+  }
+
+  /**
+   * 串行执行索引任务
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task)
+    this.queue = run.catch(error => {
+      logger.error('Search index task failed', 'SessionSearchIndex', error as Error)
+    })
+    return this.queue
+  }
+
+  /**
+   * 从磁盘加载各会话文件的索引，版本不一致或损坏的索引文件删除后重建
+   */
+  private async load(): Promise<void> {
+    // 旧版本把所有消息文本保存在一个索引文件中
+    await fs.promises.rm(this.legacyIndexPath, { force: true }).catch(() => undefined)
+
+    let names: string[]
+    try {
+      names = await fs.promises.readdir(this.indexDir)
+    } catch (error) {
+      return
+    }
+
+    for (const name of names.filter(name => name.endsWith('.json'))) {
+      const shardPath = path.join(this.indexDir, name)
+      try {
+        const shard = JSON.parse(await fs.promises.readFile(shardPath, 'utf-8')) as SearchIndexShard
+        if (shard.version !== INDEX_VERSION || !shard.filePath || !shard.file || !Array.isArray(shard.postings)) {
+          await fs.promises.rm(shardPath, { force: true })
+          continue
+        }
+
+        const file: IndexedSessionFile = { ...shard.file, postings: new Map(shard.postings) }
+        this.files.set(shard.filePath, file)
+        for (const word of file.postings.keys()) {
+          const filePaths = this.vocabulary.get(word)
+          if (filePaths) {
+            filePaths.add(shard.filePath)
+          } else {
+            this.vocabulary.set(word, new Set([shard.filePath]))
+          }
+        }
+      } catch (error) {
+        logger.warn(`Failed to load search index ${name}, rebuilding.`, 'SessionSearchIndex', error as Error)
+        await fs.promises.rm(shardPath, { force: true }).catch(() => undefined)
+      }
+    }
+  }
+
+  /**
+   * 获取会话文件索引的保存路径
+   */
+  private getShardPath(filePath: string): string {
+    return path.join(this.indexDir, `${createHash('sha1').update(filePath).digest('hex')}.json`)
+  }
+
+  /**
+   * 延迟写盘，合并短时间内的多次索引变化
+   * @param filePath - 索引有变化的会话文件路径
+   */
+  private scheduleSave(filePath: string): void {
+    this.dirty.add(filePath)
+    if (this.saveTimer) {
+      return
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.save()
+    }, SAVE_DELAY_MS)
+  }
+
+  /**
+   * 将有变化的会话文件索引写入磁盘，已移除的会话删除其索引文件
+   */
+  private save(): void {
+    try {
+      fs.mkdirSync(this.indexDir, { recursive: true })
+      for (const filePath of Array.from(this.dirty)) {
+        const file = this.files.get(filePath)
+        if (file) {
+          const { postings, ...rest } = file
+          const shard: SearchIndexShard = { version: INDEX_VERSION, filePath, file: rest, postings: Array.from(postings) }
+          fs.writeFileSync(this.getShardPath(filePath), JSON.stringify(shard))
+        } else {
+          fs.rmSync(this.getShardPath(filePath), { force: true })
+        }
+        this.dirty.delete(filePath)
+      }
+    } catch (error) {
+      logger.error('Failed to save search index.', 'SessionSearchIndex', error as Error)
+    }
+  }
+
+  /**
+   * 停止监听并写入未保存的索引
+   */
+  dispose(): void {
+    this.sessionManager.off('sessions:synced', this.onSessionsSynced)
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+      this.save()
+    }
+  }
+}
+
+/**
+ * 将文本拆分为小写的词（去重）
+ */
+function tokenize(text: string): string[] {
+  const words = new Set<string>()
+  for (const match of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    words.add(match[0].substring(0, MAX_TOKEN_LENGTH))
+  }
+  return Array.from(words)
+}
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode'
+import { SessionSearchIndex } from './session-search-index'
+import { parseSearchQuery } from './search-query'
+import { SearchHit } from './types'
+
+/**
+ * 搜索结果的操作
+ */
+export type SearchHitAction = 'openTranscript' | 'resumeSession'
+
+/**
+ * 搜索结果选择项
+ */
+interface SearchHitItem extends vscode.QuickPickItem {
+  hit: SearchHit
+}
+
+/** 输入停止后执行搜索的延迟（毫秒） */
+const SEARCH_DEBOUNCE_MS = 250
+
+/** 恢复会话按钮 */
+const RESUME_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('play'),
+  tooltip: 'Resume Session'
+}
+
+/**
+ * 显示会话搜索面板
+ * 输入时实时搜索，选中结果打开转录，点击结果上的按钮恢复会话
+ * @param searchIndex - 会话搜索索引
+ * @param initialValue - 初始搜索内容（可选）
+ * @returns 选中的结果和操作，取消时返回undefined
+ */
+export function showSessionSearch(
+  searchIndex: SessionSearchIndex,
+  initialValue: string = ''
+): Promise<{ hit: SearchHit, action: SearchHitAction } | undefined> {
+  return new Promise(resolve => {
+    const quickPick = vscode.window.createQuickPick<SearchHitItem>()
+    quickPick.title = 'Search Sessions'
+    quickPick.placeholder = 'Search messages… filters: project:<name> tool:<Bash|Edit|…> after:<YYYY-MM-DD> before:<YYYY-MM-DD>'
+    quickPick.matchOnDescription = false
+    quickPick.matchOnDetail = false
+    quickPick.value = initialValue
+
+    let debounceTimer: NodeJS.Timeout | null = null
+    let searchVersion = 0
+    let result: { hit: SearchHit, action: SearchHitAction } | undefined
+
+    const runSearch = async (value: string) => {
+      const version = ++searchVersion
+      const query = parseSearchQuery(value)
+      if (query.terms.length === 0 && !query.project && !query.tool && !query.after && !query.before) {
+        quickPick.items = []
+        quickPick.busy = false
+        return
+      }
+
+      quickPick.busy = true
+      const hits = await searchIndex.search(query)
+      // 输入已变化时丢弃过期结果
+      if (version !== searchVersion) {
+        return
+      }
+      quickPick.items = hits.map(hit => createHitItem(hit))
+      quickPick.busy = false
+    }
+
+    quickPick.onDidChangeValue(value => {
+      if (debounceTimer) {
+        clearTimeout(debounceTimer)
+      }
+      debounceTimer = setTimeout(() => runSearch(value), SEARCH_DEBOUNCE_MS)
+    })
+
+    quickPick.onDidAccept(() => {
+      const selected = quickPick.selectedItems[0]
+      if (selected) {
+        result = { hit: selected.hit, action: 'openTranscript' }
+        quickPick.hide()
+      }
+    })
+
+    quickPick.onDidTriggerItemButton(event => {
+      result = { hit: event.item.hit, action: 'resumeSession' }
+      quickPick.hide()
+    })
+
+    quickPick.onDidHide(() => {
+      if (debounceTimer) {
+        clearTimeout(debounceTimer)
+      }
+      quickPick.dispose()
+      resolve(result)
+    })
+
+    quickPick.show()
+    if (initialValue) {
+      runSearch(initialValue)
+    }
+  })
+}
+
+/**
+ * 创建搜索结果选择项
+ * 结果已由索引过滤，alwaysShow避免QuickPick按标签再次过滤
+ */
+function createHitItem(hit: SearchHit): SearchHitItem {
+  const timestamp = hit.message.timestamp ? new Date(hit.message.timestamp).toLocaleString() : 'unknown time'
+  return {
+    label: `$(${hit.message.role === 'tool' ? 'tools' : 'comment'}) ${hit.snippet}`,
+    description: `${hit.project?.name || 'Unknown project'} · ${hit.session.name}`,
+    detail: `${hit.message.role} · ${timestamp}`,
+    alwaysShow: true,
+    buttons: [RESUME_BUTTON],
+    hit
+  }
+}
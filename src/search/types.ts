@@ -0,0 +1,83 @@
+import { Project, Session } from '../shared/types'
+
+/**
+ * 已索引的消息
+ * 只记录消息在会话文件中的位置，搜索结果的文本片段按位置从文件中读取
+ */
+export interface IndexedMessage {
+  /** 消息在转录中的序号 */
+  index: number
+  /** 消息角色（工具结果消息记为 tool） */
+  role: 'user' | 'assistant' | 'system' | 'tool'
+  /** 时间戳（ISO字符串，可选） */
+  timestamp?: string
+  /** 消息第一行在会话文件中的字节位置 */
+  start: number
+  /** 消息最后一行之后的字节位置 */
+  end: number
+}
+
+/**
+ * 单个会话文件的索引
+ */
+export interface IndexedSessionFile {
+  /** 索引时的文件修改时间（毫秒） */
+  mtimeMs: number
+  /** 索引时的文件大小（字节） */
+  size: number
+  /** 已索引内容的结束位置（字节），文件追加内容后从这里继续索引 */
+  offset: number
+  /** 最后一条消息的 message.id（可选），用于合并CLI拆成多行写入的助手消息 */
+  lastMessageId?: string
+  /** 会话中使用过的工具名称 */
+  tools: string[]
+  /** 已索引的消息，按序号排列 */
+  messages: IndexedMessage[]
+  /** 倒排索引，键为词，值为包含该词的消息序号（升序） */
+  postings: Map<string, number[]>
+}
+
+/**
+ * 持久化的单个会话文件索引
+ * 每个会话文件的索引单独保存，文件变化时只重写对应的索引文件
+ */
+export interface SearchIndexShard {
+  /** 索引格式版本，版本不一致时重建索引 */
+  version: number
+  /** 会话文件路径 */
+  filePath: string
+  /** 会话文件索引（不含倒排索引） */
+  file: Omit<IndexedSessionFile, 'postings'>
+  /** 倒排索引的词和消息序号 */
+  postings: Array<[string, number[]]>
+}
+
+/**
+ * 搜索查询
+ */
+export interface SearchQuery {
+  /** 搜索词，所有词都需要出现在同一条消息中；为空时返回符合过滤条件的会话 */
+  terms: string[]
+  /** 项目名称或路径过滤（不区分大小写的包含匹配） */
+  project?: string
+  /** 只包含使用过该工具的会话 */
+  tool?: string
+  /** 起始时间（包含） */
+  after?: Date
+  /** 结束时间（不包含） */
+  before?: Date
+}
+
+/**
+ * 搜索结果
+ */
+export interface SearchHit {
+  /** 命中的会话 */
+  session: Session
+  /** 会话所属项目（可选） */
+  project?: Project
+  /** 命中的消息，只有过滤条件时为会话中最近的一条消息 */
+  message: IndexedMessage
+  /** 命中位置附近的文本片段 */
+  snippet: string
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { logger } from '../logger'
+import { SessionManager } from './session-manager'
+
+/**
+ * Claude项目目录监听器
+ * 直接监听 ~/.claude/projects 下的JSONL会话文件，防抖合并变化后按文件增量同步到会话存储
+ */
+export class ClaudeProjectsWatcher implements vscode.Disposable {
+  /** 文件系统监听器 */
+  private watcher: vscode.FileSystemWatcher | null = null
+  /** 等待同步的文件路径 */
+  private pendingFiles: Set<string> = new Set()
+  /** 防抖定时器 */
+  private debounceTimer: NodeJS.Timeout | null = null
+  /** 本轮第一个未同步变化的时间，用于限制最长等待 */
+  private firstPendingAt: number | null = null
+
+  /**
+   * 构造函数
+   * @param sessionManager - 会话管理器实例
+   * @param debounceMs - 防抖间隔（毫秒），CLI写入会话时会频繁追加内容
+   * @param maxWaitMs - 最长等待（毫秒），变化持续不断时至少每隔这么久同步一次
+   */
+  constructor(
+    private sessionManager: SessionManager,
+    private debounceMs: number = 500,
+    private maxWaitMs: number = 2000
+  ) {}
+
+  /**
+   * 开始监听
+   * 监听 ~/.claude 而不是 projects 子目录，这样CLI首次创建projects目录时也能收到事件
+   */
+  start(): void {
+    const claudeDir = path.join(os.homedir(), '.claude')
+    if (!fs.existsSync(claudeDir)) {
+      logger.info(`Claude directory not found, session watcher not started: ${claudeDir}`, 'ClaudeProjectsWatcher')
+      return
+    }
+
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(claudeDir), 'projects/**/*.jsonl')
+    )
+
+    this.watcher.onDidCreate(uri => this.scheduleSync(uri))
+    this.watcher.onDidChange(uri => this.scheduleSync(uri))
+    this.watcher.onDidDelete(uri => this.scheduleSync(uri))
+
+    logger.info(`Watching Claude session files under ${path.join(claudeDir, 'projects')}`, 'ClaudeProjectsWatcher')
+  }
+
+  /**
+   * 记录变化的文件并重置防抖定时器
+   * 重置后的触发时间不晚于本轮第一个变化加上最长等待，CLI持续输出时会话也能及时更新
+   */
+  private scheduleSync(uri: vscode.Uri): void {
+    this.pendingFiles.add(uri.fsPath)
+
+    const now = Date.now()
+    if (this.firstPendingAt === null) {
+      this.firstPendingAt = now
+    }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer)
+    }
+    const delay = Math.min(this.debounceMs, this.firstPendingAt + this.maxWaitMs - now)
+    this.debounceTimer = setTimeout(() => this.flush(), Math.max(delay, 0))
+  }
+
+  /**
+   * 将累积的文件变化同步到会话存储
+   */
+  private flush(): void {
+    this.debounceTimer = null
+    this.firstPendingAt = null
+    const filePaths = Array.from(this.pendingFiles)
+    this.pendingFiles.clear()
+
+    if (filePaths.length === 0) {
+      return
+    }
+
+    logger.debug(`Syncing ${filePaths.length} changed session file(s)`, 'ClaudeProjectsWatcher')
+    this.sessionManager.syncSessionFiles(filePaths).catch(error => {
+      logger.error('Failed to sync changed session files', 'ClaudeProjectsWatcher', error as Error)
+    })
+  }
+
+  /**
+   * 停止监听并释放资源
+   */
+  dispose(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer)
+      this.debounceTimer = null
+    }
+    this.firstPendingAt = null
+    this.pendingFiles.clear()
+    this.watcher?.dispose()
+    this.watcher = null
+  }
+}
@@ -3,7 +3,24 @@ import * as path from 'path'
 import * as os from 'os'
 import { v4 as uuidv4 } from 'uuid'
 import { logger } from '../logger'
-import { Project, Session, StoreData } from './types'
+import { Project, Session, SessionFileMetadata, SessionFileState, SessionSyncDiff, StoreData } from './types'
+import { readSessionFileMetadata } from './session-file-reader'
+
+interface SessionFileInfo {
+  name: string
+  path: string
+  stats: fs.Stats
+}
+
+/**
+ * 同步期间的查找表，避免为每个会话文件线性查找会话和项目
+ */
+interface SyncLookup {
+  /** 会话，按Claude会话ID索引 */
+  sessions: Map<string, Session>
+  /** 项目，按项目路径索引 */
+  projects: Map<string, Project>
+}
 
 export class ClaudeSyncManager {
   constructor(
@@ -11,101 +28,217 @@ export class ClaudeSyncManager {
     private saveData: (data: StoreData) => void
   ) {}
 
-  syncWithClaudeDirectory(): void {
+  async syncWithClaudeDirectory(): Promise<SessionSyncDiff> {
     const claudeDir = path.join(os.homedir(), '.claude')
     const projectsDir = path.join(claudeDir, 'projects')
+    const diff: SessionSyncDiff = { added: [], updated: [], removed: [] }
 
     if (!fs.existsSync(claudeDir)) {
       logger.info('Claude directory not found, skipping sync.', 'SessionManager')
-      return
+      return diff
     }
 
     logger.info('Syncing with Claude directory...', 'SessionManager')
-    
+
     const data = this.getData()
-    data.projects = []
-    data.sessions = []
-    
-    let projectsSynced = 0
-    let sessionsSynced = 0
+    if (!data.fileIndex) {
+      data.fileIndex = {}
+    }
+
+    const lookup = this.createLookup(data)
+    // 本次同步中仍然存在的会话文件
+    const seenFiles = new Set<string>()
+    let filesParsed = 0
 
     if (fs.existsSync(projectsDir)) {
-      const projectFolders = fs.readdirSync(projectsDir, { withFileTypes: true })
+      const projectFolders = (await fs.promises.readdir(projectsDir, { withFileTypes: true }))
         .filter(dirent => dirent.isDirectory())
         .map(dirent => dirent.name)
-      
+
       for (const projectFolder of projectFolders) {
         try {
-          const { project: syncedProject, sessionsCount } = this.syncProjectFolder(projectFolder, projectsDir, data)
-          if (syncedProject) {
-            projectsSynced++
-            sessionsSynced += sessionsCount
-          }
+          filesParsed += await this.syncProjectFolder(projectFolder, projectsDir, data, lookup, seenFiles, diff)
         } catch (error) {
           logger.error(`Failed to process project folder: ${projectFolder}`, 'SessionManager', error as Error)
         }
       }
     }
 
-    this.saveData(data)
-    logger.info(`Sync complete. Loaded ${projectsSynced} projects and ${sessionsSynced} sessions from Claude directory.`, 'SessionManager')
+    this.removeMissingSessions(data, seenFiles, diff)
+
+    if (diff.added.length > 0 || diff.updated.length > 0 || diff.removed.length > 0) {
+      this.saveData(data)
+    }
+    logger.info(`Sync complete. Parsed ${filesParsed} changed files: ${diff.added.length} added, ${diff.updated.length} updated, ${diff.removed.length} removed.`, 'SessionManager')
+    return diff
   }
 
-  private syncProjectFolder(projectFolder: string, projectsDir: string, data: StoreData): { project: Project | null, sessionsCount: number } {
+  async syncSessionFiles(filePaths: string[]): Promise<SessionSyncDiff> {
+    const diff: SessionSyncDiff = { added: [], updated: [], removed: [] }
+    const data = this.getData()
+    if (!data.fileIndex) {
+      data.fileIndex = {}
+    }
+    const fileIndex = data.fileIndex
+    const lookup = this.createLookup(data)
+
+    for (const filePath of new Set(filePaths)) {
+      let stats: fs.Stats
+      try {
+        stats = await fs.promises.stat(filePath)
+      } catch (error) {
+        // 文件已被删除，移除对应会话
+        this.removeSessionFile(filePath, data, lookup, diff)
+        continue
+      }
+
+      const file: SessionFileInfo = { name: path.basename(filePath), path: filePath, stats }
+      if (!this.hasFileChanged(file, fileIndex[filePath], lookup)) {
+        continue
+      }
+
+      const metadata = await this.readSessionFile(filePath)
+      if (!metadata) {
+        continue
+      }
+
+      // 新会话的首行可能还没有cwd，此时沿用同一目录下其他会话的项目
+      const projectInfo = this.findProjectInfo([file], new Map([[filePath, metadata]]), fileIndex)
+        || this.findFolderProjectInfo(path.dirname(filePath), fileIndex, file)
+      if (!projectInfo) {
+        logger.debug(`No project info found for session file yet: ${filePath}`, 'SessionManager')
+        continue
+      }
+
+      const project = this.createProject(projectInfo, data, lookup)
+      this.upsertSessionFromMetadata(metadata, project, file, data, lookup, diff)
+    }
+
+    this.pruneEmptyProjects(data)
+
+    if (diff.added.length > 0 || diff.updated.length > 0 || diff.removed.length > 0) {
+      this.saveData(data)
+      logger.debug(`Session files synced: ${diff.added.length} added, ${diff.updated.length} updated, ${diff.removed.length} removed.`, 'SessionManager')
+    }
+    return diff
+  }
+
+  private async syncProjectFolder(projectFolder: string, projectsDir: string, data: StoreData, lookup: SyncLookup, seenFiles: Set<string>, diff: SessionSyncDiff): Promise<number> {
     const projectFolderPath = path.join(projectsDir, projectFolder)
-    const allSessionFiles = fs.readdirSync(projectFolderPath).filter(f => f.endsWith('.jsonl'))
-    const sessionFiles = allSessionFiles
-      .map(file => ({
-        name: file,
-        path: path.join(projectFolderPath, file),
-        stats: fs.statSync(path.join(projectFolderPath, file))
-      }))
-      .sort((a, b) => b.stats.mtime.getTime() - a.stats.mtime.getTime())
-      .slice(0, 20)
-      .map(item => item.name)
-    
-    if (allSessionFiles.length > 20) {
-      logger.info(`Project ${projectFolder} has ${allSessionFiles.length} sessions, loading latest 20`, 'SessionManager')
-    }
-    
-    const projectInfo = this.findProjectInfo(sessionFiles, projectFolderPath)
+    const fileIndex = data.fileIndex!
+    const sessionFiles: SessionFileInfo[] = []
+
+    for (const file of await fs.promises.readdir(projectFolderPath)) {
+      if (!file.endsWith('.jsonl')) {
+        continue
+      }
+      const filePath = path.join(projectFolderPath, file)
+      try {
+        sessionFiles.push({ name: file, path: filePath, stats: await fs.promises.stat(filePath) })
+      } catch (error) {
+        // 文件可能在列出目录后被删除
+      }
+    }
+    sessionFiles.sort((a, b) => b.stats.mtime.getTime() - a.stats.mtime.getTime())
+
+    // 只重新读取新增或mtime/size发生变化的文件
+    const changedFiles = new Map<string, SessionFileMetadata>()
+    for (const file of sessionFiles) {
+      if (this.hasFileChanged(file, fileIndex[file.path], lookup)) {
+        const metadata = await this.readSessionFile(file.path)
+        if (metadata) {
+          changedFiles.set(file.path, metadata)
+        }
+      }
+    }
+
+    const projectInfo = this.findProjectInfo(sessionFiles, changedFiles, fileIndex)
     if (!projectInfo) {
       logger.warn(`No project info found in folder: ${projectFolder}`, 'SessionManager')
-      return { project: null, sessionsCount: 0 }
+      return changedFiles.size
     }
 
-    const project = this.createProject(projectInfo, data)
-    const sessionsCount = this.syncProjectSessions(sessionFiles, projectFolderPath, project, data)
-    
-    return { project, sessionsCount }
+    const project = this.createProject(projectInfo, data, lookup)
+
+    for (const file of sessionFiles) {
+      const metadata = changedFiles.get(file.path)
+      if (metadata) {
+        this.upsertSessionFromMetadata(metadata, project, file, data, lookup, diff)
+      }
+      if (fileIndex[file.path]) {
+        seenFiles.add(file.path)
+      }
+    }
+
+    return changedFiles.size
   }
 
-  private findProjectInfo(sessionFiles: string[], projectFolderPath: string): { path: string, name: string, timestamp: string } | null {
-    for (const sessionFile of sessionFiles) {
-      try {
-        const sessionFilePath = path.join(projectFolderPath, sessionFile)
-        const sessionData = fs.readFileSync(sessionFilePath, 'utf-8')
-          .split('\n')
-          .filter(line => line.trim() !== '')
-          .map(line => JSON.parse(line))
-        
-        const entryWithCwd = sessionData.find(entry => entry.cwd)
-        if (entryWithCwd) {
-          return {
-            path: entryWithCwd.cwd,
-            name: path.basename(entryWithCwd.cwd || ""),
-            timestamp: entryWithCwd.timestamp
-          }
+  /**
+   * 创建同步期间使用的会话和项目查找表
+   */
+  private createLookup(data: StoreData): SyncLookup {
+    const lookup: SyncLookup = { sessions: new Map(), projects: new Map() }
+    for (const session of data.sessions) {
+      if (session.claudeSessionId && !lookup.sessions.has(session.claudeSessionId)) {
+        lookup.sessions.set(session.claudeSessionId, session)
+      }
+    }
+    for (const project of data.projects) {
+      if (!lookup.projects.has(project.path)) {
+        lookup.projects.set(project.path, project)
+      }
+    }
+    return lookup
+  }
+
+  private hasFileChanged(file: SessionFileInfo, state: SessionFileState | undefined, lookup: SyncLookup): boolean {
+    if (!state || state.mtimeMs !== file.stats.mtimeMs || state.size !== file.stats.size) {
+      return true
+    }
+    // 索引存在但会话记录丢失（例如被手动删除）或尚未统计用量（旧版本存储）时也需要重新读取
+    const session = lookup.sessions.get(state.claudeSessionId)
+    return !session || !session.usage
+  }
+
+  private async readSessionFile(sessionFilePath: string): Promise<SessionFileMetadata | null> {
+    try {
+      return await readSessionFileMetadata(sessionFilePath)
+    } catch (error) {
+      logger.error(`Failed to read session file: ${sessionFilePath}`, 'SessionManager', error as Error)
+      return null
+    }
+  }
+
+  private findProjectInfo(sessionFiles: SessionFileInfo[], changedFiles: Map<string, SessionFileMetadata>, fileIndex: Record<string, SessionFileState>): { path: string, name: string, timestamp: string } | null {
+    for (const file of sessionFiles) {
+      const metadata = changedFiles.get(file.path)
+      const cwd = metadata ? metadata.cwd : fileIndex[file.path]?.cwd
+      if (cwd) {
+        return {
+          path: cwd,
+          name: path.basename(cwd),
+          timestamp: metadata?.firstTimestamp || new Date(file.stats.birthtimeMs || file.stats.mtimeMs).toISOString()
         }
-      } catch (error) {
-        logger.error(`Failed to read session file: ${sessionFile}`, 'SessionManager', error as Error)
       }
     }
     return null
   }
 
-  private createProject(projectInfo: { path: string, name: string, timestamp: string }, data: StoreData): Project {
-    let existingProject = data.projects.find(p => p.path === projectInfo.path)
+  private findFolderProjectInfo(folderPath: string, fileIndex: Record<string, SessionFileState>, file: SessionFileInfo): { path: string, name: string, timestamp: string } | null {
+    for (const [indexedPath, state] of Object.entries(fileIndex)) {
+      if (state.cwd && path.dirname(indexedPath) === folderPath) {
+        return {
+          path: state.cwd,
+          name: path.basename(state.cwd),
+          timestamp: new Date(file.stats.birthtimeMs || file.stats.mtimeMs).toISOString()
+        }
+      }
+    }
+    return null
+  }
+
+  private createProject(projectInfo: { path: string, name: string, timestamp: string }, data: StoreData, lookup: SyncLookup): Project {
+    let existingProject = lookup.projects.get(projectInfo.path)
     if (!existingProject) {
       let createdAt: string
       try {
@@ -113,7 +246,7 @@ export class ClaudeSyncManager {
       } catch (error) {
         createdAt = new Date().toISOString()
       }
-      
+
       existingProject = {
         id: uuidv4(),
         name: projectInfo.name,
@@ -122,48 +255,46 @@ export class ClaudeSyncManager {
         sessions: [],
       }
       data.projects.push(existingProject)
+      lookup.projects.set(existingProject.path, existingProject)
       logger.debug(`Created project: ${projectInfo.name} (${existingProject.id}) from ${projectInfo.path}`, 'SessionManager')
     }
     return existingProject
   }
 
-  private syncProjectSessions(sessionFiles: string[], projectFolderPath: string, project: Project, data: StoreData): number {
-    let sessionsCount = 0
-    
-    for (const sessionFile of sessionFiles) {
-      try {
-        const sessionFilePath = path.join(projectFolderPath, sessionFile)
-        const sessionData = fs.readFileSync(sessionFilePath, 'utf-8')
-          .split('\n')
-          .filter(line => line.trim() !== '')
-          .map(line => JSON.parse(line))
-        
-        if (sessionData.length > 0) {
-          const session = this.createSessionFromData(sessionData, project, sessionFilePath, data)
-          if (session) {
-            sessionsCount++
-          }
-        }
-      } catch (error) {
-        logger.error(`Failed to process session file: ${sessionFile}`, 'SessionManager', error as Error)
-      }
+  private upsertSessionFromMetadata(metadata: SessionFileMetadata, project: Project, file: SessionFileInfo, data: StoreData, lookup: SyncLookup, diff: SessionSyncDiff): void {
+    const claudeSessionId = metadata.sessionId || path.basename(file.path, '.jsonl')
+
+    data.fileIndex![file.path] = {
+      mtimeMs: file.stats.mtimeMs,
+      size: file.stats.size,
+      claudeSessionId,
+      cwd: metadata.cwd
     }
-    
-    return sessionsCount
-  }
 
-  private createSessionFromData(sessionData: any[], project: Project, sessionFilePath: string, data: StoreData): Session | null {
-    const firstEntry = sessionData[0]
-    const claudeSessionId = firstEntry.sessionId
-    
-    let existingSession = data.sessions.find(s => s.claudeSessionId === claudeSessionId)
+    const existingSession = lookup.sessions.get(claudeSessionId)
+
+    // 同一Claude会话ID已由另一个仍存在的文件提供时，保留先前的记录
+    if (existingSession && existingSession.filePath && existingSession.filePath !== file.path && fs.existsSync(existingSession.filePath)) {
+      return
+    }
+
+    const sessionName = this.generateSessionName(metadata.firstUserMessage, claudeSessionId)
+    const { createdAt, lastActiveAt } = this.extractSessionTimes(metadata)
+
     if (existingSession) {
-      return null
+      // 保留稳定的会话ID，只更新从文件中解析出的字段
+      Object.assign(existingSession, {
+        name: sessionName,
+        projectId: project.id,
+        createdAt,
+        lastActiveAt,
+        filePath: file.path,
+        usage: metadata.usage
+      })
+      diff.updated.push(existingSession)
+      return
     }
 
-    const sessionName = this.generateSessionName(sessionData, claudeSessionId)
-    const { createdAt, lastActiveAt } = this.extractSessionTimes(sessionData, firstEntry)
-    
     const session: Session = {
       id: uuidv4(),
       name: sessionName,
@@ -172,56 +303,86 @@ export class ClaudeSyncManager {
       lastActiveAt,
       claudeSessionId,
       isTemporary: false,
-      filePath: sessionFilePath,
+      filePath: file.path,
+      usage: metadata.usage,
     }
-    
+
     data.sessions.push(session)
-    return session
+    lookup.sessions.set(claudeSessionId, session)
+    diff.added.push(session)
   }
 
-  private generateSessionName(sessionData: any[], claudeSessionId: string): string {
-    const firstUserMessage = sessionData.find(msg => msg.type === 'user')
-    
-    if (firstUserMessage && firstUserMessage.message && firstUserMessage.message.content) {
-      let content: string
-      if (typeof firstUserMessage.message.content === 'string') {
-        content = firstUserMessage.message.content
-      } else if (Array.isArray(firstUserMessage.message.content)) {
-        const textContent = firstUserMessage.message.content.find((item: any) => item.type === 'text')
-        content = textContent ? textContent.text : String(firstUserMessage.message.content)
-      } else {
-        content = String(firstUserMessage.message.content)
-      }
-      
+  private removeMissingSessions(data: StoreData, seenFiles: Set<string>, diff: SessionSyncDiff): void {
+    const fileIndex = data.fileIndex!
+
+    for (const filePath of Object.keys(fileIndex)) {
+      if (!seenFiles.has(filePath)) {
+        delete fileIndex[filePath]
+      }
+    }
+
+    data.sessions = data.sessions.filter(session => {
+      if (session.isTemporary || !session.filePath || seenFiles.has(session.filePath)) {
+        return true
+      }
+      diff.removed.push(session)
+      return false
+    })
+
+    this.pruneEmptyProjects(data)
+  }
+
+  private removeSessionFile(filePath: string, data: StoreData, lookup: SyncLookup, diff: SessionSyncDiff): void {
+    delete data.fileIndex![filePath]
+
+    data.sessions = data.sessions.filter(session => {
+      if (session.isTemporary || session.filePath !== filePath) {
+        return true
+      }
+      if (session.claudeSessionId && lookup.sessions.get(session.claudeSessionId) === session) {
+        lookup.sessions.delete(session.claudeSessionId)
+      }
+      diff.removed.push(session)
+      return false
+    })
+  }
+
+  private pruneEmptyProjects(data: StoreData): void {
+    // 清理已经没有会话的项目
+    const usedProjectIds = new Set(data.sessions.map(session => session.projectId))
+    data.projects = data.projects.filter(project => usedProjectIds.has(project.id))
+  }
+
+  private generateSessionName(firstUserMessage: string | undefined, claudeSessionId: string): string {
+    if (firstUserMessage) {
+      let content = firstUserMessage
       content = content.replace(/cd\s+"[^"]*"|cd\s+\S+/g, '').trim()
       content = content.replace(/\n|\r/g, ' ').trim()
       if (content.length > 3) {
         return content.substring(0, 50).trim()
       }
     }
-    
+
     return `Session ${claudeSessionId}`
   }
 
-  private extractSessionTimes(sessionData: any[], firstEntry: any): { createdAt: string, lastActiveAt: string } {
-    const lastMessage = sessionData[sessionData.length - 1]
-    
+  private extractSessionTimes(metadata: SessionFileMetadata): { createdAt: string, lastActiveAt: string } {
     let createdAt: string
     try {
-      createdAt = firstEntry.timestamp ? new Date(firstEntry.timestamp).toISOString() : new Date().toISOString()
+      createdAt = metadata.firstTimestamp ? new Date(metadata.firstTimestamp).toISOString() : new Date().toISOString()
     } catch (error) {
       createdAt = new Date().toISOString()
     }
-    
+
     let lastActiveAt: string
     try {
-      lastActiveAt = lastMessage && lastMessage.timestamp 
-        ? new Date(lastMessage.timestamp).toISOString() 
+      lastActiveAt = metadata.lastTimestamp
+        ? new Date(metadata.lastTimestamp).toISOString()
         : createdAt
     } catch (error) {
       lastActiveAt = createdAt
     }
-    
+
     return { createdAt, lastActiveAt }
   }
-}
\ No newline at end of file
+}
@@ -18,5 +18,11 @@ export { SessionDataManager } from './session-data-manager'
 /** Claude同步管理器 - 与Claude CLI本地数据进行同步 */
 export { ClaudeSyncManager } from './claude-sync-manager'
 
+/** Claude项目目录监听器 - 监听CLI会话文件变化并增量同步 */
+export { ClaudeProjectsWatcher } from './claude-projects-watcher'
+
+/** 会话文件读取 - 流式读取JSONL会话文件的元数据 */
+export { readSessionFileMetadata, createEmptyUsage, addUsage } from './session-file-reader'
+
 /** 导出所有类型定义 */
 export * from './types'
\ No newline at end of file
@@ -0,0 +1,216 @@
+import * as fs from 'fs'
+import * as readline from 'readline'
+import { SessionFileMetadata } from './types'
+import { TokenUsage, UsageBucket } from '../shared/types'
+
+/** 保留的最近几行包含timestamp的记录，文件读完后从中解析最后一个顶层时间戳 */
+const LAST_TIMESTAMP_LOOKBACK = 20
+
+/** CLI本地生成（未调用API）的消息使用的模型名 */
+const SYNTHETIC_MODEL = '<synthetic>'
+
+/**
+ * 单条助手消息的用量记录
+ */
+interface MessageUsage {
+  model: string
+  timestamp: string
+  usage: TokenUsage
+}
+
+/**
+ * 以流的方式逐行读取Claude会话JSONL文件，只提取会话树需要的元数据
+ * 头部字段（会话ID、工作目录、首条用户消息）和第一个时间戳找齐后不再逐行解析JSON；
+ * 时间戳只取记录顶层的timestamp字段，消息内容中嵌套的同名字段不计入
+ * @param filePath - 会话文件路径
+ * @returns 会话元数据，文件为空或无法读取时返回null
+ */
+export async function readSessionFileMetadata(filePath: string): Promise<SessionFileMetadata | null> {
+  const metadata: SessionFileMetadata = { entryCount: 0, usage: { total: createEmptyUsage(), buckets: [] } }
+  // 同一条助手消息会按内容块拆成多行且携带相同的usage，按message.id去重
+  const messageUsages = new Map<string, MessageUsage>()
+  const timestampLines: string[] = []
+  const stream = fs.createReadStream(filePath, { encoding: 'utf-8' })
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity })
+
+  try {
+    for await (const line of lines) {
+      if (line.trim() === '') {
+        continue
+      }
+      metadata.entryCount++
+
+      const hasTimestamp = line.includes('"timestamp"')
+      if (!hasHeaderFields(metadata) || (hasTimestamp && !metadata.firstTimestamp)) {
+        try {
+          const entry = JSON.parse(line)
+          collectHeaderFields(metadata, entry)
+          metadata.firstTimestamp = metadata.firstTimestamp || getEntryTimestamp(entry)
+        } catch (error) {
+          // 忽略无法解析的行（例如CLI正在写入的半行）
+        }
+      }
+
+      if (hasTimestamp) {
+        timestampLines.push(line)
+        if (timestampLines.length > LAST_TIMESTAMP_LOOKBACK) {
+          timestampLines.shift()
+        }
+      }
+
+      // 只有带usage的助手消息才需要完整解析
+      if (line.includes('"usage"') && line.includes('"assistant"')) {
+        collectMessageUsage(messageUsages, line)
+      }
+    }
+  } finally {
+    lines.close()
+    stream.destroy()
+  }
+
+  metadata.lastTimestamp = findLastTimestamp(timestampLines) || metadata.firstTimestamp
+
+  metadata.usage = aggregateUsage(messageUsages.values())
+  return metadata.entryCount > 0 ? metadata : null
+}
+
+/**
+ * 创建空的用量统计
+ */
+export function createEmptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, requests: 0 }
+}
+
+/**
+ * 将用量累加到目标统计
+ */
+export function addUsage(target: TokenUsage, usage: TokenUsage): void {
+  target.inputTokens += usage.inputTokens
+  target.outputTokens += usage.outputTokens
+  target.cacheCreationInputTokens += usage.cacheCreationInputTokens
+  target.cacheReadInputTokens += usage.cacheReadInputTokens
+  target.requests += usage.requests
+}
+
+/**
+ * 从助手消息记录中收集用量
+ */
+function collectMessageUsage(messageUsages: Map<string, MessageUsage>, line: string): void {
+  let entry: any
+  try {
+    entry = JSON.parse(line)
+  } catch (error) {
+    return
+  }
+
+  const message = entry.message
+  const timestamp = getEntryTimestamp(entry)
+  if (entry.type !== 'assistant' || !message || !message.usage || !timestamp || message.model === SYNTHETIC_MODEL) {
+    return
+  }
+
+  const usage = message.usage
+  messageUsages.set(message.id || entry.uuid || `${messageUsages.size}`, {
+    model: message.model || 'unknown',
+    timestamp,
+    usage: {
+      inputTokens: usage.input_tokens || 0,
+      outputTokens: usage.output_tokens || 0,
+      cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+      cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+      requests: 1
+    }
+  })
+}
+
+/**
+ * 按小时和模型汇总消息用量
+ */
+function aggregateUsage(messageUsages: Iterable<MessageUsage>): SessionFileMetadata['usage'] {
+  const total = createEmptyUsage()
+  const buckets = new Map<string, UsageBucket>()
+
+  for (const { model, timestamp, usage } of messageUsages) {
+    const date = new Date(timestamp)
+    if (isNaN(date.getTime())) {
+      continue
+    }
+    date.setUTCMinutes(0, 0, 0)
+    const hour = date.toISOString()
+    const key = `${hour}|${model}`
+
+    let bucket = buckets.get(key)
+    if (!bucket) {
+      bucket = { hour, model, lastAt: timestamp, usage: createEmptyUsage() }
+      buckets.set(key, bucket)
+    }
+    if (timestamp > bucket.lastAt) {
+      bucket.lastAt = timestamp
+    }
+    addUsage(bucket.usage, usage)
+    addUsage(total, usage)
+  }
+
+  return { total, buckets: Array.from(buckets.values()) }
+}
+
+/**
+ * 获取记录顶层的时间戳
+ */
+function getEntryTimestamp(entry: any): string | undefined {
+  return entry && typeof entry.timestamp === 'string' && entry.timestamp ? entry.timestamp : undefined
+}
+
+/**
+ * 从最近的候选行中倒序查找最后一个顶层时间戳
+ * 候选行只是包含timestamp字样，可能只有嵌套的同名字段（如文件快照记录），需要解析确认
+ */
+function findLastTimestamp(lines: string[]): string | undefined {
+  for (let index = lines.length - 1; index >= 0; index--) {
+    try {
+      const timestamp = getEntryTimestamp(JSON.parse(lines[index]))
+      if (timestamp) {
+        return timestamp
+      }
+    } catch (error) {
+      // 忽略无法解析的行
+    }
+  }
+  return undefined
+}
+
+/**
+ * 头部字段是否已经全部找到
+ */
+function hasHeaderFields(metadata: SessionFileMetadata): boolean {
+  return !!metadata.sessionId && !!metadata.cwd && metadata.firstUserMessage !== undefined
+}
+
+/**
+ * 从一条记录中收集尚未找到的头部字段
+ */
+function collectHeaderFields(metadata: SessionFileMetadata, entry: any): void {
+  if (!metadata.sessionId && entry.sessionId) {
+    metadata.sessionId = entry.sessionId
+  }
+  if (!metadata.cwd && entry.cwd) {
+    metadata.cwd = entry.cwd
+  }
+  if (metadata.firstUserMessage === undefined && entry.type === 'user' && entry.message && entry.message.content) {
+    metadata.firstUserMessage = extractMessageText(entry.message.content)
+  }
+}
+
+/**
+ * 提取消息内容中的文本
+ */
+function extractMessageText(content: any): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  if (Array.isArray(content)) {
+    const textContent = content.find((item: any) => item.type === 'text')
+    return textContent ? textContent.text : String(content)
+  }
+  return String(content)
+}
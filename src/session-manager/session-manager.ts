@@ -1,12 +1,13 @@
 import * as vscode from 'vscode'
+import { EventEmitter } from 'events'
 import { UnifiedConfigManager } from '../shared/config-manager'
-import { Session, Project, StoreData } from './types'
+import { Session, Project, StoreData, SessionSyncDiff } from './types'
 import { StorageManager } from './storage-manager'
 import { ProjectManager } from './project-manager'
 import { SessionDataManager } from './session-data-manager'
 import { ClaudeSyncManager } from './claude-sync-manager'
 
-export class SessionManager {
+export class SessionManager extends EventEmitter {
   private data: StoreData
   private _configManager: UnifiedConfigManager | null = null
   private _context: vscode.ExtensionContext
@@ -15,8 +16,11 @@ export class SessionManager {
   private projectManager: ProjectManager
   private sessionDataManager: SessionDataManager
   private claudeSyncManager: ClaudeSyncManager
+  private syncPromise: Promise<SessionSyncDiff> | null = null
+  private syncQueue: Promise<void> = Promise.resolve()
 
   constructor(context: vscode.ExtensionContext, configManager?: UnifiedConfigManager) {
+    super()
     this._context = context
     this._configManager = configManager || null
     
@@ -103,7 +107,28 @@ export class SessionManager {
   }
 
   // Claude Sync Methods
-  public syncWithClaudeDirectory(): void {
-    this.claudeSyncManager.syncWithClaudeDirectory()
+  public syncWithClaudeDirectory(): Promise<SessionSyncDiff> {
+    // 全量同步进行中时复用同一次同步
+    if (!this.syncPromise) {
+      this.syncPromise = this.enqueueSync(() => this.claudeSyncManager.syncWithClaudeDirectory())
+        .finally(() => {
+          this.syncPromise = null
+        })
+    }
+    return this.syncPromise
+  }
+
+  public syncSessionFiles(filePaths: string[]): Promise<SessionSyncDiff> {
+    return this.enqueueSync(() => this.claudeSyncManager.syncSessionFiles(filePaths))
+  }
+
+  // 同步任务串行执行，避免并发修改存储数据
+  private enqueueSync(task: () => Promise<SessionSyncDiff>): Promise<SessionSyncDiff> {
+    const run = this.syncQueue.then(task).then(diff => {
+      this.emit('sessions:synced', diff)
+      return diff
+    })
+    this.syncQueue = run.then(() => undefined, () => undefined)
+    return run
   }
 }
\ No newline at end of file
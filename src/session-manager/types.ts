@@ -1,4 +1,40 @@
-import { Session, Project } from '../shared/types'
+import { Session, Project, SessionUsage } from '../shared/types'
+
+/**
+ * 会话文件状态接口
+ * 记录已同步JSONL文件的元数据，用于增量同步时判断文件是否变化
+ */
+export interface SessionFileState {
+  /** 文件修改时间（毫秒） */
+  mtimeMs: number
+  /** 文件大小（字节） */
+  size: number
+  /** 文件对应的Claude CLI会话ID */
+  claudeSessionId: string
+  /** 文件中记录的工作目录（可选） */
+  cwd?: string
+}
+
+/**
+ * 会话文件元数据接口
+ * 流式读取JSONL文件时提取的、会话树需要的最少信息
+ */
+export interface SessionFileMetadata {
+  /** Claude CLI会话ID（可选） */
+  sessionId?: string
+  /** 工作目录（可选） */
+  cwd?: string
+  /** 首条用户消息文本（可选） */
+  firstUserMessage?: string
+  /** 首条记录时间戳（可选） */
+  firstTimestamp?: string
+  /** 末条记录时间戳（可选） */
+  lastTimestamp?: string
+  /** 非空记录行数 */
+  entryCount: number
+  /** 助手消息的令牌用量统计 */
+  usage: SessionUsage
+}
 
 /**
  * 存储数据接口
@@ -9,10 +45,25 @@ export interface StoreData {
   projects: Project[]
   /** 会话列表 */
   sessions: Session[]
+  /** 已同步的会话文件索引，键为文件路径（旧版本存储中可能不存在） */
+  fileIndex?: Record<string, SessionFileState>
+}
+
+/**
+ * 会话同步差异接口
+ * 描述一次增量同步中新增、更新和移除的会话
+ */
+export interface SessionSyncDiff {
+  /** 新增的会话 */
+  added: Session[]
+  /** 内容发生变化的会话 */
+  updated: Session[]
+  /** 对应文件已不存在的会话 */
+  removed: Session[]
 }
 
 /**
  * 重新导出共享类型
  * 为了方便其他模块使用，重新导出核心数据类型
  */
-export { Session, Project }
\ No newline at end of file
+export { Session, Project }
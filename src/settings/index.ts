@@ -6,6 +6,9 @@
 /** 统一配置管理器 */
 export { UnifiedConfigManager } from '../shared/config-manager'
 
+/** 密钥存储管理器 */
+export { SecretStorageManager } from '../shared/secret-storage'
+
 /** 导出类型定义 */
 export * from './types'
 export * from '../shared/types'
\ No newline at end of file
@@ -10,8 +10,29 @@ import {
   ClaudeAccountConfig,
   ThirdPartyAccountConfig,
   ServiceProviderConfig,
-  ServiceProviderType
+  ServiceProviderType,
+  ModelPrice,
+  DEFAULT_MODEL_PRICING,
+  AccountBinding,
+  PermissionMode,
+  LaunchProfile,
+  FailoverGroup,
+  AccountCooldown,
+  KeySelectionStrategy,
+  ModelFamily,
+  LaunchMode,
+  ProviderProtocol,
+  ProxyProfile,
+  ResolvedProxy
 } from './types'
+import { v4 as uuidv4 } from 'uuid'
+import { SecretStorageManager } from './secret-storage'
+import { ModelMapper } from './model-mapper'
+import { KeySelectionState, pickKey } from './key-selection'
+import { IpcServer, AccountFailoverPayload, KeySelectResponse, SecretResponse, hashAuthorization } from '../ipc'
+
+/** 模型映射，与拦截器共用同一实现 */
+const modelMapper = new ModelMapper()
 
 /**
  * 统一配置管理器
@@ -20,11 +41,24 @@ import {
  */
 export class UnifiedConfigManager extends EventEmitter {
   private readonly configSection = CONFIG_CONSTANTS.CONFIGURATION_SECTION
+  /** 拦截器的密钥授权，授权令牌到终端绑定账号复合ID的对应关系 */
+  private secretGrants = new Map<string, string>()
+  /** 密钥选择状态，网关和各终端中的拦截器共用 */
+  private keySelectionState: KeySelectionState = { lastKeys: {}, keyUsage: {} }
+  /** 冷却记录的内存副本，按文件修改时间刷新，避免每次选择密钥都读取文件 */
+  private cooldownCache: { cooldowns: Record<string, AccountCooldown>, mtimeMs: number, checkedAt: number } = {
+    cooldowns: {},
+    mtimeMs: -1,
+    checkedAt: 0
+  }
 
-  constructor() {
+  /**
+   * 构造函数
+   * @param secretStorage - 密钥存储管理器，负责API密钥和授权令牌的安全存储
+   */
+  constructor(private secretStorage: SecretStorageManager) {
     super()
     this.setupConfigWatcher()
-    this.setupInterceptorListener()
   }
 
   // =============================================================================
@@ -39,6 +73,7 @@ export class UnifiedConfigManager extends EventEmitter {
     
     return {
       proxyConfig: config.get('proxyConfig', defaultPluginConfig.proxyConfig),
+      proxyProfiles: config.get('proxyProfiles', defaultPluginConfig.proxyProfiles),
       serviceProviders: config.get('serviceProviders', defaultPluginConfig.serviceProviders),
       activeServiceProviderId: config.get('activeServiceProviderId', defaultPluginConfig.activeServiceProviderId)
     }
@@ -90,6 +125,319 @@ export class UnifiedConfigManager extends EventEmitter {
     this.emit('proxy:updated', updated)
   }
 
+  /**
+   * 获取所有代理配置档
+   */
+  getProxyProfiles(): ProxyProfile[] {
+    return this.getConfig().proxyProfiles.filter(profile => profile && profile.name && profile.url)
+  }
+
+  /**
+   * 按名称查找代理配置档
+   */
+  getProxyProfile(name: string): ProxyProfile | undefined {
+    return this.getProxyProfiles().find(profile => profile.name === name)
+  }
+
+  /**
+   * 添加或更新代理配置档
+   * @param profile - 代理配置档，密码为明文时自动转存到SecretStorage
+   */
+  async addOrUpdateProxyProfile(profile: ProxyProfile): Promise<void> {
+    if (profile.password && !this.secretStorage.isReference(profile.password)) {
+      const password = await this.secretStorage.store(this.secretStorage.getProxyPasswordKey(profile.name), profile.password)
+      profile = { ...profile, password }
+    }
+
+    const profiles = this.getProxyProfiles()
+    const existingIndex = profiles.findIndex(p => p.name === profile.name)
+    if (existingIndex >= 0) {
+      profiles[existingIndex] = profile
+    } else {
+      profiles.push(profile)
+    }
+
+    await this.updateConfig({ proxyProfiles: profiles })
+    this.emit('proxy:updated', profile)
+  }
+
+  /**
+   * 设置提供商使用的代理
+   * @param providerId - 提供商ID
+   * @param useProxy - 未引用代理配置档时是否使用全局代理
+   * @param proxyProfile - 代理配置档名称（可选）
+   */
+  async setProviderProxy(providerId: string, useProxy: boolean, proxyProfile?: string): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider) {
+      throw new Error(`Provider not found: ${providerId}`)
+    }
+
+    await this.addOrUpdateServiceProvider({ ...provider, useProxy, proxyProfile })
+  }
+
+  /**
+   * 获取账号所属提供商引用的代理配置档
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @returns 代理配置档，未引用或配置档不存在时返回undefined
+   */
+  getProviderProxyProfile(compositeId: string): ProxyProfile | undefined {
+    const providerId = compositeId.split(':')[0]
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    return provider?.proxyProfile ? this.getProxyProfile(provider.proxyProfile) : undefined
+  }
+
+  /**
+   * 解析提供商使用的代理
+   * 提供商引用了代理配置档时使用该配置档；否则在提供商启用代理且全局代理已启用时使用全局代理
+   * @param providerId - 提供商ID（可选），不传入时只看全局代理
+   * @returns 解析后的代理，不使用代理时返回undefined
+   */
+  async resolveProviderProxy(providerId?: string): Promise<ResolvedProxy | undefined> {
+    const provider = providerId ? this.getServiceProviders().find(p => p.id === providerId) : undefined
+
+    if (provider?.proxyProfile) {
+      const profile = this.getProxyProfile(provider.proxyProfile)
+      if (!profile) {
+        console.warn(`Proxy profile "${provider.proxyProfile}" of ${provider.name} not found, connecting directly`)
+        return undefined
+      }
+
+      const password = await this.secretStorage.resolve(profile.password)
+      return {
+        url: this.createProxyUrl(profile.url, profile.username, password),
+        noProxy: profile.noProxy || [],
+        profile: profile.name
+      }
+    }
+
+    const proxyConfig = this.getProxyConfig()
+    if (provider?.useProxy === false || !proxyConfig.enabled || !proxyConfig.url) {
+      return undefined
+    }
+    return {
+      url: this.createProxyUrl(proxyConfig.url, proxyConfig.auth?.username, proxyConfig.auth?.password),
+      noProxy: []
+    }
+  }
+
+  /**
+   * 生成包含认证信息的代理URL，URL无效时原样返回
+   */
+  private createProxyUrl(proxyUrl: string, username?: string, password?: string): string {
+    if (!username) {
+      return proxyUrl
+    }
+    try {
+      const url = new URL(proxyUrl)
+      url.username = username
+      url.password = password || ''
+      return url.toString()
+    } catch (error) {
+      console.warn('Failed to add auth to proxy URL:', (error as Error).message)
+      return proxyUrl
+    }
+  }
+
+  // =============================================================================
+  // 模型价格操作
+  // =============================================================================
+
+  /**
+   * 获取模型价格表（美元/百万令牌）
+   */
+  getModelPricing(): Record<string, ModelPrice> {
+    const config = vscode.workspace.getConfiguration(this.configSection)
+    return config.get('modelPricing', DEFAULT_MODEL_PRICING)
+  }
+
+  /**
+   * 查找模型对应的价格，取模型名称中匹配的最长片段
+   * @param model - 模型名称
+   * @returns 价格，未配置时返回null
+   */
+  getModelPrice(model: string): ModelPrice | null {
+    const pricing = this.getModelPricing()
+    const lowerModel = model.toLowerCase()
+    let matchedKey: string | null = null
+
+    for (const key of Object.keys(pricing)) {
+      if (lowerModel.includes(key.toLowerCase()) && (!matchedKey || key.length > matchedKey.length)) {
+        matchedKey = key
+      }
+    }
+
+    return matchedKey ? pricing[matchedKey] : null
+  }
+
+  // =============================================================================
+  // 权限模式操作
+  // =============================================================================
+
+  /**
+   * 获取启动Claude CLI使用的权限模式
+   * 工作区设置优先于用户设置，无效值回退到默认模式
+   */
+  getPermissionMode(): PermissionMode {
+    const config = vscode.workspace.getConfiguration(this.configSection)
+    const mode = config.get<PermissionMode>('permissionMode', CONFIG_CONSTANTS.DEFAULT_PERMISSION_MODE)
+    return CONFIG_CONSTANTS.PERMISSION_MODES.includes(mode) ? mode : CONFIG_CONSTANTS.DEFAULT_PERMISSION_MODE
+  }
+
+  /**
+   * 获取启动方式
+   */
+  getLaunchMode(): LaunchMode {
+    const config = vscode.workspace.getConfiguration(this.configSection)
+    const mode = config.get<LaunchMode>('launchMode', CONFIG_CONSTANTS.DEFAULT_LAUNCH_MODE)
+    return CONFIG_CONSTANTS.LAUNCH_MODES.includes(mode) ? mode : CONFIG_CONSTANTS.DEFAULT_LAUNCH_MODE
+  }
+
+  /**
+   * 获取本地网关端口，0表示由系统分配
+   */
+  getGatewayPort(): number {
+    const config = vscode.workspace.getConfiguration(this.configSection)
+    return config.get<number>('gatewayPort', 0)
+  }
+
+  // =============================================================================
+  // 启动配置操作
+  // =============================================================================
+
+  /**
+   * 获取所有启动配置
+   */
+  getLaunchProfiles(): LaunchProfile[] {
+    const config = vscode.workspace.getConfiguration(this.configSection)
+    return config.get<LaunchProfile[]>('launchProfiles', []).filter(profile => profile && profile.name)
+  }
+
+  /**
+   * 按名称查找启动配置
+   */
+  getLaunchProfile(name: string): LaunchProfile | undefined {
+    return this.getLaunchProfiles().find(profile => profile.name === name)
+  }
+
+  /**
+   * 获取当前工作区的默认启动配置
+   * @returns 启动配置，未设置或配置不存在时返回undefined
+   */
+  getDefaultLaunchProfile(): LaunchProfile | undefined {
+    const config = vscode.workspace.getConfiguration(this.configSection)
+    const name = config.get<string>('defaultLaunchProfile', '')
+    return name ? this.getLaunchProfile(name) : undefined
+  }
+
+  // =============================================================================
+  // 故障转移
+  // =============================================================================
+
+  /**
+   * 获取故障转移组
+   * 拦截器只能读取用户设置，因此只使用全局设置中的值
+   */
+  getFailoverGroups(): FailoverGroup[] {
+    const config = vscode.workspace.getConfiguration(this.configSection)
+    const groups = config.inspect<FailoverGroup[]>('failoverGroups')?.globalValue || []
+    return groups.filter(group => group && typeof group.name === 'string' && Array.isArray(group.accounts))
+  }
+
+  /**
+   * 获取账号所在的故障转移组
+   * @param compositeId - 复合ID（providerId:accountId）
+   */
+  getFailoverGroup(compositeId: string): FailoverGroup | undefined {
+    return this.getFailoverGroups().find(group => group.accounts.includes(compositeId))
+  }
+
+  /**
+   * 获取账号当前的冷却记录
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @returns 冷却记录，不在冷却期时返回null
+   */
+  getAccountCooldown(compositeId: string): AccountCooldown | null {
+    const cooldown = this.getCooldowns()[compositeId]
+    return cooldown && cooldown.until > Date.now() ? cooldown : null
+  }
+
+  /**
+   * 记录账号冷却
+   * 写入冷却记录文件，其他终端的拦截器选择备用账号时会跳过冷却中的账号
+   * @param cooldown - 冷却记录
+   */
+  recordAccountCooldown(cooldown: AccountCooldown): void {
+    const now = Date.now()
+    // 写入前强制重新检查文件，保留其他窗口刚写入的记录
+    this.cooldownCache.checkedAt = 0
+    const cooldowns = Object.fromEntries(
+      Object.entries(this.getCooldowns()).filter(([, entry]) => entry.until > now)
+    )
+    cooldowns[cooldown.compositeId] = cooldown
+
+    try {
+      const filePath = this.getCooldownFilePath()
+      fs.writeFileSync(filePath, JSON.stringify(cooldowns, null, 2))
+      this.cooldownCache = { cooldowns, mtimeMs: fs.statSync(filePath).mtimeMs, checkedAt: now }
+    } catch (error) {
+      console.warn('⚠️ Failed to save account cooldowns:', error)
+      this.cooldownCache = { ...this.cooldownCache, cooldowns }
+    }
+  }
+
+  /**
+   * 记录一次故障转移
+   * 为出错的账号记录冷却并触发 'account:failover' 事件，拦截器和本地网关的故障转移都经过这里
+   * @param failover - 故障转移信息
+   */
+  reportAccountFailover(failover: AccountFailoverPayload): void {
+    const { group, from, status, cooldownUntil } = failover
+    this.recordAccountCooldown({ compositeId: from, until: cooldownUntil, status, group })
+    this.emit('account:failover', failover)
+  }
+
+  /**
+   * 获取冷却记录
+   * 返回内存副本；距上次检查超过刷新间隔时检查文件修改时间，文件变化后才重新读取
+   */
+  private getCooldowns(): Record<string, AccountCooldown> {
+    const now = Date.now()
+    if (now - this.cooldownCache.checkedAt < CONFIG_CONSTANTS.COOLDOWN_REFRESH_INTERVAL) {
+      return this.cooldownCache.cooldowns
+    }
+    this.cooldownCache.checkedAt = now
+
+    const filePath = this.getCooldownFilePath()
+    let mtimeMs: number
+    try {
+      mtimeMs = fs.statSync(filePath).mtimeMs
+    } catch {
+      // 文件被删除时清空记录；文件从未写入成功时保留内存中的记录
+      if (this.cooldownCache.mtimeMs !== -1) {
+        this.cooldownCache = { cooldowns: {}, mtimeMs: -1, checkedAt: now }
+      }
+      return this.cooldownCache.cooldowns
+    }
+
+    if (mtimeMs !== this.cooldownCache.mtimeMs) {
+      try {
+        this.cooldownCache.cooldowns = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      } catch {
+        this.cooldownCache.cooldowns = {}
+      }
+      this.cooldownCache.mtimeMs = mtimeMs
+    }
+    return this.cooldownCache.cooldowns
+  }
+
+  /**
+   * 获取冷却记录文件路径
+   */
+  private getCooldownFilePath(): string {
+    return path.join(os.homedir(), CONFIG_CONSTANTS.COOLDOWN_FILE)
+  }
+
   // =============================================================================
   // 服务提供商操作
   // =============================================================================
@@ -105,6 +453,9 @@ export class UnifiedConfigManager extends EventEmitter {
    * 添加或更新服务提供商
    */
   async addOrUpdateServiceProvider(provider: ServiceProviderConfig): Promise<void> {
+    // 写入设置前将明文密钥转存到SecretStorage
+    provider = await this.externalizeProviderSecrets(provider)
+
     const providers = this.getServiceProviders()
     const existingIndex = providers.findIndex(p => p.id === provider.id)
 
@@ -122,6 +473,7 @@ export class UnifiedConfigManager extends EventEmitter {
    * 删除服务提供商
    */
   async removeServiceProvider(providerId: string): Promise<void> {
+    const removedProvider = this.getServiceProviders().find(p => p.id === providerId)
     const providers = this.getServiceProviders().filter(p => p.id !== providerId)
     const config = this.getConfig()
 
@@ -133,9 +485,57 @@ export class UnifiedConfigManager extends EventEmitter {
     }
 
     await this.updateConfig(updates)
+    await this.pruneAccountReferences(compositeId => compositeId.split(':')[0] === providerId)
+
+    // 设置写入成功后再清理该提供商账号的密钥，写入失败时提供商仍然可用
+    if (removedProvider) {
+      await this.deleteProviderSecrets(removedProvider)
+    }
     this.emit('serviceProvider:removed', providerId)
   }
 
+  /**
+   * 重命名服务提供商
+   * @param providerId - 提供商ID
+   * @param name - 新名称
+   */
+  async renameServiceProvider(providerId: string, name: string): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider) {
+      throw new Error(`Provider not found: ${providerId}`)
+    }
+
+    await this.addOrUpdateServiceProvider({ ...provider, name })
+  }
+
+  /**
+   * 在同类型的提供商之间调整顺序
+   * 账号视图按设置中的顺序列出提供商，Claude官方账号始终在第三方提供商之前
+   * @param providerId - 提供商ID
+   * @param direction - 移动方向，-1为向前，1为向后
+   */
+  async moveServiceProvider(providerId: string, direction: -1 | 1): Promise<void> {
+    const providers = this.getServiceProviders()
+    const index = providers.findIndex(p => p.id === providerId)
+    if (index === -1) {
+      throw new Error(`Provider not found: ${providerId}`)
+    }
+
+    let target = index + direction
+    while (target >= 0 && target < providers.length && providers[target].type !== providers[index].type) {
+      target += direction
+    }
+    if (target < 0 || target >= providers.length) {
+      return
+    }
+
+    const provider = providers[index]
+    providers[index] = providers[target]
+    providers[target] = provider
+    await this.updateConfig({ serviceProviders: providers })
+    this.emit('serviceProvider:updated', provider)
+  }
+
   /**
    * 获取当前活动的服务提供商
    */
@@ -233,7 +633,17 @@ export class UnifiedConfigManager extends EventEmitter {
     const account = accounts.find(acc => acc.emailAddress === emailAddress)
     
     if (account) {
-      account.authorization = authorization
+      if (authorization) {
+        // 令牌写入SecretStorage，设置中只保留引用
+        account.authorization = await this.secretStorage.store(
+          this.secretStorage.getClaudeAuthorizationKey(emailAddress),
+          authorization
+        )
+      } else {
+        // 清空令牌时同时删除SecretStorage中的值
+        await this.secretStorage.delete(account.authorization)
+        account.authorization = undefined
+      }
       await this.addOrUpdateServiceProvider(provider)
       this.emit('claudeAccount:authUpdated', { emailAddress, authorization })
     }
@@ -242,9 +652,20 @@ export class UnifiedConfigManager extends EventEmitter {
   /**
    * 根据授权令牌查找Claude账号
    */
-  findClaudeAccountByAuthorization(authorization: string): ClaudeAccountConfig | null {
-    const accounts = this.getClaudeAccounts()
-    return accounts.find(acc => acc.authorization === authorization) || null
+  async findClaudeAccountByAuthorization(authorization: string): Promise<ClaudeAccountConfig | null> {
+    for (const account of this.getClaudeAccounts()) {
+      if (await this.secretStorage.resolve(account.authorization) === authorization) {
+        return account
+      }
+    }
+    return null
+  }
+
+  /**
+   * 获取Claude账号的明文授权令牌
+   */
+  async getClaudeAccountAuthorization(account: ClaudeAccountConfig): Promise<string | undefined> {
+    return this.secretStorage.resolve(account.authorization)
   }
 
   /**
@@ -334,8 +755,9 @@ export class UnifiedConfigManager extends EventEmitter {
 
   /**
    * 添加第三方账号
+   * @param protocol - 上游协议（可选），默认 anthropic
    */
-  async addThirdPartyAccount(providerName: string, account: ThirdPartyAccountConfig): Promise<void> {
+  async addThirdPartyAccount(providerName: string, account: ThirdPartyAccountConfig, protocol?: ProviderProtocol): Promise<void> {
     const providerId = `third_party_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     
     const provider: ServiceProviderConfig = {
@@ -344,13 +766,461 @@ export class UnifiedConfigManager extends EventEmitter {
       name: providerName,
       accounts: [account],
       activeAccountId: account.id,
-      useProxy: true
+      useProxy: true,
+      ...(protocol && protocol !== 'anthropic' ? { protocol } : {})
     }
 
     await this.addOrUpdateServiceProvider(provider)
     this.emit('thirdPartyAccount:added', { provider, account })
   }
 
+  /**
+   * 为第三方提供商添加密钥
+   * 同一网关的多个密钥作为同一提供商下的账号保存，由密钥选择策略在它们之间分配请求
+   * @param providerId - 第三方提供商ID
+   * @param account - 账号配置，apiKey为明文时自动转存到SecretStorage
+   */
+  async addThirdPartyKey(providerId: string, account: ThirdPartyAccountConfig): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      throw new Error(`Third-party provider not found: ${providerId}`)
+    }
+
+    const accounts = [...provider.accounts as ThirdPartyAccountConfig[], account]
+    await this.addOrUpdateServiceProvider({ ...provider, accounts })
+    this.emit('thirdPartyAccount:added', { provider, account })
+  }
+
+  /**
+   * 修改第三方账号
+   * @param providerId - 第三方提供商ID
+   * @param accountId - 账号ID
+   * @param updates - 要修改的字段，apiKey为明文时自动转存到SecretStorage并替换原密钥
+   */
+  async updateThirdPartyAccount(
+    providerId: string,
+    accountId: string,
+    updates: Partial<Pick<ThirdPartyAccountConfig, 'name' | 'baseUrl' | 'apiKey' | 'description'>>
+  ): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      throw new Error(`Third-party provider not found: ${providerId}`)
+    }
+    const account = (provider.accounts as ThirdPartyAccountConfig[]).find(acc => acc.id === accountId)
+    if (!account) {
+      throw new Error(`Third-party account not found: ${providerId}:${accountId}`)
+    }
+
+    const accounts = (provider.accounts as ThirdPartyAccountConfig[]).map(acc => acc.id === accountId ? { ...acc, ...updates } : acc)
+    await this.addOrUpdateServiceProvider({ ...provider, accounts })
+    this.emit('thirdPartyAccount:updated', { provider, account })
+  }
+
+  /**
+   * 修改第三方提供商所有账号的基础URL
+   * @param providerId - 第三方提供商ID
+   * @param baseUrl - 新的基础URL
+   */
+  async setProviderBaseUrl(providerId: string, baseUrl: string): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      throw new Error(`Third-party provider not found: ${providerId}`)
+    }
+
+    const accounts = (provider.accounts as ThirdPartyAccountConfig[]).map(account => ({ ...account, baseUrl }))
+    await this.addOrUpdateServiceProvider({ ...provider, accounts })
+    for (const account of accounts) {
+      this.emit('thirdPartyAccount:updated', { provider, account })
+    }
+  }
+
+  /**
+   * 删除第三方账号及其密钥
+   * 提供商至少保留一个账号，删除最后一个账号时应删除整个提供商
+   * @param providerId - 第三方提供商ID
+   * @param accountId - 账号ID
+   */
+  async removeThirdPartyAccount(providerId: string, accountId: string): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      throw new Error(`Third-party provider not found: ${providerId}`)
+    }
+    const account = (provider.accounts as ThirdPartyAccountConfig[]).find(acc => acc.id === accountId)
+    if (!account) {
+      throw new Error(`Third-party account not found: ${providerId}:${accountId}`)
+    }
+
+    const accounts = (provider.accounts as ThirdPartyAccountConfig[]).filter(acc => acc.id !== accountId)
+    if (accounts.length === 0) {
+      throw new Error(`${account.name} is the only key of ${provider.name}. Remove the provider instead`)
+    }
+
+    const activeAccountId = provider.activeAccountId === accountId ? accounts[0].id : provider.activeAccountId
+    await this.addOrUpdateServiceProvider({ ...provider, accounts, activeAccountId })
+    await this.pruneAccountReferences(compositeId => compositeId === `${providerId}:${accountId}`)
+    await this.secretStorage.delete(this.getAccountSecret(provider, account))
+    this.emit('thirdPartyAccount:removed', { provider, account })
+  }
+
+  /**
+   * 设置第三方提供商的密钥选择策略
+   * @param providerId - 第三方提供商ID
+   * @param strategy - 密钥选择策略
+   * @param weights - 账号ID到权重的映射（可选），用于按权重分配
+   */
+  async setKeySelection(providerId: string, strategy: KeySelectionStrategy, weights?: Record<string, number>): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      throw new Error(`Third-party provider not found: ${providerId}`)
+    }
+
+    const accounts = (provider.accounts as ThirdPartyAccountConfig[]).map(account =>
+      weights && weights[account.id] !== undefined ? { ...account, weight: weights[account.id] } : account
+    )
+    await this.addOrUpdateServiceProvider({ ...provider, accounts, keySelection: strategy })
+  }
+
+  /**
+   * 按提供商的密钥选择策略选择密钥
+   * 网关和拦截器的密钥选择请求共用扩展中的选择状态，选择规则与拦截器相同（共用 key-selection.ts）
+   * @param provider - 第三方提供商
+   * @param exclude - 不参与选择的复合ID（本次请求已尝试过或调用方不可用的密钥）
+   * @returns 选中的账号，策略为 active 或没有可用密钥时返回undefined
+   */
+  selectProviderKey(provider: ServiceProviderConfig, exclude: Set<string>): ThirdPartyAccountConfig | undefined {
+    const strategy = provider.keySelection || 'active'
+    if (provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY || strategy === 'active') {
+      return undefined
+    }
+
+    const candidates = (provider.accounts as ThirdPartyAccountConfig[]).filter(account => {
+      const compositeId = `${provider.id}:${account.id}`
+      return account.apiKey && !exclude.has(compositeId) && !this.getAccountCooldown(compositeId)
+    })
+    if (candidates.length <= 1) {
+      return candidates[0]
+    }
+
+    const selectedId = pickKey(
+      strategy,
+      provider.id,
+      candidates.map(account => ({ compositeId: `${provider.id}:${account.id}`, weight: account.weight })),
+      this.keySelectionState
+    )
+    return candidates.find(account => `${provider.id}:${account.id}` === selectedId)
+  }
+
+  /**
+   * 设置第三方提供商的上游协议
+   * @param providerId - 第三方提供商ID
+   * @param protocol - 上游协议
+   */
+  async setProviderProtocol(providerId: string, protocol: ProviderProtocol): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      throw new Error(`Third-party provider not found: ${providerId}`)
+    }
+
+    await this.addOrUpdateServiceProvider({ ...provider, protocol })
+  }
+
+  /**
+   * 获取账号所属提供商的上游协议
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @returns 上游协议，Claude官方账号和未设置协议的提供商为 anthropic
+   */
+  getProviderProtocol(compositeId: string): ProviderProtocol {
+    const providerId = compositeId.split(':')[0]
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    return provider?.type === CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY && provider.protocol ? provider.protocol : 'anthropic'
+  }
+
+  /**
+   * 设置第三方提供商的启动方式
+   * @param providerId - 第三方提供商ID
+   * @param launchMode - 启动方式，为undefined时跟随 ccCopilot.launchMode 设置
+   */
+  async setProviderLaunchMode(providerId: string, launchMode: LaunchMode | undefined): Promise<void> {
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      throw new Error(`Third-party provider not found: ${providerId}`)
+    }
+
+    await this.addOrUpdateServiceProvider({ ...provider, launchMode })
+  }
+
+  /**
+   * 获取账号所属提供商的启动方式
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @returns 启动方式，Claude官方账号和未设置启动方式的提供商返回undefined
+   */
+  getProviderLaunchMode(compositeId: string): LaunchMode | undefined {
+    const providerId = compositeId.split(':')[0]
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (provider?.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY || !provider.launchMode) {
+      return undefined
+    }
+    return CONFIG_CONSTANTS.PROVIDER_LAUNCH_MODES.includes(provider.launchMode) ? provider.launchMode : undefined
+  }
+
+  /**
+   * 按账号所属提供商的模型映射获取上游使用的模型名称
+   * 映射规则与拦截器相同（共用 model-mapper.ts）：smallFastModel 优先于 modelMap，modelMap 先匹配完全相同的名称，再按配置顺序匹配带 * 通配符的名称
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @param model - CLI请求的模型
+   * @returns 映射后的模型，没有匹配的映射时返回原名称
+   */
+  resolveModelAlias(compositeId: string, model: string): string {
+    const providerId = compositeId.split(':')[0]
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      return model
+    }
+    return modelMapper.resolve(provider, model)
+  }
+
+  /**
+   * 按账号所属提供商的模型映射获取某个模型系列使用的模型名称
+   * 不依赖具体的模型版本，直接启动方式据此设置CLI各系列的默认模型
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @param family - 模型系列
+   * @returns 映射后的模型，提供商没有适用于该系列的映射时返回null
+   */
+  resolveModelFamily(compositeId: string, family: ModelFamily): string | null {
+    const providerId = compositeId.split(':')[0]
+    const provider = this.getServiceProviders().find(p => p.id === providerId)
+    if (!provider || provider.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+      return null
+    }
+    return modelMapper.resolveFamily(provider, family)
+  }
+
+
+  /**
+   * 获取第三方账号的明文API密钥
+   */
+  async getThirdPartyApiKey(account: ThirdPartyAccountConfig): Promise<string | undefined> {
+    return this.secretStorage.resolve(account.apiKey)
+  }
+
+  // =============================================================================
+  // 密钥存储
+  // =============================================================================
+
+  /**
+   * 将设置中残留的明文密钥迁移到SecretStorage
+   * 在扩展激活时调用，兼容旧版本直接写入settings.json的配置
+   * @returns 迁移的提供商数量
+   */
+  async migrateSecretsToStorage(): Promise<number> {
+    let migrated = 0
+
+    for (const provider of this.getServiceProviders()) {
+      if (this.hasPlaintextSecrets(provider)) {
+        await this.addOrUpdateServiceProvider(provider)
+        migrated++
+      }
+    }
+
+    for (const profile of this.getProxyProfiles()) {
+      if (profile.password && !this.secretStorage.isReference(profile.password)) {
+        await this.addOrUpdateProxyProfile(profile)
+        migrated++
+      }
+    }
+
+    if (migrated > 0) {
+      console.log(`🔐 Migrated plaintext secrets of ${migrated} provider(s) to SecretStorage`)
+      this.emit('secrets:migrated', migrated)
+    }
+    return migrated
+  }
+
+  /**
+   * 为拦截器创建密钥交接文件
+   * 拦截器只能读取到设置中的引用，通过交接文件在启动时获得绑定账号的密钥和所属提供商代理配置档的密码
+   * @param compositeId - 终端绑定的账号复合ID（可选），不传入时使用当前活动账号
+   * @returns 交接文件路径，没有密钥时返回null
+   */
+  async createInterceptorSecretHandoff(compositeId: string = this.getCurrentActiveCompositeId()): Promise<string | null> {
+    const separatorIndex = compositeId.indexOf(':')
+    const provider = this.getServiceProviders().find(p => p.id === compositeId.slice(0, separatorIndex))
+    const account = provider && (provider.accounts as Array<ClaudeAccountConfig | ThirdPartyAccountConfig>)
+      .find(acc => this.getAccountId(provider, acc) === compositeId.slice(separatorIndex + 1))
+
+    const references = [
+      provider && account ? this.getAccountSecret(provider, account) : undefined,
+      this.getProviderProxyProfile(compositeId)?.password
+    ].filter((reference): reference is string => this.secretStorage.isReference(reference))
+
+    this.secretStorage.cleanupHandoffFiles()
+    return this.secretStorage.createHandoffFile(references)
+  }
+
+  /**
+   * 为终端创建密钥授权
+   * 交接文件只能被终端中第一次运行的CLI读取，之后运行的CLI凭授权通过IPC请求密钥，终端关闭后撤销授权
+   * @param compositeId - 终端绑定的账号复合ID
+   * @returns 授权令牌
+   */
+  createSecretGrant(compositeId: string): string {
+    const grant = uuidv4()
+    this.secretGrants.set(grant, compositeId)
+    return grant
+  }
+
+  /**
+   * 撤销密钥授权
+   * @param grant - 授权令牌
+   */
+  revokeSecretGrant(grant: string): void {
+    this.secretGrants.delete(grant)
+  }
+
+  /**
+   * 获取绑定账号可以请求的密钥引用
+   * 包括绑定账号所属提供商的所有密钥（用于密钥选择）、所在故障转移组各账号所属提供商的密钥，
+   * 以及这些提供商引用的代理配置档的密码
+   * @param compositeId - 终端绑定的账号复合ID
+   */
+  private getGrantedSecretReferences(compositeId: string): Set<string> {
+    const providerIds = new Set([compositeId, ...(this.getFailoverGroup(compositeId)?.accounts || [])].map(id => id.split(':')[0]))
+    const references = new Set<string>()
+
+    for (const provider of this.getServiceProviders().filter(p => providerIds.has(p.id))) {
+      for (const account of provider.accounts as Array<ClaudeAccountConfig | ThirdPartyAccountConfig>) {
+        references.add(this.getAccountSecret(provider, account) || '')
+      }
+      const proxyProfile = provider.proxyProfile ? this.getProxyProfile(provider.proxyProfile) : undefined
+      references.add(proxyProfile?.password || '')
+    }
+
+    references.delete('')
+    return references
+  }
+
+  /**
+   * 获取账号在复合ID中的账号ID（Claude账号为邮箱，第三方账号为账号ID）
+   */
+  private getAccountId(provider: ServiceProviderConfig, account: ClaudeAccountConfig | ThirdPartyAccountConfig): string {
+    return provider.type === CONFIG_CONSTANTS.PROVIDER_TYPES.CLAUDE_OFFICIAL
+      ? (account as ClaudeAccountConfig).emailAddress
+      : (account as ThirdPartyAccountConfig).id
+  }
+
+  /**
+   * 提供商是否仍包含明文密钥
+   */
+  private hasPlaintextSecrets(provider: ServiceProviderConfig): boolean {
+    return (provider.accounts as Array<ClaudeAccountConfig | ThirdPartyAccountConfig>).some(account => {
+      const secret = this.getAccountSecret(provider, account)
+      return !!secret && !this.secretStorage.isReference(secret)
+    })
+  }
+
+  /**
+   * 读取账号上的密钥字段（Claude账号为授权令牌，第三方账号为API密钥）
+   */
+  private getAccountSecret(provider: ServiceProviderConfig, account: ClaudeAccountConfig | ThirdPartyAccountConfig): string | undefined {
+    return provider.type === CONFIG_CONSTANTS.PROVIDER_TYPES.CLAUDE_OFFICIAL
+      ? (account as ClaudeAccountConfig).authorization
+      : (account as ThirdPartyAccountConfig).apiKey
+  }
+
+  /**
+   * 将提供商中的明文密钥转存到SecretStorage
+   * @returns 密钥字段替换为引用后的提供商副本
+   */
+  private async externalizeProviderSecrets(provider: ServiceProviderConfig): Promise<ServiceProviderConfig> {
+    if (provider.type === CONFIG_CONSTANTS.PROVIDER_TYPES.CLAUDE_OFFICIAL) {
+      const accounts: ClaudeAccountConfig[] = []
+      for (const account of provider.accounts as ClaudeAccountConfig[]) {
+        if (account.authorization && !this.secretStorage.isReference(account.authorization)) {
+          const reference = await this.secretStorage.store(
+            this.secretStorage.getClaudeAuthorizationKey(account.emailAddress),
+            account.authorization
+          )
+          accounts.push({ ...account, authorization: reference })
+        } else {
+          accounts.push({ ...account })
+        }
+      }
+      return { ...provider, accounts }
+    }
+
+    const accounts: ThirdPartyAccountConfig[] = []
+    for (const account of provider.accounts as ThirdPartyAccountConfig[]) {
+      if (account.apiKey && !this.secretStorage.isReference(account.apiKey)) {
+        const reference = await this.secretStorage.store(
+          this.secretStorage.getThirdPartyApiKeyKey(provider.id, account.id),
+          account.apiKey
+        )
+        accounts.push({ ...account, apiKey: reference })
+      } else {
+        accounts.push({ ...account })
+      }
+    }
+    return { ...provider, accounts }
+  }
+
+  /**
+   * 删除提供商下所有账号的密钥
+   */
+  private async deleteProviderSecrets(provider: ServiceProviderConfig): Promise<void> {
+    for (const account of provider.accounts) {
+      await this.secretStorage.delete(this.getAccountSecret(provider, account))
+    }
+  }
+
+  /**
+   * 清理设置中对已删除账号的引用
+   * 从故障转移组中移除这些账号（没有账号的组一并删除），清除启动配置中绑定的这些账号，并丢弃它们的密钥选择记录
+   * @param isRemoved - 判断复合ID（providerId:accountId）是否属于已删除的账号
+   */
+  private async pruneAccountReferences(isRemoved: (compositeId: string) => boolean): Promise<void> {
+    const config = vscode.workspace.getConfiguration(this.configSection)
+
+    // 故障转移组只保存在用户设置中
+    const groups = config.inspect<FailoverGroup[]>('failoverGroups')?.globalValue
+    if (groups?.some(group => Array.isArray(group?.accounts) && group.accounts.some(isRemoved))) {
+      const pruned = groups
+        .map(group => Array.isArray(group?.accounts) ? { ...group, accounts: group.accounts.filter(id => !isRemoved(id)) } : group)
+        .filter(group => !Array.isArray(group?.accounts) || group.accounts.length > 0)
+      await config.update('failoverGroups', pruned, vscode.ConfigurationTarget.Global)
+    }
+
+    // 启动配置可能同时保存在用户设置和工作区设置中，删除绑定后使用当前活动账号
+    const profiles = config.inspect<LaunchProfile[]>('launchProfiles')
+    const targets: Array<[LaunchProfile[] | undefined, vscode.ConfigurationTarget]> = [
+      [profiles?.globalValue, vscode.ConfigurationTarget.Global],
+      [profiles?.workspaceValue, vscode.ConfigurationTarget.Workspace]
+    ]
+    for (const [value, target] of targets) {
+      if (value?.some(profile => profile?.account && isRemoved(profile.account))) {
+        const pruned = value.map(profile => {
+          if (!profile?.account || !isRemoved(profile.account)) {
+            return profile
+          }
+          const { account, ...rest } = profile
+          return rest
+        })
+        await config.update('launchProfiles', pruned, target)
+      }
+    }
+
+    const { lastKeys, keyUsage } = this.keySelectionState
+    for (const [providerId, compositeId] of Object.entries(lastKeys)) {
+      if (isRemoved(compositeId)) {
+        delete lastKeys[providerId]
+      }
+    }
+    for (const compositeId of Object.keys(keyUsage)) {
+      if (isRemoved(compositeId)) {
+        delete keyUsage[compositeId]
+      }
+    }
+  }
+
   // =============================================================================
   // 工具方法
   // =============================================================================
@@ -459,86 +1329,114 @@ export class UnifiedConfigManager extends EventEmitter {
     return `${provider.id}:${provider.activeAccountId}`
   }
 
+  /**
+   * 获取当前活动账号的绑定信息
+   * 新建终端时用于固定终端使用的账号
+   * @returns 绑定信息，没有活动账号时返回null
+   */
+  getActiveAccountBinding(): AccountBinding | null {
+    const compositeId = this.getCurrentActiveCompositeId()
+    if (!compositeId) return null
+
+    const option = this.getAllProviderOptions().find(o => o.id === compositeId)
+    return { compositeId, label: option?.label || compositeId }
+  }
+
+  /**
+   * 获取指定账号的绑定信息
+   * @param compositeId - 复合ID（providerId:accountId）
+   * @returns 绑定信息，账号不存在时返回null
+   */
+  getAccountBinding(compositeId: string): AccountBinding | null {
+    const option = this.getAllProviderOptions().find(o => o.id === compositeId)
+    return option ? { compositeId, label: option.label } : null
+  }
+
   /**
    * 创建第三方提供商（兼容性方法）
    */
-  async createThirdPartyProvider(name: string, account: ThirdPartyAccountConfig): Promise<void> {
-    await this.addThirdPartyAccount(name, account)
+  async createThirdPartyProvider(name: string, account: ThirdPartyAccountConfig, protocol?: ProviderProtocol): Promise<void> {
+    await this.addThirdPartyAccount(name, account, protocol)
   }
 
   // =============================================================================
-  // 拦截器通信监听
+  // 拦截器消息处理
   // =============================================================================
 
   /**
-   * 设置拦截器监听器
-   * 监听拦截器的授权更新和账号发现通知
+   * 注册拦截器消息的处理函数
+   * 处理授权令牌更新、账号发现、令牌过期和故障转移通知，以及凭密钥授权的密钥请求和密钥选择请求；处理失败时抛出异常，由IPC服务保留消息等待重放
+   * @param ipcServer - IPC服务
+   * @returns 需要在扩展停用时释放的注册
    */
-  private setupInterceptorListener(): void {
-    try {
-      const tempDir = path.join(os.homedir(), '.cc-copilot-auth-updates')
-      
-      // 确保目录存在
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true })
-      }
+  registerInterceptorHandlers(ipcServer: IpcServer): vscode.Disposable[] {
+    return [
+      ipcServer.registerHandler('AUTHORIZATION_UPDATE', async message => {
+        const { emailAddress, authorization, authorizationHash } = message.payload
+        if (!authorization) {
+          // 文件队列中的消息只有令牌指纹，无法保存令牌；之后启动的拦截器发现令牌与保存的不一致时会再次发送
+          const account = this.getClaudeAccounts().find(acc => acc.emailAddress === emailAddress)
+          const current = await this.secretStorage.resolve(account?.authorization)
+          if (!current || hashAuthorization(current) !== authorizationHash) {
+            console.log(`⏭️ Authorization update for ${emailAddress} was spooled without the token, waiting for the interceptor to resend it`)
+          }
+          return
+        }
 
-      // 监听授权更新文件
-      fs.watch(tempDir, (eventType: string, filename: string | null) => {
-        if (filename && eventType === 'rename' && filename.startsWith('auth_update_')) {
-          this.handleInterceptorAuthUpdate(path.join(tempDir, filename))
+        console.log(`📨 Received authorization update from interceptor for: ${emailAddress}`)
+        await this.updateClaudeAccountAuthorization(emailAddress, authorization)
+      }),
+
+      ipcServer.registerHandler('ACCOUNT_DISCOVERED', async message => {
+        const { account } = message.payload
+        console.log(`📨 Received account discovery from interceptor: ${account.emailAddress}`)
+        await this.addOrUpdateClaudeAccount(account)
+      }),
+
+      ipcServer.registerHandler('TOKEN_EXPIRED', async message => {
+        const { emailAddress, authorizationHash } = message.payload
+        const account = this.getClaudeAccounts().find(acc => acc.emailAddress === emailAddress)
+        const current = await this.secretStorage.resolve(account?.authorization)
+
+        // 重放的旧通知可能晚于新令牌到达，只清除与过期令牌一致的令牌
+        if (!current || hashAuthorization(current) !== authorizationHash) {
+          console.log(`⏭️ Ignored stale token expiration notification for: ${emailAddress}`)
+          return
         }
-      })
 
-      // 记录监听器以便清理（在实际使用中应该添加到disposal列表）
-      console.log('✅ Interceptor authorization listener setup complete')
-    } catch (error) {
-      console.warn('⚠️ Failed to setup interceptor listener:', error)
-    }
-  }
+        console.log(`⚠️ Received token expiration notification for: ${emailAddress}`)
+        await this.updateClaudeAccountAuthorization(emailAddress, '')
+      }),
 
-  /**
-   * 处理拦截器的授权更新通知
-   */
-  private async handleInterceptorAuthUpdate(filePath: string): Promise<void> {
-    try {
-      if (!fs.existsSync(filePath)) {
-        return
-      }
+      ipcServer.registerHandler('ACCOUNT_FAILOVER', message => {
+        console.log(`🔀 Interceptor failed over from ${message.payload.from} to ${message.payload.to} (HTTP ${message.payload.status})`)
+        this.reportAccountFailover(message.payload)
+      }),
 
-      const fileContent = fs.readFileSync(filePath, 'utf-8')
-      const updateData = JSON.parse(fileContent)
+      ipcServer.registerHandler('SECRET_REQUEST', async (message): Promise<SecretResponse> => {
+        const compositeId = this.secretGrants.get(message.payload.grant)
+        if (!compositeId) {
+          throw new Error('Unknown secret grant. If VS Code was reloaded, restart the Claude session from CC Copilot.')
+        }
 
-      if (updateData.type === 'AUTHORIZATION_UPDATE') {
-        console.log(`📨 Received authorization update from interceptor for: ${updateData.emailAddress}`)
-        
-        // 更新配置中的授权令牌
-        await this.updateClaudeAccountAuthorization(updateData.emailAddress, updateData.authorization)
-        
-        console.log(`✅ Authorization updated for: ${updateData.emailAddress}`)
-        
-      } else if (updateData.type === 'ACCOUNT_DISCOVERED') {
-        console.log(`📨 Received account discovery from interceptor: ${updateData.account.emailAddress}`)
-        
-        // 添加或更新发现的账号
-        await this.addOrUpdateClaudeAccount(updateData.account)
-        
-        console.log(`✅ Account added/updated: ${updateData.account.emailAddress}`)
-        
-      } else if (updateData.type === 'TOKEN_EXPIRED') {
-        console.log(`⚠️ Received token expiration notification for: ${updateData.emailAddress}`)
-        
-        // 清空过期的授权令牌
-        await this.updateClaudeAccountAuthorization(updateData.emailAddress, '')
-        
-        console.log(`🔄 Cleared expired token for: ${updateData.emailAddress}`)
-      }
+        const granted = this.getGrantedSecretReferences(compositeId)
+        const secrets: Record<string, string> = {}
+        for (const reference of message.payload.references.filter(ref => granted.has(ref))) {
+          const value = await this.secretStorage.resolve(reference)
+          if (value) {
+            secrets[reference] = value
+          }
+        }
 
-      // 删除处理完的文件
-      fs.unlinkSync(filePath)
-      
-    } catch (error) {
-      console.warn('❌ Failed to handle interceptor auth update:', error)
-    }
+        console.log(`🔐 Provided ${Object.keys(secrets).length} secret(s) to the interceptor for ${compositeId}`)
+        return { secrets }
+      }),
+
+      ipcServer.registerHandler('KEY_SELECT', (message): KeySelectResponse => {
+        const provider = this.getServiceProviders().find(p => p.id === message.payload.providerId)
+        const account = provider && this.selectProviderKey(provider, new Set(message.payload.exclude))
+        return { compositeId: account ? `${provider!.id}:${account.id}` : undefined }
+      })
+    ]
   }
 }
\ No newline at end of file
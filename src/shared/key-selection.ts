@@ -0,0 +1,73 @@
+/**
+ * 候选密钥
+ */
+export interface KeyCandidate {
+  /** 复合ID（providerId:accountId） */
+  compositeId: string
+  /** 权重（可选），weighted 策略使用，默认为1 */
+  weight?: number
+}
+
+/**
+ * 密钥选择状态
+ */
+export interface KeySelectionState {
+  /** 各提供商最近选择的密钥复合ID，用于轮询 */
+  lastKeys: Record<string, string>
+  /** 各密钥最近使用的时间，用于选择最久未使用的密钥 */
+  keyUsage: Record<string, number>
+}
+
+/**
+ * 按策略从候选密钥中选择一个，并在选择状态中记录
+ * 扩展（密钥选择IPC请求、网关）与拦截器共用此实现，拦截器从扩展的编译输出目录加载
+ * @param strategy - 选择策略：round-robin、weighted 或 least-recently-used
+ * @param providerId - 提供商ID
+ * @param candidates - 按配置顺序排列的候选密钥，至少一个
+ * @param state - 选择状态
+ * @param now - 当前时间（毫秒时间戳）
+ * @returns 选中密钥的复合ID
+ */
+export function pickKey(
+  strategy: string,
+  providerId: string,
+  candidates: KeyCandidate[],
+  state: KeySelectionState,
+  now: number = Date.now()
+): string {
+  let selected: KeyCandidate
+  if (strategy === 'round-robin') {
+    const lastIndex = candidates.findIndex(candidate => candidate.compositeId === state.lastKeys[providerId])
+    selected = candidates[(lastIndex + 1) % candidates.length]
+  } else if (strategy === 'weighted') {
+    selected = pickWeighted(candidates)
+  } else {
+    selected = candidates.reduce((oldest, candidate) =>
+      (state.keyUsage[candidate.compositeId] || 0) < (state.keyUsage[oldest.compositeId] || 0) ? candidate : oldest)
+  }
+
+  state.lastKeys[providerId] = selected.compositeId
+  state.keyUsage[selected.compositeId] = now
+  return selected.compositeId
+}
+
+/**
+ * 按权重随机选择，未设置权重的密钥权重为1
+ */
+function pickWeighted(candidates: KeyCandidate[]): KeyCandidate {
+  const weights = candidates.map(candidate =>
+    typeof candidate.weight === 'number' && candidate.weight >= 0 ? candidate.weight : 1)
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  if (total <= 0) {
+    return candidates[0]
+  }
+
+  let point = Math.random() * total
+  for (let i = 0; i < candidates.length; i++) {
+    point -= weights[i]
+    if (point < 0) {
+      return candidates[i]
+    }
+  }
+  return candidates[candidates.length - 1]
+}
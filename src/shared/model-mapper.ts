@@ -0,0 +1,130 @@
+import { ModelFamily } from './types'
+
+/** 请求体超过此长度时不改写模型名称（字节） */
+const MAX_BODY_REWRITE_LENGTH = 8 * 1024 * 1024
+
+/** CLI后台任务使用的小型快速模型（Haiku 系列） */
+const SMALL_FAST_MODEL_PATTERN = /haiku/i
+
+/**
+ * 模型映射配置，取自第三方提供商
+ */
+export interface ModelMapping {
+  /** 模型名称映射，键可以包含 * 通配符 */
+  modelMap?: Record<string, string>
+  /** 小型快速模型（Haiku 系列）的替代模型 */
+  smallFastModel?: string
+}
+
+/**
+ * 模型映射
+ * 按第三方提供商的 modelMap 和 smallFastModel 配置，把CLI请求的模型名称改写为网关认识的名称。
+ * smallFastModel 优先于 modelMap；modelMap 先匹配完全相同的名称，再按配置顺序匹配带 * 通配符的名称。
+ * 扩展（网关、直接启动方式）与拦截器共用此实现，拦截器从扩展的编译输出目录加载
+ */
+export class ModelMapper {
+  /**
+   * 获取映射后的模型名称
+   * @param mapping - 本次请求使用的账号所属提供商的模型映射
+   * @param model - CLI请求的模型
+   * @returns 映射后的模型，没有匹配的映射时返回原名称
+   */
+  resolve(mapping: ModelMapping | null | undefined, model: string): string {
+    if (!mapping || typeof model !== 'string') {
+      return model
+    }
+
+    if (mapping.smallFastModel && SMALL_FAST_MODEL_PATTERN.test(model)) {
+      return mapping.smallFastModel
+    }
+
+    const modelMap = mapping.modelMap
+    if (!modelMap || typeof modelMap !== 'object') {
+      return model
+    }
+    if (typeof modelMap[model] === 'string') {
+      return modelMap[model]
+    }
+
+    for (const [pattern, target] of Object.entries(modelMap)) {
+      if (pattern.includes('*') && typeof target === 'string' && this.matches(pattern, model)) {
+        return target
+      }
+    }
+    return model
+  }
+
+  /**
+   * 获取模型系列映射后的模型名称
+   * 不针对具体的模型版本：smallFastModel 作用于 haiku 系列；modelMap 按配置顺序取第一个适用于该系列的映射，
+   * 即名称中包含系列名（如 claude-opus-*），或通配符能匹配该系列的所有模型（如 claude-*、*）
+   * @param mapping - 账号所属提供商的模型映射
+   * @param family - 模型系列
+   * @returns 映射后的模型，没有适用于该系列的映射时返回null
+   */
+  resolveFamily(mapping: ModelMapping | null | undefined, family: ModelFamily): string | null {
+    if (!mapping || typeof family !== 'string') {
+      return null
+    }
+
+    if (mapping.smallFastModel && SMALL_FAST_MODEL_PATTERN.test(family)) {
+      return mapping.smallFastModel
+    }
+
+    const modelMap = mapping.modelMap
+    if (!modelMap || typeof modelMap !== 'object') {
+      return null
+    }
+
+    const name = family.toLowerCase()
+    for (const [pattern, target] of Object.entries(modelMap)) {
+      if (typeof target !== 'string') {
+        continue
+      }
+      if (pattern.toLowerCase().includes(name) || (pattern.includes('*') && this.matches(pattern, `claude-${name}`))) {
+        return target
+      }
+    }
+    return null
+  }
+
+  /**
+   * 改写JSON请求体中的模型名称
+   * @param body - 请求体，只处理JSON字符串
+   * @param mapping - 本次请求使用的账号所属提供商的模型映射
+   * @returns 改写后的请求体和CLI原本请求的模型，不需要改写时返回null
+   */
+  rewriteBody(body: unknown, mapping: ModelMapping | null | undefined): { body: string, requestedModel: string } | null {
+    if (typeof body !== 'string' || body.length > MAX_BODY_REWRITE_LENGTH ||
+      (!mapping?.modelMap && !mapping?.smallFastModel)) {
+      return null
+    }
+
+    let parsed: any
+    try {
+      parsed = JSON.parse(body)
+    } catch {
+      return null
+    }
+
+    const requestedModel = parsed?.model
+    if (typeof requestedModel !== 'string') {
+      return null
+    }
+    const model = this.resolve(mapping, requestedModel)
+    if (model === requestedModel) {
+      return null
+    }
+
+    parsed.model = model
+    return { body: JSON.stringify(parsed), requestedModel }
+  }
+
+  /**
+   * 判断模型名称是否匹配通配符模式，不区分大小写
+   */
+  matches(pattern: string, model: string): boolean {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+    return new RegExp(`^${source}$`, 'i').test(model)
+  }
+}
@@ -0,0 +1,163 @@
+import * as vscode from 'vscode'
+import * as fs from 'fs'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { CONFIG_CONSTANTS } from './types'
+
+/**
+ * 密钥存储管理器
+ * 将API密钥和授权令牌保存到VSCode SecretStorage，设置中只保留形如 `secret:<key>` 的引用，
+ * 避免敏感信息出现在settings.json和设置同步中
+ */
+export class SecretStorageManager {
+  /** 交接文件目录，用于向拦截器进程一次性传递密钥 */
+  private readonly handoffDir: string
+
+  /**
+   * 构造函数
+   * @param context - VSCode扩展上下文
+   */
+  constructor(private context: vscode.ExtensionContext) {
+    this.handoffDir = path.join(context.globalStorageUri.fsPath, 'secret-handoff')
+  }
+
+  // =============================================================================
+  // 引用处理
+  // =============================================================================
+
+  /**
+   * 判断值是否为密钥引用
+   */
+  isReference(value?: string | null): value is string {
+    return typeof value === 'string' && value.startsWith(CONFIG_CONSTANTS.SECRET_REFERENCE_PREFIX)
+  }
+
+  /**
+   * 根据密钥名创建引用
+   */
+  createReference(key: string): string {
+    return `${CONFIG_CONSTANTS.SECRET_REFERENCE_PREFIX}${key}`
+  }
+
+  /**
+   * 从引用中解析密钥名
+   */
+  getKeyFromReference(reference: string): string {
+    return reference.substring(CONFIG_CONSTANTS.SECRET_REFERENCE_PREFIX.length)
+  }
+
+  /**
+   * 第三方账号API密钥的存储键
+   */
+  getThirdPartyApiKeyKey(providerId: string, accountId: string): string {
+    return `thirdParty/${providerId}/${accountId}/apiKey`
+  }
+
+  /**
+   * 代理配置档密码的存储键
+   */
+  getProxyPasswordKey(profileName: string): string {
+    return `proxy/${profileName}/password`
+  }
+
+  /**
+   * Claude官方账号授权令牌的存储键
+   */
+  getClaudeAuthorizationKey(emailAddress: string): string {
+    return `claudeOfficial/${emailAddress}/authorization`
+  }
+
+  // =============================================================================
+  // 密钥读写
+  // =============================================================================
+
+  /**
+   * 保存密钥并返回对应引用
+   * @param key - 存储键
+   * @param value - 明文密钥
+   */
+  async store(key: string, value: string): Promise<string> {
+    await this.context.secrets.store(key, value)
+    return this.createReference(key)
+  }
+
+  /**
+   * 解析配置值
+   * 引用会被替换为SecretStorage中的明文，非引用值原样返回（兼容尚未迁移的旧配置）
+   */
+  async resolve(value?: string | null): Promise<string | undefined> {
+    if (!value) {
+      return undefined
+    }
+    if (!this.isReference(value)) {
+      return value
+    }
+    return this.context.secrets.get(this.getKeyFromReference(value))
+  }
+
+  /**
+   * 删除引用对应的密钥
+   */
+  async delete(reference?: string | null): Promise<void> {
+    if (!this.isReference(reference)) {
+      return
+    }
+    await this.context.secrets.delete(this.getKeyFromReference(reference))
+  }
+
+  // =============================================================================
+  // 拦截器交接
+  // =============================================================================
+
+  /**
+   * 创建一次性密钥交接文件
+   * 文件仅当前用户可读，拦截器启动时读取后立即删除
+   * @param references - 需要交接的密钥引用
+   * @returns 交接文件路径，没有可交接的密钥时返回null
+   */
+  async createHandoffFile(references: string[]): Promise<string | null> {
+    const secrets: Record<string, string> = {}
+
+    for (const reference of new Set(references)) {
+      const value = await this.resolve(reference)
+      if (value) {
+        secrets[reference] = value
+      }
+    }
+
+    if (Object.keys(secrets).length === 0) {
+      return null
+    }
+
+    if (!fs.existsSync(this.handoffDir)) {
+      fs.mkdirSync(this.handoffDir, { recursive: true, mode: 0o700 })
+    }
+
+    const handoffFile = path.join(this.handoffDir, `${uuidv4()}.json`)
+    fs.writeFileSync(handoffFile, JSON.stringify(secrets), { mode: 0o600 })
+    return handoffFile
+  }
+
+  /**
+   * 清理过期的交接文件
+   * 未加载拦截器的进程不会读取交接文件，需要由扩展兜底删除
+   * @param maxAgeMs - 文件最长保留时间
+   */
+  cleanupHandoffFiles(maxAgeMs: number = CONFIG_CONSTANTS.SECRET_HANDOFF_MAX_AGE): void {
+    if (!fs.existsSync(this.handoffDir)) {
+      return
+    }
+
+    const now = Date.now()
+    for (const file of fs.readdirSync(this.handoffDir)) {
+      const filePath = path.join(this.handoffDir, file)
+      try {
+        if (now - fs.statSync(filePath).mtimeMs > maxAgeMs) {
+          fs.unlinkSync(filePath)
+        }
+      } catch (error) {
+        // 文件可能已被拦截器删除，忽略
+      }
+    }
+  }
+}
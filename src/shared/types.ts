@@ -21,6 +21,82 @@ export interface Session {
   isLoading?: boolean;
   /** 会话文件路径（可选） */
   filePath?: string;
+  /** 从会话文件中统计的令牌用量（可选） */
+  usage?: SessionUsage;
+  /** 启动会话终端时绑定的账号（可选） */
+  account?: AccountBinding;
+  /** 最近一次启动会话使用的权限模式（可选） */
+  permissionMode?: PermissionMode;
+  /** 新建会话使用的启动配置名称（可选） */
+  profile?: string;
+}
+
+/**
+ * 权限模式
+ * default/acceptEdits/plan 对应Claude CLI的 --permission-mode，bypass 对应 --dangerously-skip-permissions
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'plan' | 'bypass';
+
+/**
+ * 启动方式
+ * interceptor 通过 --require 预加载拦截器改写CLI的请求；gateway 将CLI的 ANTHROPIC_BASE_URL 指向扩展内的本地网关；
+ * env 只设置环境变量，CLI直接连接第三方提供商（仅用于第三方提供商）
+ */
+export type LaunchMode = 'interceptor' | 'gateway' | 'env';
+
+/**
+ * 账号绑定接口
+ * 终端启动时固定使用的提供商/账号，不随全局活动账号切换
+ */
+export interface AccountBinding {
+  /** 复合ID（providerId:accountId） */
+  compositeId: string;
+  /** 显示名称 */
+  label: string;
+  /** 绑定时间（ISO字符串，可选） */
+  boundAt?: string;
+}
+
+/**
+ * 令牌用量接口
+ * 对应Claude消息中 message.usage 的各项计数
+ */
+export interface TokenUsage {
+  /** 输入令牌数 */
+  inputTokens: number;
+  /** 输出令牌数 */
+  outputTokens: number;
+  /** 写入缓存的输入令牌数 */
+  cacheCreationInputTokens: number;
+  /** 命中缓存的输入令牌数 */
+  cacheReadInputTokens: number;
+  /** API请求（助手消息）数量 */
+  requests: number;
+}
+
+/**
+ * 用量分桶接口
+ * 按小时和模型汇总的用量，用于按天统计和按时间归属账号
+ */
+export interface UsageBucket {
+  /** 小时起点（ISO字符串） */
+  hour: string;
+  /** 模型名称 */
+  model: string;
+  /** 该小时内最后一条消息的时间（ISO字符串），用于归属当时的活动账号 */
+  lastAt: string;
+  /** 用量 */
+  usage: TokenUsage;
+}
+
+/**
+ * 会话用量接口
+ */
+export interface SessionUsage {
+  /** 会话总用量 */
+  total: TokenUsage;
+  /** 按小时和模型的分桶用量 */
+  buckets: UsageBucket[];
 }
 
 /**
@@ -93,7 +169,7 @@ export interface ClaudeAccountConfig {
   workspaceRole?: string
   /** 组织名称 */
   organizationName: string
-  /** 授权令牌（从拦截器获取并保存到配置） */
+  /** 授权令牌引用（令牌本身保存在SecretStorage中） */
   authorization?: string
 }
 
@@ -105,14 +181,35 @@ export interface ThirdPartyAccountConfig {
   id: string
   /** 账号名称 */
   name: string
-  /** API密钥 */
+  /** API密钥引用（密钥本身保存在SecretStorage中） */
   apiKey: string
   /** 基础URL */
   baseUrl: string
   /** 描述信息（可选） */
   description?: string
+  /** 按权重分配请求时的权重（可选），默认1 */
+  weight?: number
 }
 
+/**
+ * 密钥选择策略
+ * active 只使用活动账号；其余策略在同一第三方提供商的所有账号（密钥）之间分配请求
+ */
+export type KeySelectionStrategy = 'active' | 'round-robin' | 'weighted' | 'least-recently-used'
+
+/**
+ * 提供商协议
+ * anthropic 直接转发 Messages API 请求；openai-chat 和 openai-responses 由本地网关转换为
+ * OpenAI Chat Completions 或 Responses 请求，并把响应转换回 Anthropic 格式
+ */
+export type ProviderProtocol = 'anthropic' | 'openai-chat' | 'openai-responses'
+
+/**
+ * 模型系列
+ * 直接启动方式按系列设置CLI各系列的默认模型
+ */
+export type ModelFamily = 'opus' | 'sonnet' | 'haiku'
+
 /**
  * 代理配置
  */
@@ -128,6 +225,36 @@ export interface ProxyConfig {
   }
 }
 
+/**
+ * 代理配置档
+ * 保存在 ccCopilot.proxyProfiles 设置中，服务提供商通过名称引用
+ */
+export interface ProxyProfile {
+  /** 名称（唯一） */
+  name: string
+  /** 代理URL，支持 http://、https://、socks5:// 和 socks5h:// */
+  url: string
+  /** 不经过代理的主机（与 NO_PROXY 格式相同），如 localhost、.corp.example.com、10.0.0.1 */
+  noProxy?: string[]
+  /** 用户名（可选） */
+  username?: string
+  /** 密码（可选），保存为SecretStorage引用 */
+  password?: string
+}
+
+/**
+ * 解析后的代理
+ * 提供商实际使用的代理地址和绕过列表
+ */
+export interface ResolvedProxy {
+  /** 代理URL，包含认证信息 */
+  url: string
+  /** 不经过代理的主机 */
+  noProxy: string[]
+  /** 代理配置档名称（可选），使用全局代理时为空 */
+  profile?: string
+}
+
 /**
  * 服务提供商类型
  */
@@ -149,6 +276,124 @@ export interface ServiceProviderConfig {
   activeAccountId: string
   /** 是否使用代理 */
   useProxy: boolean
+  /** 密钥选择策略（可选，仅第三方提供商），默认 active */
+  keySelection?: KeySelectionStrategy
+  /** 上游协议（可选，仅第三方提供商），默认 anthropic */
+  protocol?: ProviderProtocol
+  /**
+   * 模型映射（可选，仅第三方提供商）
+   * 键为CLI请求的模型名称，可使用 * 通配符（如 claude-sonnet-*），值为网关使用的模型名称
+   */
+  modelMap?: Record<string, string>
+  /** CLI后台任务使用的小型快速模型（Haiku 系列）映射到的模型（可选，仅第三方提供商），优先于 modelMap */
+  smallFastModel?: string
+  /** 默认模型（可选，仅第三方提供商），直接启动方式下设置为 ANTHROPIC_MODEL */
+  model?: string
+  /** 启动方式（可选，仅第三方提供商），优先于 ccCopilot.launchMode 设置 */
+  launchMode?: LaunchMode
+  /** 使用的代理配置档名称（可选），设置后优先于 useProxy 和全局代理 */
+  proxyProfile?: string
+}
+
+/**
+ * 启动配置
+ * 新建会话时使用的一组Claude CLI参数，保存在 ccCopilot.launchProfiles 设置中
+ */
+export interface LaunchProfile {
+  /** 配置名称（唯一） */
+  name: string
+  /** 模型名称或别名（可选） */
+  model?: string
+  /** 权限模式（可选），未设置时使用 ccCopilot.permissionMode */
+  permissionMode?: PermissionMode
+  /** 允许使用的工具（可选） */
+  allowedTools?: string[]
+  /** 禁止使用的工具（可选） */
+  disallowedTools?: string[]
+  /** 额外允许访问的目录（可选），相对路径基于工作目录 */
+  addDirs?: string[]
+  /** 附加到系统提示的内容（可选） */
+  appendSystemPrompt?: string
+  /** 额外的环境变量（可选） */
+  env?: Record<string, string>
+  /** 额外的命令行参数（可选），每项为一个参数，追加到命令末尾 */
+  extraArgs?: string[]
+  /** 使用的提供商/账号复合ID（providerId:accountId，可选），未设置时使用当前活动账号 */
+  account?: string
+}
+
+/**
+ * 启动Claude CLI的选项
+ */
+export interface ClaudeLaunchOptions {
+  /** 工作目录（可选），默认使用第一个工作区文件夹 */
+  cwd?: string
+  /** 启动配置（可选），为null时不使用默认启动配置 */
+  profile?: LaunchProfile | null
+  /** 本次启动使用的权限模式（可选），优先于启动配置和设置 */
+  permissionMode?: PermissionMode
+  /** 本次启动绑定的账号复合ID（可选），优先于启动配置和当前活动账号 */
+  account?: string
+  /** 本次启动的方式（可选），优先于提供商的启动方式和 ccCopilot.launchMode 设置 */
+  launchMode?: LaunchMode
+  /** 要恢复的会话ID（可选），指定时以 --resume 恢复该会话 */
+  resume?: string
+}
+
+/**
+ * 准备好的Claude CLI启动信息
+ */
+export interface ClaudeLaunch {
+  /** Claude CLI路径 */
+  claudePath: string
+  /** 工作目录 */
+  cwd: string
+  /** 命令参数（未加引号） */
+  args: string[]
+  /** 环境变量 */
+  env: NodeJS.ProcessEnv
+  /** 只作用于Claude命令的环境变量（如预加载拦截器的NODE_OPTIONS），终端中作为命令前缀设置，不写入终端环境 */
+  commandEnv: Record<string, string>
+  /** 权限模式 */
+  permissionMode: PermissionMode
+  /** 启动方式 */
+  launchMode: LaunchMode
+  /** 启动配置（可选） */
+  profile?: LaunchProfile
+  /** 绑定的账号，没有可用账号时为null */
+  binding: AccountBinding | null
+  /** 释放启动时登记的资源（如拦截器的密钥授权），终端关闭或无界面运行结束后调用 */
+  release: () => void
+}
+
+/**
+ * 故障转移组
+ * 组内账号按顺序互为备用，保存在 ccCopilot.failoverGroups 设置中
+ */
+export interface FailoverGroup {
+  /** 组名称 */
+  name: string
+  /** 按优先级排列的提供商/账号复合ID（providerId:accountId） */
+  accounts: string[]
+  /** 触发故障转移的HTTP状态码（可选），默认 429、401、529 */
+  statuses?: number[]
+  /** 触发故障转移的账号冷却时间（秒，可选），默认300秒 */
+  cooldownSeconds?: number
+}
+
+/**
+ * 账号冷却记录
+ * 账号触发故障转移后在冷却期内不会再被选为备用账号
+ */
+export interface AccountCooldown {
+  /** 复合ID（providerId:accountId） */
+  compositeId: string
+  /** 冷却结束时间（毫秒时间戳） */
+  until: number
+  /** 触发冷却的HTTP状态码 */
+  status: number
+  /** 故障转移组名称 */
+  group: string
 }
 
 /**
@@ -158,6 +403,8 @@ export interface ServiceProviderConfig {
 export interface PluginConfig {
   /** 代理配置 */
   proxyConfig: ProxyConfig
+  /** 代理配置档 */
+  proxyProfiles: ProxyProfile[]
   /** 服务提供商列表 */
   serviceProviders: ServiceProviderConfig[]
   /** 当前活动的服务提供商ID */
@@ -172,6 +419,7 @@ export const defaultPluginConfig: PluginConfig = {
     enabled: false,
     url: 'http://127.0.0.1:1087'
   },
+  proxyProfiles: [],
   serviceProviders: [],
   activeServiceProviderId: ''
 }
@@ -190,5 +438,87 @@ export const CONFIG_CONSTANTS = {
   },
   
   /** 默认Claude提供商ID */
-  CLAUDE_PROVIDER_ID: 'claude_official'
-} as const
\ No newline at end of file
+  CLAUDE_PROVIDER_ID: 'claude_official',
+
+  /** 密钥引用前缀，设置中以该前缀保存SecretStorage的键名 */
+  SECRET_REFERENCE_PREFIX: 'secret:',
+
+  /** 向拦截器传递密钥交接文件路径的环境变量 */
+  SECRET_HANDOFF_ENV: 'CC_COPILOT_SECRETS_FILE',
+
+  /** 密钥交接文件最长保留时间（毫秒） */
+  SECRET_HANDOFF_MAX_AGE: 5 * 60 * 1000,
+
+  /** 向拦截器传递密钥授权的环境变量，交接文件用完后拦截器凭授权通过IPC向扩展请求密钥 */
+  SECRET_GRANT_ENV: 'CC_COPILOT_SECRET_GRANT',
+
+  /** 向拦截器传递终端绑定账号（复合ID）的环境变量 */
+  ACCOUNT_BINDING_ENV: 'CC_COPILOT_ACCOUNT',
+
+  /** 启用拦截器账号验证模式的环境变量 */
+  VERIFY_ENV: 'CC_COPILOT_VERIFY',
+
+  /** 向拦截器传递IPC端点（套接字路径或命名管道）的环境变量 */
+  IPC_ENDPOINT_ENV: 'CC_COPILOT_IPC',
+
+  /** IPC消息文件队列目录（位于用户主目录下） */
+  IPC_SPOOL_DIR: '.cc-copilot-auth-updates',
+
+  /** 账号冷却记录文件（位于用户主目录下），由扩展写入，拦截器选择备用账号时读取 */
+  COOLDOWN_FILE: '.cc-copilot-cooldowns.json',
+
+  /** 冷却记录文件的检查间隔（毫秒），两次检查之间直接使用内存中的记录 */
+  COOLDOWN_REFRESH_INTERVAL: 5000,
+
+  /** 默认触发故障转移的HTTP状态码：限流、认证失败、服务过载 */
+  DEFAULT_FAILOVER_STATUSES: [429, 401, 529] as number[],
+
+  /** 默认账号冷却时间（秒） */
+  DEFAULT_FAILOVER_COOLDOWN_SECONDS: 300,
+
+  /** 支持的密钥选择策略 */
+  KEY_SELECTION_STRATEGIES: ['active', 'round-robin', 'weighted', 'least-recently-used'] as KeySelectionStrategy[],
+
+  /** 支持的提供商协议 */
+  PROVIDER_PROTOCOLS: ['anthropic', 'openai-chat', 'openai-responses'] as ProviderProtocol[],
+
+  /** 支持的权限模式 */
+  PERMISSION_MODES: ['default', 'acceptEdits', 'plan', 'bypass'] as PermissionMode[],
+
+  /** 默认权限模式，与之前始终跳过权限检查的行为保持一致 */
+  DEFAULT_PERMISSION_MODE: 'bypass' as PermissionMode,
+
+  /** ccCopilot.launchMode 设置支持的启动方式 */
+  LAUNCH_MODES: ['interceptor', 'gateway'] as LaunchMode[],
+
+  /** 第三方提供商支持的启动方式 */
+  PROVIDER_LAUNCH_MODES: ['interceptor', 'gateway', 'env'] as LaunchMode[],
+
+  /** 默认启动方式 */
+  DEFAULT_LAUNCH_MODE: 'interceptor' as LaunchMode
+} as const
+
+/**
+ * 模型价格（美元/百万令牌）
+ */
+export interface ModelPrice {
+  /** 输入价格 */
+  input: number
+  /** 输出价格 */
+  output: number
+  /** 缓存写入价格 */
+  cacheWrite: number
+  /** 缓存读取价格 */
+  cacheRead: number
+}
+
+/**
+ * 默认模型价格表
+ * 键为模型名称中包含的片段，匹配时取最长的片段
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
+  'opus': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 }
+}
\ No newline at end of file
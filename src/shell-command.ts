@@ -0,0 +1,126 @@
+/**
+ * 终端命令行生成
+ * 按终端使用的shell（POSIX shell、PowerShell、cmd）为命令和参数加引号，
+ * 保证参数中的空格、引号和shell特殊字符原样传给Claude CLI；
+ * 只作用于该命令的环境变量在命令行上设置，不留在终端环境中
+ */
+
+/** 终端使用的shell类型 */
+export type ShellKind = 'posix' | 'powershell' | 'cmd';
+
+/** POSIX shell中无需加引号的参数 */
+const POSIX_SAFE_ARG = /^[\w@%+=:,./-]+$/;
+/** PowerShell中无需加引号的参数（逗号会组成数组，@和$有特殊含义） */
+const POWERSHELL_SAFE_ARG = /^[\w+=:./\\-]+$/;
+/** cmd中无需转义的参数（逗号、分号、等号是参数分隔符） */
+const CMD_SAFE_ARG = /^[\w@+:./\\-]+$/;
+/** cmd的特殊字符，需要用 ^ 转义 */
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * 根据shell路径判断shell类型
+ * 未知的shell按POSIX shell处理（bash、zsh、fish、Git Bash等）；Windows上未配置shell时VSCode默认使用PowerShell
+ * @param shellPath - shell可执行文件路径，通常为 vscode.env.shell
+ * @param platform - 运行平台
+ */
+export function getShellKind(shellPath: string | undefined, platform: NodeJS.Platform = process.platform): ShellKind {
+    const name = (shellPath || '').split(/[\\/]/).pop()!.toLowerCase();
+    if (/^(pwsh|powershell)(\.exe)?$/.test(name)) {
+        return 'powershell';
+    }
+    if (/^cmd(\.exe)?$/.test(name)) {
+        return 'cmd';
+    }
+    return !name && platform === 'win32' ? 'powershell' : 'posix';
+}
+
+/**
+ * 生成在终端中执行的命令行
+ * 环境变量的设置方式：POSIX shell使用命令前缀；PowerShell在命令前设置、结束后（包括中断）恢复原值；
+ * cmd在子cmd进程中设置后执行命令，变量不会进入交互终端
+ * @param kind - shell类型
+ * @param command - 可执行文件路径
+ * @param args - 命令参数（未加引号）
+ * @param commandEnv - 只作用于该命令的环境变量（可选）
+ */
+export function formatShellCommand(
+    kind: ShellKind,
+    command: string,
+    args: string[],
+    commandEnv: Record<string, string> = {}
+): string {
+    const names = Object.keys(commandEnv);
+
+    switch (kind) {
+        case 'powershell': {
+            // 带引号的路径是字符串，需要用调用运算符 & 执行
+            const invocation = ['&', quotePowerShell(command), ...args.map(quotePowerShell)].join(' ');
+            if (names.length === 0) {
+                return invocation;
+            }
+            const save = names.map((name, index) => `$p${index} = \${env:${name}}; \${env:${name}} = ${quotePowerShell(commandEnv[name])}`);
+            const restore = names.map((name, index) => `\${env:${name}} = $p${index}`);
+            return `& { ${save.join('; ')}; try { ${invocation} } finally { ${restore.join('; ')} } }`;
+        }
+        case 'cmd': {
+            // npm安装的CLI是 .cmd 脚本，脚本中的 %* 会再解析一次参数，需要双重转义
+            const doubleEscape = /\.(cmd|bat)$/i.test(command);
+            const invocation = [`"${command}"`, ...args.map(arg => quoteCmd(arg, doubleEscape))].join(' ');
+            if (names.length === 0) {
+                return invocation;
+            }
+            // & 紧跟在值后面，避免值末尾带上空格
+            const inner = [
+                ...names.map(name => `set ${name}=${commandEnv[name].replace(CMD_META_CHARS, '^$1')}`),
+                invocation
+            ].join('& ');
+            // 交互终端的cmd先解析一次整行，内层命令整体再转义一次；/s 使子cmd只去掉首尾的引号
+            return `cmd /d /s /c ^"${inner.replace(CMD_META_CHARS, '^$1')}^"`;
+        }
+        default:
+            return [
+                ...names.map(name => `${name}=${quotePosix(commandEnv[name])}`),
+                quotePosix(command),
+                ...args.map(quotePosix)
+            ].join(' ');
+    }
+}
+
+/**
+ * 为POSIX shell参数加引号
+ * 用单引号包裹，参数中的单引号写成 '\''
+ */
+export function quotePosix(value: string): string {
+    if (POSIX_SAFE_ARG.test(value)) {
+        return value;
+    }
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * 为PowerShell参数加引号
+ * 用单引号包裹，单引号（包括PowerShell同样视为单引号的弯引号）写两次
+ */
+export function quotePowerShell(value: string): string {
+    if (POWERSHELL_SAFE_ARG.test(value)) {
+        return value;
+    }
+    return `'${value.replace(/['‘’‚‛]/g, '$&$&')}'`;
+}
+
+/**
+ * 为cmd参数加引号
+ * 先按Windows程序解析命令行的规则加双引号（引号前的反斜杠加倍），再用 ^ 转义cmd的特殊字符
+ * @param doubleEscape - 目标是批处理脚本时再转义一次
+ */
+export function quoteCmd(value: string, doubleEscape: boolean = false): string {
+    if (CMD_SAFE_ARG.test(value)) {
+        return value;
+    }
+
+    let quoted = value
+        .replace(/(\\*)"/g, '$1$1\\"')
+        .replace(/(\\*)$/, '$1$1');
+    quoted = `"${quoted}"`.replace(CMD_META_CHARS, '^$1');
+    return doubleEscape ? quoted.replace(CMD_META_CHARS, '^$1') : quoted;
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { SessionManager, SessionSyncDiff } from './session-manager';
+import { Session } from './shared/types';
+import { logger } from './logger';
+
+/**
+ * 已登记的Claude终端
+ */
+export interface TrackedTerminal {
+    /** 终端实例 */
+    terminal: vscode.Terminal;
+    /** 工作目录 */
+    cwd: string;
+    /** 启动时间（ISO字符串） */
+    startedAt: string;
+    /** 对应的会话文件路径，新建会话在CLI创建会话文件之前为空 */
+    sessionFilePath?: string;
+    /** 匹配到会话后需要记录到会话上的启动信息 */
+    pendingUpdates?: Partial<Session>;
+    /** 终端关闭时调用，释放启动时登记的资源（可选） */
+    release?: () => void;
+}
+
+/**
+ * 终端注册表
+ * 记录扩展启动的Claude终端与会话文件的对应关系，终端关闭时自动移除。
+ * 新建会话的终端在CLI创建会话文件后按工作目录和启动时间匹配到会话。
+ * 登记的终端变化时触发 'terminals:changed' 事件
+ */
+export class TerminalRegistry extends EventEmitter implements vscode.Disposable {
+    /** 已登记的终端 */
+    private entries: TrackedTerminal[] = [];
+    /** 需要释放的监听器 */
+    private disposables: vscode.Disposable[] = [];
+    /** 会话同步监听器 */
+    private readonly onSessionsSynced = (diff: SessionSyncDiff) => this.matchNewSessions(diff);
+
+    /**
+     * 构造函数
+     * @param sessionManager - 会话管理器
+     */
+    constructor(private sessionManager: SessionManager) {
+        super();
+        this.sessionManager.on('sessions:synced', this.onSessionsSynced);
+        this.disposables.push(vscode.window.onDidCloseTerminal(terminal => this.unregister(terminal)));
+    }
+
+    /**
+     * 登记终端
+     * @param entry - 终端信息，未指定会话文件时等待匹配新建的会话
+     */
+    register(entry: TrackedTerminal): void {
+        this.entries.push(entry);
+        this.emit('terminals:changed');
+    }
+
+    /**
+     * 查找会话正在运行的终端
+     * @param sessionFilePath - 会话文件路径
+     */
+    findTerminal(sessionFilePath: string): vscode.Terminal | undefined {
+        return this.entries.find(entry => entry.sessionFilePath === sessionFilePath)?.terminal;
+    }
+
+    /**
+     * 判断会话是否有正在运行的终端
+     * @param sessionFilePath - 会话文件路径
+     */
+    isRunning(sessionFilePath: string): boolean {
+        return !!this.findTerminal(sessionFilePath);
+    }
+
+    /**
+     * 获取终端对应的登记信息
+     */
+    getEntry(terminal: vscode.Terminal): TrackedTerminal | undefined {
+        return this.entries.find(entry => entry.terminal === terminal);
+    }
+
+    /**
+     * 获取所有已登记的终端
+     */
+    getEntries(): TrackedTerminal[] {
+        return [...this.entries];
+    }
+
+    /**
+     * 终端关闭后移除登记，并释放启动时登记的资源
+     */
+    private unregister(terminal: vscode.Terminal): void {
+        const closed = this.entries.filter(entry => entry.terminal === terminal);
+        if (closed.length === 0) {
+            return;
+        }
+
+        this.entries = this.entries.filter(entry => entry.terminal !== terminal);
+        closed.forEach(entry => entry.release?.());
+        this.emit('terminals:changed');
+    }
+
+    /**
+     * 将新同步的会话匹配到等待中的终端
+     * 按工作目录匹配终端启动后出现的第一个新会话，并记录终端的启动信息
+     */
+    private matchNewSessions(diff: SessionSyncDiff): void {
+        let changed = false;
+
+        for (const session of diff.added) {
+            if (!session.filePath) {
+                continue;
+            }
+
+            const project = this.sessionManager.getProjectById(session.projectId);
+            const entry = this.entries.find(candidate =>
+                !candidate.sessionFilePath &&
+                project?.path === candidate.cwd &&
+                session.createdAt >= candidate.startedAt
+            );
+            if (!entry) {
+                continue;
+            }
+
+            entry.sessionFilePath = session.filePath;
+            if (entry.pendingUpdates) {
+                this.sessionManager.updateSession(session.id, entry.pendingUpdates);
+                entry.pendingUpdates = undefined;
+            }
+            changed = true;
+            logger.info(`Session ${session.id} matched to terminal "${entry.terminal.name}"`, 'TerminalRegistry');
+        }
+
+        if (changed) {
+            this.emit('terminals:changed');
+        }
+    }
+
+    /**
+     * 移除所有监听器
+     */
+    dispose(): void {
+        this.sessionManager.off('sessions:synced', this.onSessionsSynced);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.entries = [];
+    }
+}
@@ -2,8 +2,36 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { claudePathManager } from './claude-path-manager';
 import { UnifiedConfigManager } from './shared/config-manager';
-import { SessionManager } from './session-manager';
+import { AccountBinding, ClaudeLaunch, ClaudeLaunchOptions, CONFIG_CONSTANTS, LaunchMode, LaunchProfile, ModelFamily, PermissionMode, ResolvedProxy, Session, ThirdPartyAccountConfig } from './shared/types';
+import { SessionManager, readSessionFileMetadata } from './session-manager';
+import { TerminalRegistry, TrackedTerminal } from './terminal-registry';
+import { IpcServer } from './ipc';
+import { LocalGateway } from './gateway';
+import { isSocksProxy, maskProxyUrl } from './proxy';
 import { logger } from './logger';
+import { formatShellCommand, getShellKind } from './shell-command';
+
+/**
+ * 直接启动方式下各模型系列对应的环境变量
+ * 按提供商的模型映射解析各系列使用的模型，写入对应的环境变量
+ */
+const DIRECT_MODEL_ENV: Array<{ vars: string[], family: ModelFamily }> = [
+    { vars: ['ANTHROPIC_DEFAULT_OPUS_MODEL'], family: 'opus' },
+    { vars: ['ANTHROPIC_DEFAULT_SONNET_MODEL'], family: 'sonnet' },
+    { vars: ['ANTHROPIC_DEFAULT_HAIKU_MODEL', 'ANTHROPIC_SMALL_FAST_MODEL'], family: 'haiku' }
+];
+
+/**
+ * 启动Claude CLI的环境
+ */
+interface LaunchEnvironment {
+    /** 环境变量 */
+    env: NodeJS.ProcessEnv;
+    /** 是否在Claude命令上预加载拦截器 */
+    preload?: boolean;
+    /** 释放启动时登记的资源（可选） */
+    release?: () => void;
+}
 
 /**
  * 终端服务类
@@ -16,123 +44,232 @@ export class TerminalService {
      * @param context - VSCode扩展上下文
      * @param configManager - 统一配置管理器实例
      * @param sessionManager - 会话管理器实例
+     * @param terminalRegistry - 终端注册表，记录终端与会话的对应关系
+     * @param ipcServer - 拦截器IPC服务，终端中的拦截器连接到它的端点
+     * @param gateway - 本地网关，以网关方式启动的CLI连接到它的地址
      */
     constructor(
         private context: vscode.ExtensionContext,
         private configManager: UnifiedConfigManager,
-        private sessionManager?: SessionManager
+        private sessionManager?: SessionManager,
+        private terminalRegistry?: TerminalRegistry,
+        private ipcServer?: IpcServer,
+        private gateway?: LocalGateway
     ) {
         // 拦截器通信现在通过UnifiedConfigManager处理
         console.log('TerminalService initialized with UnifiedConfigManager');
     }
 
 
+    /**
+     * 准备启动Claude CLI
+     * 解析工作目录、启动配置、权限模式和账号绑定，生成命令参数和环境变量，
+     * 供终端会话和无界面运行共用
+     * @param options - 启动选项，未指定启动配置时使用工作区的默认启动配置
+     * @returns 启动信息，未找到Claude CLI时返回null
+     */
+    public async prepareLaunch(options: ClaudeLaunchOptions = {}): Promise<ClaudeLaunch | null> {
+        // 检测Claude CLI路径
+        const claudePath = await claudePathManager.getClaudePath();
+        if (!claudePath) {
+            return null;
+        }
+
+        logger.info(`Using Claude CLI at: ${claudePath}`, 'TerminalService');
+
+        // 获取工作目录，未指定时优先使用当前工作区
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const cwd = options.cwd || workspaceFolder?.uri.fsPath || process.cwd();
+
+        const profile = options.profile === null
+            ? undefined
+            : options.profile || this.configManager.getDefaultLaunchProfile();
+        if (profile) {
+            logger.info(`Using launch profile: ${profile.name}`, 'TerminalService');
+        }
+
+        // 构建Claude命令参数：本次指定的权限模式优先于启动配置和设置
+        const permissionMode = options.permissionMode || profile?.permissionMode || this.configManager.getPermissionMode();
+        const args = [
+            ...(options.resume ? ['--resume', options.resume] : []),
+            ...this.getPermissionArgs(permissionMode),
+            ...this.getProfileArgs(profile, cwd)
+        ];
+
+        // 绑定到指定账号、启动配置指定的账号或当前活动账号，之后切换全局账号不影响该进程
+        const binding = this.createAccountBinding(options.account || profile?.account);
+
+        // 启动方式：本次指定的优先，其次是绑定账号所属提供商的设置，最后是全局设置；
+        // 部分提供商设置只有网关能处理，这时始终以网关方式启动
+        let launchMode = options.launchMode
+            || (binding && this.configManager.getProviderLaunchMode(binding.compositeId))
+            || this.configManager.getLaunchMode();
+        const gatewayReason = binding && launchMode !== 'gateway' ? this.getGatewayRequirement(binding.compositeId) : undefined;
+        if (binding && gatewayReason) {
+            logger.info(`${binding.label} ${gatewayReason}, launching through the local gateway`, 'TerminalService');
+            launchMode = 'gateway';
+        }
+
+        // 启动配置中的环境变量覆盖默认环境
+        const { env, preload, release = () => undefined } = await this.getClaudeLaunchEnvironment(binding, launchMode);
+        Object.assign(env, profile?.env);
+
+        // 拦截器只预加载到Claude命令上，终端中运行的其他Node程序不会加载拦截器
+        const requireOption = `--require "${this.getInterceptorPath()}"`;
+        const commandEnv: Record<string, string> = preload
+            ? { NODE_OPTIONS: env.NODE_OPTIONS ? `${env.NODE_OPTIONS} ${requireOption}` : requireOption }
+            : {};
+
+        return { claudePath, cwd, args, env, commandEnv, permissionMode, launchMode, profile, binding, release };
+    }
+
     /**
      * 创建新的Claude会话终端
-     * 启动一个新的Claude CLI会话，自动跳过权限检查
+     * 启动一个新的Claude CLI会话，可指定工作目录、启动配置和权限模式
+     * @param options - 启动选项，未指定启动配置时使用工作区的默认启动配置
+     * @returns 新建的终端，启动失败时返回undefined
      */
-    public async createNewClaudeSession(): Promise<void> {
+    public async createNewClaudeSession(options: ClaudeLaunchOptions = {}): Promise<vscode.Terminal | undefined> {
         try {
             logger.info('Creating new Claude session...', 'TerminalService');
 
-            // 检测Claude CLI路径
-            const claudePath = await claudePathManager.getClaudePath();
-            if (!claudePath) {
+            const launch = await this.prepareLaunch(options);
+            if (!launch) {
                 const message = 'Claude CLI not found. Please install Claude CLI first.';
                 logger.error(message, 'TerminalService');
                 vscode.window.showErrorMessage(message);
-                return;
+                return undefined;
             }
-
-            logger.info(`Using Claude CLI at: ${claudePath}`, 'TerminalService');
-
-            // 获取工作目录，优先使用当前工作区
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            const cwd = workspaceFolder?.uri.fsPath || process.cwd();
-
-            // 构建Claude命令参数
-            const args = [''];
-            // 为简化操作，始终跳过权限检查
-            args.push('--dangerously-skip-permissions');
+            const { cwd, profile, binding } = launch;
 
             // 生成会话名称（基于当前时间）
             const now = new Date();
-            const sessionName = `Claude ${now.getMonth() + 1}-${now.getDate()} ${now.getHours()}:${String(now.getMinutes()).padStart(2, '0')}`;
+            let sessionName = `Claude ${now.getMonth() + 1}-${now.getDate()} ${now.getHours()}:${String(now.getMinutes()).padStart(2, '0')}`;
+            if (profile) {
+                sessionName += ` (${profile.name})`;
+            }
             
             // 创建终端实例
             const terminal = vscode.window.createTerminal({
-                name: sessionName,
+                name: this.formatTerminalName(sessionName, binding),
                 cwd: cwd,
-                env: this.getClaudeEnvironment()
+                env: launch.env
+            });
+
+            // 登记终端，CLI创建会话文件后将启动信息记录到会话上，终端关闭时释放启动登记的资源
+            this.registerTerminal(launch, {
+                terminal,
+                cwd,
+                startedAt: binding?.boundAt || now.toISOString(),
+                pendingUpdates: this.getLaunchSessionUpdates(launch)
             });
 
             // 显示终端窗口
             terminal.show();
 
             // 执行Claude命令
-            const command = `"${claudePath}" ${args.join(' ')}`;
+            const command = this.formatCommand(launch);
             logger.info(`Executing command: ${command}`, 'TerminalService');
             terminal.sendText(command);
 
             logger.info('New Claude session created successfully', 'TerminalService');
+            return terminal;
 
         } catch (error) {
             const message = `Failed to create Claude session: ${(error as Error).message}`;
             logger.error(message, 'TerminalService', error as Error);
             vscode.window.showErrorMessage(message);
+            return undefined;
         }
     }
 
+    /**
+     * 登记启动的终端
+     * 没有终端注册表时无法得知终端何时关闭，启动登记的资源保留到扩展停用
+     * @param launch - 启动信息
+     * @param entry - 终端信息
+     */
+    private registerTerminal(launch: ClaudeLaunch, entry: TrackedTerminal): void {
+        this.terminalRegistry?.register({ ...entry, release: launch.release });
+    }
+
+    /**
+     * 获取需要记录到会话上的启动信息
+     * @param launch - 启动信息
+     */
+    public getLaunchSessionUpdates(launch: ClaudeLaunch): Partial<Session> {
+        return {
+            permissionMode: launch.permissionMode,
+            ...(launch.binding ? { account: launch.binding } : {}),
+            ...(launch.profile ? { profile: launch.profile.name } : {})
+        };
+    }
+
     /**
      * 恢复现有Claude会话
-     * 根据会话文件路径恢复之前保存的Claude会话
+     * 根据会话文件路径恢复之前保存的Claude会话，使用会话记录的绑定账号，
+     * 与新建会话一样按账号所属提供商选择启动方式
      * @param sessionFilePath - 会话文件的完整路径
+     * @param permissionMode - 本次启动使用的权限模式，未指定时使用设置中的模式
      */
-    public async resumeClaudeSession(sessionFilePath: string): Promise<void> {
+    public async resumeClaudeSession(sessionFilePath: string, permissionMode?: PermissionMode): Promise<void> {
         try {
             logger.info(`Resuming Claude session from: ${sessionFilePath}`, 'TerminalService');
 
-            // 检测Claude CLI路径
-            const claudePath = await claudePathManager.getClaudePath();
-            if (!claudePath) {
-                const message = 'Claude CLI not found. Please install Claude CLI first.';
-                logger.error(message, 'TerminalService');
-                vscode.window.showErrorMessage(message);
+            // 会话已在终端中运行时直接切换到该终端，避免启动重复的恢复进程
+            const runningTerminal = this.terminalRegistry?.findTerminal(sessionFilePath);
+            if (runningTerminal) {
+                logger.info(`Session already running in terminal "${runningTerminal.name}"`, 'TerminalService');
+                runningTerminal.show();
                 return;
             }
 
             // 从会话文件路径推断工作目录
-            const cwd = this.inferWorkingDirectoryFromSession(sessionFilePath);
+            const cwd = await this.inferWorkingDirectoryFromSession(sessionFilePath);
 
             // 从文件路径提取会话ID（去除.jsonl扩展名）
             const sessionId = path.basename(sessionFilePath, '.jsonl');
-
-            // 尝试从会话管理器获取会话名称
-            let sessionDisplayName = sessionId;
-            if (this.sessionManager) {
-                const session = this.sessionManager.getSessionById(sessionId);
-                if (session) {
-                    sessionDisplayName = session.name;
-                }
+            const session = this.sessionManager?.getAllSessions().find(s => s.filePath === sessionFilePath);
+
+            // 恢复时继续使用会话绑定的账号，账号已删除或会话未绑定时使用当前活动账号
+            const launch = await this.prepareLaunch({
+                cwd,
+                profile: null,
+                permissionMode,
+                account: session?.account?.compositeId,
+                resume: sessionId
+            });
+            if (!launch) {
+                const message = 'Claude CLI not found. Please install Claude CLI first.';
+                logger.error(message, 'TerminalService');
+                vscode.window.showErrorMessage(message);
+                return;
             }
 
-            // 构建Claude恢复命令参数
-            const args = ['--resume', sessionId];
-            // 为简化操作，始终跳过权限检查
-            args.push('--dangerously-skip-permissions');
+            // 记录会话本次绑定的账号和权限模式
+            if (session) {
+                this.sessionManager!.updateSession(session.id, this.getLaunchSessionUpdates(launch));
+            }
 
             // 创建终端实例，使用会话名称作为标题
             const terminal = vscode.window.createTerminal({
-                name: `Claude: ${sessionDisplayName}`,
+                name: this.formatTerminalName(`Claude: ${session?.name || sessionId}`, launch.binding),
                 cwd: cwd,
-                env: this.getClaudeEnvironment()
+                env: launch.env
+            });
+
+            this.registerTerminal(launch, {
+                terminal,
+                cwd,
+                startedAt: new Date().toISOString(),
+                sessionFilePath
             });
 
             // 显示终端窗口
             terminal.show();
 
             // 执行Claude resume命令
-            const command = `"${claudePath}" ${args.join(' ')}`;
+            const command = this.formatCommand(launch);
             logger.info(`Executing command: ${command}`, 'TerminalService');
             terminal.sendText(command);
 
@@ -147,120 +284,292 @@ export class TerminalService {
 
     /**
      * 创建带有拦截器的Claude会话
-     * 使用Node.js的require机制加载拦截器脚本，用于监控和修改Claude CLI的行为
+     * 以拦截器方式新建会话，不使用默认启动配置；绑定的账号只能通过网关启动时仍使用网关
      */
     public async createClaudeSessionWithInterceptor(): Promise<void> {
-        try {
-            logger.info('Creating Claude session with interceptor...', 'TerminalService');
+        await this.createNewClaudeSession({ profile: null, launchMode: 'interceptor' });
+    }
 
-            // 检测Claude CLI路径
-            const claudePath = await claudePathManager.getClaudePath();
-            if (!claudePath) {
-                const message = 'Claude CLI not found. Please install Claude CLI first.';
-                logger.error(message, 'TerminalService');
-                vscode.window.showErrorMessage(message);
-                return;
-            }
+    /**
+     * 获取Claude运行环境变量
+     * 配置Claude CLI运行时需要的环境变量，包括代理设置。CLI不支持SOCKS代理，SOCKS代理只能通过网关使用
+     * @param proxy - 使用的代理（可选），不传入时不设置代理环境变量
+     * @returns 配置好的环境变量对象
+     */
+    private getClaudeEnvironment(proxy?: ResolvedProxy): NodeJS.ProcessEnv {
+        const env = { ...process.env };
+        if (!proxy) {
+            return env;
+        }
 
-            // 获取工作目录
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            const cwd = workspaceFolder?.uri.fsPath || process.cwd();
+        if (isSocksProxy(proxy.url)) {
+            logger.warn(`Claude CLI cannot use SOCKS proxy ${maskProxyUrl(proxy.url)} directly, launch through the gateway to use it`, 'TerminalService');
+            return env;
+        }
 
-            // 获取拦截器脚本路径
-            const interceptorPath = path.join(this.context.extensionPath, 'src', 'claude-interceptor.js');
+        // 设置所有常见的代理环境变量
+        env.HTTP_PROXY = proxy.url;
+        env.HTTPS_PROXY = proxy.url;
+        env.http_proxy = proxy.url;
+        env.https_proxy = proxy.url;
+
+        // 代理配置档的绕过列表追加到用户环境中已有的 NO_PROXY
+        if (proxy.noProxy.length > 0) {
+            const noProxy = [env.NO_PROXY || env.no_proxy, ...proxy.noProxy].filter(Boolean).join(',');
+            env.NO_PROXY = noProxy;
+            env.no_proxy = noProxy;
+        }
 
-            // 构建Claude命令参数
-            const args = [''];
-            // 为简化操作，始终跳过权限检查
-            args.push('--dangerously-skip-permissions');
+        // 记录代理配置（隐藏认证信息）
+        logger.info(`Proxy configured: ${maskProxyUrl(proxy.url)}${proxy.profile ? ` (profile "${proxy.profile}")` : ''}`, 'TerminalService');
 
-            // 创建终端实例，标明使用了拦截器
-            const terminal = vscode.window.createTerminal({
-                name: 'Claude Session (Intercepted)',
-                cwd: cwd,
-                env: this.getClaudeEnvironment()
-            });
+        return env;
+    }
 
-            // 显示终端窗口
-            terminal.show();
+    /**
+     * 获取拦截器运行环境
+     * 在Claude运行环境的基础上附加一次性密钥交接文件、终端绑定的账号、IPC端点和密钥授权，
+     * 拦截器据此解析设置中的密钥引用，固定使用绑定的账号，并向扩展发送消息。
+     * 交接文件只包含绑定账号的密钥和代理密码，在终端中再次运行的CLI凭授权通过IPC请求密钥
+     * @param binding - 终端绑定的账号（可选）
+     * @returns 环境变量和撤销密钥授权的释放函数
+     */
+    private async getInterceptorEnvironment(binding?: AccountBinding | null): Promise<LaunchEnvironment> {
+        const env = this.getClaudeEnvironment(await this.configManager.resolveProviderProxy(binding?.compositeId.split(':')[0]));
 
-            // 使用node --require来预加载拦截器脚本
-            const command = `node --require "${interceptorPath}" "${claudePath}" ${args.join(' ')}`;
-            logger.info(`Executing command with interceptor: ${command}`, 'TerminalService');
-            terminal.sendText(command);
+        const handoffFile = await this.configManager.createInterceptorSecretHandoff(binding?.compositeId);
+        if (handoffFile) {
+            env[CONFIG_CONSTANTS.SECRET_HANDOFF_ENV] = handoffFile;
+        }
 
-            logger.info('Claude session with interceptor created successfully', 'TerminalService');
+        if (binding) {
+            env[CONFIG_CONSTANTS.ACCOUNT_BINDING_ENV] = binding.compositeId;
+        }
 
-        } catch (error) {
-            const message = `Failed to create Claude session with interceptor: ${(error as Error).message}`;
-            logger.error(message, 'TerminalService', error as Error);
-            vscode.window.showErrorMessage(message);
+        const ipcEndpoint = this.ipcServer?.getEndpoint();
+        if (!ipcEndpoint) {
+            return { env };
+        }
+        env[CONFIG_CONSTANTS.IPC_ENDPOINT_ENV] = ipcEndpoint;
+
+        if (!binding) {
+            return { env };
         }
+        const grant = this.configManager.createSecretGrant(binding.compositeId);
+        env[CONFIG_CONSTANTS.SECRET_GRANT_ENV] = grant;
+
+        return { env, release: () => this.configManager.revokeSecretGrant(grant) };
     }
 
     /**
-     * 获取Claude运行环境变量
-     * 配置Claude CLI运行时需要的环境变量，包括代理设置
-     * @returns 配置好的环境变量对象
+     * 获取终端启动Claude CLI的环境变量
+     * 拦截器方式需要在Claude命令上预加载拦截器，终端环境中的密钥授权使之后在终端中重新运行的CLI仍能获得密钥；
+     * 网关方式将CLI指向本地网关；直接方式只设置环境变量，绑定的账号不是第三方账号时改用拦截器方式
+     * @param binding - 终端绑定的账号（可选）
+     * @param launchMode - 启动方式，默认使用设置中的方式
+     * @returns 环境变量和释放启动登记资源的函数
      */
-    private getClaudeEnvironment(): NodeJS.ProcessEnv {
-        const env = { ...process.env };
+    private async getClaudeLaunchEnvironment(
+        binding?: AccountBinding | null,
+        launchMode: LaunchMode = this.configManager.getLaunchMode()
+    ): Promise<LaunchEnvironment> {
+        if (launchMode === 'gateway' && this.gateway) {
+            return this.getGatewayEnvironment(binding);
+        }
 
-        // 如果启用了代理，设置代理环境变量
-        const proxyConfig = this.configManager.getProxyConfig();
-        if (proxyConfig.enabled && proxyConfig.url) {
-            let proxyUrl = proxyConfig.url;
-
-            // 如果有认证信息，添加到URL中
-            if (proxyConfig.auth?.username && proxyConfig.auth?.password) {
-                try {
-                    const url = new URL(proxyConfig.url);
-                    url.username = proxyConfig.auth.username;
-                    url.password = proxyConfig.auth.password;
-                    proxyUrl = url.toString();
-                } catch (error) {
-                    logger.warn('Failed to add auth to proxy URL', 'TerminalService', error as Error);
-                }
+        if (launchMode === 'env') {
+            const env = binding && await this.getDirectEnvironment(binding);
+            if (env) {
+                return { env };
             }
+            logger.warn('Direct launch needs a third-party account with an API key, falling back to the interceptor', 'TerminalService');
+        }
+
+        return { ...await this.getInterceptorEnvironment(binding), preload: true };
+    }
+
+    /**
+     * 获取网关方式的环境变量
+     * CLI以网关登记的客户端令牌作为 ANTHROPIC_AUTH_TOKEN 连接本地网关，
+     * 账号凭据和代理都由网关处理，因此不设置代理环境变量，并让本机地址绕过用户环境中的代理
+     * @param binding - 终端绑定的账号（可选）
+     * @returns 配置好的环境变量对象，以及终端关闭后注销网关客户端的函数
+     */
+    private async getGatewayEnvironment(binding?: AccountBinding | null): Promise<LaunchEnvironment> {
+        const gateway = this.gateway!;
+        await gateway.start();
+
+        const env = { ...process.env };
+        const token = gateway.registerClient(binding || null);
+        delete env.ANTHROPIC_API_KEY;
+        env.ANTHROPIC_BASE_URL = gateway.getBaseUrl();
+        env.ANTHROPIC_AUTH_TOKEN = token;
+
+        const noProxy = env.NO_PROXY || env.no_proxy;
+        env.NO_PROXY = noProxy ? `${noProxy},127.0.0.1,localhost` : '127.0.0.1,localhost';
+        env.no_proxy = env.NO_PROXY;
+
+        return { env, release: () => gateway.unregisterClient(token) };
+    }
+
+    /**
+     * 获取直接启动方式的环境变量
+     * 不预加载拦截器，由CLI自身通过 ANTHROPIC_BASE_URL 和 ANTHROPIC_AUTH_TOKEN 连接第三方提供商，
+     * 模型映射写入 ANTHROPIC_MODEL 和各模型系列的环境变量。密钥在启动时确定，不支持密钥选择和故障转移
+     * @param binding - 终端绑定的账号
+     * @returns 配置好的环境变量对象，账号不是第三方账号或没有密钥时返回null
+     */
+    private async getDirectEnvironment(binding: AccountBinding): Promise<NodeJS.ProcessEnv | null> {
+        const separatorIndex = binding.compositeId.indexOf(':');
+        const providerId = binding.compositeId.slice(0, separatorIndex);
+        const accountId = binding.compositeId.slice(separatorIndex + 1);
+        const provider = this.configManager.getServiceProviders().find(p => p.id === providerId);
+        if (separatorIndex === -1 || provider?.type !== CONFIG_CONSTANTS.PROVIDER_TYPES.THIRD_PARTY) {
+            return null;
+        }
+
+        const account = (provider.accounts as ThirdPartyAccountConfig[]).find(acc => acc.id === accountId);
+        const apiKey = account && await this.configManager.getThirdPartyApiKey(account);
+        if (!account || !apiKey) {
+            return null;
+        }
 
-            // 设置所有常见的代理环境变量
-            env.HTTP_PROXY = proxyUrl;
-            env.HTTPS_PROXY = proxyUrl;
-            env.http_proxy = proxyUrl;
-            env.https_proxy = proxyUrl;
+        const env = this.getClaudeEnvironment(await this.configManager.resolveProviderProxy(provider.id));
+        delete env.ANTHROPIC_API_KEY;
+        env.ANTHROPIC_BASE_URL = account.baseUrl.replace(/\/$/, '');
+        env.ANTHROPIC_AUTH_TOKEN = apiKey;
 
-            // 记录代理配置（隐藏认证信息）
-            logger.info(`Proxy configured: ${proxyUrl.replace(/\/\/.*@/, '//***@')}`, 'TerminalService');
+        if (provider.model) {
+            env.ANTHROPIC_MODEL = provider.model;
+        }
+        for (const { vars, family } of DIRECT_MODEL_ENV) {
+            const mapped = this.configManager.resolveModelFamily(binding.compositeId, family);
+            if (mapped) {
+                vars.forEach(name => env[name] = mapped);
+            }
         }
 
+        logger.info(`Launching ${binding.label} directly against ${env.ANTHROPIC_BASE_URL}`, 'TerminalService');
         return env;
     }
 
+    /**
+     * 判断账号是否只能通过网关启动
+     * OpenAI 兼容协议需要网关转换请求，SOCKS代理需要网关建立隧道（CLI只支持HTTP代理）
+     * @param compositeId - 复合ID（providerId:accountId）
+     * @returns 需要网关的原因，不需要时返回undefined
+     */
+    public getGatewayRequirement(compositeId: string): string | undefined {
+        if (this.configManager.getProviderProtocol(compositeId) !== 'anthropic') {
+            return 'uses an OpenAI-compatible protocol';
+        }
+        const proxyProfile = this.configManager.getProviderProxyProfile(compositeId);
+        if (proxyProfile && isSocksProxy(proxyProfile.url)) {
+            return `uses SOCKS proxy profile "${proxyProfile.name}"`;
+        }
+        return undefined;
+    }
+
+    /**
+     * 获取拦截器脚本路径
+     */
+    private getInterceptorPath(): string {
+        return path.join(this.context.extensionPath, 'src', 'claude-interceptor.js');
+    }
+
+    /**
+     * 创建终端的账号绑定
+     * @param compositeId - 指定账号的复合ID（可选），账号不存在时回退到当前活动账号
+     * @returns 绑定信息，没有可用账号时返回null
+     */
+    private createAccountBinding(compositeId?: string): AccountBinding | null {
+        let binding = compositeId ? this.configManager.getAccountBinding(compositeId) : null;
+        if (compositeId && !binding) {
+            logger.warn(`Account ${compositeId} not found, using the active account`, 'TerminalService');
+        }
+        binding = binding || this.configManager.getActiveAccountBinding();
+        return binding ? { ...binding, boundAt: new Date().toISOString() } : null;
+    }
+
+    /**
+     * 根据权限模式生成Claude CLI参数
+     * @param mode - 权限模式
+     */
+    private getPermissionArgs(mode: PermissionMode): string[] {
+        switch (mode) {
+            case 'bypass':
+                return ['--dangerously-skip-permissions'];
+            case 'acceptEdits':
+            case 'plan':
+                return ['--permission-mode', mode];
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * 根据启动配置生成Claude CLI参数
+     * @param profile - 启动配置（可选）
+     * @param cwd - 工作目录，用于解析相对的附加目录
+     */
+    private getProfileArgs(profile: LaunchProfile | undefined, cwd: string): string[] {
+        if (!profile) {
+            return [];
+        }
+
+        const args: string[] = [];
+        if (profile.model) {
+            args.push('--model', profile.model);
+        }
+        if (profile.allowedTools?.length) {
+            args.push('--allowedTools', ...profile.allowedTools);
+        }
+        if (profile.disallowedTools?.length) {
+            args.push('--disallowedTools', ...profile.disallowedTools);
+        }
+        if (profile.addDirs?.length) {
+            args.push('--add-dir', ...profile.addDirs.map(dir => path.resolve(cwd, dir)));
+        }
+        if (profile.appendSystemPrompt) {
+            args.push('--append-system-prompt', profile.appendSystemPrompt);
+        }
+        if (profile.extraArgs?.length) {
+            args.push(...profile.extraArgs);
+        }
+        return args;
+    }
+
+    /**
+     * 生成在终端中执行的命令行
+     * 按终端默认使用的shell为路径和参数加引号，只作用于Claude命令的环境变量在命令行上设置
+     * @param launch - 启动信息
+     */
+    private formatCommand(launch: ClaudeLaunch): string {
+        return formatShellCommand(getShellKind(vscode.env.shell), launch.claudePath, launch.args, launch.commandEnv);
+    }
+
+    /**
+     * 在终端名称中显示绑定的账号
+     */
+    private formatTerminalName(name: string, binding: AccountBinding | null): string {
+        return binding ? `${name} [${binding.label}]` : name;
+    }
+
     /**
      * 从会话文件路径推断工作目录
      * 尝试从会话文件中读取原始工作目录信息，如果失败则使用当前工作区
      * @param sessionFilePath - 会话文件的完整路径
      * @returns 推断出的工作目录路径
      */
-    private inferWorkingDirectoryFromSession(sessionFilePath: string): string {
+    private async inferWorkingDirectoryFromSession(sessionFilePath: string): Promise<string> {
         try {
-            // 尝试从会话文件中读取cwd信息
+            // 流式读取会话文件元数据，避免大文件阻塞扩展主机
             const fs = require('fs');
             if (fs.existsSync(sessionFilePath)) {
-                const content = fs.readFileSync(sessionFilePath, 'utf-8');
-                const lines = content.split('\n').filter((line: string) => line.trim());
-
-                // 逐行解析JSON，查找cwd字段
-                for (const line of lines as string[]) {
-                    try {
-                        const entry = JSON.parse(line);
-                        if (entry.cwd) {
-                            logger.debug(`Found cwd in session file: ${entry.cwd}`, 'TerminalService');
-                            return entry.cwd;
-                        }
-                    } catch (error) {
-                        // 忽略解析错误，继续下一行
-                    }
+                const metadata = await readSessionFileMetadata(sessionFilePath);
+                if (metadata?.cwd) {
+                    logger.debug(`Found cwd in session file: ${metadata.cwd}`, 'TerminalService');
+                    return metadata.cwd;
                 }
             }
         } catch (error) {
@@ -307,120 +616,6 @@ export class TerminalService {
         return null;
     }
 
-    /**
-     * 创建隐藏的Claude测试会话
-     * 用于验证账号token是否有效，通过发送简单消息触发拦截器获取token
-     * @param testMessage - 测试消息，默认为"hi"
-     * @returns Promise<boolean> - 是否成功获取到token
-     */
-    public async createHiddenTestSession(testMessage: string = 'hi'): Promise<boolean> {
-        try {
-            logger.info('🔍 Creating hidden test session to verify account token...', 'TerminalService');
-
-            // 记录当前活动账号状态  
-            const currentAccount = this.configManager.getCurrentActiveClaudeAccount();
-            if (currentAccount) {
-                logger.info(`📋 Current active account: ${currentAccount.emailAddress}`, 'TerminalService');
-                logger.info(`🔑 Current token status: ${currentAccount.authorization ? 'Has token' : 'No token'}`, 'TerminalService');
-                if (currentAccount.authorization) {
-                    logger.info(`🔑 Token preview: ${currentAccount.authorization.substring(0, 20)}...`, 'TerminalService');
-                }
-            } else {
-                logger.warn('⚠️ No active account found', 'TerminalService');
-                return false;
-            }
-
-            // 检测Claude CLI路径
-            const claudePath = await claudePathManager.getClaudePath();
-            if (!claudePath) {
-                logger.error('❌ Claude CLI not found', 'TerminalService');
-                return false;
-            }
-            logger.info(`✅ Claude CLI found at: ${claudePath}`, 'TerminalService');
-
-            // 检查Claude CLI配置文件
-            const os = require('os');
-            const path = require('path');
-            const fs = require('fs');
-            const claudeConfigPath = path.join(os.homedir(), '.anthropic', 'claude-cli', 'config.json');
-            
-            if (fs.existsSync(claudeConfigPath)) {
-                try {
-                    const configContent = fs.readFileSync(claudeConfigPath, 'utf-8');
-                    const config = JSON.parse(configContent);
-                    logger.info(`📁 Claude CLI config exists`, 'TerminalService');
-                    logger.info(`📧 CLI config account: ${config.account?.email || 'none'}`, 'TerminalService');
-                    logger.info(`🔑 CLI config has session_key: ${!!config.account?.session_key}`, 'TerminalService');
-                } catch (error) {
-                    logger.warn('⚠️ Failed to read Claude CLI config', 'TerminalService');
-                }
-            } else {
-                logger.warn(`⚠️ Claude CLI config not found at: ${claudeConfigPath}`, 'TerminalService');
-            }
-
-            // 获取工作目录
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            const cwd = workspaceFolder?.uri.fsPath || process.cwd();
-            logger.info(`📂 Working directory: ${cwd}`, 'TerminalService');
-
-            // 构建Claude命令参数
-            const args = [''];
-            args.push('--dangerously-skip-permissions');
-
-            // 创建隐藏终端（不显示在UI中）
-            const terminal = vscode.window.createTerminal({
-                name: 'Claude Token Test (Hidden)',
-                cwd: cwd,
-                env: this.getClaudeEnvironment(),
-                hideFromUser: true // 隐藏终端
-            });
-
-            // 执行Claude命令
-            const command = `"${claudePath}" ${args.join(' ')}`;
-            logger.info(`🚀 Executing hidden test command: ${command}`, 'TerminalService');
-            terminal.sendText(command);
-
-            // 等待Claude启动后发送测试消息
-            logger.info('⏳ Waiting 3 seconds for Claude to start...', 'TerminalService');
-            await new Promise(resolve => setTimeout(resolve, 3000));
-            
-            logger.info(`💬 Sending test message: "${testMessage}"`, 'TerminalService');
-            terminal.sendText(testMessage);
-
-            // 等待拦截器捕获token
-            let attempts = 0;
-            const maxAttempts = 15; // 增加等待时间到15秒
-            
-            logger.info(`⏱️ Waiting for token capture (max ${maxAttempts} seconds)...`, 'TerminalService');
-            
-            while (attempts < maxAttempts) {
-                await new Promise(resolve => setTimeout(resolve, 1000));
-                attempts++;
-
-                // 检查当前账号是否已获取到token
-                const currentAccount = this.configManager.getCurrentActiveClaudeAccount();
-                if (currentAccount && currentAccount.authorization) {
-                    logger.info(`✅ Token successfully obtained through test session! (attempt ${attempts}/${maxAttempts})`, 'TerminalService');
-                    logger.info(`🔑 New token preview: ${currentAccount.authorization.substring(0, 20)}...`, 'TerminalService');
-                    terminal.dispose(); // 清理隐藏终端
-                    return true;
-                }
-                
-                if (attempts % 3 === 0) {
-                    logger.info(`⏳ Still waiting for token... (${attempts}/${maxAttempts})`, 'TerminalService');
-                }
-            }
-
-            logger.warn(`⚠️ Failed to obtain token through test session after ${maxAttempts} seconds`, 'TerminalService');
-            terminal.dispose(); // 清理隐藏终端
-            return false;
-
-        } catch (error) {
-            logger.error('❌ Failed to create hidden test session', 'TerminalService', error as Error);
-            return false;
-        }
-    }
-
     /**
      * 执行Claude login命令
      * 在终端中启动Claude CLI的登录流程，用户需要按照终端提示完成认证
@@ -448,7 +643,7 @@ export class TerminalService {
             const terminal = vscode.window.createTerminal({
                 name: 'Claude Login',
                 cwd: cwd,
-                env: this.getClaudeEnvironment()
+                env: this.getClaudeEnvironment(await this.configManager.resolveProviderProxy())
             });
 
             // 显示终端窗口
@@ -0,0 +1,137 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { logger, LogLevel } from '../logger'
+import { ClaudeSyncManager } from '../session-manager/claude-sync-manager'
+import { StoreData } from '../session-manager/types'
+
+describe('ClaudeSyncManager', () => {
+  let home: string
+  let projectDir: string
+  let originalHome: string | undefined
+  let data: StoreData
+  let saves: number
+  let manager: ClaudeSyncManager
+
+  before(() => {
+    logger.setLevel(LogLevel.ERROR)
+  })
+
+  after(() => {
+    logger.setLevel(LogLevel.INFO)
+  })
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'claude-sync-'))
+    projectDir = path.join(home, '.claude', 'projects', '-work-app')
+    fs.mkdirSync(projectDir, { recursive: true })
+    originalHome = process.env.HOME
+    process.env.HOME = home
+
+    data = { projects: [], sessions: [] }
+    saves = 0
+    manager = new ClaudeSyncManager(() => data, saved => {
+      data = saved
+      saves++
+    })
+  })
+
+  afterEach(() => {
+    process.env.HOME = originalHome
+    fs.rmSync(home, { recursive: true, force: true })
+  })
+
+  /** 写入只有一条用户消息的会话文件，append 为真时追加到文件末尾 */
+  const writeSession = (sessionId: string, text: string, { cwd = '/work/app', append = false } = {}): string => {
+    const filePath = path.join(projectDir, `${sessionId}.jsonl`)
+    const entry = { type: 'user', sessionId, cwd, timestamp: new Date().toISOString(), message: { role: 'user', content: text } }
+    fs.writeFileSync(filePath, JSON.stringify(entry) + '\n', { flag: append ? 'a' : 'w' })
+    return filePath
+  }
+
+  it('adds new sessions under the project of their working directory', async () => {
+    writeSession('s1', 'first session')
+    writeSession('s2', 'second session')
+
+    const diff = await manager.syncWithClaudeDirectory()
+
+    assert.strictEqual(diff.added.length, 2)
+    assert.deepStrictEqual(diff.updated, [])
+    assert.deepStrictEqual(data.projects.map(project => [project.name, project.path]), [['app', '/work/app']])
+    assert.deepStrictEqual(data.sessions.map(session => session.name).sort(), ['first session', 'second session'])
+    assert.ok(data.sessions.every(session => session.projectId === data.projects[0].id))
+    assert.strictEqual(saves, 1)
+  })
+
+  it('reports no changes and skips saving when no file changed', async () => {
+    writeSession('s1', 'first session')
+    await manager.syncWithClaudeDirectory()
+
+    const diff = await manager.syncWithClaudeDirectory()
+
+    assert.deepStrictEqual(diff, { added: [], updated: [], removed: [] })
+    assert.strictEqual(saves, 1)
+  })
+
+  it('updates a session in place when its file grows', async () => {
+    writeSession('s1', 'first session')
+    await manager.syncWithClaudeDirectory()
+    const sessionId = data.sessions[0].id
+
+    writeSession('s1', 'follow-up', { append: true })
+    const diff = await manager.syncWithClaudeDirectory()
+
+    assert.deepStrictEqual(diff.updated.map(session => session.id), [sessionId])
+    assert.deepStrictEqual(diff.added, [])
+    assert.strictEqual(data.sessions.length, 1)
+  })
+
+  it('removes sessions whose file was deleted and prunes empty projects', async () => {
+    const filePath = writeSession('s1', 'first session')
+    await manager.syncWithClaudeDirectory()
+
+    fs.rmSync(filePath)
+    const diff = await manager.syncWithClaudeDirectory()
+
+    assert.deepStrictEqual(diff.removed.map(session => session.claudeSessionId), ['s1'])
+    assert.deepStrictEqual(data.sessions, [])
+    assert.deepStrictEqual(data.projects, [])
+    assert.deepStrictEqual(data.fileIndex, {})
+  })
+
+  it('keeps temporary sessions during a full sync', async () => {
+    data.sessions.push({ id: 'tmp', name: 'Temporary', projectId: 'p', createdAt: '', lastActiveAt: '', isTemporary: true })
+
+    const diff = await manager.syncWithClaudeDirectory()
+
+    assert.deepStrictEqual(diff.removed, [])
+    assert.deepStrictEqual(data.sessions.map(session => session.id), ['tmp'])
+  })
+
+  describe('syncSessionFiles', () => {
+    it('syncs only the given files and reuses the folder project for a file without cwd', async () => {
+      const first = writeSession('s1', 'first session')
+      await manager.syncSessionFiles([first])
+
+      const second = writeSession('s2', 'no working directory yet', { cwd: '' })
+      const diff = await manager.syncSessionFiles([second, second])
+
+      assert.deepStrictEqual(diff.added.map(session => session.claudeSessionId), ['s2'])
+      assert.strictEqual(data.projects.length, 1)
+      assert.strictEqual(diff.added[0].projectId, data.projects[0].id)
+    })
+
+    it('removes the session of a deleted file', async () => {
+      const first = writeSession('s1', 'first session')
+      await manager.syncSessionFiles([first])
+
+      fs.rmSync(first)
+      const diff = await manager.syncSessionFiles([first])
+
+      assert.deepStrictEqual(diff.removed.map(session => session.claudeSessionId), ['s1'])
+      assert.deepStrictEqual(data.sessions, [])
+      assert.deepStrictEqual(data.projects, [])
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import * as assert from 'assert'
+import {
+  formatFileReference,
+  formatLineReference,
+  formatProblems,
+  formatSnippet,
+  getRelativePath,
+  getSelectedLines
+} from '../extension-core/editor-context'
+
+describe('getRelativePath', () => {
+  it('returns the path relative to the terminal directory', () => {
+    assert.strictEqual(getRelativePath('/work/app/src/index.ts', '/work/app'), 'src/index.ts')
+  })
+
+  it('keeps absolute paths for files outside the terminal directory', () => {
+    assert.strictEqual(getRelativePath('/work/other/index.ts', '/work/app'), '/work/other/index.ts')
+    assert.strictEqual(getRelativePath('/work/app', '/work/app'), '/work/app')
+  })
+})
+
+describe('formatFileReference', () => {
+  it('prefixes the path with @ and quotes paths with spaces', () => {
+    assert.strictEqual(formatFileReference('/work/app/src/index.ts', '/work/app'), '@src/index.ts')
+    assert.strictEqual(formatFileReference('/work/app/my docs/a b.md', '/work/app'), '@"my docs/a b.md"')
+  })
+})
+
+describe('getSelectedLines', () => {
+  it('converts the selection to 1-based lines', () => {
+    assert.deepStrictEqual(getSelectedLines({ line: 2, character: 4 }, { line: 5, character: 1 }), { startLine: 3, endLine: 6 })
+  })
+
+  it('leaves out the last line when the selection ends at its start', () => {
+    assert.deepStrictEqual(getSelectedLines({ line: 2, character: 0 }, { line: 5, character: 0 }), { startLine: 3, endLine: 5 })
+    assert.deepStrictEqual(getSelectedLines({ line: 2, character: 0 }, { line: 2, character: 0 }), { startLine: 3, endLine: 3 })
+  })
+})
+
+describe('formatLineReference', () => {
+  it('adds a single line or a line range', () => {
+    assert.strictEqual(formatLineReference('/work/app/src/a.ts', '/work/app', 4, 4), '@src/a.ts#L4 ')
+    assert.strictEqual(formatLineReference('/work/app/src/a.ts', '/work/app', 4, 9), '@src/a.ts#L4-9 ')
+  })
+})
+
+describe('formatSnippet', () => {
+  it('wraps the code in a fenced block with its language', () => {
+    assert.strictEqual(
+      formatSnippet('Untitled-1', 1, 2, 'python', 'a = 1\nb = 2'),
+      'Untitled-1 (lines 1-2):\n```python\na = 1\nb = 2\n```\n'
+    )
+  })
+})
+
+describe('formatProblems', () => {
+  it('lists the problems by line with their source and code', () => {
+    const text = formatProblems('/work/app/src/a.ts', '/work/app', [
+      { start: { line: 9, character: 0 }, severity: 'warning', source: 'eslint', code: 'no-unused-vars', message: 'x is unused' },
+      { start: { line: 1, character: 4 }, severity: 'error', source: 'ts', code: 2322, message: 'Type mismatch\nmore details' },
+      { start: { line: 3, character: 2 }, severity: 'error', code: '', message: 'No source' }
+    ])
+
+    assert.strictEqual(text, [
+      'Fix these problems in @src/a.ts:',
+      '- L2:5 error (ts 2322): Type mismatch',
+      '- L4:3 error: No source',
+      '- L10:1 warning (eslint no-unused-vars): x is unused',
+      ''
+    ].join('\n'))
+  })
+})
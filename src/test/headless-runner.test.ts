@@ -0,0 +1,106 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { runHeadless } from '../headless/headless-runner'
+import { HeadlessEvent } from '../headless/types'
+import { ClaudeLaunch } from '../shared/types'
+
+/**
+ * 模拟Claude CLI：读完stdin后按 FAKE_CLAUDE_MODE 输出 stream-json 事件，
+ * assistant 事件中回显收到的参数、提示、工作目录和环境变量
+ */
+const FAKE_CLAUDE = `
+let input = ''
+process.stdin.on('data', chunk => input += chunk).on('end', () => {
+  const mode = process.env.FAKE_CLAUDE_MODE
+  if (mode === 'fail') {
+    process.stderr.write('invalid api key\\n')
+    process.exit(2)
+  }
+  if (mode === 'hang') {
+    setInterval(() => {}, 1000)
+    return
+  }
+  const echo = { args: process.argv.slice(2), input, cwd: process.cwd(), value: process.env.FAKE_VALUE }
+  console.log(JSON.stringify({ type: 'system', subtype: 'init', session_id: 'abc', model: 'claude-sonnet-4-5' }))
+  console.log('Update available')
+  console.log(JSON.stringify({ type: 'assistant', session_id: 'abc', message: { content: [{ type: 'text', text: JSON.stringify(echo) }] } }))
+  console.log(JSON.stringify({ type: 'result', subtype: mode === 'max-turns' ? 'error_max_turns' : 'success', session_id: 'abc', result: 'done', total_cost_usd: 0.5, duration_ms: 10, num_turns: 1 }))
+})
+`
+
+describe('runHeadless', () => {
+  let dir: string
+  let script: string
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'headless-runner-')))
+    script = path.join(dir, 'fake-claude.js')
+    fs.writeFileSync(script, FAKE_CLAUDE)
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  /** 以node运行模拟CLI的启动信息，launch.args 的第一个参数是脚本路径 */
+  const createLaunch = (mode: string, args: string[] = []): ClaudeLaunch => ({
+    claudePath: process.execPath,
+    cwd: dir,
+    args: [script, ...args],
+    env: { ...process.env, FAKE_CLAUDE_MODE: mode, FAKE_VALUE: 'from env' },
+    commandEnv: { FAKE_VALUE: 'from command env' },
+    permissionMode: 'default',
+    launchMode: 'interceptor',
+    binding: null,
+    release: () => undefined
+  })
+
+  it('runs print mode with stream-json output and passes the prompt on stdin', async () => {
+    const events: HeadlessEvent[] = []
+    const result = await runHeadless(createLaunch('success', ['--model', 'opus']), 'What does "this" do?', event => events.push(event))
+
+    assert.deepStrictEqual(events.map(event => event.type), ['system', 'assistant', 'result'])
+    const echo = JSON.parse(events[1].message.content[0].text)
+    assert.deepStrictEqual(echo.args, ['--model', 'opus', '-p', '--output-format', 'stream-json', '--verbose'])
+    assert.strictEqual(echo.input, 'What does "this" do?')
+    assert.strictEqual(echo.cwd, dir)
+    assert.strictEqual(echo.value, 'from command env')
+
+    assert.deepStrictEqual(result, {
+      sessionId: 'abc',
+      result: 'done',
+      isError: false,
+      cancelled: false,
+      exitCode: 0,
+      costUsd: 0.5,
+      durationMs: 10,
+      numTurns: 1
+    })
+  })
+
+  it('treats a result that is not a success as an error', async () => {
+    const result = await runHeadless(createLaunch('max-turns'), 'prompt', () => undefined)
+    assert.strictEqual(result.isError, true)
+    assert.strictEqual(result.result, 'done')
+  })
+
+  it('reports stderr when the CLI exits without a result', async () => {
+    const result = await runHeadless(createLaunch('fail'), 'prompt', () => undefined)
+    assert.strictEqual(result.isError, true)
+    assert.strictEqual(result.exitCode, 2)
+    assert.strictEqual(result.result, 'invalid api key')
+  })
+
+  it('ends the process and reports cancellation when aborted', async () => {
+    const controller = new AbortController()
+    const running = runHeadless(createLaunch('hang'), 'prompt', () => undefined, controller.signal)
+    setTimeout(() => controller.abort(), 200)
+
+    const result = await running
+    assert.strictEqual(result.cancelled, true)
+    assert.strictEqual(result.isError, true)
+    assert.strictEqual(result.result, 'Cancelled')
+  })
+})
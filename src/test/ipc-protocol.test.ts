@@ -0,0 +1,87 @@
+import * as assert from 'assert'
+import { formatIpcAck, hashAuthorization, validateIpcMessage } from '../ipc/ipc-protocol'
+import { IPC_PROTOCOL_VERSION } from '../ipc/types'
+
+function createMessage(type: string, payload: unknown, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return { v: IPC_PROTOCOL_VERSION, id: 'message-1', type, pid: 42, timestamp: 1700000000000, payload, ...overrides }
+}
+
+function getError(raw: unknown): string {
+  const result = validateIpcMessage(raw)
+  assert.strictEqual(result.valid, false)
+  return result.valid ? '' : result.error
+}
+
+describe('validateIpcMessage', () => {
+  it('accepts a valid message', () => {
+    const result = validateIpcMessage(createMessage('TOKEN_EXPIRED', { emailAddress: 'a@example.com', authorizationHash: 'abc' }))
+    assert.ok(result.valid)
+    assert.deepStrictEqual(result.valid && result.message, {
+      v: IPC_PROTOCOL_VERSION,
+      id: 'message-1',
+      type: 'TOKEN_EXPIRED',
+      pid: 42,
+      timestamp: 1700000000000,
+      payload: { emailAddress: 'a@example.com', authorizationHash: 'abc' }
+    })
+  })
+
+  it('rejects messages that are not objects', () => {
+    assert.match(getError(null), /JSON object/)
+    assert.match(getError([]), /JSON object/)
+    assert.match(getError('text'), /JSON object/)
+  })
+
+  it('rejects newer protocol versions', () => {
+    assert.match(getError(createMessage('TOKEN_EXPIRED', {}, { v: IPC_PROTOCOL_VERSION + 1 })), /Unsupported protocol version/)
+    assert.match(getError(createMessage('TOKEN_EXPIRED', {}, { v: -1 })), /Invalid protocol version/)
+  })
+
+  it('rejects missing envelope fields and unknown types', () => {
+    assert.match(getError(createMessage('TOKEN_EXPIRED', {}, { id: '' })), /Missing message id/)
+    assert.match(getError(createMessage('NOT_A_TYPE', {})), /Unknown message type/)
+    assert.match(getError(createMessage('TOKEN_EXPIRED', {}, { timestamp: 'now' })), /Missing timestamp/)
+    assert.match(getError(createMessage('TOKEN_EXPIRED', 'payload')), /Payload must be an object/)
+  })
+
+  it('upgrades legacy messages without a version', () => {
+    const result = validateIpcMessage({ type: 'AUTHORIZATION_UPDATE', timestamp: 1, emailAddress: 'a@example.com', authorization: 'Bearer token' })
+    assert.ok(result.valid)
+    if (result.valid) {
+      assert.strictEqual(result.message.v, 0)
+      assert.strictEqual(result.message.id, 'legacy-AUTHORIZATION_UPDATE-1')
+      assert.deepStrictEqual(result.message.payload, { emailAddress: 'a@example.com', authorization: 'Bearer token' })
+    }
+  })
+
+  it('accepts an authorization update with either the token or its hash', () => {
+    assert.ok(validateIpcMessage(createMessage('AUTHORIZATION_UPDATE', { emailAddress: 'a@example.com', authorization: 'Bearer token' })).valid)
+    assert.ok(validateIpcMessage(createMessage('AUTHORIZATION_UPDATE', { emailAddress: 'a@example.com', authorizationHash: 'abc' })).valid)
+    assert.match(getError(createMessage('AUTHORIZATION_UPDATE', { emailAddress: 'a@example.com' })), /authorizationHash must be a non-empty string/)
+    assert.match(getError(createMessage('AUTHORIZATION_UPDATE', { emailAddress: 'a@example.com', authorization: '' })), /authorization must be a non-empty string/)
+  })
+
+  it('validates nested payload fields', () => {
+    assert.match(getError(createMessage('ACCOUNT_DISCOVERED', { account: 'a@example.com' })), /account must be an object/)
+    assert.match(getError(createMessage('ACCOUNT_DISCOVERED', { account: { emailAddress: 'a@example.com', organizationName: 1 } })), /account\.organizationName must be a string/)
+    assert.match(
+      getError(createMessage('REQUEST_COMPLETED', { requestId: 'r', method: 'POST', path: '/v1/messages', startedAt: 1, durationMs: 2, usage: { inputTokens: 1 } })),
+      /usage\.outputTokens must be a number/
+    )
+    assert.match(getError(createMessage('KEY_SELECT', { providerId: 'p', exclude: ['a', 1] })), /exclude must be an array of strings/)
+  })
+})
+
+describe('formatIpcAck', () => {
+  it('writes one JSON line with the reply data', () => {
+    const line = formatIpcAck('message-1', true, undefined, undefined, { compositeId: 'p:a' })
+    assert.ok(line.endsWith('\n'))
+    assert.deepStrictEqual(JSON.parse(line), { v: IPC_PROTOCOL_VERSION, type: 'ACK', id: 'message-1', ok: true, data: { compositeId: 'p:a' } })
+  })
+})
+
+describe('hashAuthorization', () => {
+  it('returns the SHA-256 hex digest', () => {
+    assert.strictEqual(hashAuthorization('abc'), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+})
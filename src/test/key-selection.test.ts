@@ -0,0 +1,70 @@
+import * as assert from 'assert'
+import { KeyCandidate, KeySelectionState, pickKey } from '../shared/key-selection'
+
+describe('pickKey', () => {
+  const candidates: KeyCandidate[] = [
+    { compositeId: 'provider:a' },
+    { compositeId: 'provider:b' },
+    { compositeId: 'provider:c' }
+  ]
+  const createState = (): KeySelectionState => ({ lastKeys: {}, keyUsage: {} })
+
+  it('rotates through the keys in order with round-robin', () => {
+    const state = createState()
+    const picks = [1, 2, 3, 4].map(now => pickKey('round-robin', 'provider', candidates, state, now))
+    assert.deepStrictEqual(picks, ['provider:a', 'provider:b', 'provider:c', 'provider:a'])
+    assert.deepStrictEqual(state.lastKeys, { provider: 'provider:a' })
+  })
+
+  it('continues round-robin from the first key when the last one is no longer a candidate', () => {
+    const state = createState()
+    state.lastKeys.provider = 'provider:removed'
+    assert.strictEqual(pickKey('round-robin', 'provider', candidates, state), 'provider:a')
+  })
+
+  it('picks the least recently used key and records the time', () => {
+    const state = createState()
+    state.keyUsage = { 'provider:a': 30, 'provider:b': 10, 'provider:c': 20 }
+    assert.strictEqual(pickKey('least-recently-used', 'provider', candidates, state, 40), 'provider:b')
+    assert.strictEqual(state.keyUsage['provider:b'], 40)
+    assert.strictEqual(pickKey('least-recently-used', 'provider', candidates, state, 50), 'provider:c')
+  })
+
+  it('prefers keys that were never used with least-recently-used', () => {
+    const state = createState()
+    state.keyUsage = { 'provider:a': 30 }
+    assert.strictEqual(pickKey('least-recently-used', 'provider', candidates, state), 'provider:b')
+  })
+
+  describe('weighted', () => {
+    const random = Math.random
+    afterEach(() => {
+      Math.random = random
+    })
+
+    const weighted: KeyCandidate[] = [
+      { compositeId: 'provider:a', weight: 1 },
+      { compositeId: 'provider:b', weight: 3 },
+      { compositeId: 'provider:c', weight: 0 }
+    ]
+
+    it('selects keys in proportion to their weights', () => {
+      Math.random = () => 0.1
+      assert.strictEqual(pickKey('weighted', 'provider', weighted, createState()), 'provider:a')
+      Math.random = () => 0.5
+      assert.strictEqual(pickKey('weighted', 'provider', weighted, createState()), 'provider:b')
+      Math.random = () => 0.999
+      assert.strictEqual(pickKey('weighted', 'provider', weighted, createState()), 'provider:b')
+    })
+
+    it('treats keys without a weight as weight 1', () => {
+      Math.random = () => 0.6
+      assert.strictEqual(pickKey('weighted', 'provider', candidates, createState()), 'provider:b')
+    })
+
+    it('falls back to the first key when all weights are zero', () => {
+      const zero = candidates.map(candidate => ({ ...candidate, weight: 0 }))
+      assert.strictEqual(pickKey('weighted', 'provider', zero, createState()), 'provider:a')
+    })
+  })
+})
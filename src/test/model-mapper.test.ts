@@ -0,0 +1,74 @@
+import * as assert from 'assert'
+import { ModelMapper } from '../shared/model-mapper'
+
+describe('ModelMapper', () => {
+  const mapper = new ModelMapper()
+
+  describe('resolve', () => {
+    it('returns the model unchanged without a mapping', () => {
+      assert.strictEqual(mapper.resolve(undefined, 'claude-sonnet-4-5'), 'claude-sonnet-4-5')
+      assert.strictEqual(mapper.resolve({}, 'claude-sonnet-4-5'), 'claude-sonnet-4-5')
+    })
+
+    it('prefers an exact name over wildcard patterns', () => {
+      const mapping = { modelMap: { 'claude-*': 'generic', 'claude-opus-4-1': 'exact' } }
+      assert.strictEqual(mapper.resolve(mapping, 'claude-opus-4-1'), 'exact')
+      assert.strictEqual(mapper.resolve(mapping, 'claude-sonnet-4-5'), 'generic')
+    })
+
+    it('uses the first matching wildcard pattern in configuration order', () => {
+      const mapping = { modelMap: { '*sonnet*': 'first', 'claude-*': 'second' } }
+      assert.strictEqual(mapper.resolve(mapping, 'claude-sonnet-4-5'), 'first')
+      assert.strictEqual(mapper.resolve(mapping, 'claude-opus-4-1'), 'second')
+      assert.strictEqual(mapper.resolve(mapping, 'gpt-4o'), 'gpt-4o')
+    })
+
+    it('matches wildcards case-insensitively and treats other characters literally', () => {
+      const mapping = { modelMap: { 'Claude-3.5-*': 'mapped' } }
+      assert.strictEqual(mapper.resolve(mapping, 'claude-3.5-haiku'), 'mapped')
+      assert.strictEqual(mapper.resolve(mapping, 'claude-305-haiku'), 'claude-305-haiku')
+    })
+
+    it('maps Haiku models to the small fast model before the model map', () => {
+      const mapping = { smallFastModel: 'fast', modelMap: { 'claude-*': 'generic' } }
+      assert.strictEqual(mapper.resolve(mapping, 'claude-3-5-haiku-20241022'), 'fast')
+      assert.strictEqual(mapper.resolve(mapping, 'claude-sonnet-4-5'), 'generic')
+    })
+  })
+
+  describe('resolveFamily', () => {
+    it('uses the first entry that names the family or matches it by wildcard', () => {
+      const mapping = { modelMap: { 'claude-opus-4-1-20250805': 'big', 'claude-*': 'generic' } }
+      assert.strictEqual(mapper.resolveFamily(mapping, 'opus'), 'big')
+      assert.strictEqual(mapper.resolveFamily(mapping, 'sonnet'), 'generic')
+      assert.strictEqual(mapper.resolveFamily({ modelMap: { '*Sonnet*': 'mid' } }, 'sonnet'), 'mid')
+    })
+
+    it('maps the Haiku family to the small fast model', () => {
+      const mapping = { smallFastModel: 'fast', modelMap: { '*': 'generic' } }
+      assert.strictEqual(mapper.resolveFamily(mapping, 'haiku'), 'fast')
+      assert.strictEqual(mapper.resolveFamily(mapping, 'opus'), 'generic')
+    })
+
+    it('returns null when no entry applies to the family', () => {
+      const mapping = { modelMap: { 'claude-sonnet-*': 'mid', 'claude-*-4-5': 'other' } }
+      assert.strictEqual(mapper.resolveFamily(mapping, 'opus'), null)
+      assert.strictEqual(mapper.resolveFamily(undefined, 'opus'), null)
+    })
+  })
+
+  describe('rewriteBody', () => {
+    it('rewrites the model and returns the requested one', () => {
+      const result = mapper.rewriteBody(JSON.stringify({ model: 'claude-sonnet-4-5', max_tokens: 10 }), { modelMap: { 'claude-sonnet-4-5': 'kimi-k2' } })
+      assert.deepStrictEqual(result, { body: JSON.stringify({ model: 'kimi-k2', max_tokens: 10 }), requestedModel: 'claude-sonnet-4-5' })
+    })
+
+    it('returns null when nothing needs to change', () => {
+      const mapping = { modelMap: { 'claude-opus-4-1': 'kimi-k2' } }
+      assert.strictEqual(mapper.rewriteBody(JSON.stringify({ model: 'claude-sonnet-4-5' }), mapping), null)
+      assert.strictEqual(mapper.rewriteBody(JSON.stringify({ model: 'claude-opus-4-1' }), undefined), null)
+      assert.strictEqual(mapper.rewriteBody('not json', mapping), null)
+      assert.strictEqual(mapper.rewriteBody({ model: 'claude-opus-4-1' }, mapping), null)
+    })
+  })
+})
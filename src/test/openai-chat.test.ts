@@ -0,0 +1,134 @@
+import * as assert from 'assert'
+import { OpenAIChatTranslator } from '../gateway/openai-chat'
+
+/**
+ * 解析转换器输出的 Anthropic SSE 事件
+ */
+function parseEvents(output: string): any[] {
+  return output.split('\n\n').filter(Boolean).map(event => {
+    const [eventLine, dataLine] = event.split('\n')
+    const data = JSON.parse(dataLine.slice('data: '.length))
+    assert.strictEqual(eventLine, `event: ${data.type}`)
+    return data
+  })
+}
+
+describe('OpenAIChatTranslator', () => {
+  const translator = new OpenAIChatTranslator()
+
+  describe('translateRequest', () => {
+    it('converts system, messages and sampling options', () => {
+      const request = translator.translateRequest({
+        model: 'gpt-4o',
+        system: [{ type: 'text', text: 'Be brief.' }],
+        max_tokens: 100,
+        temperature: 0.2,
+        stop_sequences: ['END'],
+        metadata: { user_id: 'user-1' },
+        messages: [{ role: 'user', content: 'Hello' }]
+      })
+      assert.deepStrictEqual(request, {
+        model: 'gpt-4o',
+        messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Hello' }],
+        max_tokens: 100,
+        stream: false,
+        temperature: 0.2,
+        stop: ['END'],
+        user: 'user-1'
+      })
+    })
+
+    it('converts tool use and tool results to tool calls and tool messages', () => {
+      const request = translator.translateRequest({
+        model: 'gpt-4o',
+        stream: true,
+        tools: [{ name: 'Bash', description: 'Run a command', input_schema: { type: 'object' } }],
+        tool_choice: { type: 'any', disable_parallel_tool_use: true },
+        messages: [
+          { role: 'assistant', content: [{ type: 'text', text: 'Running' }, { type: 'tool_use', id: 'call_1', name: 'Bash', input: { command: 'ls' } }] },
+          { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'file.txt' }, { type: 'text', text: 'Next' }] }
+        ]
+      })
+
+      assert.deepStrictEqual(request.messages, [
+        { role: 'assistant', content: 'Running', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'Bash', arguments: '{"command":"ls"}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: 'file.txt' },
+        { role: 'user', content: 'Next' }
+      ])
+      assert.deepStrictEqual(request.tools, [{ type: 'function', function: { name: 'Bash', description: 'Run a command', parameters: { type: 'object' } } }])
+      assert.strictEqual(request.tool_choice, 'required')
+      assert.strictEqual(request.parallel_tool_calls, false)
+      assert.deepStrictEqual(request.stream_options, { include_usage: true })
+    })
+  })
+
+  describe('translateResponse', () => {
+    it('converts text, tool calls, stop reason and usage', () => {
+      const response = translator.translateResponse({
+        id: 'chatcmpl-1',
+        model: 'gpt-4o',
+        choices: [{
+          finish_reason: 'tool_calls',
+          message: { content: 'Running', tool_calls: [{ id: 'call_1', function: { name: 'Bash', arguments: '{"command":"ls"}' } }] }
+        }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, prompt_tokens_details: { cached_tokens: 4 } }
+      }, 'requested-model')
+
+      assert.deepStrictEqual(response, {
+        id: 'msg_chatcmpl-1',
+        type: 'message',
+        role: 'assistant',
+        model: 'gpt-4o',
+        content: [
+          { type: 'text', text: 'Running' },
+          { type: 'tool_use', id: 'call_1', name: 'Bash', input: { command: 'ls' } }
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 4 }
+      })
+    })
+
+    it('maps length to max_tokens and falls back to the requested model', () => {
+      const response = translator.translateResponse({ choices: [{ finish_reason: 'length', message: { content: 'Hi' } }] }, 'requested-model')
+      assert.strictEqual(response.stop_reason, 'max_tokens')
+      assert.strictEqual(response.model, 'requested-model')
+    })
+  })
+
+  describe('createStreamTranslator', () => {
+    it('converts text and tool call deltas into Anthropic events', () => {
+      const stream = translator.createStreamTranslator('requested-model')
+      const chunks = [
+        { id: 'chatcmpl-1', model: 'gpt-4o', choices: [{ delta: { content: 'Hel' } }] },
+        { id: 'chatcmpl-1', choices: [{ delta: { content: 'lo' } }] },
+        { id: 'chatcmpl-1', choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'Bash', arguments: '{"com' } }] } }] },
+        { id: 'chatcmpl-1', choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'mand":"ls"}' } }] }, finish_reason: 'tool_calls' }] },
+        { id: 'chatcmpl-1', choices: [], usage: { prompt_tokens: 10, completion_tokens: 5 } }
+      ]
+      const sse = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n'
+
+      // 数据块可能在任意位置被拆开
+      const output = stream.push(sse.slice(0, 50)) + stream.push(sse.slice(50)) + stream.finish()
+      const events = parseEvents(output)
+
+      assert.deepStrictEqual(events.map(event => event.type), [
+        'message_start',
+        'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+        'content_block_start', 'content_block_delta', 'content_block_delta', 'content_block_stop',
+        'message_delta', 'message_stop'
+      ])
+      assert.strictEqual(events[0].message.model, 'gpt-4o')
+      assert.deepStrictEqual(events[5].content_block, { type: 'tool_use', id: 'call_1', name: 'Bash', input: {} })
+      assert.strictEqual(events[6].delta.partial_json + events[7].delta.partial_json, '{"command":"ls"}')
+      assert.deepStrictEqual(events[9].delta, { stop_reason: 'tool_use', stop_sequence: null })
+      assert.deepStrictEqual(events[9].usage, { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 0 })
+    })
+
+    it('ends the stream with an error event when the upstream reports an error', () => {
+      const stream = translator.createStreamTranslator('requested-model')
+      const events = parseEvents(stream.push('data: {"error":{"message":"Rate limited"}}\n\n') + stream.finish())
+      assert.deepStrictEqual(events, [{ type: 'error', error: { type: 'api_error', message: 'Rate limited' } }])
+    })
+  })
+})
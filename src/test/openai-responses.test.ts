@@ -0,0 +1,115 @@
+import * as assert from 'assert'
+import { OpenAIResponsesTranslator } from '../gateway/openai-responses'
+
+/**
+ * 解析转换器输出的 Anthropic SSE 事件
+ */
+function parseEvents(output: string): any[] {
+  return output.split('\n\n').filter(Boolean).map(event => JSON.parse(event.split('\n')[1].slice('data: '.length)))
+}
+
+describe('OpenAIResponsesTranslator', () => {
+  const translator = new OpenAIResponsesTranslator()
+
+  describe('translateRequest', () => {
+    it('converts messages to input items without storing the conversation', () => {
+      const request = translator.translateRequest({
+        model: 'gpt-5',
+        system: 'Be brief.',
+        max_tokens: 200,
+        tools: [{ name: 'Read', description: 'Read a file', input_schema: { type: 'object' } }],
+        tool_choice: { type: 'tool', name: 'Read' },
+        messages: [
+          { role: 'user', content: 'Read the file' },
+          { role: 'assistant', content: [{ type: 'text', text: 'Reading' }, { type: 'tool_use', id: 'call_1', name: 'Read', input: { file_path: 'a.ts' } }] },
+          { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: [{ type: 'text', text: 'contents' }] }] }
+        ]
+      })
+
+      assert.deepStrictEqual(request, {
+        model: 'gpt-5',
+        input: [
+          { role: 'user', content: [{ type: 'input_text', text: 'Read the file' }] },
+          { role: 'assistant', content: [{ type: 'output_text', text: 'Reading' }] },
+          { type: 'function_call', call_id: 'call_1', name: 'Read', arguments: '{"file_path":"a.ts"}' },
+          { type: 'function_call_output', call_id: 'call_1', output: 'contents' }
+        ],
+        max_output_tokens: 200,
+        stream: false,
+        store: false,
+        instructions: 'Be brief.',
+        tools: [{ type: 'function', name: 'Read', description: 'Read a file', parameters: { type: 'object' } }],
+        tool_choice: { type: 'function', name: 'Read' }
+      })
+    })
+  })
+
+  describe('translateResponse', () => {
+    it('converts output items, usage and tool use stop reason', () => {
+      const response = translator.translateResponse({
+        id: 'resp_1',
+        model: 'gpt-5',
+        status: 'completed',
+        output: [
+          { type: 'reasoning', summary: [] },
+          { type: 'message', content: [{ type: 'output_text', text: 'Reading' }] },
+          { type: 'function_call', call_id: 'call_1', name: 'Read', arguments: '{"file_path":"a.ts"}' }
+        ],
+        usage: { input_tokens: 12, output_tokens: 3, input_tokens_details: { cached_tokens: 8 } }
+      }, 'requested-model')
+
+      assert.deepStrictEqual(response.content, [
+        { type: 'text', text: 'Reading' },
+        { type: 'tool_use', id: 'call_1', name: 'Read', input: { file_path: 'a.ts' } }
+      ])
+      assert.strictEqual(response.id, 'msg_resp_1')
+      assert.strictEqual(response.stop_reason, 'tool_use')
+      assert.deepStrictEqual(response.usage, { input_tokens: 12, output_tokens: 3, cache_read_input_tokens: 8 })
+    })
+
+    it('maps an incomplete response cut off by max_output_tokens to max_tokens', () => {
+      const response = translator.translateResponse({
+        status: 'incomplete',
+        incomplete_details: { reason: 'max_output_tokens' },
+        output: [{ type: 'message', content: [{ type: 'output_text', text: 'Partial' }] }]
+      }, 'requested-model')
+      assert.strictEqual(response.stop_reason, 'max_tokens')
+      assert.strictEqual(response.model, 'requested-model')
+    })
+  })
+
+  describe('createStreamTranslator', () => {
+    it('converts response events into Anthropic events', () => {
+      const stream = translator.createStreamTranslator('requested-model')
+      const upstream = [
+        { type: 'response.created', response: { id: 'resp_1', model: 'gpt-5' } },
+        { type: 'response.output_text.delta', delta: 'Reading' },
+        { type: 'response.output_item.done' },
+        { type: 'response.output_item.added', item: { type: 'function_call', call_id: 'call_1', name: 'Read' } },
+        { type: 'response.function_call_arguments.delta', delta: '{"file_path":"a.ts"}' },
+        { type: 'response.output_item.done' },
+        { type: 'response.completed', response: { status: 'completed', usage: { input_tokens: 12, output_tokens: 3 } } }
+      ]
+      const output = upstream.map(event => stream.push(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)).join('') + stream.finish()
+      const events = parseEvents(output)
+
+      assert.deepStrictEqual(events.map(event => event.type), [
+        'message_start',
+        'content_block_start', 'content_block_delta', 'content_block_stop',
+        'content_block_start', 'content_block_delta', 'content_block_stop',
+        'message_delta', 'message_stop'
+      ])
+      assert.strictEqual(events[0].message.id, 'msg_resp_1')
+      assert.deepStrictEqual(events[2].delta, { type: 'text_delta', text: 'Reading' })
+      assert.strictEqual(events[4].content_block.id, 'call_1')
+      assert.strictEqual(events[7].delta.stop_reason, 'tool_use')
+      assert.strictEqual(events[7].usage.input_tokens, 12)
+    })
+
+    it('converts a failed response into an error event', () => {
+      const stream = translator.createStreamTranslator('requested-model')
+      const events = parseEvents(stream.push(`data: ${JSON.stringify({ type: 'response.failed', response: { error: { message: 'Server overloaded' } } })}\n\n`) + stream.finish())
+      assert.deepStrictEqual(events, [{ type: 'error', error: { type: 'api_error', message: 'Server overloaded' } }])
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { readSessionFileMetadata } from '../session-manager/session-file-reader'
+
+describe('readSessionFileMetadata', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-file-reader-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  /** 把记录写成JSONL会话文件，字符串原样写入（用于半行和空行） */
+  const writeSession = (entries: unknown[]): string => {
+    const filePath = path.join(dir, 'session.jsonl')
+    fs.writeFileSync(filePath, entries.map(entry => typeof entry === 'string' ? entry : JSON.stringify(entry)).join('\n'))
+    return filePath
+  }
+
+  const assistant = (id: string, timestamp: string, usage: Record<string, number>, model = 'claude-sonnet-4-5') => ({
+    type: 'assistant',
+    timestamp,
+    message: { id, model, role: 'assistant', usage, content: [{ type: 'text', text: 'ok' }] }
+  })
+
+  it('reads the header fields and counts non-empty lines', async () => {
+    const metadata = await readSessionFileMetadata(writeSession([
+      { type: 'summary', summary: 'title' },
+      { type: 'user', sessionId: 's1', cwd: '/work', timestamp: '2025-01-01T10:00:00.000Z', message: { role: 'user', content: [{ type: 'text', text: 'hello' }] } },
+      '',
+      assistant('m1', '2025-01-01T10:00:05.000Z', { input_tokens: 1, output_tokens: 1 })
+    ]))
+
+    assert.ok(metadata)
+    assert.strictEqual(metadata.sessionId, 's1')
+    assert.strictEqual(metadata.cwd, '/work')
+    assert.strictEqual(metadata.firstUserMessage, 'hello')
+    assert.strictEqual(metadata.entryCount, 3)
+  })
+
+  it('takes the first and last timestamps from top-level fields only', async () => {
+    const metadata = await readSessionFileMetadata(writeSession([
+      { type: 'file-history-snapshot', snapshot: { timestamp: '2020-01-01T00:00:00.000Z' } },
+      { type: 'user', sessionId: 's1', cwd: '/work', timestamp: '2025-01-01T10:00:00.000Z', message: { role: 'user', content: 'hi' } },
+      assistant('m1', '2025-01-01T10:05:00.000Z', { input_tokens: 1 }),
+      { type: 'file-history-snapshot', snapshot: { timestamp: '2030-01-01T00:00:00.000Z' } },
+      '{"type":"assistant","timestamp":"2031-01-01T00:00:00.000Z","mess'
+    ]))
+
+    assert.ok(metadata)
+    assert.strictEqual(metadata.firstTimestamp, '2025-01-01T10:00:00.000Z')
+    assert.strictEqual(metadata.lastTimestamp, '2025-01-01T10:05:00.000Z')
+  })
+
+  it('counts the usage of a message split into several lines once', async () => {
+    const usage = { input_tokens: 10, output_tokens: 20, cache_creation_input_tokens: 3, cache_read_input_tokens: 4 }
+    const metadata = await readSessionFileMetadata(writeSession([
+      { type: 'user', sessionId: 's1', cwd: '/work', timestamp: '2025-01-01T10:00:00.000Z', message: { role: 'user', content: 'hi' } },
+      assistant('m1', '2025-01-01T10:00:01.000Z', usage),
+      assistant('m1', '2025-01-01T10:00:02.000Z', usage),
+      assistant('m2', '2025-01-01T11:30:00.000Z', { input_tokens: 5, output_tokens: 1 }, 'claude-opus-4-1'),
+      assistant('m3', '2025-01-01T11:31:00.000Z', { input_tokens: 100 }, '<synthetic>')
+    ]))
+
+    assert.ok(metadata)
+    assert.deepStrictEqual(metadata.usage.total, {
+      inputTokens: 15,
+      outputTokens: 21,
+      cacheCreationInputTokens: 3,
+      cacheReadInputTokens: 4,
+      requests: 2
+    })
+    assert.deepStrictEqual(
+      metadata.usage.buckets.map(bucket => [bucket.hour, bucket.model, bucket.lastAt, bucket.usage.requests]),
+      [
+        ['2025-01-01T10:00:00.000Z', 'claude-sonnet-4-5', '2025-01-01T10:00:02.000Z', 1],
+        ['2025-01-01T11:00:00.000Z', 'claude-opus-4-1', '2025-01-01T11:30:00.000Z', 1]
+      ]
+    )
+  })
+
+  it('returns null for an empty file', async () => {
+    assert.strictEqual(await readSessionFileMetadata(writeSession(['', '  '])), null)
+  })
+})
@@ -0,0 +1,183 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { EventEmitter } from 'events'
+import { logger, LogLevel } from '../logger'
+import { parseSearchQuery } from '../search/search-query'
+import { SessionSearchIndex } from '../search/session-search-index'
+import { Project, Session } from '../shared/types'
+
+/**
+ * 只提供搜索索引用到的方法的会话管理器
+ */
+class FakeSessionManager extends EventEmitter {
+  sessions: Session[] = []
+  projects: Project[] = []
+
+  getAllSessions(): Session[] {
+    return this.sessions
+  }
+
+  getProjectById(projectId: string): Project | undefined {
+    return this.projects.find(project => project.id === projectId)
+  }
+}
+
+describe('parseSearchQuery', () => {
+  it('splits the remaining input into lowercase terms', () => {
+    assert.deepStrictEqual(parseSearchQuery('  Fix   the Bug '), { terms: ['fix', 'the', 'bug'] })
+  })
+
+  it('extracts filters with plain and quoted values', () => {
+    const query = parseSearchQuery('project:"my app" tool:Bash deploy after:2025-01-01 before:2025-02-01')
+    assert.deepStrictEqual(query.terms, ['deploy'])
+    assert.strictEqual(query.project, 'my app')
+    assert.strictEqual(query.tool, 'Bash')
+    assert.strictEqual(query.after?.toISOString(), '2025-01-01T00:00:00.000Z')
+    assert.strictEqual(query.before?.toISOString(), '2025-02-01T00:00:00.000Z')
+  })
+
+  it('ignores invalid dates and empty filter values', () => {
+    const query = parseSearchQuery('after:someday project:"" term')
+    assert.strictEqual(query.after, undefined)
+    assert.strictEqual(query.project, undefined)
+    assert.deepStrictEqual(query.terms, ['term'])
+  })
+})
+
+describe('SessionSearchIndex', () => {
+  let dir: string
+  let sessionManager: FakeSessionManager
+  let index: SessionSearchIndex
+  const context = () => ({ globalStorageUri: { fsPath: path.join(dir, 'storage') } }) as any
+
+  before(() => {
+    logger.setLevel(LogLevel.ERROR)
+  })
+
+  after(() => {
+    logger.setLevel(LogLevel.INFO)
+  })
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-search-'))
+    sessionManager = new FakeSessionManager()
+    sessionManager.projects = [
+      { id: 'p1', name: 'app', path: '/work/app', createdAt: '', sessions: [] },
+      { id: 'p2', name: 'docs', path: '/work/docs', createdAt: '', sessions: [] }
+    ]
+  })
+
+  afterEach(() => {
+    index?.dispose()
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  const user = (text: string, timestamp: string) =>
+    ({ type: 'user', timestamp, message: { role: 'user', content: text } })
+  const assistant = (id: string, content: unknown[], timestamp: string) =>
+    ({ type: 'assistant', timestamp, message: { id, role: 'assistant', content } })
+
+  /** 写入会话文件并登记会话 */
+  const addSession = (id: string, projectId: string, entries: unknown[]): Session => {
+    const filePath = path.join(dir, `${id}.jsonl`)
+    fs.writeFileSync(filePath, entries.map(entry => JSON.stringify(entry) + '\n').join(''))
+    const session: Session = { id, name: id, projectId, createdAt: '', lastActiveAt: '', isTemporary: false, filePath }
+    sessionManager.sessions.push(session)
+    return session
+  }
+
+  const createIndex = async (): Promise<SessionSearchIndex> => {
+    index = new SessionSearchIndex(context(), sessionManager as any)
+    await index.reconcile()
+    return index
+  }
+
+  const search = async (input: string) =>
+    (await index.search(parseSearchQuery(input))).map(hit => [hit.session.id, hit.message.index])
+
+  it('finds messages that contain all terms and builds a snippet around the first one', async () => {
+    addSession('s1', 'p1', [
+      user('Please fix the login bug', '2025-01-01T10:00:00.000Z'),
+      assistant('m1', [{ type: 'text', text: 'The login form now validates input' }], '2025-01-01T10:01:00.000Z')
+    ])
+    await createIndex()
+
+    assert.deepStrictEqual(await search('login'), [['s1', 1], ['s1', 0]])
+    assert.deepStrictEqual(await search('login bug'), [['s1', 0]])
+    assert.deepStrictEqual(await search('login missing'), [])
+
+    const [hit] = await index.search(parseSearchQuery('valid'))
+    assert.strictEqual(hit.snippet, 'The login form now validates input')
+  })
+
+  it('merges assistant lines with the same message id and indexes tool calls', async () => {
+    addSession('s1', 'p1', [
+      user('run the tests', '2025-01-01T10:00:00.000Z'),
+      assistant('m1', [{ type: 'text', text: 'Running them' }], '2025-01-01T10:01:00.000Z'),
+      assistant('m1', [{ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'npm test' } }], '2025-01-01T10:01:01.000Z')
+    ])
+    await createIndex()
+
+    assert.deepStrictEqual(await search('running npm'), [['s1', 1]])
+    assert.deepStrictEqual(index.getKnownTools(), ['Bash'])
+  })
+
+  it('indexes CJK text character by character', async () => {
+    addSession('s1', 'p1', [user('请重建会话索引', '2025-01-01T10:00:00.000Z')])
+    await createIndex()
+
+    assert.deepStrictEqual(await search('索引'), [['s1', 0]])
+    assert.deepStrictEqual(await search('索 会'), [['s1', 0]])
+  })
+
+  it('returns the latest message of each matching session for filter-only queries', async () => {
+    addSession('s1', 'p1', [
+      user('first', '2025-01-01T10:00:00.000Z'),
+      assistant('m1', [{ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'ls' } }], '2025-01-02T10:00:00.000Z')
+    ])
+    addSession('s2', 'p2', [user('second', '2025-01-03T10:00:00.000Z')])
+    await createIndex()
+
+    assert.deepStrictEqual(await search('project:app'), [['s1', 1]])
+    assert.deepStrictEqual(await search('tool:bash'), [['s1', 1]])
+    assert.deepStrictEqual(await search('after:2025-01-01'), [['s2', 0], ['s1', 1]])
+    assert.deepStrictEqual(await search('before:2025-01-02'), [['s1', 0]])
+    assert.deepStrictEqual(await search(''), [])
+  })
+
+  it('indexes lines appended after the last sync', async () => {
+    const session = addSession('s1', 'p1', [user('first message', '2025-01-01T10:00:00.000Z')])
+    await createIndex()
+
+    fs.appendFileSync(session.filePath!, JSON.stringify(user('appended message', '2025-01-01T11:00:00.000Z')) + '\n')
+    sessionManager.emit('sessions:synced', { added: [], updated: [session], removed: [] })
+
+    assert.deepStrictEqual(await search('appended'), [['s1', 1]])
+    assert.deepStrictEqual(await search('message'), [['s1', 1], ['s1', 0]])
+  })
+
+  it('drops removed sessions from the index', async () => {
+    const session = addSession('s1', 'p1', [user('gone soon', '2025-01-01T10:00:00.000Z')])
+    await createIndex()
+
+    sessionManager.sessions = []
+    sessionManager.emit('sessions:synced', { added: [], updated: [], removed: [session] })
+    sessionManager.sessions = [session]
+
+    assert.deepStrictEqual(await search('gone'), [])
+  })
+
+  it('saves one shard per session file and loads it on the next start', async () => {
+    addSession('s1', 'p1', [user('persisted text', '2025-01-01T10:00:00.000Z')])
+    await createIndex()
+    index.dispose()
+
+    const shards = fs.readdirSync(path.join(dir, 'storage', 'search-index'))
+    assert.strictEqual(shards.length, 1)
+
+    await createIndex()
+    assert.deepStrictEqual(await search('persisted'), [['s1', 0]])
+  })
+})
@@ -0,0 +1,132 @@
+import * as assert from 'assert'
+import { formatShellCommand, getShellKind, quoteCmd, quotePosix, quotePowerShell } from '../shell-command'
+
+/** 模拟cmd在引号外处理 ^ 转义：去掉 ^ 并保留其后的字符 */
+function unescapeCmd(line: string): string {
+  return line.replace(/\^(.)/g, '$1')
+}
+
+describe('getShellKind', () => {
+  it('detects PowerShell and cmd by executable name', () => {
+    assert.strictEqual(getShellKind('C:\\Program Files\\PowerShell\\7\\pwsh.exe', 'win32'), 'powershell')
+    assert.strictEqual(getShellKind('C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe', 'win32'), 'powershell')
+    assert.strictEqual(getShellKind('C:\\Windows\\System32\\cmd.exe', 'win32'), 'cmd')
+  })
+
+  it('treats other shells as POSIX and defaults to PowerShell on Windows', () => {
+    assert.strictEqual(getShellKind('/bin/zsh', 'darwin'), 'posix')
+    assert.strictEqual(getShellKind('C:\\Program Files\\Git\\bin\\bash.exe', 'win32'), 'posix')
+    assert.strictEqual(getShellKind(undefined, 'win32'), 'powershell')
+    assert.strictEqual(getShellKind(undefined, 'linux'), 'posix')
+  })
+})
+
+describe('quotePosix', () => {
+  it('leaves safe arguments unquoted', () => {
+    assert.strictEqual(quotePosix('/usr/local/bin/claude'), '/usr/local/bin/claude')
+    assert.strictEqual(quotePosix('--model=opus'), '--model=opus')
+  })
+
+  it('wraps spaces and shell metacharacters in single quotes', () => {
+    assert.strictEqual(quotePosix('a b'), `'a b'`)
+    assert.strictEqual(quotePosix('a&b|c<d>e^f%g'), `'a&b|c<d>e^f%g'`)
+    assert.strictEqual(quotePosix('"$HOME"'), `'"$HOME"'`)
+    assert.strictEqual(quotePosix('dir\\'), `'dir\\'`)
+  })
+
+  it('closes and reopens the quotes around single quotes', () => {
+    assert.strictEqual(quotePosix(`it's`), `'it'\\''s'`)
+  })
+})
+
+describe('quotePowerShell', () => {
+  it('leaves safe arguments and Windows paths unquoted', () => {
+    assert.strictEqual(quotePowerShell('C:\\tools\\claude.exe'), 'C:\\tools\\claude.exe')
+  })
+
+  it('wraps spaces, variables and array separators in single quotes', () => {
+    assert.strictEqual(quotePowerShell('a b'), `'a b'`)
+    assert.strictEqual(quotePowerShell('$HOME'), `'$HOME'`)
+    assert.strictEqual(quotePowerShell('a,b'), `'a,b'`)
+    assert.strictEqual(quotePowerShell('a&b|c<d>e^f%g'), `'a&b|c<d>e^f%g'`)
+    assert.strictEqual(quotePowerShell('say "hi"'), `'say "hi"'`)
+    assert.strictEqual(quotePowerShell('dir\\ x\\'), `'dir\\ x\\'`)
+  })
+
+  it('doubles straight and curly single quotes', () => {
+    assert.strictEqual(quotePowerShell(`it's`), `'it''s'`)
+    assert.strictEqual(quotePowerShell('it’s ‘x’'), `'it’’s ‘‘x’’'`)
+  })
+})
+
+describe('quoteCmd', () => {
+  it('leaves safe arguments unquoted', () => {
+    assert.strictEqual(quoteCmd('C:\\tools\\claude.exe'), 'C:\\tools\\claude.exe')
+  })
+
+  it('quotes spaces and escapes the quotes and metacharacters with ^', () => {
+    assert.strictEqual(quoteCmd('a b'), '^"a^ b^"')
+    assert.strictEqual(quoteCmd('a&b|c<d>e^f%g'), '^"a^&b^|c^<d^>e^^f^%g^"')
+    assert.strictEqual(unescapeCmd(quoteCmd('a&b|c<d>e^f%g')), '"a&b|c<d>e^f%g"')
+  })
+
+  it('escapes embedded quotes and doubles the backslashes before them', () => {
+    assert.strictEqual(unescapeCmd(quoteCmd('say "hi"')), '"say \\"hi\\""')
+    assert.strictEqual(unescapeCmd(quoteCmd('a\\"b')), '"a\\\\\\"b"')
+  })
+
+  it('doubles trailing backslashes so they do not escape the closing quote', () => {
+    assert.strictEqual(unescapeCmd(quoteCmd('C:\\my dir\\')), '"C:\\my dir\\\\"')
+  })
+
+  it('escapes twice for batch scripts', () => {
+    assert.strictEqual(quoteCmd('a&b', true), '^^^"a^^^&b^^^"')
+    assert.strictEqual(unescapeCmd(unescapeCmd(quoteCmd('a&b', true))), '"a&b"')
+  })
+})
+
+describe('formatShellCommand', () => {
+  const env = { NODE_OPTIONS: '--require "/opt/my ext/interceptor.js"', CC_TOKEN: 'abc' }
+
+  it('prefixes the environment variables for POSIX shells', () => {
+    assert.strictEqual(
+      formatShellCommand('posix', '/usr/local/bin/claude', ['--model', 'a b'], env),
+      `NODE_OPTIONS='--require "/opt/my ext/interceptor.js"' CC_TOKEN=abc /usr/local/bin/claude --model 'a b'`
+    )
+  })
+
+  it('saves and restores the environment variables in PowerShell', () => {
+    assert.strictEqual(
+      formatShellCommand('powershell', 'C:\\Program Files\\claude.exe', ['-p', 'hi there'], env),
+      `& { $p0 = \${env:NODE_OPTIONS}; \${env:NODE_OPTIONS} = '--require "/opt/my ext/interceptor.js"'; ` +
+      `$p1 = \${env:CC_TOKEN}; \${env:CC_TOKEN} = abc; ` +
+      `try { & 'C:\\Program Files\\claude.exe' -p 'hi there' } ` +
+      `finally { \${env:NODE_OPTIONS} = $p0; \${env:CC_TOKEN} = $p1 } }`
+    )
+  })
+
+  it('runs the command directly without environment variables', () => {
+    assert.strictEqual(formatShellCommand('powershell', 'claude', ['-p', 'x']), '& claude -p x')
+    assert.strictEqual(formatShellCommand('cmd', 'C:\\npm\\claude.cmd', ['-p', 'a&b']), '"C:\\npm\\claude.cmd" -p ^^^"a^^^&b^^^"')
+  })
+
+  it('sets the environment variables in a child cmd', () => {
+    assert.strictEqual(
+      formatShellCommand('cmd', 'claude.exe', [], { CC_TOKEN: 'abc' }),
+      'cmd /d /s /c ^"set^ CC_TOKEN=abc^&^ ^"claude.exe^"^"'
+    )
+  })
+
+  it('passes the inner command line to the child cmd unchanged', () => {
+    const line = formatShellCommand('cmd', 'C:\\Program Files\\claude.exe', ['a b'], env)
+    const prefix = 'cmd /d /s /c '
+    assert.ok(line.startsWith(prefix))
+    // 交互终端的cmd去掉一层转义，/s 再去掉首尾引号，得到子cmd执行的命令
+    const inner = unescapeCmd(line.slice(prefix.length)).slice(1, -1)
+    assert.strictEqual(
+      inner,
+      'set NODE_OPTIONS=--require^ ^"/opt/my^ ext/interceptor.js^"& set CC_TOKEN=abc& "C:\\Program Files\\claude.exe" ^"a^ b^"'
+    )
+    assert.strictEqual(unescapeCmd('set NODE_OPTIONS=--require^ ^"/opt/my^ ext/interceptor.js^"'), `set NODE_OPTIONS=${env.NODE_OPTIONS}`)
+  })
+})
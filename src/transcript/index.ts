@@ -0,0 +1,27 @@
+/**
+ * 会话转录模块导出
+ * 提供Claude会话JSONL文件的解析、渲染和查看功能
+ */
+
+/** 转录解析 - 将JSONL会话文件规范化为消息列表 */
+export { parseTranscript, parseTranscriptEntry, summarizeToolInput } from './transcript-parser'
+
+/** 转录HTML渲染 - 生成不含脚本的独立HTML页面 */
+export { renderTranscriptHtml, escapeHtml, TranscriptHtmlOptions } from './transcript-html'
+
+/** 转录导出 - 导出为Markdown、HTML或JSON，支持移除工具输出和脱敏 */
+export {
+  exportTranscript,
+  prepareTranscript,
+  redactSecrets,
+  renderTranscriptMarkdown,
+  EXPORT_FILE_EXTENSIONS,
+  TranscriptExportFormat,
+  TranscriptExportOptions
+} from './transcript-export'
+
+/** 转录面板管理器 - 以只读Webview查看会话 */
+export { TranscriptPanelManager } from './transcript-panel'
+
+/** 导出所有类型定义 */
+export * from './types'
@@ -0,0 +1,245 @@
+import { Transcript, TranscriptBlock, TranscriptMessage } from './types'
+import { summarizeToolInput } from './transcript-parser'
+import { renderTranscriptHtml } from './transcript-html'
+
+/**
+ * 导出格式
+ */
+export type TranscriptExportFormat = 'markdown' | 'html' | 'json'
+
+/**
+ * 导出选项
+ */
+export interface TranscriptExportOptions {
+  /** 是否包含工具输出（tool_result），工具调用本身始终保留 */
+  includeToolOutput: boolean
+  /** 是否折叠较长的工具结果 */
+  collapseLongResults: boolean
+  /** 是否脱敏API密钥、令牌等敏感信息 */
+  redactSecrets: boolean
+}
+
+/** 各导出格式对应的文件扩展名 */
+export const EXPORT_FILE_EXTENSIONS: Record<TranscriptExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json'
+}
+
+/** 超过该行数的工具结果视为较长结果 */
+const LONG_RESULT_LINES = 20
+
+/** 脱敏后的占位文本 */
+const REDACTED = '[REDACTED]'
+
+/**
+ * 敏感信息匹配规则
+ * 覆盖常见的API密钥、访问令牌和私钥格式
+ */
+const SECRET_PATTERNS: RegExp[] = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\bsk-ant-[A-Za-z0-9_-]{10,}/g,
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{20,}/g,
+  /\bgithub_pat_[A-Za-z0-9_]{20,}/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g
+]
+
+/**
+ * 键值形式的敏感信息匹配规则，只替换值部分
+ * 例如 `Authorization: Bearer xxx`、`API_KEY=xxx`、`"password": "xxx"`
+ */
+const SECRET_ASSIGNMENT_PATTERN = /((?:authorization|bearer|api[_-]?key|access[_-]?token|auth[_-]?token|secret|password|passwd)["']?\s*[:=]\s*["']?(?:Bearer\s+)?)([^\s"',;]{8,})/gi
+
+/**
+ * 将会话转录导出为指定格式的文本
+ * @param transcript - 会话转录
+ * @param title - 文档标题
+ * @param format - 导出格式
+ * @param options - 导出选项
+ */
+export function exportTranscript(
+  transcript: Transcript,
+  title: string,
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions
+): string {
+  const prepared = prepareTranscript(transcript, options)
+
+  switch (format) {
+    case 'markdown':
+      return renderTranscriptMarkdown(prepared, title, options)
+    case 'html':
+      return renderTranscriptHtml(prepared, {
+        title: options.redactSecrets ? redactSecrets(title) : title,
+        collapseLinesThreshold: options.collapseLongResults ? LONG_RESULT_LINES : Number.POSITIVE_INFINITY
+      })
+    case 'json':
+      return JSON.stringify(prepared, null, 2)
+  }
+}
+
+/**
+ * 按导出选项处理转录：移除工具输出、脱敏
+ * 返回新对象，不修改原始转录
+ */
+export function prepareTranscript(transcript: Transcript, options: TranscriptExportOptions): Transcript {
+  const redact = (value: string) => options.redactSecrets ? redactSecrets(value) : value
+
+  const messages: TranscriptMessage[] = []
+  for (const message of transcript.messages) {
+    const blocks: TranscriptBlock[] = []
+    for (const block of message.blocks) {
+      switch (block.type) {
+        case 'text':
+        case 'thinking':
+          blocks.push({ ...block, text: redact(block.text) })
+          break
+        case 'tool_use':
+          blocks.push({
+            ...block,
+            input: options.redactSecrets ? redactValue(block.input) : block.input
+          })
+          break
+        case 'tool_result':
+          if (options.includeToolOutput) {
+            blocks.push({ ...block, content: redact(block.content) })
+          }
+          break
+      }
+    }
+    if (blocks.length > 0) {
+      messages.push({ ...message, blocks })
+    }
+  }
+
+  return {
+    ...transcript,
+    summary: transcript.summary !== undefined ? redact(transcript.summary) : undefined,
+    messages
+  }
+}
+
+/**
+ * 脱敏文本中的API密钥、令牌等敏感信息
+ * @param text - 原始文本
+ */
+export function redactSecrets(text: string): string {
+  let result = text
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, REDACTED)
+  }
+  return result.replace(SECRET_ASSIGNMENT_PATTERN, (match, prefix: string, value: string) =>
+    value === REDACTED ? match : `${prefix}${REDACTED}`
+  )
+}
+
+/**
+ * 递归脱敏工具输入中的字符串值
+ */
+function redactValue(value: any): any {
+  if (typeof value === 'string') {
+    return redactSecrets(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue)
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {}
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = redactValue(item)
+    }
+    return result
+  }
+  return value
+}
+
+/**
+ * 将会话转录渲染为Markdown文档
+ * 较长的工具结果使用 <details> 折叠（GitHub等平台支持）
+ */
+export function renderTranscriptMarkdown(transcript: Transcript, title: string, options: TranscriptExportOptions): string {
+  const lines: string[] = [`# ${options.redactSecrets ? redactSecrets(title) : title}`, '']
+
+  if (transcript.summary) {
+    lines.push(`> ${transcript.summary}`, '')
+  }
+  if (transcript.cwd) {
+    lines.push(`- **Project:** \`${transcript.cwd}\``)
+  }
+  if (transcript.sessionId) {
+    lines.push(`- **Session:** \`${transcript.sessionId}\``)
+  }
+  lines.push('')
+
+  for (const message of transcript.messages) {
+    const isToolOutput = message.role === 'user' && message.blocks.every(block => block.type === 'tool_result')
+    const heading = [
+      `## ${isToolOutput ? 'Tool' : capitalize(message.role)}`,
+      message.timestamp ? `· ${message.timestamp}` : '',
+      message.model ? `· \`${message.model}\`` : '',
+      message.isSidechain ? '· _sidechain_' : ''
+    ].filter(Boolean).join(' ')
+    lines.push(heading, '')
+
+    for (const block of message.blocks) {
+      lines.push(...renderMarkdownBlock(block, options), '')
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+/**
+ * 渲染单个内容块为Markdown行
+ */
+function renderMarkdownBlock(block: TranscriptBlock, options: TranscriptExportOptions): string[] {
+  switch (block.type) {
+    case 'text':
+      return [block.text]
+    case 'thinking':
+      return ['<details>', '<summary>Thinking</summary>', '', block.text, '', '</details>']
+    case 'tool_use': {
+      const summary = summarizeToolInput(block.name, block.input)
+      return [
+        `**Tool: ${block.name}**${summary ? ` \`${summary.replace(/`/g, "'").replace(/\s+/g, ' ')}\`` : ''}`,
+        '',
+        ...codeFence(JSON.stringify(block.input, null, 2) || '', 'json')
+      ]
+    }
+    case 'tool_result': {
+      const label = block.isError ? 'Error' : 'Result'
+      const lineCount = block.content.split('\n').length
+      if (options.collapseLongResults && lineCount > LONG_RESULT_LINES) {
+        return [
+          '<details>',
+          `<summary>${label} (${lineCount} lines)</summary>`,
+          '',
+          ...codeFence(block.content),
+          '',
+          '</details>'
+        ]
+      }
+      return [`_${label}:_`, '', ...codeFence(block.content)]
+    }
+  }
+}
+
+/**
+ * 生成代码块，围栏长度自动超过内容中最长的反引号序列
+ */
+function codeFence(content: string, language: string = ''): string[] {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  return [`${fence}${language}`, content, fence]
+}
+
+/**
+ * 首字母大写
+ */
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
@@ -0,0 +1,147 @@
+import { Transcript, TranscriptBlock, TranscriptMessage } from './types'
+import { summarizeToolInput } from './transcript-parser'
+
+/**
+ * 转录HTML渲染选项
+ */
+export interface TranscriptHtmlOptions {
+  /** 页面标题 */
+  title: string
+  /** 内容安全策略，用于Webview（可选） */
+  contentSecurityPolicy?: string
+  /** 超过该行数的工具结果默认折叠 */
+  collapseLinesThreshold?: number
+}
+
+/** 工具结果默认折叠的行数阈值 */
+const DEFAULT_COLLAPSE_LINES = 20
+
+/**
+ * 将会话转录渲染为独立的HTML页面
+ * 页面不包含脚本，思考过程和较长的工具结果使用 <details> 折叠
+ * @param transcript - 会话转录
+ * @param options - 渲染选项
+ */
+export function renderTranscriptHtml(transcript: Transcript, options: TranscriptHtmlOptions): string {
+  const collapseLines = options.collapseLinesThreshold ?? DEFAULT_COLLAPSE_LINES
+  const csp = options.contentSecurityPolicy
+    ? `<meta http-equiv="Content-Security-Policy" content="${escapeHtml(options.contentSecurityPolicy)}">`
+    : ''
+
+  const header = [
+    `<h1>${escapeHtml(options.title)}</h1>`,
+    transcript.summary ? `<p class="summary">${escapeHtml(transcript.summary)}</p>` : '',
+    `<p class="meta">${escapeHtml(transcript.cwd || '')}${transcript.sessionId ? ` · ${escapeHtml(transcript.sessionId)}` : ''}</p>`
+  ].join('\n')
+
+  const body = transcript.messages.length > 0
+    ? transcript.messages.map(message => renderMessage(message, collapseLines)).join('\n')
+    : '<p class="empty">This session has no messages yet.</p>'
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+${csp}
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(options.title)}</title>
+<style>${TRANSCRIPT_STYLES}</style>
+</head>
+<body>
+${header}
+${body}
+</body>
+</html>`
+}
+
+/**
+ * 渲染单条消息
+ */
+function renderMessage(message: TranscriptMessage, collapseLines: number): string {
+  const roleLabel = message.role === 'user' && message.blocks.every(block => block.type === 'tool_result')
+    ? 'tool'
+    : message.role
+  const meta = [
+    message.timestamp ? `<time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(formatTimestamp(message.timestamp))}</time>` : '',
+    message.model ? `<span class="model">${escapeHtml(message.model)}</span>` : '',
+    message.isSidechain ? '<span class="badge">sidechain</span>' : ''
+  ].filter(Boolean).join(' ')
+
+  return `<section class="message ${roleLabel}">
+<div class="message-header"><span class="role">${roleLabel}</span> ${meta}</div>
+${message.blocks.map(block => renderBlock(block, collapseLines)).join('\n')}
+</section>`
+}
+
+/**
+ * 渲染单个内容块
+ */
+function renderBlock(block: TranscriptBlock, collapseLines: number): string {
+  switch (block.type) {
+    case 'text':
+      return `<div class="text">${escapeHtml(block.text)}</div>`
+    case 'thinking':
+      return `<details class="thinking"><summary>Thinking</summary><div class="text">${escapeHtml(block.text)}</div></details>`
+    case 'tool_use': {
+      const summary = summarizeToolInput(block.name, block.input)
+      return `<details class="tool-use"><summary><span class="tool-name">${escapeHtml(block.name)}</span> <code>${escapeHtml(summary)}</code></summary>` +
+        `<pre>${escapeHtml(JSON.stringify(block.input, null, 2) || '')}</pre></details>`
+    }
+    case 'tool_result': {
+      const lineCount = block.content.split('\n').length
+      const className = block.isError ? 'tool-result error' : 'tool-result'
+      const label = block.isError ? 'Error' : 'Result'
+      if (lineCount > collapseLines) {
+        return `<details class="${className}"><summary>${label} (${lineCount} lines)</summary><pre>${escapeHtml(block.content)}</pre></details>`
+      }
+      return `<div class="${className}"><div class="label">${label}</div><pre>${escapeHtml(block.content)}</pre></div>`
+    }
+  }
+}
+
+/**
+ * 格式化时间戳为本地时间
+ */
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp)
+  return isNaN(date.getTime()) ? timestamp : date.toLocaleString()
+}
+
+/**
+ * 转义HTML特殊字符
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * 页面样式
+ * 优先使用VSCode主题变量，导出到浏览器时回退到默认颜色
+ */
+const TRANSCRIPT_STYLES = `
+body { font-family: var(--vscode-font-family, sans-serif); font-size: var(--vscode-font-size, 13px); color: var(--vscode-foreground, #222); background: var(--vscode-editor-background, #fff); padding: 0 16px 32px; line-height: 1.5; }
+h1 { font-size: 1.4em; margin-bottom: 4px; }
+.meta, .summary, .message-header { color: var(--vscode-descriptionForeground, #666); }
+.meta { font-size: 0.9em; }
+.message { border-left: 3px solid var(--vscode-panel-border, #ccc); margin: 12px 0; padding: 4px 12px; }
+.message.user { border-left-color: var(--vscode-charts-blue, #3794ff); }
+.message.assistant { border-left-color: var(--vscode-charts-green, #89d185); }
+.message.tool { border-left-color: var(--vscode-charts-yellow, #cca700); }
+.message.system { border-left-color: var(--vscode-charts-purple, #b180d7); }
+.message-header { font-size: 0.85em; margin-bottom: 4px; }
+.role { font-weight: bold; text-transform: uppercase; }
+.badge { border: 1px solid currentColor; border-radius: 3px; padding: 0 4px; }
+.text { white-space: pre-wrap; word-wrap: break-word; }
+pre { white-space: pre-wrap; word-wrap: break-word; background: var(--vscode-textCodeBlock-background, #f3f3f3); padding: 8px; margin: 4px 0; font-family: var(--vscode-editor-font-family, monospace); }
+details { margin: 4px 0; }
+summary { cursor: pointer; color: var(--vscode-descriptionForeground, #666); }
+.tool-name { font-weight: bold; color: var(--vscode-foreground, #222); }
+.tool-result .label { font-size: 0.85em; color: var(--vscode-descriptionForeground, #666); }
+.tool-result.error pre { border-left: 3px solid var(--vscode-errorForeground, #f14c4c); }
+.empty { color: var(--vscode-descriptionForeground, #666); }
+`
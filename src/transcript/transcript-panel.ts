@@ -0,0 +1,100 @@
+import * as vscode from 'vscode'
+import { logger } from '../logger'
+import { Session, SessionManager, SessionSyncDiff } from '../session-manager'
+import { parseTranscript } from './transcript-parser'
+import { renderTranscriptHtml } from './transcript-html'
+
+/** Webview内容安全策略：禁止脚本和外部资源，只允许内联样式 */
+const WEBVIEW_CSP = "default-src 'none'; style-src 'unsafe-inline';"
+
+/**
+ * 会话转录面板管理器
+ * 以只读Webview展示会话的完整对话，每个会话最多打开一个面板，
+ * 会话文件被CLI追加内容后自动重新渲染
+ */
+export class TranscriptPanelManager implements vscode.Disposable {
+  /** 已打开的面板，键为会话ID */
+  private panels: Map<string, vscode.WebviewPanel> = new Map()
+  /** 会话同步事件监听器 */
+  private readonly onSessionsSynced = (diff: SessionSyncDiff) => this.handleSessionsSynced(diff)
+
+  /**
+   * 构造函数
+   * @param sessionManager - 会话管理器实例
+   */
+  constructor(private sessionManager: SessionManager) {
+    this.sessionManager.on('sessions:synced', this.onSessionsSynced)
+  }
+
+  /**
+   * 打开会话转录面板
+   * 会话已有面板时直接显示该面板
+   * @param session - 要查看的会话
+   */
+  async show(session: Session): Promise<void> {
+    if (!session.filePath) {
+      vscode.window.showErrorMessage('Session file path not found.')
+      return
+    }
+
+    const existingPanel = this.panels.get(session.id)
+    if (existingPanel) {
+      existingPanel.reveal()
+      return
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'cc-copilot.transcript',
+      `Transcript: ${session.name}`,
+      vscode.ViewColumn.Active,
+      { enableScripts: false, enableFindWidget: true, retainContextWhenHidden: false }
+    )
+    this.panels.set(session.id, panel)
+    panel.onDidDispose(() => this.panels.delete(session.id))
+
+    await this.render(panel, session)
+  }
+
+  /**
+   * 读取会话文件并渲染到面板
+   */
+  private async render(panel: vscode.WebviewPanel, session: Session): Promise<void> {
+    try {
+      const transcript = await parseTranscript(session.filePath!)
+      panel.title = `Transcript: ${session.name}`
+      panel.webview.html = renderTranscriptHtml(transcript, {
+        title: session.name,
+        contentSecurityPolicy: WEBVIEW_CSP
+      })
+    } catch (error) {
+      logger.error(`Failed to render transcript: ${session.filePath}`, 'TranscriptPanelManager', error as Error)
+      vscode.window.showErrorMessage(`Failed to load transcript: ${(error as Error).message}`)
+    }
+  }
+
+  /**
+   * 会话同步后刷新受影响的面板，文件已删除的会话关闭面板
+   */
+  private handleSessionsSynced(diff: SessionSyncDiff): void {
+    for (const session of diff.updated) {
+      const panel = this.panels.get(session.id)
+      if (panel) {
+        this.render(panel, session)
+      }
+    }
+    for (const session of diff.removed) {
+      this.panels.get(session.id)?.dispose()
+    }
+  }
+
+  /**
+   * 关闭所有面板并移除事件监听
+   */
+  dispose(): void {
+    this.sessionManager.off('sessions:synced', this.onSessionsSynced)
+    for (const panel of Array.from(this.panels.values())) {
+      panel.dispose()
+    }
+    this.panels.clear()
+  }
+}
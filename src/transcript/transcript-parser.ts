@@ -0,0 +1,180 @@
+import * as fs from 'fs'
+import * as readline from 'readline'
+import { Transcript, TranscriptBlock, TranscriptMessage } from './types'
+
+/**
+ * 流式解析Claude会话JSONL文件
+ * 逐行读取并规范化为消息列表，同一条助手消息被CLI拆分成多行时会合并为一条
+ * @param filePath - 会话文件路径
+ * @returns 规范化后的会话转录
+ */
+export async function parseTranscript(filePath: string): Promise<Transcript> {
+  const transcript: Transcript = { filePath, messages: [] }
+  const stream = fs.createReadStream(filePath, { encoding: 'utf-8' })
+  const lines = readline.createInterface({ input: stream, crlfDelay: Infinity })
+  let lastMessageId: string | undefined
+
+  try {
+    for await (const line of lines) {
+      if (line.trim() === '') {
+        continue
+      }
+
+      let entry: any
+      try {
+        entry = JSON.parse(line)
+      } catch (error) {
+        // 忽略无法解析的行（例如CLI正在写入的半行）
+        continue
+      }
+
+      transcript.sessionId = transcript.sessionId || entry.sessionId
+      transcript.cwd = transcript.cwd || entry.cwd
+
+      if (entry.type === 'summary') {
+        transcript.summary = transcript.summary || entry.summary
+        continue
+      }
+
+      const message = parseTranscriptEntry(entry)
+      if (!message) {
+        continue
+      }
+
+      // CLI会把同一条助手消息的多个内容块写成多行，按message.id合并
+      const messageId = entry.message?.id
+      const previous = transcript.messages[transcript.messages.length - 1]
+      if (messageId && messageId === lastMessageId && previous?.role === 'assistant') {
+        previous.blocks.push(...message.blocks)
+        continue
+      }
+
+      lastMessageId = messageId
+      transcript.messages.push(message)
+    }
+  } finally {
+    lines.close()
+    stream.destroy()
+  }
+
+  return transcript
+}
+
+/**
+ * 将单条JSONL记录转换为转录消息
+ * @param entry - 已解析的JSONL记录
+ * @returns 转录消息，非对话记录返回null
+ */
+export function parseTranscriptEntry(entry: any): TranscriptMessage | null {
+  if (entry.type !== 'user' && entry.type !== 'assistant' && entry.type !== 'system') {
+    return null
+  }
+
+  const blocks = entry.type === 'system'
+    ? parseContent(entry.content)
+    : parseContent(entry.message?.content)
+  if (blocks.length === 0) {
+    return null
+  }
+
+  return {
+    uuid: entry.uuid,
+    role: entry.type,
+    timestamp: entry.timestamp,
+    model: entry.type === 'assistant' ? entry.message?.model : undefined,
+    isSidechain: !!entry.isSidechain,
+    blocks
+  }
+}
+
+/**
+ * 解析消息内容为内容块
+ */
+function parseContent(content: any): TranscriptBlock[] {
+  if (typeof content === 'string') {
+    return content.trim() ? [{ type: 'text', text: content }] : []
+  }
+  if (!Array.isArray(content)) {
+    return []
+  }
+
+  const blocks: TranscriptBlock[] = []
+  for (const item of content) {
+    switch (item?.type) {
+      case 'text':
+        if (item.text) {
+          blocks.push({ type: 'text', text: item.text })
+        }
+        break
+      case 'thinking':
+        if (item.thinking) {
+          blocks.push({ type: 'thinking', text: item.thinking })
+        }
+        break
+      case 'tool_use':
+        blocks.push({ type: 'tool_use', id: item.id, name: item.name, input: item.input })
+        break
+      case 'tool_result':
+        blocks.push({
+          type: 'tool_result',
+          toolUseId: item.tool_use_id,
+          content: stringifyToolResult(item.content),
+          isError: !!item.is_error
+        })
+        break
+      default:
+        // 图片等其他内容块不展示
+        break
+    }
+  }
+  return blocks
+}
+
+/**
+ * 将工具结果内容转换为文本
+ */
+function stringifyToolResult(content: any): string {
+  if (typeof content === 'string') {
+    return content
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(item => item?.type === 'text' ? item.text : `[${item?.type || 'unknown'}]`)
+      .join('\n')
+  }
+  return content === undefined || content === null ? '' : JSON.stringify(content, null, 2)
+}
+
+/**
+ * 生成工具调用的简短描述
+ * 例如Bash显示命令，Read/Edit/Write显示文件路径
+ * @param name - 工具名称
+ * @param input - 工具输入参数
+ */
+export function summarizeToolInput(name: string, input: any): string {
+  if (!input || typeof input !== 'object') {
+    return ''
+  }
+
+  switch (name) {
+    case 'Bash':
+      return input.command || ''
+    case 'Read':
+    case 'Edit':
+    case 'MultiEdit':
+    case 'Write':
+    case 'NotebookEdit':
+      return input.file_path || input.notebook_path || ''
+    case 'Grep':
+    case 'Glob':
+      return input.path ? `${input.pattern} in ${input.path}` : input.pattern || ''
+    case 'WebFetch':
+      return input.url || ''
+    case 'WebSearch':
+      return input.query || ''
+    case 'Task':
+      return input.description || ''
+    default:
+      return ''
+  }
+}
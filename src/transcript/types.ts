@@ -0,0 +1,50 @@
+/**
+ * 转录内容块类型
+ * 对应Claude消息中的 text / thinking / tool_use / tool_result 内容块
+ */
+export type TranscriptBlock =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError: boolean }
+
+/**
+ * 转录消息角色
+ */
+export type TranscriptRole = 'user' | 'assistant' | 'system'
+
+/**
+ * 转录消息接口
+ * 将JSONL中的一条或多条记录规范化后的消息
+ */
+export interface TranscriptMessage {
+  /** 记录UUID（可选） */
+  uuid?: string
+  /** 消息角色 */
+  role: TranscriptRole
+  /** 时间戳（ISO字符串，可选） */
+  timestamp?: string
+  /** 生成该消息的模型（仅助手消息） */
+  model?: string
+  /** 是否为子代理（sidechain）消息 */
+  isSidechain: boolean
+  /** 内容块列表 */
+  blocks: TranscriptBlock[]
+}
+
+/**
+ * 会话转录接口
+ * 一个Claude会话JSONL文件的完整规范化内容
+ */
+export interface Transcript {
+  /** 会话文件路径 */
+  filePath: string
+  /** Claude CLI会话ID（可选） */
+  sessionId?: string
+  /** 工作目录（可选） */
+  cwd?: string
+  /** CLI生成的会话摘要（可选） */
+  summary?: string
+  /** 消息列表 */
+  messages: TranscriptMessage[]
+}
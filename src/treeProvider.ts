@@ -1,8 +1,23 @@
 import * as vscode from 'vscode';
-import { SessionManager } from './session-manager';
+import { SessionManager, SessionSyncDiff } from './session-manager';
 import { UnifiedConfigManager } from './shared/config-manager';
 import { Project, Session } from './shared/types';
 import { logger } from './logger';
+import { UsageAnalytics, formatUsageLines, formatTokenCount } from './analytics';
+import { TerminalRegistry } from './terminal-registry';
+import { RequestHistory } from './requests';
+import { AccountVerificationStatus, AccountVerifier, describeVerificationResult } from './account-verifier';
+
+/** 账号列表中各验证状态的简短说明 */
+const VERIFICATION_NOTES: Record<AccountVerificationStatus, string> = {
+    'ok': '✓ verified',
+    'expired': '✗ invalid credentials',
+    'not_logged_in': '✗ not logged in',
+    'network_error': '✗ unreachable',
+    'timeout': '✗ verification timed out',
+    'cancelled': 'verification cancelled',
+    'error': '✗ verification failed'
+};
 
 /**
  * Claude会话树形视图提供器
@@ -19,15 +34,27 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
     private readonly DEFAULT_SESSIONS_LIMIT = 50;
     /** 记录每个项目已加载的会话数量 */
     private projectSessionLimits: Map<string, number> = new Map();
+    /** 当前显示的项目节点，用于增量同步时只刷新受影响的项目 */
+    private projectItems: Map<string, ClaudeSessionItem> = new Map();
+    /** 当前显示的账号管理节点，请求记录变化时只刷新账号列表 */
+    private accountManagementItem: ClaudeSessionItem | undefined;
 
     /**
      * 构造函数
      * @param sessionManager - 会话管理器实例
      * @param configManager - 统一配置管理器实例
+     * @param usageAnalytics - 用量分析服务，用于在提示中显示令牌用量和估算费用
+     * @param terminalRegistry - 终端注册表，用于标记正在终端中运行的会话
+     * @param requestHistory - 请求历史，用于显示每个密钥的请求数和令牌用量
+     * @param accountVerifier - 账号验证服务，用于显示每个账号的验证状态
      */
     constructor(
         private sessionManager: SessionManager,
-        private configManager: UnifiedConfigManager
+        private configManager: UnifiedConfigManager,
+        private usageAnalytics: UsageAnalytics,
+        private terminalRegistry: TerminalRegistry,
+        private requestHistory: RequestHistory,
+        private accountVerifier: AccountVerifier
     ) {
         // 监听设置变化，自动刷新视图
         this.configManager.on('config:changed', () => {
@@ -48,6 +75,26 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
         this.configManager.on('claudeAccount:activated', () => {
             this.refresh();
         });
+
+        // 监听会话增量同步结果
+        this.sessionManager.on('sessions:synced', (diff: SessionSyncDiff) => {
+            this.applySyncDiff(diff);
+        });
+
+        // 监听终端打开/关闭，更新会话的运行状态
+        this.terminalRegistry.on('terminals:changed', () => {
+            this.refresh();
+        });
+
+        // 监听请求记录变化，更新账号列表中的密钥用量
+        this.requestHistory.on('requests:changed', () => {
+            this._onDidChangeTreeData.fire(this.accountManagementItem);
+        });
+
+        // 监听账号验证的开始和结束，更新账号列表中的验证状态
+        this.accountVerifier.on('verification:changed', () => {
+            this._onDidChangeTreeData.fire(this.accountManagementItem);
+        });
     }
 
     /**
@@ -58,6 +105,33 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * 应用增量同步结果
+     * 仅有会话更新时只刷新受影响的项目节点；会话新增或移除会改变项目计数，需要刷新整个视图
+     * @param diff - 会话同步差异
+     */
+    private applySyncDiff(diff: SessionSyncDiff): void {
+        if (diff.added.length > 0 || diff.removed.length > 0) {
+            this.refresh();
+            return;
+        }
+
+        const projectIds = new Set(diff.updated.map(session => session.projectId));
+        for (const projectId of projectIds) {
+            const projectItem = this.projectItems.get(projectId);
+            if (!projectItem) {
+                // 项目节点尚未显示（例如会话移动到了新项目），退回到整体刷新
+                this.refresh();
+                return;
+            }
+            // 会话用量变化后同步更新项目提示
+            if (projectItem.project) {
+                (projectItem as vscode.TreeItem).tooltip = this.formatProjectTooltip(projectItem.project);
+            }
+            this._onDidChangeTreeData.fire(projectItem);
+        }
+    }
+
     /**
      * 获取树形项目的显示信息
      * @param element - 树形项目元素
@@ -138,6 +212,7 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
         );
 
         item.description = description;
+        this.accountManagementItem = item;
         
         return item;
     }
@@ -210,7 +285,9 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
                     undefined,
                     undefined,
                     undefined,
-                    `Claude Official Account\nEmail: ${account.emailAddress}\nOrganization: ${account.organizationName || 'Unknown'}\n\nClick to select this account`,
+                    `Claude Official Account\nEmail: ${account.emailAddress}\nOrganization: ${account.organizationName || 'Unknown'}\n` +
+                    this.getVerificationTooltip(`${claudeProvider.id}:${account.emailAddress}`) +
+                    `\nClick to select this account`,
                     {
                         command: 'cc-copilot.selectAccount',
                         title: 'Select Account',
@@ -218,7 +295,9 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
                     }
                 );
                 
-                item.description = description;
+                item.description = description +
+                    this.getVerificationNote(`${claudeProvider.id}:${account.emailAddress}`) +
+                    this.getCooldownNote(`${claudeProvider.id}:${account.emailAddress}`);
                 accounts.push(item);
             });
         }
@@ -234,6 +313,7 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
 
                     const baseLabel = account.name;
                     const label = isActive ? `✓ ${baseLabel}` : baseLabel;
+                    const compositeId = `${provider.id}:${account.id}`;
                     const description = `🔶 ${provider.name}`;
                     
                     // 只有选中的账号才显示图标
@@ -250,7 +330,9 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
                         undefined,
                         undefined,
                         undefined,
-                        `Third Party Provider: ${provider.name}\nAccount: ${account.name}\nBase URL: ${account.baseUrl}\n\nClick to select this account`,
+                        `Third Party Provider: ${provider.name}\nAccount: ${account.name}\nBase URL: ${account.baseUrl}\n` +
+                        this.formatKeyTooltip(provider, account, compositeId) +
+                        `\nClick to select this account`,
                         {
                             command: 'cc-copilot.selectAccount',
                             title: 'Select Account',
@@ -258,7 +340,7 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
                         }
                     );
                     
-                    item.description = description;
+                    item.description = description + this.getVerificationNote(compositeId) + this.getKeyUsageNote(compositeId) + this.getCooldownNote(compositeId);
                     accounts.push(item);
                 });
             }
@@ -267,6 +349,88 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
         return accounts;
     }
 
+    /**
+     * 获取密钥的用量提示
+     * @param compositeId - 复合ID（providerId:accountId）
+     * @returns 请求数和令牌用量，没有请求记录时返回空字符串
+     */
+    private getKeyUsageNote(compositeId: string): string {
+        const summary = this.requestHistory.getAccountSummary(compositeId);
+        if (!summary) {
+            return '';
+        }
+        const tokens = summary.usage.inputTokens + summary.usage.outputTokens;
+        return ` · ${summary.requests} req · ${formatTokenCount(tokens)} tokens`;
+    }
+
+    /**
+     * 生成密钥选择策略和用量的提示
+     * @param provider - 第三方提供商配置
+     * @param account - 第三方账号配置
+     * @param compositeId - 复合ID（providerId:accountId）
+     */
+    private formatKeyTooltip(provider: any, account: any, compositeId: string): string {
+        const lines: string[] = [];
+        const strategy = provider.keySelection || 'active';
+        if (strategy !== 'active') {
+            lines.push(`Key selection: ${strategy}${strategy === 'weighted' ? ` (weight ${account.weight ?? 1})` : ''}`);
+        }
+        if (provider.protocol && provider.protocol !== 'anthropic') {
+            lines.push(`Protocol: ${provider.protocol}`);
+        }
+        for (const [pattern, model] of Object.entries(provider.modelMap || {})) {
+            lines.push(`Model: ${pattern} → ${model}`);
+        }
+        if (provider.smallFastModel) {
+            lines.push(`Small/fast model → ${provider.smallFastModel}`);
+        }
+
+        const summary = this.requestHistory.getAccountSummary(compositeId);
+        if (summary) {
+            lines.push(`Requests: ${summary.requests} (${summary.errors} failed)`);
+            lines.push(
+                `Tokens: ${formatTokenCount(summary.usage.inputTokens)} in · ${formatTokenCount(summary.usage.outputTokens)} out · ` +
+                `${formatTokenCount(summary.usage.cacheReadInputTokens)} cache read`
+            );
+            lines.push(`Last request: ${new Date(summary.lastRequestAt).toLocaleString()}`);
+        }
+
+        return lines.map(line => `${line}\n`).join('') + this.getVerificationTooltip(compositeId);
+    }
+
+    /**
+     * 获取账号的验证状态提示
+     * @param compositeId - 复合ID（providerId:accountId）
+     * @returns 正在验证或最近一次验证的结果，没有验证过时返回空字符串
+     */
+    private getVerificationNote(compositeId: string): string {
+        if (this.accountVerifier.isVerifying(compositeId)) {
+            return ' · ⟳ verifying…';
+        }
+        const result = this.accountVerifier.getLastResult(compositeId);
+        return result ? ` · ${VERIFICATION_NOTES[result.status]}` : '';
+    }
+
+    /**
+     * 生成验证结果的提示行
+     * @param compositeId - 复合ID（providerId:accountId）
+     */
+    private getVerificationTooltip(compositeId: string): string {
+        const result = this.accountVerifier.getLastResult(compositeId);
+        return result ? `Verification: ${describeVerificationResult(result)} (${new Date(result.completedAt).toLocaleTimeString()})\n` : '';
+    }
+
+    /**
+     * 获取账号的冷却提示
+     * 账号触发故障转移后在冷却期内显示冷却结束时间
+     * @param compositeId - 复合ID（providerId:accountId）
+     * @returns 冷却提示，不在冷却期时返回空字符串
+     */
+    private getCooldownNote(compositeId: string): string {
+        const cooldown = this.configManager.getAccountCooldown(compositeId);
+        return cooldown ? ` · ⏸ HTTP ${cooldown.status}, cooling down until ${new Date(cooldown.until).toLocaleTimeString()}` : '';
+    }
+
     /**
      * 创建账号选择器项目（保留原有功能作为备用）
      * 显示当前活动的AI服务提供商和账号信息，点击可切换
@@ -355,19 +519,27 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
             const projects = this.sessionManager.getWorkspaceProjects();
             logger.debug(`Found ${projects.length} workspace projects`, 'ClaudeSessionProvider');
 
+            this.projectItems.clear();
             return projects.map(project => {
                 const sessions = this.sessionManager.getSessions(project.id);
                 const label = `${project.name} (${sessions.length})`;
+                const tooltip = this.formatProjectTooltip(project);
 
-                return new ClaudeSessionItem(
+                const item = new ClaudeSessionItem(
                     label,
                     vscode.TreeItemCollapsibleState.Expanded,
                     'project',
                     new vscode.ThemeIcon('folder'),
                     project.id,
                     undefined,
-                    project
+                    project,
+                    undefined,
+                    tooltip
                 );
+                // 使用稳定ID，刷新后保留节点的展开状态
+                item.id = `project:${project.id}`;
+                this.projectItems.set(project.id, item);
+                return item;
             });
         } catch (error) {
             logger.error('Failed to get projects', 'ClaudeSessionProvider', error as Error);
@@ -396,18 +568,26 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
             const sessionItems = displaySessions.map(session => {
                 const label = this.formatSessionLabel(session);
                 const tooltip = this.formatSessionTooltip(session);
+                const isRunning = !!session.filePath && this.terminalRegistry.isRunning(session.filePath);
 
-                return new ClaudeSessionItem(
+                const item = new ClaudeSessionItem(
                     label,
                     vscode.TreeItemCollapsibleState.None,
                     'session',
-                    new vscode.ThemeIcon('terminal'),
+                    isRunning
+                        ? new vscode.ThemeIcon('terminal', new vscode.ThemeColor('terminal.ansiGreen'))
+                        : new vscode.ThemeIcon('terminal'),
                     undefined,
                     session.id,
                     undefined,
                     session,
-                    tooltip
+                    isRunning ? `${tooltip}\nStatus: Running in terminal` : tooltip
                 );
+                item.id = `session:${session.id}`;
+                if (isRunning) {
+                    item.description = 'running';
+                }
+                return item;
             });
             
             // 如果还有更多会话，添加"Load more"项
@@ -493,6 +673,16 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
         }
     }
 
+    /**
+     * 格式化项目工具提示
+     * 包含项目路径和项目下所有会话的用量汇总
+     * @param project - 项目对象
+     * @returns 格式化后的工具提示字符串
+     */
+    private formatProjectTooltip(project: Project): string {
+        return [project.path, ...formatUsageLines(this.usageAnalytics.getProjectSummary(project.id))].join('\n');
+    }
+
     /**
      * 格式化会话工具提示
      * 创建包含会话详细信息的工具提示文本
@@ -515,9 +705,49 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
             tooltip += `\nFile Path: ${session.filePath}`;
         }
 
+        if (session.account) {
+            tooltip += `\nAccount: ${session.account.label}`;
+        }
+
+        if (session.profile) {
+            tooltip += `\nProfile: ${session.profile}`;
+        }
+
+        if (session.permissionMode) {
+            tooltip += `\nPermission Mode: ${session.permissionMode}`;
+        }
+
+        const models = this.getSessionModels(session);
+        if (models.length > 0) {
+            tooltip += `\n${models.length > 1 ? 'Models' : 'Model'}: ${models.join(', ')}`;
+        }
+
+        for (const line of formatUsageLines(this.usageAnalytics.getSessionSummary(session))) {
+            tooltip += `\n${line}`;
+        }
+
         return tooltip;
     }
 
+    /**
+     * 获取会话实际使用的模型
+     * 使用会话记录中响应返回的模型名称，经过提供商模型映射时即为网关实际使用的模型
+     * @param session - 会话对象
+     * @returns 模型名称，最近使用的在前
+     */
+    private getSessionModels(session: Session): string[] {
+        const lastUsed = new Map<string, string>();
+        for (const bucket of session.usage?.buckets || []) {
+            const previous = lastUsed.get(bucket.model);
+            if (!previous || bucket.lastAt > previous) {
+                lastUsed.set(bucket.model, bucket.lastAt);
+            }
+        }
+        return [...lastUsed.entries()]
+            .sort((a, b) => b[1].localeCompare(a[1]))
+            .map(([model]) => model);
+    }
+
     /**
      * 同步Claude目录
      * 从Claude CLI的本地目录同步会话数据，更新视图显示
@@ -525,8 +755,8 @@ export class ClaudeSessionProvider implements vscode.TreeDataProvider<ClaudeSess
     public async syncWithClaudeDirectory(): Promise<void> {
         try {
             logger.info('Starting sync with Claude directory...', 'ClaudeSessionProvider');
-            this.sessionManager.syncWithClaudeDirectory();
-            this.refresh();
+            // 同步结果通过 sessions:synced 事件增量应用到视图
+            await this.sessionManager.syncWithClaudeDirectory();
             logger.info('Sync with Claude directory completed', 'ClaudeSessionProvider');
         } catch (error) {
             logger.error('Failed to sync with Claude directory', 'ClaudeSessionProvider', error as Error);